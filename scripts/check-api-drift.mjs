@@ -0,0 +1,485 @@
+/**
+ * Report drift between openapi.json and the hand-written API wrappers in src/
+ *
+ * Checks:
+ * - endpoints called from src/ that the spec does not describe
+ * - spec operations that no hand-written wrapper calls
+ * - interfaces in api-client.ts whose fields differ from the same-named spec schema (including
+ *   fields inherited from generated or sibling-module interfaces they extend)
+ * - fields typed `any` where the spec declares a concrete type
+ * - whether src/lib/api-generated.ts matches the current spec
+ *
+ * openapi.json is exported from the backend and never edited by hand. Calls and fields the
+ * backend doesn't serve yet, or that the export leaves out, are listed in PENDING_SPEC below
+ * instead of being reported as drift.
+ *
+ * Usage:
+ *   node scripts/check-api-drift.mjs           Print the report
+ *   node scripts/check-api-drift.mjs --strict  Also exit non-zero when drift is found
+ */
+
+import { readFileSync, readdirSync, existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import path from 'node:path';
+import { collectOperations, generate, operationName, toType } from './generate-api.mjs';
+
+const rootDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const srcDir = path.join(rootDir, 'src');
+const apiClientPath = path.join(srcDir, 'lib/api-client.ts');
+const generatedPath = path.join(srcDir, 'lib/api-generated.ts');
+
+// Files that mirror the spec rather than call it
+const IGNORED_FILES = new Set([generatedPath, path.join(srcDir, 'lib/mock-api.ts')]);
+
+const HELPER_METHODS = {
+  apiGet: 'GET',
+  apiPost: 'POST',
+  apiPut: 'PUT',
+  apiPatch: 'PATCH',
+  apiDelete: 'DELETE',
+};
+
+const spec = JSON.parse(readFileSync(path.join(rootDir, 'openapi.json'), 'utf8'));
+const schemas = spec.components?.schemas ?? {};
+
+// ============================================================================
+// Known gaps
+// ============================================================================
+
+/**
+ * What the client uses that the exported spec doesn't describe, by the feature that needs it.
+ * Remove an entry once the spec has been re-exported from a backend that serves it.
+ */
+const PENDING_SPEC = [
+  {
+    feature: 'Live runs, runtimes and agents (called since before the spec was exported)',
+    endpoints: [
+      'POST /api/live-runs/trigger',
+      'DELETE /api/live-runs/sessions/{pod_instance_id}',
+      'GET /api/webrtc/ice-servers',
+      'POST /api/live-runs/runtime',
+      'POST /api/live-runs/sessions/{pod_instance_id}/agent/start',
+      'POST /api/live-runs/sessions/{pod_instance_id}/agent/stop',
+      'GET /api/live-runs/sessions/{pod_instance_id}/agent/status',
+      'POST /api/live-runs/sessions/{pod_instance_id}/browser/reset',
+    ],
+    fields: ['TestRunResponse.platform', 'TestRunWithSessionsResponse.platform', 'TestRunWithSessionsResponse.scenarios'],
+  },
+  {
+    feature: 'App registry (called since before the spec was exported)',
+    endpoints: [
+      'GET /api/app-registry/apps',
+      'POST /api/app-registry/apps',
+      'POST /api/app-registry/apps/{app_id}/build-uploads',
+      'POST /api/app-registry/builds/{build_id}/complete',
+      'DELETE /api/app-registry/builds/{build_id}',
+    ],
+    fields: [],
+  },
+  {
+    feature: 'Signed-in sessions',
+    endpoints: [
+      'GET /api/auth/sessions',
+      'DELETE /api/auth/sessions/{session_id}',
+      'POST /api/auth/sessions/revoke-all',
+    ],
+    fields: [],
+  },
+  {
+    feature: 'Workspace members and invitations',
+    endpoints: [
+      'GET /api/projects/{project_id}/deletion-preview',
+      'GET /api/projects/{project_id}/members',
+      'PATCH /api/projects/{project_id}/members/{member_id}',
+      'DELETE /api/projects/{project_id}/members/{member_id}',
+      'GET /api/projects/{project_id}/invitations',
+      'POST /api/projects/{project_id}/invitations',
+      'DELETE /api/projects/{project_id}/invitations/{invitation_id}',
+      'POST /api/invitations/{token}/accept',
+    ],
+    fields: ['ProjectResponse.role'],
+  },
+  {
+    feature: 'Suite cloning',
+    endpoints: ['POST /api/test-suites/{test_suite_id}/clone'],
+    fields: [],
+  },
+  {
+    feature: 'Suite environments',
+    endpoints: [
+      'GET /api/test-suites/{test_suite_id}/environments',
+      'POST /api/test-suites/{test_suite_id}/environments',
+      'PATCH /api/test-suites/{test_suite_id}/environments/{environment_id}',
+      'DELETE /api/test-suites/{test_suite_id}/environments/{environment_id}',
+    ],
+    fields: [
+      'TestRunResponse.environment_id',
+      'TestRunCreate.environment_id',
+      'TestRunWithSessionsResponse.environment_id',
+      'ScheduleResponse.environment_id',
+      'ScheduleCreate.environment_id',
+      'ScheduleUpdate.environment_id',
+      'SecretResponse.project_id',
+    ],
+  },
+  {
+    feature: 'Matrix runs',
+    endpoints: ['POST /api/live-runs/matrix', 'GET /api/test-runs/matrix/{matrix_id}'],
+    fields: [
+      'TestRunResponse.resolution',
+      'TestRunResponse.matrix_id',
+      'TestRunWithSessionsResponse.resolution',
+      'TestRunWithSessionsResponse.matrix_id',
+    ],
+  },
+  {
+    feature: 'Device profiles',
+    endpoints: [
+      'GET /api/projects/{project_id}/device-profiles',
+      'POST /api/projects/{project_id}/device-profiles',
+      'PATCH /api/projects/{project_id}/device-profiles/{profile_id}',
+      'DELETE /api/projects/{project_id}/device-profiles/{profile_id}',
+    ],
+    fields: [],
+  },
+  {
+    feature: 'Precondition blocks',
+    endpoints: [
+      'GET /api/projects/{project_id}/precondition-blocks',
+      'POST /api/projects/{project_id}/precondition-blocks',
+      'PATCH /api/projects/{project_id}/precondition-blocks/{block_id}',
+      'DELETE /api/projects/{project_id}/precondition-blocks/{block_id}',
+    ],
+    fields: ['TestRunWithSessionsResponse.preconditions'],
+  },
+  {
+    feature: 'Saved browser context',
+    endpoints: [],
+    fields: [
+      'TestSuiteResponse.persistent_context',
+      'ScheduleResponse.reset_context_before_run',
+      'ScheduleCreate.reset_context_before_run',
+      'ScheduleUpdate.reset_context_before_run',
+    ],
+  },
+  {
+    feature: 'Attachments as generation context',
+    endpoints: [],
+    fields: [
+      'TestSuiteAttachmentResponse.used_in_generation_at',
+      'ScenarioGenerationRequest.attachment_ids',
+      'ScenarioGenerationResponse.attachment_ids',
+    ],
+  },
+  {
+    feature: 'Suite tags and folders',
+    endpoints: [],
+    fields: [
+      'TestSuiteResponse.tags',
+      'TestSuiteResponse.folder',
+      'TestSuiteResponse.last_run',
+      'TestSuiteCreate.tags',
+      'TestSuiteCreate.folder',
+      'TestSuiteUpdate.tags',
+      'TestSuiteUpdate.folder',
+      'ScheduleResponse.tag',
+      'ScheduleCreate.tag',
+      'ScheduleUpdate.tag',
+    ],
+  },
+  {
+    feature: 'Structured scenarios and data tables',
+    endpoints: ['PUT /api/scenarios/reorder'],
+    fields: ['ScenarioResponse', 'ScenarioCreate', 'ScenarioUpdate'].flatMap((name) =>
+      ['steps', 'assertions', 'max_steps', 'start_url', 'data_table'].map((field) => `${name}.${field}`)
+    ).concat('ScenarioResponse.position'),
+  },
+  {
+    feature: 'Iterative scenario generation',
+    endpoints: [],
+    fields: [
+      'ScenarioGenerationRequest.previous_scenarios',
+      'ScenarioGenerationRequest.rejected_scenarios',
+      'ScenarioGenerationRequest.existing_scenarios',
+      'ScenarioGenerationRequest.refinement',
+      'ScenarioGenerationResponse.categories',
+    ],
+  },
+];
+
+// ============================================================================
+// Endpoint usage
+// ============================================================================
+
+const listSourceFiles = (dir) =>
+  readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return listSourceFiles(fullPath);
+    }
+    return /\.(ts|tsx)$/.test(entry.name) && !IGNORED_FILES.has(fullPath) ? [fullPath] : [];
+  });
+
+/**
+ * Normalize a path so `/api/x/${id}?a=1` and `/api/x/{x_id}` compare equal
+ */
+const normalizePath = (value) =>
+  value
+    .split('?')[0]
+    .replace(/\$\{[^}]*\}/g, '{}')
+    .replace(/\{[^}]*\}/g, '{}')
+    // `${id}${params}` and `apps${suffix}` append a query string, not a path segment
+    .replace(/(\{\})+/g, '{}')
+    .replace(/([^/])\{\}$/, '$1');
+
+const pendingEndpoints = new Set(
+  PENDING_SPEC.flatMap((entry) =>
+    entry.endpoints.map((endpoint) => {
+      const [method, pathTemplate] = endpoint.split(' ');
+      return `${method} ${normalizePath(pathTemplate)}`;
+    })
+  )
+);
+const pendingFields = new Set(PENDING_SPEC.flatMap((entry) => entry.fields));
+
+const API_LITERAL = /[`'"](\/api\/[^`'"]*)[`'"]/g;
+
+const generatedOperations = new Map(
+  collectOperations().map((entry) => [operationName(entry.operation), entry])
+);
+
+const findEndpointUsages = () => {
+  const usages = [];
+  const callPattern = /\b(apiGet|apiPost|apiPut|apiPatch|apiDelete|apiRequest)\b(?:<[^>(]*>)?\(/g;
+
+  for (const filePath of listSourceFiles(srcDir)) {
+    const source = readFileSync(filePath, 'utf8');
+    let match;
+    while ((match = callPattern.exec(source))) {
+      const helper = match[1];
+      const callStart = match.index;
+      const argsText = source.slice(callStart, callStart + 400);
+
+      let method = HELPER_METHODS[helper];
+      if (!method) {
+        const methodMatch = argsText.match(/method:\s*['"](\w+)['"]/);
+        method = methodMatch ? methodMatch[1].toUpperCase() : 'GET';
+      }
+
+      // Prefer a literal passed directly; otherwise look back through the enclosing
+      // function for the literals the endpoint variable was built from.
+      const directLiteral = argsText.slice(match[0].length).match(/^\s*[`'"](\/api\/[^`'"]*)[`'"]/);
+      let literals = directLiteral ? [directLiteral[1]] : [];
+      if (!literals.length) {
+        const functionStart = Math.max(
+          source.lastIndexOf('\nexport const ', callStart),
+          source.lastIndexOf('\nconst ', callStart)
+        );
+        const region = source.slice(Math.max(functionStart, 0), callStart);
+        literals = [...region.matchAll(API_LITERAL)].map((literalMatch) => literalMatch[1]);
+      }
+
+      const line = source.slice(0, callStart).split('\n').length;
+      for (const literal of new Set(literals.map(normalizePath))) {
+        usages.push({ method, path: literal, location: `${path.relative(rootDir, filePath)}:${line}` });
+      }
+    }
+
+    // Calls through the generated endpoint functions use their operation's path
+    for (const endpointMatch of source.matchAll(/\bapiEndpoints\.(\w+)\(/g)) {
+      const operation = generatedOperations.get(endpointMatch[1]);
+      if (!operation) continue;
+      const line = source.slice(0, endpointMatch.index).split('\n').length;
+      usages.push({
+        method: operation.method.toUpperCase(),
+        path: normalizePath(operation.path),
+        location: `${path.relative(rootDir, filePath)}:${line}`,
+      });
+    }
+  }
+  return usages;
+};
+
+// ============================================================================
+// Interface drift
+// ============================================================================
+
+/**
+ * Extract `export interface Name { field?: type; }` blocks (top-level fields only)
+ */
+const parseInterfaces = (source) => {
+  const interfaces = new Map();
+  const headerPattern = /export interface (\w+)(?: extends (\w+))? \{\n/g;
+  let match;
+  while ((match = headerPattern.exec(source))) {
+    const fields = new Map();
+    let depth = 1;
+    let index = headerPattern.lastIndex;
+    let lineStart = index;
+    let lineDepth = depth;
+    for (; index < source.length && depth > 0; index++) {
+      const char = source[index];
+      if (char === '{') depth++;
+      if (char === '}') depth--;
+      if (char === '\n') {
+        const line = source.slice(lineStart, index);
+        const fieldMatch = lineDepth === 1 && line.match(/^ {2}(\w+)(\?)?:\s*(.+?);?$/);
+        if (fieldMatch) {
+          fields.set(fieldMatch[1], { optional: Boolean(fieldMatch[2]), type: fieldMatch[3] });
+        }
+        lineStart = index + 1;
+        lineDepth = depth;
+      }
+    }
+    interfaces.set(match[1], { fields, extends: match[2] });
+  }
+  return interfaces;
+};
+
+/**
+ * Local names of the types imported from sibling modules, e.g. `X as GeneratedX` from
+ * './api-generated' maps GeneratedX to { module: 'api-generated', name: 'X' }
+ */
+const parseLocalImports = (source) => {
+  const imports = new Map();
+  const importPattern = /import (?:type )?\{([^}]*)\} from '\.\/([\w-]+)';/g;
+  for (const [, names, module] of source.matchAll(importPattern)) {
+    for (const specifier of names.split(',')) {
+      const [imported, local = imported] = specifier.trim().split(/\s+as\s+/);
+      if (imported) imports.set(local, { module, name: imported });
+    }
+  }
+  return imports;
+};
+
+const moduleInterfaces = new Map();
+
+const readModuleInterfaces = (module) => {
+  if (!moduleInterfaces.has(module)) {
+    const modulePath = path.join(srcDir, 'lib', `${module}.ts`);
+    const source = existsSync(modulePath) ? readFileSync(modulePath, 'utf8') : '';
+    moduleInterfaces.set(module, { interfaces: parseInterfaces(source), imports: parseLocalImports(source) });
+  }
+  return moduleInterfaces.get(module);
+};
+
+const interfaceFields = (interfaces, imports, name) => {
+  const entry = interfaces.get(name);
+  if (entry) {
+    return new Map([...interfaceFields(interfaces, imports, entry.extends), ...entry.fields]);
+  }
+  const imported = imports.get(name);
+  if (!imported) return new Map();
+  if (imported.module === 'api-generated') {
+    // An interface extending a generated one inherits exactly the spec schema's fields
+    const schema = schemas[imported.name];
+    return new Map(
+      Object.entries(schema?.properties ?? {}).map(([field, fieldSchema]) => [field, { type: toType(fieldSchema) }])
+    );
+  }
+  // Base interfaces shared with other modules (e.g. DeviceProfileFields in resolutions.ts)
+  const module = readModuleInterfaces(imported.module);
+  return interfaceFields(module.interfaces, module.imports, imported.name);
+};
+
+const clientSource = readFileSync(apiClientPath, 'utf8');
+const clientInterfaces = parseInterfaces(clientSource);
+const clientImports = parseLocalImports(clientSource);
+
+const findInterfaceDrift = () => {
+  const drift = [];
+  const interfaces = clientInterfaces;
+  const imports = clientImports;
+
+  for (const name of interfaces.keys()) {
+    const schema = schemas[name];
+    if (!schema?.properties) continue;
+
+    const clientFields = interfaceFields(interfaces, imports, name);
+    const specFields = schema.properties;
+
+    for (const field of Object.keys(specFields)) {
+      if (!clientFields.has(field)) {
+        drift.push(`${name}.${field} is in the spec but missing from api-client.ts`);
+      }
+    }
+    for (const [field, { type }] of clientFields) {
+      if (!(field in specFields)) {
+        if (!pendingFields.has(`${name}.${field}`)) drift.push(`${name}.${field} is not in the spec`);
+      } else if (/\bany\b/.test(type) && !toType(specFields[field]).includes('unknown')) {
+        drift.push(`${name}.${field} is typed \`${type}\` but the spec declares a concrete type`);
+      }
+    }
+  }
+  return drift;
+};
+
+/**
+ * PENDING_SPEC fields to drop: the spec has them now, or api-client.ts no longer does
+ */
+const findStalePendingFields = () =>
+  [...pendingFields].flatMap((key) => {
+    const [name, field] = key.split('.');
+    if (schemas[name]?.properties && field in schemas[name].properties) {
+      return [`${key} is in the spec now`];
+    }
+    return interfaceFields(clientInterfaces, clientImports, name).has(field) ? [] : [`${key} is no longer in api-client.ts`];
+  });
+
+// ============================================================================
+// Report
+// ============================================================================
+
+const specOperations = collectOperations().map(({ path: pathTemplate, method }) => ({
+  method: method.toUpperCase(),
+  path: normalizePath(pathTemplate),
+  original: pathTemplate,
+}));
+const specKeys = new Set(specOperations.map((operation) => `${operation.method} ${operation.path}`));
+
+const usages = findEndpointUsages();
+const usedKeys = new Set(usages.map((usage) => `${usage.method} ${usage.path}`));
+
+const undocumented = usages.filter(
+  (usage) => !specKeys.has(`${usage.method} ${usage.path}`) && !pendingEndpoints.has(`${usage.method} ${usage.path}`)
+);
+// PENDING_SPEC entries to drop: the spec has them now, or nothing uses them any more
+const stalePending = [
+  ...[...pendingEndpoints]
+    .filter((key) => specKeys.has(key) || !usedKeys.has(key))
+    .map((key) => `${key} ${specKeys.has(key) ? 'is in the spec now' : 'is no longer called'}`),
+  ...findStalePendingFields(),
+];
+
+const unwrapped = specOperations.filter((operation) => !usedKeys.has(`${operation.method} ${operation.path}`));
+const interfaceDrift = findInterfaceDrift();
+const generatedStale = !existsSync(generatedPath) || readFileSync(generatedPath, 'utf8') !== generate();
+
+const printSection = (title, lines) => {
+  console.log(`\n${title} (${lines.length})`);
+  lines.forEach((line) => console.log(`  - ${line}`));
+};
+
+printSection(
+  'Endpoints called from src/ but missing from openapi.json',
+  [...new Map(undocumented.map((usage) => [`${usage.method} ${usage.path}`, usage])).values()].map(
+    (usage) => `${usage.method} ${usage.path} (${usage.location})`
+  )
+);
+printSection(
+  'Spec operations without a hand-written wrapper',
+  unwrapped.map((operation) => `${operation.method} ${operation.original}`)
+);
+printSection('Interface drift in src/lib/api-client.ts', interfaceDrift);
+printSection('Stale PENDING_SPEC entries', stalePending);
+console.log(
+  `\nPending in the backend spec: ${pendingEndpoints.size} endpoints and ${pendingFields.size} fields across ${PENDING_SPEC.length} features`
+);
+console.log(
+  `\nsrc/lib/api-generated.ts: ${generatedStale ? 'OUT OF DATE, run `npm run generate:api`' : 'up to date'}`
+);
+
+const hasDrift = undocumented.length > 0 || interfaceDrift.length > 0 || stalePending.length > 0 || generatedStale;
+if (process.argv.includes('--strict') && hasDrift) {
+  process.exit(1);
+}
@@ -0,0 +1,264 @@
+/**
+ * Generate typed request/response interfaces and endpoint functions from openapi.json
+ *
+ * Usage:
+ *   node scripts/generate-api.mjs          Write src/lib/api-generated.ts
+ *   node scripts/generate-api.mjs --check  Exit non-zero if the generated file is out of date
+ */
+
+import { readFileSync, writeFileSync, existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import path from 'node:path';
+
+const rootDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const specPath = path.join(rootDir, 'openapi.json');
+const outputPath = path.join(rootDir, 'src/lib/api-generated.ts');
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+const spec = JSON.parse(readFileSync(specPath, 'utf8'));
+const schemas = spec.components?.schemas ?? {};
+
+// ============================================================================
+// Naming helpers
+// ============================================================================
+
+const toCamelCase = (value) => {
+  const words = value
+    .replace(/[^A-Za-z0-9]+/g, ' ')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+  return words
+    .map((word, index) => {
+      const lower = word.toLowerCase();
+      return index === 0 ? lower : lower.charAt(0).toUpperCase() + lower.slice(1);
+    })
+    .join('');
+};
+
+const refName = (ref) => ref.split('/').pop();
+
+const isValidIdentifier = (key) => /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key);
+
+const formatKey = (key) => (isValidIdentifier(key) ? key : `'${key}'`);
+
+const formatDoc = (lines, indent) => {
+  const content = lines.filter(Boolean);
+  if (!content.length) {
+    return '';
+  }
+  const body = content
+    .flatMap((line) => line.split('\n'))
+    .map((line) => `${indent} *${line.trim() ? ` ${line.trim()}` : ''}`)
+    .join('\n');
+  return `${indent}/**\n${body}\n${indent} */\n`;
+};
+
+// ============================================================================
+// Schema -> TypeScript
+// ============================================================================
+
+export const toType = (schema, indent = '') => {
+  if (!schema || Object.keys(schema).length === 0) {
+    return 'unknown';
+  }
+
+  if (schema.$ref) {
+    return refName(schema.$ref);
+  }
+
+  if (schema.anyOf || schema.oneOf) {
+    const variants = (schema.anyOf || schema.oneOf).map((variant) => toType(variant, indent));
+    return [...new Set(variants)].join(' | ');
+  }
+
+  if (schema.enum) {
+    return schema.enum.map((value) => JSON.stringify(value)).join(' | ');
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return schema.format === 'binary' ? 'Blob' : 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      if (schema.prefixItems) {
+        return `[${schema.prefixItems.map((item) => toType(item, indent)).join(', ')}]`;
+      }
+      const itemType = toType(schema.items, indent);
+      return itemType.includes(' ') ? `Array<${itemType}>` : `${itemType}[]`;
+    }
+    case 'object':
+    default:
+      if (schema.properties) {
+        return `{\n${renderProperties(schema, `${indent}  `)}${indent}}`;
+      }
+      return 'Record<string, unknown>';
+  }
+};
+
+const renderProperties = (schema, indent) => {
+  const required = new Set(schema.required ?? []);
+  return Object.entries(schema.properties ?? {})
+    .map(([key, propSchema]) => {
+      const optional = required.has(key) ? '' : '?';
+      const doc = propSchema.description ? formatDoc([propSchema.description], indent) : '';
+      return `${doc}${indent}${formatKey(key)}${optional}: ${toType(propSchema, indent)};\n`;
+    })
+    .join('');
+};
+
+const renderSchema = (name, schema) => {
+  const doc = formatDoc([schema.description], '');
+  if (schema.type === 'object' || schema.properties) {
+    return `${doc}export interface ${name} {\n${renderProperties(schema, '  ')}}\n`;
+  }
+  return `${doc}export type ${name} = ${toType(schema)};\n`;
+};
+
+// ============================================================================
+// Operations -> endpoint functions
+// ============================================================================
+
+// Endpoint arguments sit on 4-space lines; inline object types nest from there
+const ARG_INDENT = '    ';
+
+const jsonSchemaOf = (content) => content?.['application/json']?.schema;
+
+const responseType = (operation) => {
+  const responses = operation.responses ?? {};
+  const successCode = Object.keys(responses).find((code) => code.startsWith('2'));
+  if (!successCode || successCode === '204') {
+    return 'void';
+  }
+  const schema = jsonSchemaOf(responses[successCode].content);
+  return schema ? toType(schema, '  ') : 'void';
+};
+
+/**
+ * Name of the generated endpoint function for a spec operation
+ */
+export const operationName = (operation) => toCamelCase(operation.summary || operation.operationId);
+
+const renderOperation = (pathTemplate, method, operation) => {
+  const name = operationName(operation);
+  const parameters = operation.parameters ?? [];
+  const pathParams = parameters.filter((param) => param.in === 'path');
+  const queryParams = parameters.filter((param) => param.in === 'query');
+
+  const args = pathParams.map((param) => `${toCamelCase(param.name)}: ${toType(param.schema, ARG_INDENT)}`);
+
+  const requestBody = operation.requestBody;
+  let bodyExpression = '';
+  if (requestBody) {
+    const jsonSchema = jsonSchemaOf(requestBody.content);
+    if (jsonSchema) {
+      const optional = requestBody.required ? '' : '?';
+      args.push(`body${optional}: ${toType(jsonSchema, ARG_INDENT)}`);
+      bodyExpression = requestBody.required ? 'JSON.stringify(body)' : 'body ? JSON.stringify(body) : undefined';
+    } else if (requestBody.content?.['multipart/form-data']) {
+      args.push('body: FormData');
+      bodyExpression = 'body';
+    }
+  }
+
+  if (queryParams.length) {
+    const queryType = queryParams
+      .map((param) => `${formatKey(param.name)}${param.required ? '' : '?'}: ${toType(param.schema, ARG_INDENT)}`)
+      .join('; ');
+    const allOptional = queryParams.every((param) => !param.required);
+    args.push(`query${allOptional ? '?' : ''}: { ${queryType} }`);
+  }
+
+  args.push('options: ApiRequestOptions = {}');
+
+  const urlTemplate = pathTemplate.replace(/\{([^}]+)\}/g, (_match, paramName) => {
+    return `\${encodeURIComponent(String(${toCamelCase(paramName)}))}`;
+  });
+  const urlLiteral = urlTemplate === pathTemplate ? `'${pathTemplate}'` : `\`${urlTemplate}\``;
+  const endpoint = queryParams.length ? `withQuery(${urlLiteral}, query)` : urlLiteral;
+
+  const requestOptions = [`...options`, `method: '${method.toUpperCase()}'`];
+  if (bodyExpression) {
+    requestOptions.push(`body: ${bodyExpression}`);
+  }
+
+  const doc = formatDoc(
+    [
+      `${method.toUpperCase()} ${pathTemplate}`,
+      operation.description && operation.description !== operation.summary ? `\n${operation.description}` : '',
+    ],
+    '  '
+  );
+
+  return (
+    `${doc}  ${name}: (\n    ${args.join(',\n    ')}\n  ): Promise<${responseType(operation)}> => {\n` +
+    `    return apiRequest(${endpoint}, { ${requestOptions.join(', ')} });\n  },\n`
+  );
+};
+
+// ============================================================================
+// Output
+// ============================================================================
+
+export const collectOperations = () => {
+  const operations = [];
+  for (const [pathTemplate, pathItem] of Object.entries(spec.paths ?? {})) {
+    for (const method of HTTP_METHODS) {
+      if (pathItem[method]) {
+        operations.push({ path: pathTemplate, method, operation: pathItem[method] });
+      }
+    }
+  }
+  return operations;
+};
+
+export const generate = () => {
+  const sections = [
+    `/**\n * Types and endpoint functions generated from openapi.json (${spec.info?.title} ${spec.info?.version})\n *\n * DO NOT EDIT BY HAND. Run \`npm run generate:api\` after updating the spec.\n */\n`,
+    `import { apiRequest } from './api-client';\nimport type { ApiRequestOptions } from './api-client';\n`,
+    `// ============================================================================\n// Schemas\n// ============================================================================\n`,
+    ...Object.entries(schemas).map(([name, schema]) => renderSchema(name, schema)),
+    `// ============================================================================\n// Endpoints\n// ============================================================================\n`,
+    `const withQuery = (endpoint: string, query?: Record<string, string | number | boolean | null | undefined>): string => {\n` +
+      `  const params = new URLSearchParams();\n` +
+      `  Object.entries(query ?? {}).forEach(([key, value]) => {\n` +
+      `    if (value !== undefined && value !== null) {\n` +
+      `      params.append(key, String(value));\n` +
+      `    }\n` +
+      `  });\n` +
+      `  const queryString = params.toString();\n` +
+      `  return queryString ? \`\${endpoint}?\${queryString}\` : endpoint;\n` +
+      `};\n`,
+    `/**\n * One function per spec operation, named after its summary\n */\n` +
+      `export const apiEndpoints = {\n` +
+      collectOperations()
+        .map(({ path: pathTemplate, method, operation }) => renderOperation(pathTemplate, method, operation))
+        .join('\n') +
+      `};\n`,
+  ];
+  return sections.join('\n');
+};
+
+const isMain = process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url);
+
+if (isMain) {
+  const output = generate();
+  if (process.argv.includes('--check')) {
+    const current = existsSync(outputPath) ? readFileSync(outputPath, 'utf8') : '';
+    if (current !== output) {
+      console.error(`${path.relative(rootDir, outputPath)} is out of date. Run \`npm run generate:api\`.`);
+      process.exit(1);
+    }
+    console.log(`${path.relative(rootDir, outputPath)} is up to date.`);
+  } else {
+    writeFileSync(outputPath, output);
+    console.log(`Wrote ${path.relative(rootDir, outputPath)}`);
+  }
+}
@@ -10,6 +10,8 @@ import { ProjectProvider } from "./contexts/ProjectContext";
 import { RuntimeProvider } from "./contexts/RuntimeContext";
 import { ProtectedRoute } from "./components/ProtectedRoute";
 import { AppLayout } from "./components/app/AppLayout";
+import { ProjectScope } from "./components/app/ProjectScope";
+import { LegacyProjectRedirect } from "./components/app/LegacyProjectRedirect";
 import AuthPage from "./pages/auth/AuthPage";
 import { DashboardPage } from "./pages/app/DashboardPage";
 import { TestSuitesPage } from "./pages/app/TestSuitesPage";
@@ -21,8 +23,12 @@ import PricingPage from "./pages/app/PricingPage";
 import SecretsPage from "./pages/app/SecretsPage";
 import CreateTestSuitePage from "./pages/app/CreateTestSuitePage";
 import AppRegistryPage from "./pages/app/AppRegistryPage";
+import AccountPage from "./pages/app/AccountPage";
+import ProjectSettingsPage from "./pages/app/ProjectSettingsPage";
+import AcceptInvitationPage from "./pages/app/AcceptInvitationPage";
 import { AuthCallbackPage } from "./pages/app/AuthCallbackPage";
 import { Toaster } from "./components/ui/toaster";
+import { ApiFixturesBar } from "./components/ApiFixturesBar";
 import "./App.css";
 
 function App() {
@@ -42,16 +48,32 @@ function App() {
             }
           >
             <Route path="/" element={<Navigate to="/dashboard" replace />} />
-            <Route path="/dashboard" element={<DashboardPage />} />
-            <Route path="/test-suites" element={<TestSuitesPage />} />
-            <Route path="/create-suite" element={<CreateTestSuitePage />} />
-            <Route path="/suite/:suiteId/runs" element={<TestSuiteRunsPage />} />
-            <Route path="/test-runs" element={<TestRunsPage />} />
-            <Route path="/test-runs/:runId" element={<TestRunDetailPage />} />
-            <Route path="/scheduler" element={<SchedulerPage />} />
+            <Route path="/p/:projectId" element={<ProjectScope />}>
+              <Route index element={<Navigate to="dashboard" replace />} />
+              <Route path="dashboard" element={<DashboardPage />} />
+              <Route path="test-suites" element={<TestSuitesPage />} />
+              <Route path="create-suite" element={<CreateTestSuitePage />} />
+              <Route path="suite/:suiteId/runs" element={<TestSuiteRunsPage />} />
+              <Route path="test-runs" element={<TestRunsPage />} />
+              <Route path="test-runs/:runId" element={<TestRunDetailPage />} />
+              <Route path="scheduler" element={<SchedulerPage />} />
+              <Route path="app-registry" element={<AppRegistryPage />} />
+              <Route path="settings" element={<ProjectSettingsPage />} />
+            </Route>
+            {/* Links from before project-scoped URLs */}
+            <Route path="/dashboard" element={<LegacyProjectRedirect />} />
+            <Route path="/test-suites" element={<LegacyProjectRedirect />} />
+            <Route path="/create-suite" element={<LegacyProjectRedirect />} />
+            <Route path="/suite/:suiteId/runs" element={<LegacyProjectRedirect />} />
+            <Route path="/test-runs" element={<LegacyProjectRedirect />} />
+            <Route path="/test-runs/:runId" element={<LegacyProjectRedirect />} />
+            <Route path="/scheduler" element={<LegacyProjectRedirect />} />
+            <Route path="/app-registry" element={<LegacyProjectRedirect />} />
+            <Route path="/settings" element={<LegacyProjectRedirect />} />
+            <Route path="/invitations/:token" element={<AcceptInvitationPage />} />
             <Route path="/pricing" element={<PricingPage />} />
             <Route path="/secrets" element={<SecretsPage />} />
-            <Route path="/app-registry" element={<AppRegistryPage />} />
+            <Route path="/account" element={<AccountPage />} />
             <Route path="/integrations" element={
               <div className="flex items-center justify-center min-h-[calc(100vh-4rem)] p-6">
                 <div className="text-center space-y-4 max-w-md">
@@ -72,6 +94,7 @@ function App() {
           </Route>
         </Routes>
         <Toaster />
+        <ApiFixturesBar />
       </Router>
         </RuntimeProvider>
       </ProjectProvider>
@@ -0,0 +1,94 @@
+import { useRef, useSyncExternalStore } from "react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import {
+  clearApiFixtures,
+  getApiFixtureState,
+  getRecordedFixtureBundle,
+  loadApiFixtureBundle,
+  subscribeApiFixtures,
+} from "@/lib/api-fixtures";
+import { triggerDownload } from "@/lib/download";
+import { Circle, Download, Play, Upload, X } from "lucide-react";
+
+/**
+ * Floating controls shown while API fixtures are being recorded or replayed
+ */
+export function ApiFixturesBar() {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { mode, fixtureCount, hasBundle } = useSyncExternalStore(subscribeApiFixtures, getApiFixtureState);
+
+  if (mode === "off") {
+    return null;
+  }
+
+  const handleDownload = () => {
+    const bundle = getRecordedFixtureBundle();
+    const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    triggerDownload(url, `kplr-fixtures-${bundle.recorded_at.replace(/[:.]/g, "-")}.json`);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      await loadApiFixtureBundle(file);
+      // Start over so every page loads from the bundle
+      window.location.reload();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load fixture bundle",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleExit = () => {
+    clearApiFixtures();
+    window.location.reload();
+  };
+
+  return (
+    <div className="fixed bottom-4 left-1/2 z-50 flex -translate-x-1/2 items-center gap-3 rounded-full border bg-background px-4 py-2 text-sm shadow-lg">
+      {mode === "record" ? (
+        <>
+          <Circle className="h-3 w-3 fill-red-500 text-red-500 animate-pulse" />
+          <span>
+            Recording API responses ({fixtureCount})
+          </span>
+          <Button size="sm" variant="outline" onClick={handleDownload} disabled={fixtureCount === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Download
+          </Button>
+        </>
+      ) : (
+        <>
+          <Play className="h-4 w-4 text-orange-500" />
+          <span>
+            {hasBundle ? `Replaying ${fixtureCount} recorded responses` : "Replay mode: load a fixture bundle"}
+          </span>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="mr-2 h-4 w-4" />
+            {hasBundle ? "Load another" : "Load bundle"}
+          </Button>
+        </>
+      )}
+      <Button size="icon" variant="ghost" className="h-7 w-7" onClick={handleExit} title="Stop and discard">
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useProject } from "@/contexts/ProjectContext";
+import { useToast } from "@/hooks/use-toast";
+import { useFieldErrors } from "@/hooks/use-field-errors";
+import { FieldErrorMessage } from "@/components/FieldErrorMessage";
+import { cn } from "@/lib/utils";
+import { canEditProject, getProjectRole } from "@/lib/project-roles";
+import { cloneTestSuite, type TestSuiteResponse } from "@/lib/api-client";
+
+interface CloneSuiteDialogProps {
+  /** The suite to clone; the dialog is open while this is set */
+  suite: TestSuiteResponse | null;
+  onOpenChange: (open: boolean) => void;
+  onCloned: (clone: TestSuiteResponse) => void;
+}
+
+export function CloneSuiteDialog({ suite, onOpenChange, onCloned }: CloneSuiteDialogProps) {
+  const { projects } = useProject();
+  const { toast } = useToast();
+  const { fieldErrors, applyError, clearFieldError, clearFieldErrors } = useFieldErrors();
+  const [name, setName] = useState("");
+  const [applicationUrl, setApplicationUrl] = useState("");
+  const [projectId, setProjectId] = useState("");
+  const [isCloning, setIsCloning] = useState(false);
+
+  // Only projects the user can add suites to
+  const targetProjects = projects.filter((project) => canEditProject(getProjectRole(project)));
+
+  useEffect(() => {
+    if (!suite) return;
+    setName(`${suite.name} (copy)`);
+    setApplicationUrl(suite.application_url ?? "");
+    setProjectId(suite.project_id.toString());
+    clearFieldErrors();
+  }, [suite, clearFieldErrors]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!suite || !name.trim()) return;
+
+    setIsCloning(true);
+    clearFieldErrors();
+    try {
+      const clone = await cloneTestSuite(suite.id, {
+        name: name.trim(),
+        application_url: applicationUrl.trim() || null,
+        project_id: Number(projectId),
+      });
+      const targetProject = projects.find((project) => project.id === clone.project_id);
+      toast({
+        title: "Success",
+        description:
+          clone.project_id === suite.project_id || !targetProject
+            ? `Cloned "${suite.name}" as "${clone.name}"`
+            : `Cloned "${suite.name}" into ${targetProject.name}`,
+      });
+      onOpenChange(false);
+      onCloned(clone);
+    } catch (error) {
+      if (!applyError(error)) {
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to clone test suite",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsCloning(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!suite} onOpenChange={(open) => !isCloning && onOpenChange(open)}>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Clone Test Suite</DialogTitle>
+            <DialogDescription>
+              Copies "{suite?.name}" with all of its settings, scenarios, attachments and environments. Run history is not copied.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="clone-name">Name</Label>
+              <Input
+                id="clone-name"
+                value={name}
+                onChange={(e) => {
+                  setName(e.target.value);
+                  clearFieldError("name");
+                }}
+                className={cn(fieldErrors.name && "border-destructive")}
+                required
+              />
+              <FieldErrorMessage message={fieldErrors.name} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="clone-application-url">Application URL</Label>
+              <Input
+                id="clone-application-url"
+                type="url"
+                placeholder="https://staging.example.com"
+                value={applicationUrl}
+                onChange={(e) => {
+                  setApplicationUrl(e.target.value);
+                  clearFieldError("application_url");
+                }}
+                className={cn(fieldErrors.application_url && "border-destructive")}
+              />
+              <FieldErrorMessage message={fieldErrors.application_url} />
+            </div>
+            <div className="space-y-2">
+              <Label>Workspace</Label>
+              <Select
+                value={projectId}
+                onValueChange={(value) => {
+                  setProjectId(value);
+                  clearFieldError("project_id");
+                }}
+              >
+                <SelectTrigger className={cn(fieldErrors.project_id && "border-destructive")}>
+                  <SelectValue placeholder="Select a workspace" />
+                </SelectTrigger>
+                <SelectContent>
+                  {targetProjects.map((project) => (
+                    <SelectItem key={project.id} value={project.id.toString()}>
+                      {project.name}
+                      {project.id === suite?.project_id && " (current)"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FieldErrorMessage message={fieldErrors.project_id} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isCloning}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isCloning || !name.trim() || !projectId}>
+              {isCloning && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Clone Suite
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
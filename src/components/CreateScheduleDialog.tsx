@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -13,14 +13,32 @@ import { Label } from "@/components/ui/label";
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
 import { useAuth } from "@/contexts/AuthContext";
 import { useProject } from "@/contexts/ProjectContext";
 import { useToast } from "@/hooks/use-toast";
-import { getTestSuites, createSchedule, type TestSuiteResponse, type ScheduleCreate } from "@/lib/api-client";
+import { useFieldErrors } from "@/hooks/use-field-errors";
+import { useApiQuery } from "@/hooks/use-api-query";
+import { FieldErrorMessage } from "@/components/FieldErrorMessage";
+import { cn } from "@/lib/utils";
+import {
+  getTestSuites,
+  getSuiteEnvironments,
+  createSchedule,
+  type TestSuiteResponse,
+  type ScheduleCreate,
+  type SuiteEnvironmentResponse,
+} from "@/lib/api-client";
+import { queryKeys } from "@/lib/query-cache";
+import { collectSuiteTags, getSelectorTag, tagSelectorValue } from "@/lib/suite-organization";
+
+// Select value for "whatever the suite's default environment is at run time"
+const DEFAULT_ENVIRONMENT = "default";
 
 
 interface CreateScheduleDialogProps {
@@ -38,47 +56,63 @@ export function CreateScheduleDialog({
   const { selectedProject } = useProject();
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
-  const [testSuites, setTestSuites] = useState<TestSuiteResponse[]>([]);
   
   const [formData, setFormData] = useState({
     name: "",
     test_suite_id: "",
+    environment_id: DEFAULT_ENVIRONMENT,
+    reset_context_before_run: false,
     schedule_type: "daily",
     time_of_day: "09:00",
     days_of_week: [] as number[],
     day_of_month: 1,
   });
+  const { fieldErrors, applyError, clearFieldError, clearFieldErrors } = useFieldErrors();
 
-  useEffect(() => {
-    if (open && user && selectedProject) {
-      fetchTestSuites();
-    }
-  }, [open, user, selectedProject]);
+  // The form calls the backend's `frequency` field `schedule_type`
+  const updateFormData = (updates: Partial<typeof formData>) => {
+    setFormData(prev => ({ ...prev, ...updates }));
+    Object.keys(updates).forEach((key) => clearFieldError(key === 'schedule_type' ? 'frequency' : key));
+  };
 
-  const fetchTestSuites = async () => {
-    if (!selectedProject) {
-      return;
+  const { data: testSuites = [] } = useApiQuery<TestSuiteResponse[]>(
+    queryKeys.testSuites(selectedProject?.id),
+    () => getTestSuites(selectedProject?.id),
+    {
+      enabled: open && Boolean(user && selectedProject),
+      onError: (error) => {
+        console.error('Error fetching test suites:', error);
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to load test suites",
+          variant: "destructive",
+        });
+      },
     }
+  );
 
-    try {
-      const suites = await getTestSuites(selectedProject.id);
-      setTestSuites(suites);
-    } catch (error) {
-      console.error('Error fetching test suites:', error);
-      toast({
-        title: "Error",
-        description: error instanceof Error ? error.message : "Failed to load test suites",
-        variant: "destructive",
-      });
-    }
-  };
+  // The target is either one suite or, as a "tag:" value, every suite with that tag when the run starts
+  const suiteTags = collectSuiteTags(testSuites);
+  const selectedTag = getSelectorTag(formData.test_suite_id);
+  const suiteId = formData.test_suite_id && !selectedTag ? parseInt(formData.test_suite_id, 10) : null;
+  const { data: environments = [] } = useApiQuery<SuiteEnvironmentResponse[]>(
+    queryKeys.suiteEnvironments(suiteId ?? 0),
+    () => getSuiteEnvironments(suiteId ?? 0),
+    { enabled: open && suiteId !== null }
+  );
+  const defaultEnvironment = environments.find((environment) => environment.is_default);
+  const chosenSuite = testSuites.find((suite) => suite.id === suiteId);
+  const taggedSuites = selectedTag ? testSuites.filter((suite) => suite.tags?.includes(selectedTag)) : [];
+  const canResetContext = selectedTag
+    ? taggedSuites.some((suite) => suite.has_persistent_context)
+    : Boolean(chosenSuite?.has_persistent_context);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user || !formData.test_suite_id) {
       toast({
         title: "Error",
-        description: "Please select a test suite",
+        description: "Please select a test suite or tag",
         variant: "destructive",
       });
       return;
@@ -86,23 +120,28 @@ export function CreateScheduleDialog({
 
     setLoading(true);
     try {
-      // Find the selected test suite to get project_id
-      const selectedSuite = testSuites.find(s => s.id === parseInt(formData.test_suite_id, 10));
-      if (!selectedSuite) {
+      if (!selectedProject) {
+        throw new Error("No workspace selected");
+      }
+      if (!selectedTag && !chosenSuite) {
         throw new Error("Selected test suite not found");
       }
 
       // Map form data to API format
       const scheduleData: ScheduleCreate = {
         name: formData.name,
-        project_id: selectedSuite.project_id,
-        test_suite_id: parseInt(formData.test_suite_id, 10),
+        project_id: chosenSuite?.project_id ?? selectedProject.id,
+        test_suite_id: chosenSuite?.id ?? null,
+        tag: selectedTag,
         frequency: formData.schedule_type as 'daily' | 'weekly' | 'monthly',
         time_of_day: formData.time_of_day,
         timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
         days_of_week: formData.schedule_type === 'weekly' ? formData.days_of_week : null,
         day_of_month: formData.schedule_type === 'monthly' ? formData.day_of_month : null,
         is_active: true,
+        environment_id:
+          selectedTag || formData.environment_id === DEFAULT_ENVIRONMENT ? null : parseInt(formData.environment_id, 10),
+        reset_context_before_run: canResetContext && formData.reset_context_before_run,
       };
 
       await createSchedule(scheduleData);
@@ -114,11 +153,14 @@ export function CreateScheduleDialog({
 
       onSuccess();
       onOpenChange(false);
+      clearFieldErrors();
       
       // Reset form
       setFormData({
         name: "",
         test_suite_id: "",
+        environment_id: DEFAULT_ENVIRONMENT,
+        reset_context_before_run: false,
         schedule_type: "daily",
         time_of_day: "09:00",
         days_of_week: [],
@@ -126,9 +168,12 @@ export function CreateScheduleDialog({
       });
     } catch (error) {
       console.error('Error creating schedule:', error);
+      const hasFieldErrors = applyError(error);
       toast({
         title: "Error",
-        description: error instanceof Error ? error.message : "Failed to create schedule",
+        description: hasFieldErrors
+          ? "Please fix the highlighted fields"
+          : error instanceof Error ? error.message : "Failed to create schedule",
         variant: "destructive",
       });
     } finally {
@@ -151,40 +196,109 @@ export function CreateScheduleDialog({
             <Input
               id="name"
               value={formData.name}
-              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              onChange={(e) => updateFormData({ name: e.target.value })}
               placeholder="e.g., Daily Regression Tests"
+              aria-invalid={Boolean(fieldErrors.name)}
+              className={cn(fieldErrors.name && "border-destructive")}
               required
             />
+            <FieldErrorMessage message={fieldErrors.name} />
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="test_suite_id">Test Suite</Label>
+            <Label htmlFor="test_suite_id">Test Suite or Tag</Label>
             <Select
               value={formData.test_suite_id}
-              onValueChange={(value) => setFormData({ ...formData, test_suite_id: value })}
+              onValueChange={(value) =>
+                updateFormData({ test_suite_id: value, environment_id: DEFAULT_ENVIRONMENT, reset_context_before_run: false })
+              }
               required
             >
-              <SelectTrigger>
+              <SelectTrigger className={cn(fieldErrors.test_suite_id && "border-destructive")}>
                 <SelectValue placeholder="Select a test suite" />
               </SelectTrigger>
               <SelectContent>
-                {testSuites.map((suite) => (
-                  <SelectItem key={suite.id} value={suite.id.toString()}>
-                    {suite.name}
-                  </SelectItem>
-                ))}
+                <SelectGroup>
+                  <SelectLabel>Suites</SelectLabel>
+                  {testSuites.map((suite) => (
+                    <SelectItem key={suite.id} value={suite.id.toString()}>
+                      {suite.name}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+                {suiteTags.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>Tags</SelectLabel>
+                    {suiteTags.map((tag) => (
+                      <SelectItem key={tag} value={tagSelectorValue(tag)}>
+                        Every suite tagged "{tag}"
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
               </SelectContent>
             </Select>
+            <FieldErrorMessage message={fieldErrors.test_suite_id ?? fieldErrors.tag} />
+            {selectedTag && (
+              <p className="text-xs text-muted-foreground">
+                Runs {taggedSuites.length} suite{taggedSuites.length === 1 ? "" : "s"} today, each on its default
+                environment. Suites tagged later are picked up automatically.
+              </p>
+            )}
           </div>
 
+          {!selectedTag && environments.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="environment_id">Environment</Label>
+              <Select
+                value={formData.environment_id}
+                onValueChange={(value) => updateFormData({ environment_id: value })}
+              >
+                <SelectTrigger id="environment_id" className={cn(fieldErrors.environment_id && "border-destructive")}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_ENVIRONMENT}>
+                    Suite default{defaultEnvironment ? ` (${defaultEnvironment.name})` : ""}
+                  </SelectItem>
+                  {environments.map((environment) => (
+                    <SelectItem key={environment.id} value={environment.id.toString()}>
+                      {environment.name} · {environment.base_url}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FieldErrorMessage message={fieldErrors.environment_id} />
+            </div>
+          )}
+
+          {canResetContext && (
+            <div className="space-y-1">
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="reset_context_before_run"
+                  checked={formData.reset_context_before_run}
+                  onChange={(e) => updateFormData({ reset_context_before_run: e.target.checked })}
+                />
+                <Label htmlFor="reset_context_before_run" className="font-normal">
+                  Reset saved browser context before each run
+                </Label>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Each scheduled run starts logged out with empty storage instead of reusing the last run's session.
+              </p>
+            </div>
+          )}
+
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="schedule_type">Schedule Type</Label>
               <Select
                 value={formData.schedule_type}
-                onValueChange={(value) => setFormData({ ...formData, schedule_type: value })}
+                onValueChange={(value) => updateFormData({ schedule_type: value })}
               >
-                <SelectTrigger>
+                <SelectTrigger className={cn(fieldErrors.frequency && "border-destructive")}>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
@@ -193,6 +307,7 @@ export function CreateScheduleDialog({
                   <SelectItem value="monthly">Monthly</SelectItem>
                 </SelectContent>
               </Select>
+              <FieldErrorMessage message={fieldErrors.frequency} />
             </div>
 
             <div className="space-y-2">
@@ -201,9 +316,12 @@ export function CreateScheduleDialog({
                 id="time_of_day"
                 type="time"
                 value={formData.time_of_day}
-                onChange={(e) => setFormData({ ...formData, time_of_day: e.target.value })}
+                onChange={(e) => updateFormData({ time_of_day: e.target.value })}
+                aria-invalid={Boolean(fieldErrors.time_of_day)}
+                className={cn(fieldErrors.time_of_day && "border-destructive")}
                 required
               />
+              <FieldErrorMessage message={fieldErrors.time_of_day} />
             </div>
           </div>
 
@@ -221,13 +339,14 @@ export function CreateScheduleDialog({
                       const newDays = formData.days_of_week.includes(index)
                         ? formData.days_of_week.filter(d => d !== index)
                         : [...formData.days_of_week, index].sort();
-                      setFormData({ ...formData, days_of_week: newDays });
+                      updateFormData({ days_of_week: newDays });
                     }}
                   >
                     {day}
                   </Button>
                 ))}
               </div>
+              <FieldErrorMessage message={fieldErrors.days_of_week} />
             </div>
           )}
 
@@ -240,9 +359,12 @@ export function CreateScheduleDialog({
                 min="1"
                 max="31"
                 value={formData.day_of_month}
-                onChange={(e) => setFormData({ ...formData, day_of_month: parseInt(e.target.value) })}
+                onChange={(e) => updateFormData({ day_of_month: parseInt(e.target.value) })}
+                aria-invalid={Boolean(fieldErrors.day_of_month)}
+                className={cn(fieldErrors.day_of_month && "border-destructive")}
                 required
               />
+              <FieldErrorMessage message={fieldErrors.day_of_month} />
             </div>
           )}
 
@@ -0,0 +1,18 @@
+import { cn } from "@/lib/utils";
+
+interface FieldErrorMessageProps {
+  message?: string;
+  className?: string;
+}
+
+/**
+ * Inline message shown under a form field the backend rejected
+ */
+export function FieldErrorMessage({ message, className }: FieldErrorMessageProps) {
+  if (!message) return null;
+  return (
+    <p role="alert" className={cn("text-xs text-destructive mt-1", className)}>
+      {message}
+    </p>
+  );
+}
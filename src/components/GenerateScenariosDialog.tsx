@@ -8,10 +8,23 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { Loader2, Sparkles, Check } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Sparkles, Check, Copy, Plus, Send, ThumbsDown, Undo2 } from "lucide-react";
 import { generateScenarios } from "@/lib/api-client";
 import { useToast } from "@/hooks/use-toast";
 import { Card } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import {
+  SCENARIO_COVERAGE_CATEGORIES,
+  SCENARIO_COVERAGE_LABELS,
+  SCENARIO_COVERAGE_PROMPTS,
+  buildRefinementRequest,
+  getCoverageCounts,
+  mergeGeneratedScenarios,
+  type GeneratedScenario,
+  type GenerationFeedback,
+} from "@/lib/scenario-generation";
 
 interface GenerateScenariosDialogProps {
   open: boolean;
@@ -21,6 +34,9 @@ interface GenerateScenariosDialogProps {
   description: string;
   url?: string | null;
   aiInstructions?: string | null;
+  testSuiteId?: number;
+  /** Names of the suite's current scenarios; generated ones that repeat them are flagged */
+  existingScenarios?: string[];
 }
 
 export function GenerateScenariosDialog({
@@ -31,13 +47,37 @@ export function GenerateScenariosDialog({
   description,
   url,
   aiInstructions,
+  testSuiteId,
+  existingScenarios = [],
 }: GenerateScenariosDialogProps) {
   const { toast } = useToast();
   const [generating, setGenerating] = useState(false);
-  const [scenarios, setScenarios] = useState<string[]>([]);
-  const [selectedScenarios, setSelectedScenarios] = useState<Set<number>>(new Set());
+  const [scenarios, setScenarios] = useState<GeneratedScenario[]>([]);
+  const [selectedScenarios, setSelectedScenarios] = useState<Set<string>>(new Set());
+  const [round, setRound] = useState(0);
+  const [feedback, setFeedback] = useState<GenerationFeedback[]>([]);
+  const [refinement, setRefinement] = useState("");
+  // The scenario whose rejection reason is being written
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [rejectionReason, setRejectionReason] = useState("");
+
+  const coverage = getCoverageCounts(scenarios);
+  const applicable = scenarios.filter(
+    (scenario) => selectedScenarios.has(scenario.id) && scenario.rejection_reason === null
+  );
+
+  const resetState = () => {
+    setScenarios([]);
+    setSelectedScenarios(new Set());
+    setRound(0);
+    setFeedback([]);
+    setRefinement("");
+    setRejectingId(null);
+    setRejectionReason("");
+  };
 
-  const handleGenerate = async () => {
+  // The first round starts from scratch; later rounds send the current set back as context
+  const runGeneration = async (refinementText: string) => {
     if (!suiteName.trim() || !description.trim()) {
       toast({
         title: "Missing information",
@@ -47,21 +87,53 @@ export function GenerateScenariosDialog({
       return;
     }
 
-    setGenerating(true);
-    setScenarios([]);
-    setSelectedScenarios(new Set());
+    const isRefining = scenarios.length > 0;
+    const current = isRefining ? scenarios : [];
+    const nextRound = isRefining ? round + 1 : 1;
 
+    setGenerating(true);
     try {
       const response = await generateScenarios({
+        test_suite_id: testSuiteId,
         test_suite_name: suiteName,
         application_url: url || "",
         test_description: description,
         ai_testing_instructions: aiInstructions || undefined,
+        ...(isRefining
+          ? buildRefinementRequest(current, existingScenarios, refinementText)
+          : { existing_scenarios: existingScenarios }),
       });
 
-      setScenarios(response.scenarios);
-      // Select all scenarios by default
-      setSelectedScenarios(new Set(response.scenarios.map((_, index) => index)));
+      const merged = mergeGeneratedScenarios(
+        current,
+        response.scenarios,
+        response.categories,
+        existingScenarios,
+        nextRound
+      );
+      const added = merged.slice(current.length);
+      if (isRefining && added.length === 0) {
+        toast({
+          title: "No new scenarios",
+          description: "Everything suggested was already in the list. Try asking for something more specific.",
+        });
+        return;
+      }
+
+      setScenarios(merged);
+      setRound(nextRound);
+      // New scenarios are selected unless the suite already has them
+      setSelectedScenarios((prev) => {
+        const next = isRefining ? new Set(prev) : new Set<string>();
+        added.forEach((scenario) => {
+          if (!scenario.duplicate_of) next.add(scenario.id);
+        });
+        return next;
+      });
+      if (isRefining) {
+        setFeedback((prev) => [...prev, { refinement: refinementText.trim(), round: nextRound }]);
+        setRefinement("");
+      }
     } catch (error) {
       console.error("Error generating scenarios:", error);
       toast({
@@ -74,42 +146,69 @@ export function GenerateScenariosDialog({
     }
   };
 
-  const toggleScenario = (index: number) => {
+  const handleGenerate = () => {
+    resetState();
+    void runGeneration("");
+  };
+
+  const toggleScenario = (scenario: GeneratedScenario) => {
+    if (scenario.rejection_reason !== null) return;
     const newSelected = new Set(selectedScenarios);
-    if (newSelected.has(index)) {
-      newSelected.delete(index);
+    if (newSelected.has(scenario.id)) {
+      newSelected.delete(scenario.id);
     } else {
-      newSelected.add(index);
+      newSelected.add(scenario.id);
     }
     setSelectedScenarios(newSelected);
   };
 
+  const setRejection = (id: string, reason: string | null) => {
+    setScenarios((prev) =>
+      prev.map((scenario) => (scenario.id === id ? { ...scenario, rejection_reason: reason } : scenario))
+    );
+    setSelectedScenarios((prev) => {
+      const next = new Set(prev);
+      if (reason === null) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const startRejecting = (id: string) => {
+    setRejectingId(id);
+    setRejectionReason("");
+  };
+
+  const confirmRejection = () => {
+    if (!rejectingId) return;
+    setRejection(rejectingId, rejectionReason.trim());
+    setRejectingId(null);
+    setRejectionReason("");
+  };
+
   const handleApply = () => {
-    const selected = Array.from(selectedScenarios)
-      .sort((a, b) => a - b)
-      .map((index) => ({
-        id: `scenario-${index}`,
-        name: scenarios[index],
-        description: scenarios[index],
-      }));
+    const selected = applicable.map((scenario) => ({
+      id: `scenario-${scenario.id}`,
+      name: scenario.text,
+      description: scenario.text,
+    }));
 
     onApply(selected);
     onOpenChange(false);
-    // Reset state
-    setScenarios([]);
-    setSelectedScenarios(new Set());
+    resetState();
   };
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Sparkles className="w-5 h-5" />
             Generate Test Scenarios
           </DialogTitle>
           <DialogDescription>
-            AI will generate test scenarios based on your test suite description
+            AI will generate test scenarios based on your test suite description. Reject the ones you don't want and
+            ask for more until the set covers what you need.
           </DialogDescription>
         </DialogHeader>
 
@@ -126,7 +225,7 @@ export function GenerateScenariosDialog({
             </div>
           )}
 
-          {generating && (
+          {generating && scenarios.length === 0 && (
             <div className="text-center py-8">
               <Loader2 className="w-8 h-8 animate-spin mx-auto mb-4 text-primary" />
               <p className="text-muted-foreground">Generating scenarios...</p>
@@ -135,16 +234,46 @@ export function GenerateScenariosDialog({
 
           {scenarios.length > 0 && (
             <div className="space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs font-medium text-muted-foreground">Coverage:</span>
+                {SCENARIO_COVERAGE_CATEGORIES.map((category) =>
+                  coverage[category] > 0 ? (
+                    <Badge key={category} variant="secondary">
+                      {SCENARIO_COVERAGE_LABELS[category]} · {coverage[category]}
+                    </Badge>
+                  ) : (
+                    <Button
+                      key={category}
+                      variant="outline"
+                      size="sm"
+                      className="h-6 px-2 text-xs border-dashed"
+                      onClick={() => runGeneration(SCENARIO_COVERAGE_PROMPTS[category])}
+                      disabled={generating}
+                      title={SCENARIO_COVERAGE_PROMPTS[category]}
+                    >
+                      <Plus className="h-3 w-3 mr-1" />
+                      {SCENARIO_COVERAGE_LABELS[category]}
+                    </Button>
+                  )
+                )}
+              </div>
+
               <div className="flex items-center justify-between">
                 <p className="text-sm font-medium">
-                  {selectedScenarios.size} of {scenarios.length} scenarios selected
+                  {applicable.length} of {scenarios.length} scenarios selected
                 </p>
                 <div className="flex gap-2">
                   <Button
                     variant="outline"
                     size="sm"
                     onClick={() => {
-                      setSelectedScenarios(new Set(scenarios.map((_, i) => i)));
+                      setSelectedScenarios(
+                        new Set(
+                          scenarios
+                            .filter((scenario) => scenario.rejection_reason === null)
+                            .map((scenario) => scenario.id)
+                        )
+                      );
                     }}
                   >
                     Select All
@@ -161,36 +290,134 @@ export function GenerateScenariosDialog({
                 </div>
               </div>
 
-              <div className="space-y-2 max-h-[400px] overflow-y-auto">
-                {scenarios.map((scenario, index) => (
-                  <Card
-                    key={index}
-                    className={`p-4 cursor-pointer transition-colors ${
-                      selectedScenarios.has(index)
-                        ? "border-primary bg-primary/5"
-                        : "hover:bg-muted/50"
-                    }`}
-                    onClick={() => toggleScenario(index)}
-                  >
-                    <div className="flex items-start gap-3">
-                      <div
-                        className={`mt-1 flex h-5 w-5 items-center justify-center rounded border-2 ${
-                          selectedScenarios.has(index)
-                            ? "border-primary bg-primary"
-                            : "border-muted-foreground/50"
-                        }`}
-                      >
-                        {selectedScenarios.has(index) && (
-                          <Check className="h-3 w-3 text-primary-foreground" />
-                        )}
-                      </div>
-                      <div className="flex-1">
-                        <p className="text-sm font-medium">{scenario}</p>
-                      </div>
-                    </div>
-                  </Card>
+              <div className="space-y-4 max-h-[400px] overflow-y-auto">
+                {SCENARIO_COVERAGE_CATEGORIES.filter((category) =>
+                  scenarios.some((scenario) => scenario.category === category)
+                ).map((category) => (
+                  <div key={category} className="space-y-2">
+                    <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                      {SCENARIO_COVERAGE_LABELS[category]}
+                    </p>
+                    {scenarios
+                      .filter((scenario) => scenario.category === category)
+                      .map((scenario) => {
+                        const isSelected = selectedScenarios.has(scenario.id);
+                        const isRejected = scenario.rejection_reason !== null;
+                        return (
+                          <Card
+                            key={scenario.id}
+                            className={cn(
+                              "p-4 transition-colors",
+                              isRejected
+                                ? "opacity-60"
+                                : isSelected
+                                  ? "cursor-pointer border-primary bg-primary/5"
+                                  : "cursor-pointer hover:bg-muted/50"
+                            )}
+                            onClick={() => toggleScenario(scenario)}
+                          >
+                            <div className="flex items-start gap-3">
+                              <div
+                                className={cn(
+                                  "mt-1 flex h-5 w-5 flex-shrink-0 items-center justify-center rounded border-2",
+                                  isSelected && !isRejected ? "border-primary bg-primary" : "border-muted-foreground/50"
+                                )}
+                              >
+                                {isSelected && !isRejected && <Check className="h-3 w-3 text-primary-foreground" />}
+                              </div>
+                              <div className="flex-1 min-w-0 space-y-1">
+                                <p className={cn("text-sm font-medium", isRejected && "line-through")}>
+                                  {scenario.text}
+                                </p>
+                                {scenario.duplicate_of && (
+                                  <p className="flex items-center gap-1 text-xs text-amber-600">
+                                    <Copy className="h-3 w-3 flex-shrink-0" />
+                                    Looks like existing scenario "{scenario.duplicate_of}"
+                                  </p>
+                                )}
+                                {isRejected && (
+                                  <p className="text-xs text-muted-foreground">
+                                    Rejected{scenario.rejection_reason ? `: ${scenario.rejection_reason}` : ""}
+                                  </p>
+                                )}
+                                {rejectingId === scenario.id && (
+                                  <div className="flex gap-2 pt-1" onClick={(e) => e.stopPropagation()}>
+                                    <Input
+                                      autoFocus
+                                      value={rejectionReason}
+                                      onChange={(e) => setRejectionReason(e.target.value)}
+                                      onKeyDown={(e) => {
+                                        if (e.key === "Enter") confirmRejection();
+                                        if (e.key === "Escape") setRejectingId(null);
+                                      }}
+                                      placeholder="Why? e.g. we don't support guest checkout"
+                                      className="h-8 text-sm"
+                                    />
+                                    <Button size="sm" className="h-8" onClick={confirmRejection}>
+                                      Reject
+                                    </Button>
+                                    <Button size="sm" variant="ghost" className="h-8" onClick={() => setRejectingId(null)}>
+                                      Cancel
+                                    </Button>
+                                  </div>
+                                )}
+                              </div>
+                              {rejectingId !== scenario.id && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-7 px-2 text-xs text-muted-foreground"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    if (isRejected) setRejection(scenario.id, null);
+                                    else startRejecting(scenario.id);
+                                  }}
+                                  disabled={generating}
+                                >
+                                  {isRejected ? (
+                                    <Undo2 className="h-3.5 w-3.5 mr-1" />
+                                  ) : (
+                                    <ThumbsDown className="h-3.5 w-3.5 mr-1" />
+                                  )}
+                                  {isRejected ? "Undo" : "Reject"}
+                                </Button>
+                              )}
+                            </div>
+                          </Card>
+                        );
+                      })}
+                  </div>
                 ))}
               </div>
+
+              {feedback.length > 0 && (
+                <ul className="space-y-1 text-xs text-muted-foreground">
+                  {feedback.map((entry) => (
+                    <li key={entry.round}>
+                      Round {entry.round}: {entry.refinement || "more scenarios"}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <form
+                className="flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  void runGeneration(refinement);
+                }}
+              >
+                <Input
+                  value={refinement}
+                  onChange={(e) => setRefinement(e.target.value)}
+                  placeholder="Ask for changes, e.g. more edge cases around payment"
+                  disabled={generating}
+                />
+                <Button type="submit" variant="outline" className="gap-2 flex-shrink-0" disabled={generating}>
+                  {generating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                  Regenerate
+                </Button>
+              </form>
             </div>
           )}
         </div>
@@ -202,11 +429,11 @@ export function GenerateScenariosDialog({
           {scenarios.length > 0 && (
             <Button
               onClick={handleApply}
-              disabled={selectedScenarios.size === 0}
+              disabled={applicable.length === 0 || generating}
               className="gap-2"
             >
               <Sparkles className="w-4 h-4" />
-              Apply {selectedScenarios.size} Scenario{selectedScenarios.size !== 1 ? "s" : ""}
+              Apply {applicable.length} Scenario{applicable.length !== 1 ? "s" : ""}
             </Button>
           )}
         </DialogFooter>
@@ -214,4 +441,3 @@ export function GenerateScenariosDialog({
     </Dialog>
   );
 }
-
@@ -0,0 +1,287 @@
+import { useRef, useState } from "react";
+import { AlertTriangle, FileUp, Loader2, Table2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import {
+  GherkinError,
+  buildGherkinImport,
+  getGherkinScenarioProblems,
+  parseGherkin,
+  type GherkinFeature,
+  type GherkinImportPlan,
+  type GherkinScenario,
+} from "@/lib/gherkin";
+
+interface GherkinImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Offer to save a feature's Background as the suite's preconditions */
+  canSetPreconditions?: boolean;
+  /** The suite already has preconditions that a Background would replace */
+  hasPreconditions?: boolean;
+  confirmLabel?: string;
+  /** Create what was chosen; the dialog stays open if this throws */
+  onConfirm: (plan: GherkinImportPlan) => Promise<void> | void;
+}
+
+const getScenarioKey = (feature: GherkinFeature, scenario: GherkinScenario) => `${feature.file_name}:${scenario.line}`;
+
+export function GherkinImportDialog({
+  open,
+  onOpenChange,
+  canSetPreconditions = true,
+  hasPreconditions = false,
+  confirmLabel = "Import",
+  onConfirm,
+}: GherkinImportDialogProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [features, setFeatures] = useState<GherkinFeature[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [parseErrors, setParseErrors] = useState<GherkinError[]>([]);
+  // Scenarios left out of the import, by file and line
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [useBackground, setUseBackground] = useState(true);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const hasBackground = features.some((feature) => feature.background);
+  const isSelected = (feature: GherkinFeature, scenario: GherkinScenario) =>
+    !excluded.has(getScenarioKey(feature, scenario)) && getGherkinScenarioProblems(scenario).length === 0;
+  const plan = buildGherkinImport(features, isSelected, canSetPreconditions && hasBackground && useBackground);
+
+  const resetState = () => {
+    setFeatures([]);
+    setWarnings([]);
+    setParseErrors([]);
+    setExcluded(new Set());
+    setUseBackground(true);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (isImporting) return;
+    if (!nextOpen) resetState();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    const nextFeatures: GherkinFeature[] = [];
+    const nextWarnings: string[] = [];
+    const nextErrors: GherkinError[] = [];
+    for (const file of files) {
+      try {
+        const result = parseGherkin(await file.text(), file.name);
+        nextFeatures.push(...result.features);
+        nextWarnings.push(...result.warnings);
+      } catch (error) {
+        nextErrors.push(
+          error instanceof GherkinError
+            ? error
+            : new GherkinError(error instanceof Error ? error.message : `Failed to read ${file.name}`)
+        );
+      }
+    }
+    setFeatures(nextFeatures);
+    setWarnings(nextWarnings);
+    setParseErrors(nextErrors);
+    setExcluded(new Set());
+  };
+
+  const toggleScenario = (key: string, include: boolean) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (include) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (plan.scenarios.length === 0) return;
+
+    setIsImporting(true);
+    try {
+      await onConfirm(plan);
+      resetState();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to import scenarios",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import from Gherkin</DialogTitle>
+          <DialogDescription>
+            Turn the scenarios in <code>.feature</code> files into test scenarios. Given and When steps become steps,
+            Then steps become assertions and Scenario Outline examples become data table rows.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".feature,.txt"
+            multiple
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          <Button
+            variant="outline"
+            className="w-full border-dashed"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+          >
+            <FileUp className="h-4 w-4 mr-2" />
+            {features.length > 0 || parseErrors.length > 0 ? "Choose other feature files" : "Choose feature files"}
+          </Button>
+
+          {parseErrors.map((error) => (
+            <div key={error.message} className="rounded-md border border-destructive/50 bg-destructive/5 p-3 text-sm">
+              <p className="font-medium text-destructive">{error.message}</p>
+              {error.problems.length > 0 && (
+                <ul className="mt-2 ml-4 list-disc space-y-1 text-muted-foreground max-h-40 overflow-y-auto">
+                  {error.problems.map((problem) => (
+                    <li key={problem} className="font-mono text-xs">{problem}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+
+          {features.length > 0 && (
+            <div className="rounded-md border divide-y max-h-[45vh] overflow-y-auto">
+              {features.map((feature) => (
+                <div key={`${feature.file_name}:${feature.name}`} className="p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium truncate">{feature.name || "Untitled feature"}</span>
+                    <span className="text-xs text-muted-foreground flex-shrink-0">{feature.file_name}</span>
+                  </div>
+                  {feature.background && (
+                    <p className="text-xs text-muted-foreground">
+                      Background: {feature.background.steps.length} step{feature.background.steps.length === 1 ? "" : "s"}
+                      {plan.preconditions === feature.background
+                        ? " · saved as the suite's preconditions"
+                        : " · added to the start of each scenario"}
+                    </p>
+                  )}
+                  <ul className="space-y-1.5">
+                    {feature.scenarios.map((scenario) => {
+                      const key = getScenarioKey(feature, scenario);
+                      const problems = getGherkinScenarioProblems(scenario);
+                      const rowCount = scenario.data_table?.rows.length ?? 0;
+                      const stepCount =
+                        scenario.steps.length - (plan.preconditions === feature.background ? scenario.background_steps : 0);
+                      return (
+                        <li key={key} className="flex items-start gap-2">
+                          <input
+                            type="checkbox"
+                            id={`gherkin-${key}`}
+                            checked={isSelected(feature, scenario)}
+                            disabled={problems.length > 0 || isImporting}
+                            onChange={(e) => toggleScenario(key, e.target.checked)}
+                            className="h-4 w-4 mt-0.5 rounded border-gray-300"
+                          />
+                          <label htmlFor={`gherkin-${key}`} className="flex-1 min-w-0 cursor-pointer">
+                            <span className={cn("text-sm block break-words", problems.length > 0 && "text-muted-foreground")}>
+                              {scenario.name}
+                            </span>
+                            <span className="text-xs text-muted-foreground flex items-center gap-1">
+                              {stepCount} step{stepCount === 1 ? "" : "s"} ·{" "}
+                              {scenario.assertions.length} assertion{scenario.assertions.length === 1 ? "" : "s"}
+                              {rowCount > 0 && (
+                                <>
+                                  {" · "}
+                                  <Table2 className="h-3 w-3" />
+                                  {rowCount} row{rowCount === 1 ? "" : "s"}
+                                </>
+                              )}
+                            </span>
+                            {problems.map((problem) => (
+                              <span key={problem} className="text-xs text-destructive block">
+                                {problem}
+                              </span>
+                            ))}
+                          </label>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {canSetPreconditions && hasBackground && (
+            <div className="space-y-1">
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="gherkin-use-background"
+                  checked={useBackground}
+                  onChange={(e) => setUseBackground(e.target.checked)}
+                  disabled={isImporting}
+                  className="h-4 w-4 rounded border-gray-300"
+                />
+                <Label htmlFor="gherkin-use-background" className="cursor-pointer">
+                  Use the Background as the suite's preconditions
+                </Label>
+              </div>
+              <p className="text-xs text-muted-foreground ml-6">
+                {hasPreconditions && "Replaces the suite's current preconditions. "}
+                Otherwise its steps are added to the start of each scenario.
+              </p>
+            </div>
+          )}
+
+          {warnings.length > 0 && (
+            <div className="rounded-md border border-amber-500/40 bg-amber-500/5 p-3">
+              <p className="flex items-center gap-1 text-xs font-medium text-amber-600">
+                <AlertTriangle className="h-3 w-3" />
+                {warnings.length} line{warnings.length === 1 ? " was" : "s were"} skipped or changed
+              </p>
+              <ul className="mt-2 ml-4 list-disc space-y-1 text-muted-foreground max-h-32 overflow-y-auto">
+                {warnings.map((warning) => (
+                  <li key={warning} className="font-mono text-xs">{warning}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={plan.scenarios.length === 0 || isImporting}>
+            {isImporting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {confirmLabel}{" "}
+            {plan.scenarios.length > 0 ? `${plan.scenarios.length} scenario${plan.scenarios.length === 1 ? "" : "s"}` : ""}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,209 @@
+import { useRef, useState } from "react";
+import { AlertTriangle, FileUp, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useProject } from "@/contexts/ProjectContext";
+import { useToast } from "@/hooks/use-toast";
+import type { TestSuiteResponse } from "@/lib/api-client";
+import {
+  SuiteBundleError,
+  findSuiteBundleConflicts,
+  importSuiteBundle,
+  parseSuiteBundle,
+  type SuiteBundle,
+  type SuiteNameConflictStrategy,
+} from "@/lib/suite-bundles";
+
+interface ImportSuitesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Suites already in the project, to detect name conflicts */
+  existingSuites: TestSuiteResponse[];
+  onImported: (suites: TestSuiteResponse[]) => void;
+}
+
+export function ImportSuitesDialog({ open, onOpenChange, existingSuites, onImported }: ImportSuitesDialogProps) {
+  const { selectedProject } = useProject();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [bundle, setBundle] = useState<SuiteBundle | null>(null);
+  const [parseError, setParseError] = useState<SuiteBundleError | null>(null);
+  const [onNameConflict, setOnNameConflict] = useState<SuiteNameConflictStrategy>("rename");
+  const [isImporting, setIsImporting] = useState(false);
+
+  const conflicts = bundle ? findSuiteBundleConflicts(bundle, existingSuites) : [];
+  const hasNameConflicts = conflicts.some((conflict) => conflict.kind === "name-taken");
+
+  const resetState = () => {
+    setFileName(null);
+    setBundle(null);
+    setParseError(null);
+    setOnNameConflict("rename");
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (isImporting) return;
+    if (!nextOpen) resetState();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setFileName(file.name);
+    setBundle(null);
+    setParseError(null);
+    try {
+      setBundle(parseSuiteBundle(await file.text(), file.name));
+    } catch (error) {
+      setParseError(
+        error instanceof SuiteBundleError
+          ? error
+          : new SuiteBundleError(error instanceof Error ? error.message : "Failed to read the file")
+      );
+    }
+  };
+
+  const handleImport = async () => {
+    if (!bundle || !selectedProject) return;
+
+    setIsImporting(true);
+    try {
+      const result = await importSuiteBundle(bundle, selectedProject.id, existingSuites, onNameConflict);
+      const skippedNote = result.skipped.length > 0 ? `, skipped ${result.skipped.length}` : "";
+
+      if (result.failures.length > 0) {
+        toast({
+          title: result.created.length > 0 ? "Imported with problems" : "Import failed",
+          description: result.failures.map((failure) => `${failure.suiteName}: ${failure.message}`).join("\n"),
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Success",
+          description: `Imported ${result.created.length} test suite${result.created.length === 1 ? "" : "s"}${skippedNote}`,
+        });
+      }
+
+      if (result.created.length > 0) {
+        onImported(result.created);
+      }
+      resetState();
+      onOpenChange(false);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import Test Suites</DialogTitle>
+          <DialogDescription>
+            Recreate suites from a YAML or JSON bundle exported from any workspace.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".yaml,.yml,.json"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          <Button
+            variant="outline"
+            className="w-full border-dashed"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+          >
+            <FileUp className="h-4 w-4 mr-2" />
+            {fileName ?? "Choose bundle file"}
+          </Button>
+
+          {parseError && (
+            <div className="rounded-md border border-destructive/50 bg-destructive/5 p-3 text-sm">
+              <p className="font-medium text-destructive">{parseError.message}</p>
+              {parseError.problems.length > 0 && (
+                <ul className="mt-2 ml-4 list-disc space-y-1 text-muted-foreground max-h-40 overflow-y-auto">
+                  {parseError.problems.map((problem) => (
+                    <li key={problem} className="font-mono text-xs">{problem}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {bundle && (
+            <div className="space-y-3">
+              <div className="rounded-md border divide-y max-h-56 overflow-y-auto">
+                {bundle.suites.map((suite, index) => {
+                  const suiteConflicts = conflicts.filter((conflict) => conflict.suiteIndex === index);
+                  return (
+                    <div key={index} className="p-3 text-sm">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium truncate">{suite.name}</span>
+                        <span className="text-xs text-muted-foreground flex-shrink-0">
+                          {suite.scenarios.length} scenario{suite.scenarios.length === 1 ? "" : "s"}
+                          {suite.attachments.length > 0 && `, ${suite.attachments.length} attachment${suite.attachments.length === 1 ? "" : "s"}`}
+                        </span>
+                      </div>
+                      {suiteConflicts.map((conflict) => (
+                        <p key={conflict.kind} className="mt-1 flex items-start gap-1 text-xs text-amber-600">
+                          <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                          {conflict.message}
+                        </p>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+
+              {hasNameConflicts && (
+                <div className="space-y-2">
+                  <Label>When a suite name is already taken</Label>
+                  <Select
+                    value={onNameConflict}
+                    onValueChange={(value) => setOnNameConflict(value as SuiteNameConflictStrategy)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="rename">Import with a new name, e.g. "Checkout (imported)"</SelectItem>
+                      <SelectItem value="skip">Skip that suite</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!bundle || isImporting}>
+            {isImporting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Import {bundle ? `${bundle.suites.length} suite${bundle.suites.length === 1 ? "" : "s"}` : ""}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,199 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useApiQuery } from "@/hooks/use-api-query";
+import { queryKeys } from "@/lib/query-cache";
+import {
+  getDeviceProfiles,
+  triggerMatrixRun,
+  type MatrixRunResponse,
+  type SuiteEnvironmentResponse,
+} from "@/lib/api-client";
+import {
+  DEFAULT_RESOLUTION,
+  RESOLUTION_GROUPS,
+  RESOLUTION_OPTIONS,
+  deviceProfileValue,
+  resolveViewport,
+} from "@/lib/resolutions";
+
+// Pre-selected next to the suite's own resolution: a typical phone
+const DEFAULT_MOBILE_RESOLUTION = "390x844";
+
+interface MatrixRunDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: number;
+  testSuiteId: number;
+  /** The suite's resolution, selected by default */
+  suiteResolution?: string | null;
+  /** Environment every run in the matrix targets */
+  environment?: SuiteEnvironmentResponse;
+  onStarted: (matrix: MatrixRunResponse) => void;
+}
+
+export function MatrixRunDialog({
+  open,
+  onOpenChange,
+  projectId,
+  testSuiteId,
+  suiteResolution,
+  environment,
+  onStarted,
+}: MatrixRunDialogProps) {
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<string[]>([]);
+  const [isStarting, setIsStarting] = useState(false);
+  const { data: deviceProfiles = [], isLoading: isLoadingProfiles } = useApiQuery(
+    queryKeys.deviceProfiles(projectId),
+    () => getDeviceProfiles(projectId),
+    { enabled: open }
+  );
+
+  useEffect(() => {
+    // Wait for profiles so a suite that uses one gets it pre-selected
+    if (!open || isLoadingProfiles) return;
+    const suiteDefault = resolveViewport(suiteResolution, deviceProfiles)?.value || DEFAULT_RESOLUTION;
+    setSelected(Array.from(new Set([suiteDefault, DEFAULT_MOBILE_RESOLUTION])));
+    // Only re-run when the dialog opens, not on every profiles refetch
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, suiteResolution, isLoadingProfiles]);
+
+  const toggle = (value: string) => {
+    setSelected((prev) => (prev.includes(value) ? prev.filter((v) => v !== value) : [...prev, value]));
+  };
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    try {
+      // Keep the order of RESOLUTION_OPTIONS so results read desktop to mobile, custom devices last
+      const resolutions = [
+        ...RESOLUTION_OPTIONS.map((option) => option.value),
+        ...deviceProfiles.map((profile) => deviceProfileValue(profile.id)),
+      ].filter((value) => selected.includes(value));
+      const matrix = await triggerMatrixRun({
+        project_id: projectId,
+        suite_id: testSuiteId,
+        resolutions,
+        environment_id: environment?.id ?? null,
+      });
+      toast({
+        title: "Matrix run started",
+        description: `Running the suite at ${matrix.runs.length} viewport${matrix.runs.length === 1 ? "" : "s"}`,
+      });
+      onOpenChange(false);
+      onStarted(matrix);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start matrix run",
+        variant: "destructive",
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !isStarting && onOpenChange(nextOpen)}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Run Across Viewports</DialogTitle>
+          <DialogDescription>
+            Runs every scenario once per selected viewport
+            {environment ? ` against ${environment.name}` : ""}. Results are grouped per viewport on the run page.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {RESOLUTION_GROUPS.map((group) => (
+            <div key={group} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>{group}</Label>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => {
+                    const values = RESOLUTION_OPTIONS.filter((option) => option.group === group).map((o) => o.value);
+                    const allSelected = values.every((value) => selected.includes(value));
+                    setSelected((prev) =>
+                      allSelected
+                        ? prev.filter((value) => !values.includes(value))
+                        : Array.from(new Set([...prev, ...values]))
+                    );
+                  }}
+                >
+                  Toggle all
+                </Button>
+              </div>
+              <div className="grid grid-cols-1 gap-1">
+                {RESOLUTION_OPTIONS.filter((option) => option.group === group).map((option) => (
+                  <label
+                    key={option.value}
+                    className="flex items-center gap-2 rounded-md px-2 py-1.5 text-sm hover:bg-muted/50 cursor-pointer"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(option.value)}
+                      onChange={() => toggle(option.value)}
+                    />
+                    <span className="font-mono text-xs w-20">{option.value}</span>
+                    <span className="text-muted-foreground">{option.label}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+          {deviceProfiles.length > 0 && (
+            <div className="space-y-2">
+              <Label>Custom devices</Label>
+              <div className="grid grid-cols-1 gap-1">
+                {deviceProfiles.map((profile) => {
+                  const viewport = resolveViewport(deviceProfileValue(profile.id), deviceProfiles);
+                  return (
+                    <label
+                      key={profile.id}
+                      className="flex items-center gap-2 rounded-md px-2 py-1.5 text-sm hover:bg-muted/50 cursor-pointer"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(deviceProfileValue(profile.id))}
+                        onChange={() => toggle(deviceProfileValue(profile.id))}
+                      />
+                      <span className="font-mono text-xs w-20">
+                        {viewport?.width}x{viewport?.height}
+                      </span>
+                      <span className="text-muted-foreground">{profile.name}</span>
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isStarting}>
+            Cancel
+          </Button>
+          <Button onClick={handleStart} disabled={isStarting || selected.length === 0}>
+            {isStarting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Run {selected.length} viewport{selected.length === 1 ? "" : "s"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Cookie, Loader2, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useApiQuery } from "@/hooks/use-api-query";
+import { useProjectPath } from "@/hooks/use-project-path";
+import { queryKeys } from "@/lib/query-cache";
+import { getTestSuite, resetTestSuiteContext } from "@/lib/api-client";
+
+interface PersistentContextStatusProps {
+  testSuiteId: number;
+  canEdit: boolean;
+}
+
+/**
+ * The cookies, storage and logins a suite carries between runs, with a way to start over
+ */
+export function PersistentContextStatus({ testSuiteId, canEdit }: PersistentContextStatusProps) {
+  const { toast } = useToast();
+  const toProjectPath = useProjectPath();
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [isResetting, setIsResetting] = useState(false);
+
+  const { data: suite } = useApiQuery(queryKeys.testSuite(testSuiteId), () => getTestSuite(testSuiteId), {
+    enabled: !isNaN(testSuiteId),
+  });
+
+  if (!suite?.has_persistent_context) {
+    return null;
+  }
+
+  const context = suite.persistent_context;
+
+  const handleReset = async () => {
+    setIsResetting(true);
+    try {
+      await resetTestSuiteContext(testSuiteId);
+      toast({
+        title: "Success",
+        description: "Saved browser context cleared. The next run starts fresh.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to reset browser context",
+        variant: "destructive",
+      });
+    } finally {
+      setIsResetting(false);
+      setConfirmOpen(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-muted-foreground mt-1">
+      <Cookie className="h-3 w-3 flex-shrink-0" />
+      {context ? (
+        <span>
+          Saved browser context updated {formatDistanceToNow(new Date(context.updated_at), { addSuffix: true })}
+          {context.test_run_id !== null && (
+            <>
+              {" "}by{" "}
+              <Link to={toProjectPath(`/test-runs/${context.test_run_id}`)} className="underline hover:text-foreground">
+                run #{context.test_run_id}
+              </Link>
+            </>
+          )}
+        </span>
+      ) : (
+        <span>No saved browser context yet. The next run starts fresh and saves one.</span>
+      )}
+      {canEdit && context && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={() => setConfirmOpen(true)}
+          disabled={isResetting}
+        >
+          {isResetting ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <RotateCcw className="h-3 w-3 mr-1" />}
+          Reset
+        </Button>
+      )}
+
+      <AlertDialog open={confirmOpen} onOpenChange={(open) => !isResetting && setConfirmOpen(open)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reset browser context</AlertDialogTitle>
+            <AlertDialogDescription>
+              This clears the cookies, local storage and logins saved for this suite. The next run starts logged out
+              and runs its preconditions from scratch.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isResetting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleReset();
+              }}
+              disabled={isResetting}
+            >
+              {isResetting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Reset
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
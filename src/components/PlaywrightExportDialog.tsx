@@ -0,0 +1,159 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle, Check, Copy, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { triggerDownload } from "@/lib/download";
+import { describeIteration } from "@/lib/scenario-parameters";
+import type { TestRunWithSessionsResponse } from "@/lib/api-client";
+import {
+  generatePlaywrightSpec,
+  getExportScenarioKey,
+  getPlaywrightSpecFileName,
+  getRunScenarioResults,
+  isExportableScenario,
+} from "@/lib/playwright-export";
+
+interface PlaywrightExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  testRun: TestRunWithSessionsResponse;
+  suiteName: string;
+  applicationUrl: string | null;
+  viewport?: { width: number; height: number } | null;
+}
+
+export function PlaywrightExportDialog({
+  open,
+  onOpenChange,
+  testRun,
+  suiteName,
+  applicationUrl,
+  viewport,
+}: PlaywrightExportDialogProps) {
+  const { toast } = useToast();
+  const [copied, setCopied] = useState(false);
+  // Results left out of the spec, by scenario and data table row
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+
+  const results = getRunScenarioResults(testRun);
+  const exportable = results.filter(isExportableScenario);
+  const skippedCount = results.length - exportable.length;
+  const selected = exportable.filter((scenario) => !excluded.has(getExportScenarioKey(scenario)));
+  const { code, todoCount } = generatePlaywrightSpec({
+    suiteName,
+    testRunId: testRun.id,
+    applicationUrl,
+    viewport,
+    scenarios: selected,
+  });
+
+  useEffect(() => {
+    if (open) setExcluded(new Set());
+  }, [open, testRun.id]);
+
+  const toggleScenario = (key: string, include: boolean) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (include) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      toast({ title: "Error", description: "Failed to copy to clipboard", variant: "destructive" });
+    }
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([code], { type: "text/typescript" }));
+    triggerDownload(url, getPlaywrightSpecFileName(suiteName, testRun.id));
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Export as Playwright Test</DialogTitle>
+          <DialogDescription>
+            Turn the recorded steps of passing scenarios into a Playwright TypeScript spec you can run in your own CI.
+          </DialogDescription>
+        </DialogHeader>
+
+        {exportable.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">
+            No scenario in this run passed, so there is nothing to export.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-1.5">
+              {exportable.map((scenario) => {
+                const key = getExportScenarioKey(scenario);
+                return (
+                  <div key={key} className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      id={`playwright-export-${key}`}
+                      checked={!excluded.has(key)}
+                      onChange={(e) => toggleScenario(key, e.target.checked)}
+                      className="h-4 w-4 rounded border-gray-300"
+                    />
+                    <label htmlFor={`playwright-export-${key}`} className="text-sm cursor-pointer">
+                      {scenario.name}
+                      {scenario.iteration_values && (
+                        <span className="text-muted-foreground"> · {describeIteration(scenario.iteration_values)}</span>
+                      )}
+                      <span className="text-xs text-muted-foreground">
+                        {" "}({scenario.steps?.length ?? 0} step{scenario.steps?.length === 1 ? "" : "s"})
+                      </span>
+                    </label>
+                  </div>
+                );
+              })}
+              {skippedCount > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {skippedCount} result{skippedCount === 1 ? "" : "s"} that didn't pass can't be exported.
+                </p>
+              )}
+            </div>
+
+            {todoCount > 0 && (
+              <p className="flex items-start gap-1.5 text-xs text-amber-600">
+                <AlertTriangle className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" />
+                {todoCount} step{todoCount === 1 ? "" : "s"} couldn't be translated and {todoCount === 1 ? "is" : "are"} marked
+                TODO in the spec, with the agent's reasoning as a hint.
+              </p>
+            )}
+
+            <pre className="max-h-[45vh] overflow-auto rounded-md border bg-muted/40 p-3 text-xs font-mono">{code}</pre>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleCopy} disabled={selected.length === 0}>
+            {copied ? <Check className="h-4 w-4 mr-2" /> : <Copy className="h-4 w-4 mr-2" />}
+            {copied ? "Copied" : "Copy"}
+          </Button>
+          <Button onClick={handleDownload} disabled={selected.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Download .spec.ts
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,218 @@
+import { useEffect, useState } from "react";
+import { Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useFieldErrors } from "@/hooks/use-field-errors";
+import { FieldErrorMessage } from "@/components/FieldErrorMessage";
+import { PreconditionStepsEditor } from "@/components/PreconditionStepsEditor";
+import { cn } from "@/lib/utils";
+import {
+  createPreconditionBlock,
+  deletePreconditionBlock,
+  updatePreconditionBlock,
+  type PreconditionBlockResponse,
+} from "@/lib/api-client";
+import {
+  emptySuitePreconditions,
+  normalizePreconditionFlow,
+  validatePreconditionFlow,
+  type PreconditionFlow,
+} from "@/lib/preconditions";
+
+interface PreconditionBlockDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: number;
+  /** The block to edit; null creates a new one */
+  block: PreconditionBlockResponse | null;
+  /** Steps a new block starts with, e.g. a suite's own steps being turned into a block */
+  initialFlow?: PreconditionFlow;
+  secretNames: string[];
+  onSaved: (block: PreconditionBlockResponse) => void;
+  onDeleted?: (blockId: number) => void;
+}
+
+export function PreconditionBlockDialog({
+  open,
+  onOpenChange,
+  projectId,
+  block,
+  initialFlow,
+  secretNames,
+  onSaved,
+  onDeleted,
+}: PreconditionBlockDialogProps) {
+  const { toast } = useToast();
+  const { fieldErrors, applyError, clearFieldErrors } = useFieldErrors();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [flow, setFlow] = useState<PreconditionFlow>(emptySuitePreconditions());
+  const [draftErrors, setDraftErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const errors = { ...fieldErrors, ...draftErrors };
+  const isBusy = isSaving || isDeleting;
+
+  useEffect(() => {
+    if (!open) return;
+    setName(block?.name ?? "");
+    setDescription(block?.description ?? "");
+    const source = block ?? initialFlow ?? emptySuitePreconditions();
+    setFlow({ steps: source.steps.map((step) => ({ ...step })), success_check: source.success_check });
+    setDraftErrors({});
+    clearFieldErrors();
+    // initialFlow is only read when the dialog opens
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, block, clearFieldErrors]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const normalized = normalizePreconditionFlow(flow);
+    const problems = validatePreconditionFlow(normalized, secretNames);
+    if (!name.trim()) {
+      problems.name = "Name is required";
+    }
+    setDraftErrors(problems);
+    if (Object.keys(problems).length > 0) return;
+
+    setIsSaving(true);
+    clearFieldErrors();
+    try {
+      const payload = { name: name.trim(), description: description.trim() || null, ...normalized };
+      const saved = block
+        ? await updatePreconditionBlock(projectId, block.id, payload)
+        : await createPreconditionBlock(projectId, payload);
+      toast({
+        title: "Success",
+        description: `Precondition block "${saved.name}" saved`,
+      });
+      onOpenChange(false);
+      onSaved(saved);
+    } catch (error) {
+      if (!applyError(error)) {
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to save precondition block",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!block) return;
+
+    setIsDeleting(true);
+    try {
+      await deletePreconditionBlock(projectId, block.id);
+      toast({
+        title: "Success",
+        description: `Deleted "${block.name}"`,
+      });
+      onOpenChange(false);
+      onDeleted?.(block.id);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete precondition block",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !isBusy && onOpenChange(nextOpen)}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSave} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{block ? "Edit Precondition Block" : "New Precondition Block"}</DialogTitle>
+            <DialogDescription>
+              A setup flow every suite in this workspace can reuse.
+              {block && block.suite_count > 0 &&
+                ` Changes apply to the ${block.suite_count} suite${block.suite_count === 1 ? "" : "s"} using it.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="precondition-block-name">Name</Label>
+              <Input
+                id="precondition-block-name"
+                placeholder="Log in as admin"
+                value={name}
+                onChange={(e) => {
+                  setName(e.target.value);
+                  setDraftErrors({});
+                }}
+                className={cn(errors.name && "border-destructive")}
+              />
+              <FieldErrorMessage message={errors.name} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="precondition-block-description">Description</Label>
+              <Input
+                id="precondition-block-description"
+                placeholder="Optional"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <PreconditionStepsEditor
+            flow={flow}
+            onChange={(next) => {
+              setFlow(next);
+              setDraftErrors({});
+            }}
+            secretNames={secretNames}
+            error={errors.steps}
+            idPrefix="precondition-block"
+          />
+
+          <DialogFooter className="sm:justify-between">
+            {block ? (
+              <Button
+                type="button"
+                variant="ghost"
+                className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                onClick={handleDelete}
+                disabled={isBusy || block.suite_count > 0}
+                title={block.suite_count > 0 ? "Switch the suites using it to other preconditions first" : undefined}
+              >
+                {isDeleting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Trash2 className="h-4 w-4 mr-2" />}
+                Delete
+              </Button>
+            ) : (
+              <span />
+            )}
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isBusy}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isBusy}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save Block
+              </Button>
+            </div>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,143 @@
+import { ArrowDown, ArrowUp, KeyRound, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FieldErrorMessage } from "@/components/FieldErrorMessage";
+import { cn } from "@/lib/utils";
+import {
+  MAX_PRECONDITION_STEPS,
+  emptyPreconditionStep,
+  type PreconditionFlow,
+  type PreconditionStep,
+} from "@/lib/preconditions";
+
+// Radix selects can't hold an empty value
+const NO_SECRET = "none";
+
+interface PreconditionStepsEditorProps {
+  flow: PreconditionFlow;
+  onChange: (flow: PreconditionFlow) => void;
+  /** Names of the secrets steps may type in */
+  secretNames: string[];
+  error?: string;
+  idPrefix: string;
+}
+
+/**
+ * Ordered setup steps, each optionally typing in a secret, plus the check that setup worked
+ */
+export function PreconditionStepsEditor({ flow, onChange, secretNames, error, idPrefix }: PreconditionStepsEditorProps) {
+  const updateStep = (index: number, updates: Partial<PreconditionStep>) =>
+    onChange({ ...flow, steps: flow.steps.map((step, i) => (i === index ? { ...step, ...updates } : step)) });
+
+  const moveStep = (index: number, offset: number) => {
+    const steps = [...flow.steps];
+    const [step] = steps.splice(index, 1);
+    steps.splice(index + offset, 0, step);
+    onChange({ ...flow, steps });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Steps</Label>
+        <ol className="space-y-2">
+          {flow.steps.map((step, index) => (
+            <li key={index} className="flex items-center gap-2">
+              <span className="w-5 text-right text-xs text-muted-foreground flex-shrink-0">{index + 1}.</span>
+              <Input
+                aria-label={`Step ${index + 1}`}
+                placeholder={index === 0 ? "Open the login page" : "Type the password into the Password field"}
+                value={step.instruction}
+                onChange={(e) => updateStep(index, { instruction: e.target.value })}
+                className={cn(error && !step.instruction.trim() && "border-destructive")}
+              />
+              <Select
+                value={step.secret_name ?? NO_SECRET}
+                onValueChange={(value) => updateStep(index, { secret_name: value === NO_SECRET ? null : value })}
+              >
+                <SelectTrigger className="w-[170px] flex-shrink-0" title="Secret this step types in">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_SECRET}>No secret</SelectItem>
+                  {/* Keep a reference to a deleted secret visible so it can be fixed */}
+                  {step.secret_name && !secretNames.includes(step.secret_name) && (
+                    <SelectItem value={step.secret_name}>{step.secret_name} (missing)</SelectItem>
+                  )}
+                  {secretNames.map((name) => (
+                    <SelectItem key={name} value={name}>
+                      <span className="flex items-center gap-1.5">
+                        <KeyRound className="h-3 w-3" />
+                        {name}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex flex-shrink-0">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  className="h-9 w-7 p-0"
+                  title="Move up"
+                  disabled={index === 0}
+                  onClick={() => moveStep(index, -1)}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  className="h-9 w-7 p-0"
+                  title="Move down"
+                  disabled={index === flow.steps.length - 1}
+                  onClick={() => moveStep(index, 1)}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  className="h-9 w-7 p-0"
+                  title="Remove step"
+                  onClick={() => onChange({ ...flow, steps: flow.steps.filter((_, i) => i !== index) })}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ol>
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          disabled={flow.steps.length >= MAX_PRECONDITION_STEPS}
+          onClick={() => onChange({ ...flow, steps: [...flow.steps, emptyPreconditionStep()] })}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add step
+        </Button>
+        <FieldErrorMessage message={error} />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-success-check`}>Success check</Label>
+        <Input
+          id={`${idPrefix}-success-check`}
+          placeholder="The dashboard shows the account menu"
+          value={flow.success_check ?? ""}
+          onChange={(e) => onChange({ ...flow, success_check: e.target.value || null })}
+        />
+        <p className="text-xs text-muted-foreground">
+          Optional. Scenarios only start once the agent confirms this; otherwise the run fails in setup.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { KeyRound, Layers, Pencil, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FieldErrorMessage } from "@/components/FieldErrorMessage";
+import { PreconditionBlockDialog } from "@/components/PreconditionBlockDialog";
+import { PreconditionStepsEditor } from "@/components/PreconditionStepsEditor";
+import { useApiQuery } from "@/hooks/use-api-query";
+import { queryKeys } from "@/lib/query-cache";
+import {
+  getPreconditionBlocks,
+  getSecrets,
+  type PreconditionBlockResponse,
+  type SecretResponse,
+} from "@/lib/api-client";
+import { emptySuitePreconditions, type SuitePreconditions } from "@/lib/preconditions";
+
+const CUSTOM_STEPS = "custom";
+
+interface PreconditionsEditorProps {
+  projectId: number;
+  value: SuitePreconditions;
+  onChange: (value: SuitePreconditions) => void;
+  error?: string;
+  idPrefix: string;
+}
+
+/**
+ * A suite's preconditions: its own steps, or a precondition block shared across the workspace
+ */
+export function PreconditionsEditor({ projectId, value, onChange, error, idPrefix }: PreconditionsEditorProps) {
+  // "new" saves the suite's own steps as a block; a block edits that block
+  const [blockDialog, setBlockDialog] = useState<"new" | PreconditionBlockResponse | null>(null);
+
+  const { data: blocks = [] } = useApiQuery(
+    queryKeys.preconditionBlocks(projectId),
+    () => getPreconditionBlocks(projectId),
+    { enabled: projectId > 0 }
+  );
+  const { data: secrets = [] } = useApiQuery<SecretResponse[]>(queryKeys.secrets(), () => getSecrets());
+  const secretNames = secrets
+    .filter((secret) => !secret.project_id || secret.project_id === projectId)
+    .map((secret) => secret.name);
+
+  const selectedBlock = value.block_id !== null ? blocks.find((block) => block.id === value.block_id) : undefined;
+
+  const handleSourceChange = (source: string) => {
+    if (source === CUSTOM_STEPS) {
+      // Start from the block's steps so switching is a quick way to tweak them for one suite
+      onChange(
+        selectedBlock
+          ? { block_id: null, steps: selectedBlock.steps.map((step) => ({ ...step })), success_check: selectedBlock.success_check }
+          : { ...emptySuitePreconditions(), ...value, block_id: null }
+      );
+    } else {
+      onChange({ block_id: Number(source), steps: [], success_check: null });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Setup</Label>
+        <div className="flex items-center gap-2">
+          <Select value={value.block_id !== null ? value.block_id.toString() : CUSTOM_STEPS} onValueChange={handleSourceChange}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={CUSTOM_STEPS}>Steps for this suite only</SelectItem>
+              {blocks.map((block) => (
+                <SelectItem key={block.id} value={block.id.toString()}>
+                  <span className="flex items-center gap-1.5">
+                    <Layers className="h-3 w-3" />
+                    {block.name}
+                  </span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {value.block_id === null ? (
+            <Button type="button" variant="outline" className="flex-shrink-0" onClick={() => setBlockDialog("new")}>
+              <Plus className="h-4 w-4 mr-2" />
+              Save as block
+            </Button>
+          ) : (
+            selectedBlock && (
+              <Button type="button" variant="outline" className="flex-shrink-0" onClick={() => setBlockDialog(selectedBlock)}>
+                <Pencil className="h-4 w-4 mr-2" />
+                Edit block
+              </Button>
+            )
+          )}
+        </div>
+      </div>
+
+      {value.block_id === null ? (
+        <PreconditionStepsEditor
+          flow={value}
+          onChange={(flow) => onChange({ ...value, ...flow })}
+          secretNames={secretNames}
+          error={error}
+          idPrefix={idPrefix}
+        />
+      ) : selectedBlock ? (
+        <div className="rounded-md border bg-muted/30 p-3 text-sm space-y-2">
+          {selectedBlock.description && <p className="text-muted-foreground">{selectedBlock.description}</p>}
+          <ol className="list-decimal ml-5 space-y-1">
+            {selectedBlock.steps.map((step, index) => (
+              <li key={index}>
+                {step.instruction}
+                {step.secret_name && (
+                  <span className="ml-2 inline-flex items-center gap-1 text-xs text-muted-foreground">
+                    <KeyRound className="h-3 w-3" />
+                    {step.secret_name}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ol>
+          {selectedBlock.success_check && (
+            <p className="text-xs text-muted-foreground">Success check: {selectedBlock.success_check}</p>
+          )}
+          <FieldErrorMessage message={error} />
+        </div>
+      ) : (
+        <FieldErrorMessage message={error ?? "This precondition block no longer exists"} />
+      )}
+
+      <PreconditionBlockDialog
+        open={blockDialog !== null}
+        onOpenChange={(open) => !open && setBlockDialog(null)}
+        projectId={projectId}
+        block={blockDialog === "new" ? null : blockDialog}
+        initialFlow={value.block_id === null ? value : undefined}
+        secretNames={secretNames}
+        onSaved={(block) => onChange({ block_id: block.id, steps: [], success_check: null })}
+        onDeleted={() => onChange(emptySuitePreconditions())}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useProject } from "@/contexts/ProjectContext";
+import { useApiQuery } from "@/hooks/use-api-query";
+import { getDeviceProfiles } from "@/lib/api-client";
+import { queryKeys } from "@/lib/query-cache";
+import { RESOLUTION_GROUPS, RESOLUTION_OPTIONS, deviceProfileValue, resolveViewport } from "@/lib/resolutions";
+
+interface ResolutionSelectProps {
+  value: string;
+  onValueChange: (value: string) => void;
+  className?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Resolution picker with the presets grouped by device type and the selected project's custom device profiles
+ */
+export function ResolutionSelect({ value, onValueChange, className, disabled }: ResolutionSelectProps) {
+  const { selectedProject } = useProject();
+  const { data: deviceProfiles = [] } = useApiQuery(
+    queryKeys.deviceProfiles(selectedProject?.id ?? 0),
+    () => getDeviceProfiles(selectedProject!.id),
+    { enabled: !!selectedProject }
+  );
+
+  return (
+    <Select value={value} onValueChange={onValueChange} disabled={disabled}>
+      <SelectTrigger className={className}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {RESOLUTION_GROUPS.map((group) => (
+          <SelectGroup key={group}>
+            <SelectLabel>{group}</SelectLabel>
+            {RESOLUTION_OPTIONS.filter((option) => option.group === group).map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label} ({option.value})
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        ))}
+        {deviceProfiles.length > 0 && (
+          <SelectGroup>
+            <SelectLabel>Custom devices</SelectLabel>
+            {deviceProfiles.map((profile) => {
+              const viewport = resolveViewport(deviceProfileValue(profile.id), deviceProfiles);
+              return (
+                <SelectItem key={profile.id} value={deviceProfileValue(profile.id)}>
+                  {profile.name} ({viewport?.width}x{viewport?.height})
+                </SelectItem>
+              );
+            })}
+          </SelectGroup>
+        )}
+      </SelectContent>
+    </Select>
+  );
+}
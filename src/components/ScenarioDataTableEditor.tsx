@@ -0,0 +1,184 @@
+import { Plus, Table2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { FieldErrorMessage } from "@/components/FieldErrorMessage";
+import { cn } from "@/lib/utils";
+import { MAX_DATA_TABLE_COLUMNS, MAX_DATA_TABLE_ROWS, type DataTableGrid } from "@/lib/scenario-parameters";
+
+interface ScenarioDataTableEditorProps {
+  grid: DataTableGrid | null;
+  onChange: (grid: DataTableGrid | null) => void;
+  /** `{{variable}}` placeholders the scenario uses, offered as columns */
+  variables: string[];
+  error?: string;
+}
+
+export function ScenarioDataTableEditor({ grid, onChange, variables, error }: ScenarioDataTableEditorProps) {
+  const missingColumns = variables.filter((variable) => !grid?.columns.includes(variable));
+
+  if (!grid) {
+    return (
+      <div className="space-y-2">
+        <Label>Data table</Label>
+        <p className="text-xs text-muted-foreground">
+          Run this scenario once per row, e.g. for several products or user roles. Each column fills in a{" "}
+          <code>{"{{column}}"}</code> placeholder.
+        </p>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => {
+            const columns = variables.length > 0 ? variables.slice(0, MAX_DATA_TABLE_COLUMNS) : [""];
+            onChange({ columns, cells: [columns.map(() => "")] });
+          }}
+        >
+          <Table2 className="h-4 w-4 mr-2" />
+          Add data table
+        </Button>
+      </div>
+    );
+  }
+
+  const addColumn = (name: string) =>
+    onChange({ columns: [...grid.columns, name], cells: grid.cells.map((cells) => [...cells, ""]) });
+
+  const removeColumn = (index: number) => {
+    if (grid.columns.length === 1) {
+      onChange(null);
+      return;
+    }
+    onChange({
+      columns: grid.columns.filter((_, i) => i !== index),
+      cells: grid.cells.map((cells) => cells.filter((_, i) => i !== index)),
+    });
+  };
+
+  const updateCell = (rowIndex: number, columnIndex: number, value: string) =>
+    onChange({
+      ...grid,
+      cells: grid.cells.map((cells, r) => (r === rowIndex ? cells.map((cell, c) => (c === columnIndex ? value : cell)) : cells)),
+    });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Data table</Label>
+        <Button type="button" size="sm" variant="ghost" className="h-7 text-muted-foreground" onClick={() => onChange(null)}>
+          Remove table
+        </Button>
+      </div>
+      <div className="overflow-x-auto rounded-md border">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b bg-muted/40">
+              <th className="w-8" />
+              {grid.columns.map((column, columnIndex) => (
+                <th key={columnIndex} className="p-1 min-w-[140px]">
+                  <div className="flex items-center gap-1">
+                    <Input
+                      aria-label={`Column ${columnIndex + 1} name`}
+                      placeholder="column"
+                      value={column}
+                      onChange={(e) =>
+                        onChange({
+                          ...grid,
+                          columns: grid.columns.map((name, i) => (i === columnIndex ? e.target.value : name)),
+                        })
+                      }
+                      className={cn("h-8 font-mono text-xs", error && !column.trim() && "border-destructive")}
+                    />
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      className="h-8 w-7 p-0 flex-shrink-0"
+                      title="Remove column"
+                      onClick={() => removeColumn(columnIndex)}
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                </th>
+              ))}
+              <th className="w-8" />
+            </tr>
+          </thead>
+          <tbody>
+            {grid.cells.map((cells, rowIndex) => (
+              <tr key={rowIndex} className="border-b last:border-0">
+                <td className="px-2 text-xs text-muted-foreground text-right">{rowIndex + 1}</td>
+                {cells.map((cell, columnIndex) => (
+                  <td key={columnIndex} className="p-1">
+                    <Input
+                      aria-label={`Row ${rowIndex + 1}, ${grid.columns[columnIndex] || `column ${columnIndex + 1}`}`}
+                      value={cell}
+                      onChange={(e) => updateCell(rowIndex, columnIndex, e.target.value)}
+                      className="h-8 text-xs"
+                    />
+                  </td>
+                ))}
+                <td className="p-1">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    className="h-8 w-7 p-0"
+                    title="Remove row"
+                    disabled={grid.cells.length === 1}
+                    onClick={() => onChange({ ...grid, cells: grid.cells.filter((_, i) => i !== rowIndex) })}
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          disabled={grid.cells.length >= MAX_DATA_TABLE_ROWS}
+          onClick={() => onChange({ ...grid, cells: [...grid.cells, grid.columns.map(() => "")] })}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add row
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          disabled={grid.columns.length >= MAX_DATA_TABLE_COLUMNS}
+          onClick={() => addColumn("")}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add column
+        </Button>
+        {missingColumns.length > 0 && grid.columns.length < MAX_DATA_TABLE_COLUMNS && (
+          <span className="flex flex-wrap items-center gap-1.5 text-xs text-muted-foreground">
+            Used but not in the table:
+            {missingColumns.map((variable) => (
+              <Badge
+                key={variable}
+                variant="outline"
+                className="cursor-pointer font-mono hover:bg-muted"
+                onClick={() => addColumn(variable)}
+              >
+                {variable}
+              </Badge>
+            ))}
+          </span>
+        )}
+      </div>
+      <FieldErrorMessage message={error} />
+      <p className="text-xs text-muted-foreground">
+        The scenario runs once per row. Placeholders that aren't columns are filled in from the run's environment.
+      </p>
+    </div>
+  );
+}
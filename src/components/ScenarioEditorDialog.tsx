@@ -0,0 +1,370 @@
+import { useEffect, useState } from "react";
+import { ArrowDown, ArrowUp, Braces, Loader2, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useFieldErrors } from "@/hooks/use-field-errors";
+import { FieldErrorMessage } from "@/components/FieldErrorMessage";
+import { ScenarioDataTableEditor } from "@/components/ScenarioDataTableEditor";
+import { useApiQuery } from "@/hooks/use-api-query";
+import { queryKeys } from "@/lib/query-cache";
+import { cn } from "@/lib/utils";
+import {
+  createScenario,
+  getSecrets,
+  updateScenario,
+  type ScenarioResponse,
+  type SecretResponse,
+} from "@/lib/api-client";
+import {
+  MAX_AGENT_STEPS,
+  MAX_SCENARIO_ASSERTIONS,
+  MAX_SCENARIO_STEPS,
+  emptyScenarioDefinition,
+  getScenarioTexts,
+  moveItem,
+  normalizeScenarioDefinition,
+  rewriteDefinitionLegacySecrets,
+  scenarioToDefinition,
+  validateScenarioDefinition,
+  type ScenarioDefinition,
+} from "@/lib/scenario-definition";
+import {
+  dataTableToGrid,
+  findPlaceholders,
+  gridToDataTable,
+  type DataTableGrid,
+} from "@/lib/scenario-parameters";
+
+interface ScenarioEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  testSuiteId: number;
+  /** The suite's project, whose secrets `{{secrets.name}}` placeholders can use */
+  projectId?: number;
+  /** The scenario to edit; null creates a new one */
+  scenario: ScenarioResponse | null;
+  /** The suite's application URL, which relative starting URLs build on */
+  applicationUrl?: string | null;
+  onSaved: (scenario: ScenarioResponse) => void;
+}
+
+interface OrderedListEditorProps {
+  label: string;
+  items: string[];
+  onChange: (items: string[]) => void;
+  max: number;
+  placeholder: (index: number) => string;
+  addLabel: string;
+  error?: string;
+}
+
+/**
+ * An ordered list of one-line entries that can be added, removed and moved
+ */
+function OrderedListEditor({ label, items, onChange, max, placeholder, addLabel, error }: OrderedListEditorProps) {
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <ol className="space-y-2">
+        {items.map((item, index) => (
+          <li key={index} className="flex items-center gap-2">
+            <span className="w-5 text-right text-xs text-muted-foreground flex-shrink-0">{index + 1}.</span>
+            <Input
+              aria-label={`${label} ${index + 1}`}
+              placeholder={placeholder(index)}
+              value={item}
+              onChange={(e) => onChange(items.map((current, i) => (i === index ? e.target.value : current)))}
+            />
+            <div className="flex flex-shrink-0">
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                className="h-9 w-7 p-0"
+                title="Move up"
+                disabled={index === 0}
+                onClick={() => onChange(moveItem(items, index, index - 1))}
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                className="h-9 w-7 p-0"
+                title="Move down"
+                disabled={index === items.length - 1}
+                onClick={() => onChange(moveItem(items, index, index + 1))}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                className="h-9 w-7 p-0"
+                title="Remove"
+                onClick={() => onChange(items.filter((_, i) => i !== index))}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ol>
+      <Button
+        type="button"
+        size="sm"
+        variant="ghost"
+        disabled={items.length >= max}
+        onClick={() => onChange([...items, ""])}
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        {addLabel}
+      </Button>
+      <FieldErrorMessage message={error} />
+    </div>
+  );
+}
+
+export function ScenarioEditorDialog({
+  open,
+  onOpenChange,
+  testSuiteId,
+  projectId,
+  scenario,
+  applicationUrl,
+  onSaved,
+}: ScenarioEditorDialogProps) {
+  const { toast } = useToast();
+  const { fieldErrors, applyError, clearFieldErrors } = useFieldErrors();
+  const [definition, setDefinition] = useState<ScenarioDefinition>(emptyScenarioDefinition);
+  const [tableGrid, setTableGrid] = useState<DataTableGrid | null>(null);
+  const [draftErrors, setDraftErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: secrets } = useApiQuery<SecretResponse[]>(queryKeys.secrets(), () => getSecrets(), { enabled: open });
+  // Until secrets load, leave checking secret names to the server
+  const secretNames = secrets
+    ?.filter((secret) => !secret.project_id || secret.project_id === projectId)
+    .map((secret) => secret.name);
+
+  const errors = { ...fieldErrors, ...draftErrors };
+  const isEditing = scenario !== null;
+  const fullDefinition: ScenarioDefinition = { ...definition, data_table: gridToDataTable(tableGrid) };
+  const placeholders = findPlaceholders(getScenarioTexts(fullDefinition));
+  const environmentVariables = placeholders.variables.filter((variable) => !tableGrid?.columns.includes(variable));
+
+  useEffect(() => {
+    if (!open) return;
+    const initial = scenario ? scenarioToDefinition(scenario) : emptyScenarioDefinition();
+    setDefinition(initial);
+    setTableGrid(dataTableToGrid(initial.data_table));
+    setDraftErrors({});
+    clearFieldErrors();
+  }, [open, scenario, clearFieldErrors]);
+
+  const update = (updates: Partial<ScenarioDefinition>) => {
+    setDefinition((prev) => ({ ...prev, ...updates }));
+    setDraftErrors({});
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const problems = validateScenarioDefinition(fullDefinition, secretNames);
+    setDraftErrors(problems);
+    if (Object.keys(problems).length > 0) return;
+
+    const data = normalizeScenarioDefinition(fullDefinition);
+    setIsSaving(true);
+    clearFieldErrors();
+    try {
+      const saved = scenario
+        ? await updateScenario(scenario.id, data)
+        : await createScenario({ ...data, test_suite_id: testSuiteId });
+      toast({
+        title: "Scenario saved",
+        description: isEditing ? "Scenario has been updated." : "Scenario has been added to the test suite.",
+      });
+      onSaved(saved);
+      onOpenChange(false);
+    } catch (error) {
+      if (!applyError(error)) {
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to save scenario",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isSaving && onOpenChange(next)}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{isEditing ? "Edit Test Scenario" : "Add New Test Scenario"}</DialogTitle>
+            <DialogDescription>
+              Name the goal, then list the steps the agent should take and what must be true at the end.
+              Scenarios without steps are run from the name alone. Use <code>{"{{name}}"}</code> for values from a
+              data table or environment and <code>{"{{secrets.name}}"}</code> for secrets.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="scenario-name">Name</Label>
+            <Input
+              id="scenario-name"
+              placeholder="Add an item to the cart"
+              value={definition.name}
+              onChange={(e) => update({ name: e.target.value })}
+              className={cn(errors.name && "border-destructive")}
+              autoFocus
+            />
+            <FieldErrorMessage message={errors.name} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="scenario-description">Notes</Label>
+            <Textarea
+              id="scenario-description"
+              placeholder="Anything else the agent should know"
+              value={definition.description ?? ""}
+              onChange={(e) => update({ description: e.target.value || null })}
+              rows={2}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="scenario-start-url">Starting URL</Label>
+              <Input
+                id="scenario-start-url"
+                placeholder={applicationUrl || "/products"}
+                value={definition.start_url ?? ""}
+                onChange={(e) => update({ start_url: e.target.value || null })}
+                className={cn(errors.start_url && "border-destructive")}
+              />
+              <FieldErrorMessage message={errors.start_url} />
+              <p className="text-xs text-muted-foreground">
+                A full URL, or a path on the suite's application URL. Leave empty to start at the application URL.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="scenario-max-steps">Max steps</Label>
+              <Input
+                id="scenario-max-steps"
+                type="number"
+                min={1}
+                max={MAX_AGENT_STEPS}
+                placeholder="Suite default"
+                value={definition.max_steps ?? ""}
+                onChange={(e) => update({ max_steps: e.target.value ? Number(e.target.value) : null })}
+                className={cn(errors.max_steps && "border-destructive")}
+              />
+              <FieldErrorMessage message={errors.max_steps} />
+            </div>
+          </div>
+
+          <OrderedListEditor
+            label="Steps"
+            items={definition.steps}
+            onChange={(steps) => update({ steps })}
+            max={MAX_SCENARIO_STEPS}
+            placeholder={(index) => (index === 0 ? "Open the first product" : "Click Add to cart")}
+            addLabel="Add step"
+            error={errors.steps}
+          />
+
+          <OrderedListEditor
+            label="Assertions"
+            items={definition.assertions}
+            onChange={(assertions) => update({ assertions })}
+            max={MAX_SCENARIO_ASSERTIONS}
+            placeholder={(index) => (index === 0 ? "The cart badge shows 1" : "The cart total equals the product price")}
+            addLabel="Add assertion"
+            error={errors.assertions}
+          />
+
+          {(placeholders.variables.length > 0 || placeholders.secrets.length > 0 || errors.placeholders) && (
+            <div className="rounded-md border bg-muted/40 p-3 space-y-1.5 text-xs">
+              <div className="flex items-center gap-2 font-medium text-sm">
+                <Braces className="h-4 w-4 text-muted-foreground" />
+                Placeholders
+              </div>
+              {placeholders.secrets.length > 0 && (
+                <p className="text-muted-foreground">
+                  Secrets:{" "}
+                  {placeholders.secrets.map((name) => (
+                    <code key={name} className="mr-1.5">{`{{secrets.${name}}}`}</code>
+                  ))}
+                  — filled in by the server when the agent runs; their values are never shown here or in run results.
+                </p>
+              )}
+              {placeholders.legacySecrets.length > 0 && (
+                <p className="text-muted-foreground">
+                  {placeholders.legacySecrets.map((name) => (
+                    <code key={name} className="mr-1.5">{`\${${name}}`}</code>
+                  ))}
+                  uses the old secret syntax. It still works, but <code>{"{{secrets.name}}"}</code> is the current one.{" "}
+                  <Button
+                    type="button"
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0 text-xs"
+                    onClick={() => update(rewriteDefinitionLegacySecrets(definition))}
+                  >
+                    Rewrite
+                  </Button>
+                </p>
+              )}
+              {environmentVariables.length > 0 && (
+                <p className="text-muted-foreground">
+                  From the run's environment:{" "}
+                  {environmentVariables.map((name) => (
+                    <code key={name} className="mr-1.5">{`{{${name}}}`}</code>
+                  ))}
+                </p>
+              )}
+              <FieldErrorMessage message={errors.placeholders} />
+            </div>
+          )}
+
+          <ScenarioDataTableEditor
+            grid={tableGrid}
+            onChange={(grid) => {
+              setTableGrid(grid);
+              setDraftErrors({});
+            }}
+            variables={placeholders.variables}
+            error={errors.data_table}
+          />
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !definition.name.trim()}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {isEditing ? "Save Changes" : "Add Scenario"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
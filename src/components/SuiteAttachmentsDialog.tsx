@@ -0,0 +1,406 @@
+import { useEffect, useRef, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import {
+  AlertCircle,
+  CheckCircle2,
+  Download,
+  Eye,
+  FileText,
+  Image as ImageIcon,
+  Loader2,
+  Paperclip,
+  Sparkles,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useApiQuery } from "@/hooks/use-api-query";
+import { cn } from "@/lib/utils";
+import { queryKeys } from "@/lib/query-cache";
+import triggerDownload from "@/lib/download";
+import {
+  deleteTestSuiteAttachment,
+  getTestSuiteAttachments,
+  uploadTestSuiteAttachments,
+  type TestSuiteAttachmentResponse,
+} from "@/lib/api-client";
+import {
+  ALLOWED_ATTACHMENT_TYPES,
+  ATTACHMENT_ACCEPT,
+  formatFileSize,
+  getAttachmentPreviewKind,
+} from "@/lib/attachments";
+
+// Long text files are cut off in the preview; download them to read the rest
+const MAX_TEXT_PREVIEW_CHARS = 20000;
+
+interface PendingUpload {
+  key: string;
+  file: File;
+  status: "queued" | "uploading" | "done" | "failed";
+  error?: string;
+}
+
+interface SuiteAttachmentsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  testSuiteId: number;
+  canEdit: boolean;
+}
+
+export function SuiteAttachmentsDialog({ open, onOpenChange, testSuiteId, canEdit }: SuiteAttachmentsDialogProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploads, setUploads] = useState<PendingUpload[]>([]);
+  const [previewId, setPreviewId] = useState<number | null>(null);
+  const [previewText, setPreviewText] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<number | null>(null);
+
+  const {
+    data: attachments = [],
+    isLoading,
+    error,
+  } = useApiQuery(queryKeys.suiteAttachments(testSuiteId), () => getTestSuiteAttachments(testSuiteId), {
+    enabled: open && !isNaN(testSuiteId),
+  });
+
+  const isUploading = uploads.some((upload) => upload.status === "queued" || upload.status === "uploading");
+  const totalBytes = uploads.reduce((sum, upload) => sum + upload.file.size, 0);
+  const finishedUploads = uploads.filter((upload) => upload.status === "done" || upload.status === "failed");
+  const finishedBytes = finishedUploads.reduce((sum, upload) => sum + upload.file.size, 0);
+  const usedInGeneration = attachments.filter((attachment) => attachment.used_in_generation_at);
+
+  const previewAttachment = attachments.find((attachment) => attachment.id === previewId);
+  const previewKind = previewAttachment
+    ? getAttachmentPreviewKind(previewAttachment.content_type, previewAttachment.filename)
+    : null;
+
+  // Text previews are fetched; images and PDFs are shown straight from their URL
+  useEffect(() => {
+    setPreviewText(null);
+    setPreviewError(null);
+    if (!previewAttachment?.storage_url || previewKind !== "text") return;
+
+    let cancelled = false;
+    fetch(previewAttachment.storage_url)
+      .then((response) => {
+        if (!response.ok) throw new Error(`Could not load ${previewAttachment.filename}`);
+        return response.text();
+      })
+      .then((text) => !cancelled && setPreviewText(text))
+      .catch((error) => !cancelled && setPreviewError(error instanceof Error ? error.message : "Could not load preview"));
+    return () => {
+      cancelled = true;
+    };
+  }, [previewAttachment?.storage_url, previewAttachment?.filename, previewKind]);
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+
+    const validFiles = files.filter((file) => {
+      if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+        toast({
+          title: "Invalid file type",
+          description: `${file.name} is not a supported file type`,
+          variant: "destructive",
+        });
+        return false;
+      }
+      return true;
+    });
+    if (validFiles.length === 0) return;
+
+    const batch: PendingUpload[] = validFiles.map((file, index) => ({
+      key: `${Date.now()}-${index}`,
+      file,
+      status: "queued",
+    }));
+    setUploads(batch);
+
+    // One file per request so progress moves as each finishes and one bad file doesn't sink the rest
+    const updateUpload = (key: string, updates: Partial<PendingUpload>) =>
+      setUploads((prev) => prev.map((upload) => (upload.key === key ? { ...upload, ...updates } : upload)));
+    let failed = 0;
+    for (const upload of batch) {
+      updateUpload(upload.key, { status: "uploading" });
+      try {
+        await uploadTestSuiteAttachments(testSuiteId, [upload.file]);
+        updateUpload(upload.key, { status: "done" });
+      } catch (error) {
+        failed++;
+        updateUpload(upload.key, {
+          status: "failed",
+          error: error instanceof Error ? error.message : "Upload failed",
+        });
+      }
+    }
+
+    if (failed === 0) {
+      setUploads([]);
+      toast({
+        title: "Success",
+        description: `Uploaded ${batch.length} file${batch.length === 1 ? "" : "s"}`,
+      });
+    } else {
+      toast({
+        title: "Some files were not uploaded",
+        description: `${failed} of ${batch.length} uploads failed`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (attachment: TestSuiteAttachmentResponse) => {
+    setDeletingId(attachment.id);
+    try {
+      await deleteTestSuiteAttachment(testSuiteId, attachment.id);
+      if (previewId === attachment.id) setPreviewId(null);
+      toast({
+        title: "Success",
+        description: `Deleted "${attachment.filename}"`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete attachment",
+        variant: "destructive",
+      });
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  // Closing waits for uploads to finish
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (isUploading) return;
+    onOpenChange(nextOpen);
+    if (!nextOpen) {
+      setUploads([]);
+      setPreviewId(null);
+    }
+  };
+
+  const getFileIcon = (attachment: TestSuiteAttachmentResponse) =>
+    getAttachmentPreviewKind(attachment.content_type, attachment.filename) === "image" ? (
+      <ImageIcon className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+    ) : (
+      <FileText className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+    );
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Attachments</DialogTitle>
+          <DialogDescription>
+            Screenshots, specs and test cases that give scenario generation context. Generation reads images, PDFs
+            and text files; other documents are kept for reference.
+          </DialogDescription>
+        </DialogHeader>
+
+        {canEdit && (
+          <div className="space-y-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              className="hidden"
+              multiple
+              accept={ATTACHMENT_ACCEPT}
+              onChange={handleFileSelect}
+            />
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isUploading}>
+              <Upload className="h-4 w-4 mr-2" />
+              Upload files
+            </Button>
+
+            {uploads.length > 0 && (
+              <div className="rounded-md border p-3 space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span>
+                    {isUploading
+                      ? `Uploading ${Math.min(finishedUploads.length + 1, uploads.length)} of ${uploads.length}`
+                      : `Finished ${uploads.length} upload${uploads.length === 1 ? "" : "s"}`}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {formatFileSize(finishedBytes)} of {formatFileSize(totalBytes)}
+                  </span>
+                </div>
+                <div className="h-2 rounded-full bg-muted overflow-hidden">
+                  <div
+                    className="h-full bg-primary transition-all"
+                    style={{ width: `${totalBytes > 0 ? (finishedBytes / totalBytes) * 100 : 0}%` }}
+                  />
+                </div>
+                <ul className="space-y-1">
+                  {uploads.map((upload) => (
+                    <li key={upload.key} className="flex items-center gap-2 text-xs">
+                      {upload.status === "uploading" ? (
+                        <Loader2 className="h-3 w-3 animate-spin flex-shrink-0" />
+                      ) : upload.status === "done" ? (
+                        <CheckCircle2 className="h-3 w-3 text-green-600 flex-shrink-0" />
+                      ) : upload.status === "failed" ? (
+                        <AlertCircle className="h-3 w-3 text-destructive flex-shrink-0" />
+                      ) : (
+                        <Paperclip className="h-3 w-3 text-muted-foreground flex-shrink-0" />
+                      )}
+                      <span className="truncate">{upload.file.name}</span>
+                      {upload.error && <span className="text-destructive truncate">{upload.error}</span>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            {attachments.length > 0 && (
+              <p className="text-xs text-muted-foreground flex items-center gap-1">
+                <Sparkles className="h-3 w-3" />
+                {usedInGeneration.length === 0
+                  ? "No attachment has been used for scenario generation yet"
+                  : `${usedInGeneration.length} of ${attachments.length} used for scenario generation`}
+              </p>
+            )}
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : error ? (
+              <p className="text-sm text-destructive">
+                {error instanceof Error ? error.message : "Failed to load attachments"}
+              </p>
+            ) : attachments.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4">No attachments yet.</p>
+            ) : (
+              <div className="divide-y rounded-md border">
+                {attachments.map((attachment) => {
+                  const canPreview =
+                    Boolean(attachment.storage_url) &&
+                    getAttachmentPreviewKind(attachment.content_type, attachment.filename) !== null;
+                  return (
+                    <div
+                      key={attachment.id}
+                      className={cn(
+                        "flex items-center justify-between gap-2 p-2",
+                        previewId === attachment.id && "bg-muted/50"
+                      )}
+                    >
+                      <div className="flex items-center gap-2 min-w-0">
+                        {getFileIcon(attachment)}
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium truncate">{attachment.filename}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {formatFileSize(attachment.size)} ·{" "}
+                            {formatDistanceToNow(new Date(attachment.created_at), { addSuffix: true })}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        {attachment.used_in_generation_at && (
+                          <Badge
+                            variant="secondary"
+                            className="gap-1"
+                            title={`Read by scenario generation ${formatDistanceToNow(
+                              new Date(attachment.used_in_generation_at),
+                              { addSuffix: true }
+                            )}`}
+                          >
+                            <Sparkles className="h-3 w-3" />
+                            Used
+                          </Badge>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          onClick={() => setPreviewId(attachment.id)}
+                          disabled={!canPreview}
+                          title={canPreview ? "Preview" : "No preview for this file"}
+                        >
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          onClick={() => attachment.storage_url && triggerDownload(attachment.storage_url, attachment.filename)}
+                          disabled={!attachment.storage_url}
+                          title={attachment.storage_url ? "Download" : "This file is not stored for download"}
+                        >
+                          <Download className="h-4 w-4" />
+                        </Button>
+                        {canEdit && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                            onClick={() => handleDelete(attachment)}
+                            disabled={deletingId === attachment.id}
+                            title="Delete attachment"
+                          >
+                            {deletingId === attachment.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <Trash2 className="h-4 w-4" />
+                            )}
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          <div className="rounded-md border min-h-[320px] flex items-center justify-center overflow-hidden bg-muted/20">
+            {!previewAttachment?.storage_url ? (
+              <p className="text-sm text-muted-foreground p-4 text-center">Pick a file to preview it here.</p>
+            ) : previewKind === "image" ? (
+              <img
+                src={previewAttachment.storage_url}
+                alt={previewAttachment.filename}
+                className="max-h-[480px] max-w-full object-contain"
+              />
+            ) : previewKind === "pdf" ? (
+              <iframe
+                src={previewAttachment.storage_url}
+                title={previewAttachment.filename}
+                className="w-full h-[480px]"
+              />
+            ) : previewError ? (
+              <p className="text-sm text-destructive p-4 text-center">{previewError}</p>
+            ) : previewText === null ? (
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            ) : (
+              <pre className="w-full h-[480px] overflow-auto p-3 text-xs whitespace-pre-wrap self-start">
+                {previewText.slice(0, MAX_TEXT_PREVIEW_CHARS)}
+                {previewText.length > MAX_TEXT_PREVIEW_CHARS && "\n\n… download the file to see the rest"}
+              </pre>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isUploading}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
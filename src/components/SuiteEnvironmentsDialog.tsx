@@ -0,0 +1,420 @@
+import { useState } from "react";
+import { KeyRound, Loader2, Pencil, Plus, Star, Trash2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useApiQuery } from "@/hooks/use-api-query";
+import { useFieldErrors } from "@/hooks/use-field-errors";
+import { FieldErrorMessage } from "@/components/FieldErrorMessage";
+import { cn } from "@/lib/utils";
+import { queryKeys } from "@/lib/query-cache";
+import {
+  createSuiteEnvironment,
+  deleteSuiteEnvironment,
+  getSecrets,
+  getSuiteEnvironments,
+  updateSuiteEnvironment,
+  type SecretResponse,
+  type SuiteEnvironmentResponse,
+} from "@/lib/api-client";
+import {
+  draftToEnvironmentPayload,
+  emptyEnvironmentDraft,
+  environmentToDraft,
+  validateEnvironmentDraft,
+  type SuiteEnvironmentDraft,
+} from "@/lib/suite-environments";
+
+interface SuiteEnvironmentsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  testSuiteId: number;
+  projectId: number;
+  /** Prefills the base URL of new environments */
+  applicationUrl?: string | null;
+}
+
+export function SuiteEnvironmentsDialog({
+  open,
+  onOpenChange,
+  testSuiteId,
+  projectId,
+  applicationUrl,
+}: SuiteEnvironmentsDialogProps) {
+  const { toast } = useToast();
+  const { fieldErrors, applyError, clearFieldErrors } = useFieldErrors();
+  // null while listing; "new" or the environment's id while the form is shown
+  const [editingId, setEditingId] = useState<number | "new" | null>(null);
+  const [draft, setDraft] = useState<SuiteEnvironmentDraft>(emptyEnvironmentDraft());
+  const [draftErrors, setDraftErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyEnvironmentId, setBusyEnvironmentId] = useState<number | null>(null);
+
+  const { data: environments = [], isLoading } = useApiQuery<SuiteEnvironmentResponse[]>(
+    queryKeys.suiteEnvironments(testSuiteId),
+    () => getSuiteEnvironments(testSuiteId),
+    { enabled: open }
+  );
+  const { data: secrets = [] } = useApiQuery<SecretResponse[]>(queryKeys.secrets(), () => getSecrets(), {
+    enabled: open,
+  });
+  const projectSecrets = secrets.filter((secret) => !secret.project_id || secret.project_id === projectId);
+
+  const errors = { ...fieldErrors, ...draftErrors };
+
+  const showForm = (environment?: SuiteEnvironmentResponse) => {
+    setEditingId(environment ? environment.id : "new");
+    setDraft(environment ? environmentToDraft(environment) : emptyEnvironmentDraft(applicationUrl ?? ""));
+    setDraftErrors({});
+    clearFieldErrors();
+  };
+
+  const updateDraft = (updates: Partial<SuiteEnvironmentDraft>) => {
+    setDraft((prev) => ({ ...prev, ...updates }));
+    setDraftErrors({});
+    clearFieldErrors();
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (isSaving) return;
+    if (!nextOpen) setEditingId(null);
+    onOpenChange(nextOpen);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const problems = validateEnvironmentDraft(draft);
+    setDraftErrors(problems);
+    if (Object.keys(problems).length > 0 || editingId === null) return;
+
+    setIsSaving(true);
+    try {
+      const payload = draftToEnvironmentPayload(draft);
+      if (editingId === "new") {
+        await createSuiteEnvironment(testSuiteId, payload);
+      } else {
+        await updateSuiteEnvironment(testSuiteId, editingId, payload);
+      }
+      toast({
+        title: "Success",
+        description: `Environment "${payload.name}" saved`,
+      });
+      setEditingId(null);
+    } catch (error) {
+      if (!applyError(error)) {
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to save environment",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleMakeDefault = async (environment: SuiteEnvironmentResponse) => {
+    setBusyEnvironmentId(environment.id);
+    try {
+      await updateSuiteEnvironment(testSuiteId, environment.id, { is_default: true });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update environment",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyEnvironmentId(null);
+    }
+  };
+
+  const handleDelete = async (environment: SuiteEnvironmentResponse) => {
+    setBusyEnvironmentId(environment.id);
+    try {
+      await deleteSuiteEnvironment(testSuiteId, environment.id);
+      toast({
+        title: "Success",
+        description: `Environment "${environment.name}" deleted`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete environment",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyEnvironmentId(null);
+    }
+  };
+
+  const secretName = (secretId: number) =>
+    secrets.find((secret) => secret.id === secretId)?.name ?? "missing secret";
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Environments</DialogTitle>
+          <DialogDescription>
+            Run this suite against different deployments. Each environment has its own base URL, variables and secrets.
+          </DialogDescription>
+        </DialogHeader>
+
+        {editingId === null ? (
+          <div className="space-y-3">
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : environments.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                No environments yet. Runs use the suite's application URL.
+              </p>
+            ) : (
+              <div className="rounded-md border divide-y">
+                {environments.map((environment) => (
+                  <div key={environment.id} className="flex items-center justify-between gap-3 p-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium truncate">{environment.name}</span>
+                        {environment.is_default && <Badge variant="secondary">Default</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground truncate">{environment.base_url}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {Object.keys(environment.variables).length} variable
+                        {Object.keys(environment.variables).length === 1 ? "" : "s"}
+                        {environment.secret_bindings.length > 0 &&
+                          ` · secrets: ${environment.secret_bindings
+                            .map((binding) => `${binding.name} → ${secretName(binding.secret_id)}`)
+                            .join(", ")}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      {busyEnvironmentId === environment.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                      ) : (
+                        <>
+                          {!environment.is_default && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-8 w-8 p-0"
+                              title="Make default"
+                              onClick={() => handleMakeDefault(environment)}
+                            >
+                              <Star className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-8 w-8 p-0"
+                            title="Edit environment"
+                            onClick={() => showForm(environment)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                            title="Delete environment"
+                            onClick={() => handleDelete(environment)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                Close
+              </Button>
+              <Button onClick={() => showForm()}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Environment
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="environment-name">Name</Label>
+                <Input
+                  id="environment-name"
+                  placeholder="Staging"
+                  value={draft.name}
+                  onChange={(e) => updateDraft({ name: e.target.value })}
+                  className={cn(errors.name && "border-destructive")}
+                />
+                <FieldErrorMessage message={errors.name} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="environment-base-url">Base URL</Label>
+                <Input
+                  id="environment-base-url"
+                  placeholder="https://staging.example.com"
+                  value={draft.baseUrl}
+                  onChange={(e) => updateDraft({ baseUrl: e.target.value })}
+                  className={cn(errors.base_url && "border-destructive")}
+                />
+                <FieldErrorMessage message={errors.base_url} />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Variables</Label>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => updateDraft({ variables: [...draft.variables, { key: "", value: "" }] })}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add variable
+                </Button>
+              </div>
+              {draft.variables.length === 0 && (
+                <p className="text-xs text-muted-foreground">Plain values the agent can use, e.g. a coupon code.</p>
+              )}
+              {draft.variables.map((row, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    placeholder="name"
+                    className="font-mono"
+                    value={row.key}
+                    onChange={(e) =>
+                      updateDraft({
+                        variables: draft.variables.map((v, i) => (i === index ? { ...v, key: e.target.value } : v)),
+                      })
+                    }
+                  />
+                  <Input
+                    placeholder="value"
+                    value={row.value}
+                    onChange={(e) =>
+                      updateDraft({
+                        variables: draft.variables.map((v, i) => (i === index ? { ...v, value: e.target.value } : v)),
+                      })
+                    }
+                  />
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    className="h-9 w-9 p-0 flex-shrink-0"
+                    onClick={() => updateDraft({ variables: draft.variables.filter((_, i) => i !== index) })}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <FieldErrorMessage message={errors.variables} />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Secrets</Label>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() =>
+                    updateDraft({ secretBindings: [...draft.secretBindings, { name: "", secretId: "" }] })
+                  }
+                  disabled={projectSecrets.length === 0}
+                >
+                  <KeyRound className="h-4 w-4 mr-1" />
+                  Bind secret
+                </Button>
+              </div>
+              {draft.secretBindings.length === 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {projectSecrets.length === 0
+                    ? "Add secrets on the Secrets page to use them here."
+                    : "Credentials for this environment; values are never shown to the browser."}
+                </p>
+              )}
+              {draft.secretBindings.map((row, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    placeholder="name"
+                    className="font-mono"
+                    value={row.name}
+                    onChange={(e) =>
+                      updateDraft({
+                        secretBindings: draft.secretBindings.map((b, i) =>
+                          i === index ? { ...b, name: e.target.value } : b
+                        ),
+                      })
+                    }
+                  />
+                  <Select
+                    value={row.secretId}
+                    onValueChange={(value) =>
+                      updateDraft({
+                        secretBindings: draft.secretBindings.map((b, i) =>
+                          i === index ? { ...b, secretId: value } : b
+                        ),
+                      })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a secret" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {projectSecrets.map((secret) => (
+                        <SelectItem key={secret.id} value={secret.id.toString()}>
+                          {secret.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    className="h-9 w-9 p-0 flex-shrink-0"
+                    onClick={() =>
+                      updateDraft({ secretBindings: draft.secretBindings.filter((_, i) => i !== index) })
+                    }
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <FieldErrorMessage message={errors.secret_bindings} />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setEditingId(null)} disabled={isSaving}>
+                Back
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {editingId === "new" ? "Add Environment" : "Save Changes"}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,59 @@
+import { Folder, FolderOpen, Layers } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { SuiteFolderNode } from "@/lib/suite-organization";
+
+interface SuiteFolderTreeProps {
+  folders: SuiteFolderNode[];
+  /** Selected folder path; null shows every suite */
+  selected: string | null;
+  onSelect: (path: string | null) => void;
+  totalCount: number;
+}
+
+export function SuiteFolderTree({ folders, selected, onSelect, totalCount }: SuiteFolderTreeProps) {
+  const renderNodes = (nodes: SuiteFolderNode[], depth: number) =>
+    nodes.map((node) => {
+      const isSelected = selected === node.path;
+      const Icon = isSelected ? FolderOpen : Folder;
+      return (
+        <li key={node.path}>
+          <button
+            type="button"
+            onClick={() => onSelect(node.path)}
+            className={cn(
+              "flex w-full items-center gap-2 rounded-md py-1.5 pr-2 text-sm hover:bg-muted",
+              isSelected && "bg-muted font-medium"
+            )}
+            style={{ paddingLeft: `${0.5 + depth * 0.75}rem` }}
+          >
+            <Icon className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+            <span className="truncate">{node.name}</span>
+            <span className="ml-auto text-xs text-muted-foreground">{node.suiteCount}</span>
+          </button>
+          {node.children.length > 0 && <ul>{renderNodes(node.children, depth + 1)}</ul>}
+        </li>
+      );
+    });
+
+  return (
+    <nav aria-label="Folders">
+      <ul className="space-y-0.5">
+        <li>
+          <button
+            type="button"
+            onClick={() => onSelect(null)}
+            className={cn(
+              "flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-sm hover:bg-muted",
+              selected === null && "bg-muted font-medium"
+            )}
+          >
+            <Layers className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+            <span>All suites</span>
+            <span className="ml-auto text-xs text-muted-foreground">{totalCount}</span>
+          </button>
+        </li>
+        {renderNodes(folders, 0)}
+      </ul>
+    </nav>
+  );
+}
@@ -0,0 +1,208 @@
+import { useEffect, useState } from "react";
+import { Loader2, Plus, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useFieldErrors } from "@/hooks/use-field-errors";
+import { FieldErrorMessage } from "@/components/FieldErrorMessage";
+import { cn } from "@/lib/utils";
+import { updateTestSuite, type TestSuiteResponse } from "@/lib/api-client";
+import {
+  MAX_SUITE_TAGS,
+  normalizeFolderPath,
+  normalizeSuiteTag,
+  validateSuiteOrganization,
+} from "@/lib/suite-organization";
+
+interface SuiteOrganizeDialogProps {
+  /** The suite to organize; the dialog is open while this is set */
+  suite: TestSuiteResponse | null;
+  onOpenChange: (open: boolean) => void;
+  /** Tags used elsewhere in the project, offered as suggestions */
+  existingTags: string[];
+  /** Folder paths used elsewhere in the project, offered as suggestions */
+  existingFolders: string[];
+}
+
+export function SuiteOrganizeDialog({ suite, onOpenChange, existingTags, existingFolders }: SuiteOrganizeDialogProps) {
+  const { toast } = useToast();
+  const { fieldErrors, applyError, clearFieldErrors } = useFieldErrors();
+  const [tags, setTags] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState("");
+  const [folder, setFolder] = useState("");
+  const [draftErrors, setDraftErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const errors = { ...fieldErrors, ...draftErrors };
+  const suggestedTags = existingTags.filter((tag) => !tags.includes(tag));
+
+  useEffect(() => {
+    if (!suite) return;
+    setTags(suite.tags ?? []);
+    setTagInput("");
+    setFolder(suite.folder ?? "");
+    setDraftErrors({});
+    clearFieldErrors();
+  }, [suite, clearFieldErrors]);
+
+  const addTag = (value: string) => {
+    const tag = normalizeSuiteTag(value);
+    setTagInput("");
+    setDraftErrors({});
+    if (!tag || tags.includes(tag)) return;
+    setTags((prev) => [...prev, tag]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!suite) return;
+
+    // A tag still in the input counts, so "type, then Save" works
+    const nextTags = tagInput.trim() && !tags.includes(normalizeSuiteTag(tagInput))
+      ? [...tags, normalizeSuiteTag(tagInput)]
+      : tags;
+    const nextFolder = normalizeFolderPath(folder);
+    const problems = validateSuiteOrganization(nextTags, nextFolder);
+    setDraftErrors(problems);
+    if (Object.keys(problems).length > 0) return;
+
+    setIsSaving(true);
+    clearFieldErrors();
+    try {
+      await updateTestSuite(suite.id, { tags: nextTags, folder: nextFolder });
+      toast({
+        title: "Success",
+        description: `Updated "${suite.name}"`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      if (!applyError(error)) {
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to update test suite",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={suite !== null} onOpenChange={(open) => !isSaving && onOpenChange(open)}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Organize Test Suite</DialogTitle>
+            <DialogDescription>
+              File "{suite?.name}" in a folder and tag it. Schedules and the runs page can select suites by tag.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="suite-folder">Folder</Label>
+            <Input
+              id="suite-folder"
+              list="suite-folder-options"
+              placeholder="Store/Checkout"
+              value={folder}
+              onChange={(e) => {
+                setFolder(e.target.value);
+                setDraftErrors({});
+              }}
+              className={cn(errors.folder && "border-destructive")}
+            />
+            <datalist id="suite-folder-options">
+              {existingFolders.map((path) => (
+                <option key={path} value={path} />
+              ))}
+            </datalist>
+            <FieldErrorMessage message={errors.folder} />
+            <p className="text-xs text-muted-foreground">Separate nested folders with "/". Leave empty for no folder.</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="suite-tag-input">Tags</Label>
+            {tags.length > 0 && (
+              <div className="flex flex-wrap gap-1.5">
+                {tags.map((tag) => (
+                  <Badge key={tag} variant="secondary" className="gap-1 pr-1">
+                    {tag}
+                    <button
+                      type="button"
+                      className="rounded-sm hover:bg-muted-foreground/20"
+                      onClick={() => setTags((prev) => prev.filter((t) => t !== tag))}
+                      aria-label={`Remove tag ${tag}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Input
+                id="suite-tag-input"
+                placeholder="smoke"
+                value={tagInput}
+                onChange={(e) => setTagInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" || e.key === ",") {
+                    e.preventDefault();
+                    addTag(tagInput);
+                  }
+                }}
+                disabled={tags.length >= MAX_SUITE_TAGS}
+                className={cn(errors.tags && "border-destructive")}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => addTag(tagInput)}
+                disabled={!tagInput.trim() || tags.length >= MAX_SUITE_TAGS}
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            <FieldErrorMessage message={errors.tags} />
+            {suggestedTags.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1.5 text-xs text-muted-foreground">
+                Used in this workspace:
+                {suggestedTags.map((tag) => (
+                  <Badge
+                    key={tag}
+                    variant="outline"
+                    className="cursor-pointer hover:bg-muted"
+                    onClick={() => addTag(tag)}
+                  >
+                    {tag}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
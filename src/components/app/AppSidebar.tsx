@@ -1,10 +1,13 @@
 import { useState, useRef } from "react";
-import { Home, FileText, PlayCircle, Settings, ChevronDown, Key, LogOut, User, Calendar, Plus, Trash2, CreditCard, Smartphone } from "lucide-react";
+import { Home, FileText, PlayCircle, Settings, ChevronDown, Key, LogOut, User, Calendar, Plus, Trash2, CreditCard, Smartphone, Users } from "lucide-react";
 import { NavLink } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { useProject } from "@/contexts/ProjectContext";
 import { useToast } from "@/hooks/use-toast";
-import { createProject, deleteProject } from "@/lib/api-client";
+import { useProjectPath } from "@/hooks/use-project-path";
+import { createProject } from "@/lib/api-client";
+import { canManageProject, getProjectRole, getProjectRoleLabel } from "@/lib/project-roles";
+import { DeleteProjectDialog } from "./DeleteProjectDialog";
 import {
   Sidebar,
   SidebarContent,
@@ -27,16 +30,6 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-} from "@/components/ui/alert-dialog";
 
 const menuItems = [
   { title: "Dashboard", url: "/dashboard", icon: Home },
@@ -46,6 +39,7 @@ const menuItems = [
   { title: "Usage & Billing", url: "/pricing", icon: CreditCard },
   { title: "Secrets & Variables", url: "/secrets", icon: Key },
   { title: "App Registry", url: "/app-registry", icon: Smartphone },
+  { title: "Workspace Settings", url: "/settings", icon: Users },
   { title: "Integrations", url: "/integrations", icon: Settings, comingSoon: true },
 ];
 
@@ -53,6 +47,7 @@ export function AppSidebar() {
   const { state } = useSidebar();
   const { user, logout } = useAuth();
   const { projects, selectedProject, setSelectedProject, refreshProjects } = useProject();
+  const toProjectPath = useProjectPath();
   const { toast } = useToast();
   const collapsed = state === "collapsed";
 
@@ -98,39 +93,6 @@ export function AppSidebar() {
     }
   };
 
-  const handleDeleteWorkspace = async (id: number) => {
-    try {
-      await deleteProject(id);
-
-      toast({
-        title: "Success",
-        description: "Workspace deleted successfully"
-      });
-
-      // Refresh projects list
-      await refreshProjects();
-
-      // If the deleted project was selected, select the first available project
-      if (selectedProject?.id === id) {
-        const remainingProjects = projects.filter(p => p.id !== id);
-        if (remainingProjects.length > 0) {
-          setSelectedProject(remainingProjects[0]);
-        } else {
-          setSelectedProject(null);
-        }
-      }
-    } catch (error) {
-      console.error('Error deleting workspace:', error);
-      toast({
-        title: "Error",
-        description: error instanceof Error ? error.message : "Failed to delete workspace",
-        variant: "destructive"
-      });
-    } finally {
-      setDeleteId(null);
-    }
-  };
-
   return (
     <>
       <Sidebar collapsible="icon">
@@ -156,9 +118,14 @@ export function AppSidebar() {
                           onClick={() => setSelectedProject(workspace)}
                           className={projects.length > 1 ? "pr-8" : ""}
                         >
-                          {workspace.name}
+                          <span className="truncate">{workspace.name}</span>
+                          {getProjectRole(workspace) !== "owner" && (
+                            <span className="ml-auto pl-2 text-xs text-muted-foreground">
+                              {getProjectRoleLabel(getProjectRole(workspace))}
+                            </span>
+                          )}
                         </DropdownMenuItem>
-                        {projects.length > 1 && (
+                        {projects.length > 1 && canManageProject(getProjectRole(workspace)) && (
                           <Button
                             variant="ghost"
                             size="sm"
@@ -214,7 +181,7 @@ export function AppSidebar() {
                       tooltip={collapsed ? item.title : undefined}
                     >
                       <NavLink
-                        to={item.url}
+                        to={toProjectPath(item.url)}
                         end={item.url === "/"}
                         className={({ isActive }) =>
                           isActive ? "bg-sidebar-accent text-sidebar-accent-foreground font-medium" : ""
@@ -259,13 +226,18 @@ export function AppSidebar() {
         <SidebarFooter className="mt-auto">
           <SidebarMenu>
             <SidebarMenuItem>
-              <SidebarMenuButton asChild tooltip={collapsed ? "Profile" : undefined}>
-                <div className="flex items-center">
+              <SidebarMenuButton asChild tooltip={collapsed ? "Account & Security" : undefined}>
+                <NavLink
+                  to="/account"
+                  className={({ isActive }) =>
+                    isActive ? "bg-sidebar-accent text-sidebar-accent-foreground font-medium" : ""
+                  }
+                >
                   <User className="h-4 w-4" />
                   {!collapsed && (
                     <span className="truncate">{user?.email}</span>
                   )}
-                </div>
+                </NavLink>
               </SidebarMenuButton>
             </SidebarMenuItem>
             <SidebarMenuItem>
@@ -283,25 +255,10 @@ export function AppSidebar() {
         </SidebarFooter>
       </Sidebar>
 
-      <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle>Delete Workspace</AlertDialogTitle>
-            <AlertDialogDescription>
-              Are you sure you want to delete the workspace "{projects.find(p => p.id === deleteId)?.name}"? This action cannot be undone and will delete all associated data including test suites, test runs, and schedules.
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction
-              onClick={() => deleteId && handleDeleteWorkspace(deleteId)}
-              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-            >
-              Delete
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
+      <DeleteProjectDialog
+        project={projects.find(p => p.id === deleteId) ?? null}
+        onOpenChange={(open) => !open && setDeleteId(null)}
+      />
     </>
   );
 }
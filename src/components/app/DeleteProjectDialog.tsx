@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useProject } from "@/contexts/ProjectContext";
+import { useApiQuery } from "@/hooks/use-api-query";
+import { useToast } from "@/hooks/use-toast";
+import { deleteProject, getProjectDeletionPreview, type ProjectResourceSummary, type ProjectResponse } from "@/lib/api-client";
+import { queryKeys } from "@/lib/query-cache";
+
+interface DeleteProjectDialogProps {
+  /** The project to delete; the dialog is open while this is set */
+  project: ProjectResponse | null;
+  onOpenChange: (open: boolean) => void;
+  onDeleted?: () => void;
+}
+
+const PreviewSection: React.FC<{ title: string; items: ProjectResourceSummary[] }> = ({ title, items }) => (
+  <div>
+    <p className="text-sm font-medium">
+      {title} <span className="text-muted-foreground">({items.length})</span>
+    </p>
+    {items.length > 0 && (
+      <ul className="mt-1 ml-4 list-disc text-sm text-muted-foreground max-h-24 overflow-y-auto">
+        {items.map((item) => (
+          <li key={item.id} className="truncate">{item.name}</li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+/**
+ * Confirms deleting a workspace, listing everything it takes with it and asking for the name
+ */
+export const DeleteProjectDialog: React.FC<DeleteProjectDialogProps> = ({ project, onOpenChange, onDeleted }) => {
+  const { toast } = useToast();
+  const { projects, selectedProject, setSelectedProject, refreshProjects } = useProject();
+  const [confirmName, setConfirmName] = useState("");
+  const [isDeleting, setIsDeleting] = useState(false);
+  const projectId = project?.id ?? 0;
+
+  const { data: preview, error: previewError, isLoading: isPreviewLoading } = useApiQuery(
+    queryKeys.projectDeletionPreview(projectId),
+    () => getProjectDeletionPreview(projectId),
+    { enabled: !!project, staleTime: 0 }
+  );
+
+  useEffect(() => {
+    setConfirmName("");
+  }, [projectId]);
+
+  const handleDelete = async () => {
+    if (!project) return;
+    try {
+      setIsDeleting(true);
+      await deleteProject(project.id);
+
+      toast({
+        title: "Success",
+        description: "Workspace deleted successfully"
+      });
+
+      await refreshProjects();
+
+      // If the deleted project was selected, select the first available project
+      if (selectedProject?.id === project.id) {
+        const remainingProjects = projects.filter(p => p.id !== project.id);
+        setSelectedProject(remainingProjects[0] ?? null);
+      }
+      onOpenChange(false);
+      onDeleted?.();
+    } catch (error) {
+      console.error('Error deleting workspace:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete workspace",
+        variant: "destructive"
+      });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={!!project} onOpenChange={(open) => !isDeleting && onOpenChange(open)}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete Workspace</AlertDialogTitle>
+          <AlertDialogDescription>
+            This permanently deletes "{project?.name}" and everything below. It cannot be undone.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {isPreviewLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : previewError || !preview ? (
+          <p className="text-sm text-destructive">
+            Couldn't load what this workspace contains. Deleting it still removes all of its data.
+          </p>
+        ) : (
+          <div className="space-y-3 rounded-md border p-3">
+            <PreviewSection title="Test suites" items={preview.test_suites} />
+            {preview.test_run_count > 0 && (
+              <p className="text-sm text-muted-foreground ml-4">
+                Including {preview.test_run_count} test run{preview.test_run_count === 1 ? "" : "s"} and their results
+              </p>
+            )}
+            <PreviewSection title="Schedules" items={preview.schedules} />
+            <PreviewSection title="Secrets" items={preview.secrets} />
+            <PreviewSection title="Apps" items={preview.mobile_apps} />
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="confirm-workspace-name">
+            Type <span className="font-semibold">{project?.name}</span> to confirm
+          </Label>
+          <Input
+            id="confirm-workspace-name"
+            value={confirmName}
+            onChange={(e) => setConfirmName(e.target.value)}
+            autoComplete="off"
+          />
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+          <Button
+            variant="destructive"
+            onClick={handleDelete}
+            disabled={isDeleting || confirmName.trim() !== project?.name}
+          >
+            {isDeleting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Delete Workspace
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
@@ -0,0 +1,351 @@
+import { useState } from "react";
+import { Loader2, Pencil, Plus, Smartphone, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useApiQuery } from "@/hooks/use-api-query";
+import { useFieldErrors } from "@/hooks/use-field-errors";
+import { FieldErrorMessage } from "@/components/FieldErrorMessage";
+import { cn } from "@/lib/utils";
+import { queryKeys } from "@/lib/query-cache";
+import {
+  createDeviceProfile,
+  deleteDeviceProfile,
+  getDeviceProfiles,
+  updateDeviceProfile,
+  type DeviceProfileResponse,
+} from "@/lib/api-client";
+import {
+  DEVICE_PROFILE_LIMITS,
+  deviceProfileValue,
+  resolveViewport,
+  validateDeviceProfile,
+  type DeviceOrientation,
+  type DeviceProfileFields,
+} from "@/lib/resolutions";
+
+interface DeviceProfilesCardProps {
+  projectId: number;
+  canEdit: boolean;
+}
+
+// Inputs hold text so half-typed numbers don't get coerced while editing
+interface DeviceProfileDraft {
+  name: string;
+  width: string;
+  height: string;
+  deviceScaleFactor: string;
+  userAgent: string;
+  hasTouch: boolean;
+  orientation: DeviceOrientation;
+}
+
+const emptyDraft: DeviceProfileDraft = {
+  name: "",
+  width: "",
+  height: "",
+  deviceScaleFactor: "1",
+  userAgent: "",
+  hasTouch: false,
+  orientation: "portrait",
+};
+
+const profileToDraft = (profile: DeviceProfileResponse): DeviceProfileDraft => ({
+  name: profile.name,
+  width: profile.width.toString(),
+  height: profile.height.toString(),
+  deviceScaleFactor: profile.device_scale_factor.toString(),
+  userAgent: profile.user_agent ?? "",
+  hasTouch: profile.has_touch,
+  orientation: profile.orientation,
+});
+
+const draftToFields = (draft: DeviceProfileDraft): DeviceProfileFields => ({
+  name: draft.name.trim(),
+  width: Number(draft.width),
+  height: Number(draft.height),
+  device_scale_factor: Number(draft.deviceScaleFactor),
+  user_agent: draft.userAgent.trim() || null,
+  has_touch: draft.hasTouch,
+  orientation: draft.orientation,
+});
+
+export function DeviceProfilesCard({ projectId, canEdit }: DeviceProfilesCardProps) {
+  const { toast } = useToast();
+  const { fieldErrors, applyError, clearFieldErrors } = useFieldErrors();
+  // null while listing; "new" or the profile's id while the form is shown
+  const [editing, setEditing] = useState<"new" | number | null>(null);
+  const [draft, setDraft] = useState<DeviceProfileDraft>(emptyDraft);
+  const [draftErrors, setDraftErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<number | null>(null);
+
+  const {
+    data: profiles = [],
+    isLoading,
+    error,
+  } = useApiQuery(queryKeys.deviceProfiles(projectId), () => getDeviceProfiles(projectId), {
+    enabled: projectId > 0,
+  });
+
+  const errors = { ...fieldErrors, ...draftErrors };
+
+  const updateDraft = (updates: Partial<DeviceProfileDraft>) => {
+    setDraft((prev) => ({ ...prev, ...updates }));
+    setDraftErrors({});
+    clearFieldErrors();
+  };
+
+  const showForm = (profile?: DeviceProfileResponse) => {
+    setEditing(profile ? profile.id : "new");
+    setDraft(profile ? profileToDraft(profile) : emptyDraft);
+    setDraftErrors({});
+    clearFieldErrors();
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const fields = draftToFields(draft);
+    const problems = validateDeviceProfile(fields);
+    setDraftErrors(problems);
+    if (Object.keys(problems).length > 0 || editing === null) return;
+
+    setIsSaving(true);
+    try {
+      if (editing === "new") {
+        await createDeviceProfile(projectId, fields);
+      } else {
+        await updateDeviceProfile(projectId, editing, fields);
+      }
+      toast({
+        title: "Success",
+        description: `Device profile "${fields.name}" saved`,
+      });
+      setEditing(null);
+    } catch (error) {
+      if (!applyError(error)) {
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to save device profile",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (profile: DeviceProfileResponse) => {
+    setDeletingId(profile.id);
+    try {
+      await deleteDeviceProfile(projectId, profile.id);
+      toast({
+        title: "Success",
+        description: `Deleted "${profile.name}"`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete device profile",
+        variant: "destructive",
+      });
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Device profiles</CardTitle>
+          <CardDescription>
+            Custom screen sizes, pixel ratios and user agents. Suites can pick them wherever a resolution is chosen.
+          </CardDescription>
+        </div>
+        {canEdit && editing === null && (
+          <Button variant="outline" size="sm" onClick={() => showForm()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add device
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {editing !== null ? (
+          <form className="space-y-4" onSubmit={handleSave}>
+            <div className="space-y-2">
+              <Label htmlFor="device-name">Name</Label>
+              <Input
+                id="device-name"
+                placeholder="Galaxy Tab S9"
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                className={cn(errors.name && "border-destructive")}
+              />
+              <FieldErrorMessage message={errors.name} />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="device-width">Width</Label>
+                <Input
+                  id="device-width"
+                  type="number"
+                  min={DEVICE_PROFILE_LIMITS.minSize}
+                  max={DEVICE_PROFILE_LIMITS.maxSize}
+                  value={draft.width}
+                  onChange={(e) => updateDraft({ width: e.target.value })}
+                  className={cn(errors.width && "border-destructive")}
+                />
+                <FieldErrorMessage message={errors.width} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="device-height">Height</Label>
+                <Input
+                  id="device-height"
+                  type="number"
+                  min={DEVICE_PROFILE_LIMITS.minSize}
+                  max={DEVICE_PROFILE_LIMITS.maxSize}
+                  value={draft.height}
+                  onChange={(e) => updateDraft({ height: e.target.value })}
+                  className={cn(errors.height && "border-destructive")}
+                />
+                <FieldErrorMessage message={errors.height} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="device-scale">Pixel ratio</Label>
+                <Input
+                  id="device-scale"
+                  type="number"
+                  step="0.25"
+                  min={DEVICE_PROFILE_LIMITS.minScaleFactor}
+                  max={DEVICE_PROFILE_LIMITS.maxScaleFactor}
+                  value={draft.deviceScaleFactor}
+                  onChange={(e) => updateDraft({ deviceScaleFactor: e.target.value })}
+                  className={cn(errors.device_scale_factor && "border-destructive")}
+                />
+                <FieldErrorMessage message={errors.device_scale_factor} />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">Enter the portrait size; landscape swaps width and height.</p>
+            <div className="space-y-2">
+              <Label>Orientation</Label>
+              <Select
+                value={draft.orientation}
+                onValueChange={(value) => updateDraft({ orientation: value as DeviceOrientation })}
+              >
+                <SelectTrigger className={cn(errors.orientation && "border-destructive")}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="portrait">Portrait</SelectItem>
+                  <SelectItem value="landscape">Landscape</SelectItem>
+                </SelectContent>
+              </Select>
+              <FieldErrorMessage message={errors.orientation} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="device-user-agent">User agent</Label>
+              <Input
+                id="device-user-agent"
+                placeholder="Leave empty to use the browser's default"
+                value={draft.userAgent}
+                onChange={(e) => updateDraft({ userAgent: e.target.value })}
+                className={cn("font-mono text-xs", errors.user_agent && "border-destructive")}
+              />
+              <FieldErrorMessage message={errors.user_agent} />
+            </div>
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                id="device-has-touch"
+                checked={draft.hasTouch}
+                onChange={(e) => updateDraft({ hasTouch: e.target.checked })}
+              />
+              <Label htmlFor="device-has-touch" className="font-normal">
+                Touch screen
+              </Label>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setEditing(null)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {editing === "new" ? "Add device" : "Save changes"}
+              </Button>
+            </div>
+          </form>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">
+            {error instanceof Error ? error.message : "Failed to load device profiles"}
+          </p>
+        ) : profiles.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No custom devices yet. Suites use the built-in resolutions.
+          </p>
+        ) : (
+          <div className="divide-y">
+            {profiles.map((profile) => {
+              const viewport = resolveViewport(deviceProfileValue(profile.id), profiles);
+              return (
+                <div key={profile.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <Smartphone className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{profile.name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        <span className="font-mono">
+                          {viewport?.width}x{viewport?.height}
+                        </span>{" "}
+                        @{profile.device_scale_factor}x, {profile.orientation}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {profile.has_touch && <Badge variant="secondary">Touch</Badge>}
+                    {profile.user_agent && <Badge variant="outline">Custom UA</Badge>}
+                    {canEdit && (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          onClick={() => showForm(profile)}
+                          title="Edit device profile"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                          onClick={() => handleDelete(profile)}
+                          disabled={deletingId === profile.id}
+                          title="Delete device profile"
+                        >
+                          {deletingId === profile.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Trash2 className="h-4 w-4" />
+                          )}
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
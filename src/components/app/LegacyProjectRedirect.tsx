@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from "react";
+import { Navigate, useLocation, useParams } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import { useProject } from "@/contexts/ProjectContext";
+import { getTestRun, getTestSuite } from "@/lib/api-client";
+import { isAbortError } from "@/lib/api-errors";
+import { projectPath } from "@/lib/project-routes";
+
+/**
+ * The project a suite or run link belongs to, looked up from the record itself
+ */
+const resolveLinkedProjectId = async (
+  params: { suiteId?: string; runId?: string },
+  signal: AbortSignal
+): Promise<number | null> => {
+  let suiteId = params.suiteId ? Number(params.suiteId) : null;
+  if (params.runId) {
+    const run = await getTestRun(Number(params.runId), { signal });
+    suiteId = run.test_suite_id;
+  }
+  if (suiteId === null || Number.isNaN(suiteId)) {
+    return null;
+  }
+  const suite = await getTestSuite(suiteId, { signal });
+  return suite.project_id;
+};
+
+/**
+ * Redirects links from before project-scoped URLs (e.g. /suite/12/runs) to /p/:projectId/...
+ * Suite and run links go to the project they belong to; anything else to the selected project.
+ */
+export const LegacyProjectRedirect: React.FC = () => {
+  const { suiteId, runId } = useParams<{ suiteId?: string; runId?: string }>();
+  const location = useLocation();
+  const { selectedProject, loading } = useProject();
+  const needsLookup = Boolean(suiteId || runId);
+  const [linkedProjectId, setLinkedProjectId] = useState<number | null>(null);
+  const [isResolving, setIsResolving] = useState(needsLookup);
+
+  useEffect(() => {
+    if (!needsLookup) return;
+    const controller = new AbortController();
+    setIsResolving(true);
+
+    resolveLinkedProjectId({ suiteId, runId }, controller.signal)
+      .then(setLinkedProjectId)
+      .catch((error) => {
+        if (!isAbortError(error)) {
+          // Fall back to the selected project; the page reports the missing record
+          setLinkedProjectId(null);
+        }
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) {
+          setIsResolving(false);
+        }
+      });
+
+    return () => controller.abort();
+  }, [needsLookup, suiteId, runId]);
+
+  const targetProjectId = linkedProjectId ?? selectedProject?.id ?? null;
+
+  if (isResolving || loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (targetProjectId === null) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <p className="text-muted-foreground">Create a workspace from the sidebar to get started.</p>
+      </div>
+    );
+  }
+
+  return (
+    <Navigate
+      to={`${projectPath(targetProjectId, location.pathname)}${location.search}${location.hash}`}
+      state={location.state}
+      replace
+    />
+  );
+};
@@ -0,0 +1,78 @@
+import React, { useEffect, useRef } from "react";
+import { Outlet, useLocation, useNavigate, useParams } from "react-router-dom";
+import { Eye, Loader2 } from "lucide-react";
+import { useProject } from "@/contexts/ProjectContext";
+import { useToast } from "@/hooks/use-toast";
+import { useProjectPermissions } from "@/hooks/use-project-permissions";
+import { getSectionPath, parseProjectPath, projectPath } from "@/lib/project-routes";
+
+/**
+ * Layout for /p/:projectId routes. Keeps the URL and the selected project in step: opening a
+ * link switches to its project, and switching project in the sidebar moves the URL to the same
+ * section of the new project. Selections made in other tabs don't reach here (see ProjectContext),
+ * so the URL decides which project a tab shows.
+ */
+export const ProjectScope: React.FC = () => {
+  const { projectId } = useParams<{ projectId: string }>();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { projects, selectedProject, setSelectedProject, loading } = useProject();
+  const { isViewer } = useProjectPermissions();
+  const urlProjectId = Number(projectId);
+  const project = projects.find((p) => p.id === urlProjectId);
+  const lastUrlProjectIdRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (loading) return;
+
+    const urlChanged = lastUrlProjectIdRef.current !== urlProjectId;
+    lastUrlProjectIdRef.current = urlProjectId;
+    const selectedId = selectedProject?.id ?? null;
+    if (selectedId === urlProjectId) return;
+
+    const pathInProject = parseProjectPath(location.pathname)?.path ?? "/dashboard";
+
+    // The selection changed while the URL stayed put: follow it to the new project
+    if (!urlChanged) {
+      navigate(selectedId !== null ? projectPath(selectedId, getSectionPath(pathInProject)) : "/dashboard");
+      return;
+    }
+
+    if (project) {
+      setSelectedProject(project);
+      return;
+    }
+
+    toast({
+      title: "Workspace not found",
+      description: "The link points to a workspace you don't have access to.",
+      variant: "destructive",
+    });
+    navigate(
+      selectedId !== null ? projectPath(selectedId, getSectionPath(pathInProject)) : "/dashboard",
+      { replace: true }
+    );
+  }, [urlProjectId, selectedProject, project, loading, location.pathname, navigate, setSelectedProject, toast]);
+
+  // Never render a page against the wrong project's data
+  if (loading || selectedProject?.id !== urlProjectId) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {isViewer && (
+        <div className="mb-4 flex items-center gap-2 rounded-md border bg-muted/50 px-3 py-2 text-sm text-muted-foreground">
+          <Eye className="h-4 w-4 flex-shrink-0" />
+          You have view-only access to this workspace. Ask an owner if you need to make changes.
+        </div>
+      )}
+      <Outlet />
+    </>
+  );
+};
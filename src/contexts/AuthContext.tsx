@@ -1,5 +1,9 @@
 import React, { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
-import { apiRequest } from '@/lib/api-client';
+import { apiRequest, exchangeGoogleCode } from '@/lib/api-client';
+import type { Token } from '@/lib/api-generated';
+import { clearAuthTokens, saveAuthTokens } from '@/lib/auth-storage';
+import { clearQueryCache } from '@/lib/query-cache';
+import { broadcastTabMessage, subscribeTabMessages } from '@/lib/tab-sync';
 
 interface User {
   id: number;
@@ -22,6 +26,7 @@ interface AuthContextType {
   login: (userData: User) => void;
   loginWithPassword: (email: string, password: string) => Promise<void>;
   registerWithPassword: (payload: RegisterPayload) => Promise<void>;
+  loginWithGoogle: (code: string, state: string) => Promise<void>;
   logout: () => Promise<void>;
   loading: boolean;
 }
@@ -59,22 +64,38 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     refreshUser().finally(() => setLoading(false));
   }, [refreshUser]);
 
+  // Follow sign-ins and sign-outs made in other tabs
+  useEffect(() => {
+    return subscribeTabMessages((message) => {
+      if (message.type === 'logout') {
+        // Tokens in localStorage are already gone; this tab's sessionStorage copies are not
+        clearAuthTokens();
+        clearQueryCache();
+        setUser(null);
+      } else if (message.type === 'login') {
+        refreshUser();
+      }
+    });
+  }, [refreshUser]);
+
   const login = useCallback((userData: User) => {
     setUser(userData);
   }, []);
 
   const loginWithPassword = useCallback(async (email: string, password: string) => {
-    const tokenResponse = await apiRequest<{ access_token: string }>('/api/auth/login', {
+    const tokenResponse = await apiRequest<Token>('/api/auth/login', {
       method: 'POST',
       body: JSON.stringify({ email, password }),
     });
 
     if (tokenResponse?.access_token) {
-      localStorage.setItem('access_token', tokenResponse.access_token);
-      sessionStorage.setItem('access_token', tokenResponse.access_token);
+      saveAuthTokens(tokenResponse.access_token, tokenResponse.refresh_token);
     }
 
-    await refreshUser();
+    const me = await refreshUser();
+    if (me) {
+      broadcastTabMessage({ type: 'login' });
+    }
   }, [refreshUser]);
 
   const registerWithPassword = useCallback(async (payload: RegisterPayload) => {
@@ -86,6 +107,19 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     await loginWithPassword(payload.email, payload.password);
   }, [loginWithPassword]);
 
+  const loginWithGoogle = useCallback(async (code: string, state: string) => {
+    const tokenResponse = await exchangeGoogleCode(code, { state });
+
+    if (tokenResponse?.access_token) {
+      saveAuthTokens(tokenResponse.access_token, tokenResponse.refresh_token);
+    }
+
+    const me = await refreshUser();
+    if (me) {
+      broadcastTabMessage({ type: 'login' });
+    }
+  }, [refreshUser]);
+
   const logout = useCallback(async () => {
     try {
       await apiRequest('/api/auth/logout', { method: 'POST' });
@@ -93,9 +127,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       // Ignore logout errors; we still clear local state.
     }
 
-    localStorage.removeItem('access_token');
-    sessionStorage.removeItem('access_token');
+    clearAuthTokens();
+    clearQueryCache();
     setUser(null);
+    broadcastTabMessage({ type: 'logout' });
   }, []);
 
   const value = useMemo<AuthContextType>(() => ({
@@ -104,9 +139,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     login,
     loginWithPassword,
     registerWithPassword,
+    loginWithGoogle,
     logout,
     loading,
-  }), [user, login, loginWithPassword, registerWithPassword, logout, loading]);
+  }), [user, login, loginWithPassword, registerWithPassword, loginWithGoogle, logout, loading]);
 
   return (
     <AuthContext.Provider value={value}>
@@ -1,6 +1,12 @@
-import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import React, { createContext, useCallback, useContext, useState, useEffect, useRef, ReactNode } from 'react';
 import { useAuth } from './AuthContext';
 import { getProjects, ProjectResponse } from '../lib/api-client';
+import { broadcastTabMessage, subscribeTabMessages } from '../lib/tab-sync';
+import { parseProjectPath } from '../lib/project-routes';
+
+// On a /p/:projectId page the URL decides the project, not the last selection of any tab
+const getUrlProjectId = (): number | null =>
+  typeof window === 'undefined' ? null : parseProjectPath(window.location.pathname)?.projectId ?? null;
 
 interface ProjectContextType {
   projects: ProjectResponse[];
@@ -32,7 +38,7 @@ export const ProjectProvider: React.FC<ProjectProviderProps> = ({ children }) =>
   const isFetchingProjectsRef = useRef(false);
   const lastUserIdRef = useRef<number | null>(null);
 
-  const fetchProjects = async (selectProject?: ProjectResponse | null) => {
+  const fetchProjects = useCallback(async (selectProject?: ProjectResponse | null) => {
     // Prevent duplicate calls
     if (isFetchingProjectsRef.current) {
       return;
@@ -57,11 +63,12 @@ export const ProjectProvider: React.FC<ProjectProviderProps> = ({ children }) =>
         if (foundProject) {
           setSelectedProject(foundProject);
           localStorage.setItem('selected_project_id', foundProject.id.toString());
+          broadcastTabMessage({ type: 'project-selected', projectId: foundProject.id });
         }
       } else if (projectsData && projectsData.length > 0) {
         // Select first project by default if available
-        // Check if there's a previously selected project in localStorage
-        const savedProjectId = localStorage.getItem('selected_project_id');
+        // Check if there's a project in the URL or a previously selected project in localStorage
+        const savedProjectId = getUrlProjectId()?.toString() ?? localStorage.getItem('selected_project_id');
         const savedProject = savedProjectId 
           ? projectsData.find(p => p.id.toString() === savedProjectId)
           : null;
@@ -81,7 +88,7 @@ export const ProjectProvider: React.FC<ProjectProviderProps> = ({ children }) =>
       setLoading(false);
       isFetchingProjectsRef.current = false;
     }
-  };
+  }, [user]);
 
   useEffect(() => {
     // Only fetch if user changed (not on every render)
@@ -90,7 +97,27 @@ export const ProjectProvider: React.FC<ProjectProviderProps> = ({ children }) =>
       lastUserIdRef.current = userId;
       fetchProjects();
     }
-  }, [user]);
+  }, [user, fetchProjects]);
+
+  // Follow project switches made in other tabs
+  useEffect(() => {
+    return subscribeTabMessages((message) => {
+      if (message.type !== 'project-selected') return;
+      // Opening a link to another project elsewhere must not move this tab off its own
+      if (getUrlProjectId() !== null) return;
+      if (message.projectId === null) {
+        setSelectedProject(null);
+        return;
+      }
+      const project = projects.find(p => p.id === message.projectId);
+      if (project) {
+        setSelectedProject(project);
+      } else if (user) {
+        // Created in the other tab; it is already saved as the selection, so a refetch picks it up
+        fetchProjects();
+      }
+    });
+  }, [projects, user, fetchProjects]);
 
   // Update localStorage when selected project changes
   const handleSetSelectedProject = (project: ProjectResponse | null) => {
@@ -100,6 +127,7 @@ export const ProjectProvider: React.FC<ProjectProviderProps> = ({ children }) =>
     } else {
       localStorage.removeItem('selected_project_id');
     }
+    broadcastTabMessage({ type: 'project-selected', projectId: project?.id ?? null });
   };
 
   const value: ProjectContextType = {
@@ -1,14 +1,8 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode, useCallback } from 'react';
 import { stopLiveSession } from '../lib/api-client';
+import { broadcastTabMessage, subscribeTabMessages, type SyncedRuntime } from '../lib/tab-sync';
 
-interface ActiveRuntime {
-  podInstanceId: string;
-  suiteId: string;
-  suiteName?: string;
-  platform: "web" | "android";
-  streamUrl: string;
-  launchedAt: number; // timestamp
-}
+type ActiveRuntime = SyncedRuntime;
 
 interface RuntimeContextType {
   activeRuntime: ActiveRuntime | null;
@@ -16,12 +10,18 @@ interface RuntimeContextType {
   clearRuntime: () => Promise<void>;
   hasRuntimeForSuite: (suiteId: string) => boolean;
   hasRuntimeForOtherSuite: (suiteId: string) => boolean;
+  /** Whether the pod was already stopped, e.g. because another runtime replaced it */
+  isRuntimeStopped: (podInstanceId: string) => boolean;
 }
 
 const RuntimeContext = createContext<RuntimeContextType | undefined>(undefined);
 
 const RUNTIME_STORAGE_KEY = 'kplr_active_runtime';
 
+// Launch time decides which runtime is newer; the pod id breaks ties so every tab picks the same one
+const isNewerRuntime = (a: ActiveRuntime, b: ActiveRuntime): boolean =>
+  a.launchedAt !== b.launchedAt ? a.launchedAt > b.launchedAt : a.podInstanceId > b.podInstanceId;
+
 export const useRuntime = () => {
   const context = useContext(RuntimeContext);
   if (context === undefined) {
@@ -55,6 +55,10 @@ export const RuntimeProvider: React.FC<RuntimeProviderProps> = ({ children }) =>
     return null;
   });
 
+  // Latest runtime, readable from callbacks and tab messages without re-subscribing
+  const activeRuntimeRef = useRef(activeRuntime);
+  activeRuntimeRef.current = activeRuntime;
+
   // Persist to localStorage when runtime changes
   useEffect(() => {
     if (activeRuntime) {
@@ -64,22 +68,75 @@ export const RuntimeProvider: React.FC<RuntimeProviderProps> = ({ children }) =>
     }
   }, [activeRuntime]);
 
+  // Pods this tab stopped or heard were stopped; a replaced pod must not be stopped a second time
+  const stoppedPodIdsRef = useRef(new Set<string>());
+
+  const stopRuntimePod = useCallback(async (podInstanceId: string) => {
+    if (stoppedPodIdsRef.current.has(podInstanceId)) return;
+    stoppedPodIdsRef.current.add(podInstanceId);
+    await stopLiveSession(podInstanceId);
+  }, []);
+
+  const stopReplacedRuntime = useCallback((runtime: ActiveRuntime) => {
+    stopRuntimePod(runtime.podInstanceId).catch((error) => {
+      console.error('Error stopping replaced runtime:', error);
+    });
+  }, [stopRuntimePod]);
+
+  // Only one runtime may run at a time; launching another stops the old pod instead of orphaning it
   const setActiveRuntime = useCallback((runtime: ActiveRuntime | null) => {
+    const previous = activeRuntimeRef.current;
+    let stoppedPodInstanceId: string | undefined;
+    if (runtime && previous && previous.podInstanceId !== runtime.podInstanceId) {
+      stopReplacedRuntime(previous);
+      stoppedPodInstanceId = previous.podInstanceId;
+    }
+    activeRuntimeRef.current = runtime;
     setActiveRuntimeState(runtime);
-  }, []);
+    broadcastTabMessage({ type: 'runtime-changed', runtime, stoppedPodInstanceId });
+  }, [stopReplacedRuntime]);
+
+  // Follow runtimes launched or stopped in other tabs
+  useEffect(() => {
+    return subscribeTabMessages((message) => {
+      if (message.type !== 'runtime-changed') return;
+      if (message.stoppedPodInstanceId) {
+        stoppedPodIdsRef.current.add(message.stoppedPodInstanceId);
+      }
+      const current = activeRuntimeRef.current;
+      const incoming = message.runtime;
+
+      // Two tabs launched at the same time: the newest runtime wins and the other pod is stopped
+      if (incoming && current && current.podInstanceId !== incoming.podInstanceId) {
+        if (isNewerRuntime(current, incoming)) {
+          broadcastTabMessage({ type: 'runtime-changed', runtime: current });
+          return;
+        }
+        stopReplacedRuntime(current);
+      }
+      activeRuntimeRef.current = incoming;
+      setActiveRuntimeState(incoming);
+    });
+  }, [stopReplacedRuntime]);
 
   const clearRuntime = useCallback(async () => {
     if (activeRuntime) {
       try {
         // Stop the live session on the backend
-        await stopLiveSession(activeRuntime.podInstanceId);
+        await stopRuntimePod(activeRuntime.podInstanceId);
       } catch (error) {
         console.error('Error stopping runtime:', error);
         // Continue clearing even if stop fails
       }
     }
+    activeRuntimeRef.current = null;
     setActiveRuntimeState(null);
-  }, [activeRuntime]);
+    broadcastTabMessage({
+      type: 'runtime-changed',
+      runtime: null,
+      stoppedPodInstanceId: activeRuntime?.podInstanceId,
+    });
+  }, [activeRuntime, stopRuntimePod]);
 
   const hasRuntimeForSuite = useCallback((suiteId: string) => {
     return activeRuntime?.suiteId === suiteId;
@@ -89,12 +146,17 @@ export const RuntimeProvider: React.FC<RuntimeProviderProps> = ({ children }) =>
     return activeRuntime !== null && activeRuntime.suiteId !== suiteId;
   }, [activeRuntime]);
 
+  const isRuntimeStopped = useCallback((podInstanceId: string) => {
+    return stoppedPodIdsRef.current.has(podInstanceId);
+  }, []);
+
   const value: RuntimeContextType = {
     activeRuntime,
     setActiveRuntime,
     clearRuntime,
     hasRuntimeForSuite,
     hasRuntimeForOtherSuite,
+    isRuntimeStopped,
   };
 
   return (
@@ -0,0 +1,64 @@
+import * as React from "react"
+
+import {
+  DEFAULT_STALE_TIME_MS,
+  fetchQuery,
+  getQueryState,
+  subscribeQuery,
+  type QueryKey,
+} from "@/lib/query-cache"
+
+interface UseApiQueryOptions {
+  /** Skip fetching until the inputs are ready (e.g. no project selected yet) */
+  enabled?: boolean
+  staleTime?: number
+  onError?: (error: unknown) => void
+}
+
+/**
+ * Read from the shared query cache, showing cached data immediately and revalidating it in the
+ * background once stale
+ */
+export function useApiQuery<T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  { enabled = true, staleTime = DEFAULT_STALE_TIME_MS, onError }: UseApiQueryOptions = {}
+) {
+  const hash = JSON.stringify(key)
+  const fetcherRef = React.useRef(fetcher)
+  const onErrorRef = React.useRef(onError)
+  fetcherRef.current = fetcher
+  onErrorRef.current = onError
+
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const stableKey = React.useMemo(() => key, [hash])
+
+  const subscribe = React.useCallback(
+    (listener: () => void) => subscribeQuery(stableKey, listener),
+    [stableKey]
+  )
+  const state = React.useSyncExternalStore(subscribe, () => getQueryState<T>(stableKey))
+
+  const refetch = React.useCallback(
+    (force = true) =>
+      fetchQuery(stableKey, () => fetcherRef.current(), { staleTime, force }).catch((error) => {
+        onErrorRef.current?.(error)
+        return undefined
+      }),
+    [stableKey, staleTime]
+  )
+
+  React.useEffect(() => {
+    if (!enabled) return
+    void refetch(false)
+  }, [enabled, refetch])
+
+  const data = enabled ? state.data : undefined
+  return {
+    data,
+    error: state.error,
+    isLoading: enabled && data === undefined && !state.error,
+    isFetching: state.isFetching,
+    refetch,
+  }
+}
@@ -0,0 +1,15 @@
+import * as React from "react"
+
+/**
+ * `value`, once it has stopped changing for `delayMs`; use it to hold back requests while typing
+ */
+export function useDebouncedValue<T>(value: T, delayMs = 300) {
+  const [debounced, setDebounced] = React.useState(value)
+
+  React.useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs)
+    return () => clearTimeout(timer)
+  }, [value, delayMs])
+
+  return debounced
+}
@@ -0,0 +1,30 @@
+import { useCallback, useState } from "react"
+
+import { getFieldErrors, type FieldErrors } from "@/lib/api-errors"
+
+/**
+ * Track which form fields the backend rejected so they can be highlighted
+ */
+export function useFieldErrors() {
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({})
+
+  // Returns true when the error carried field-level messages
+  const applyError = useCallback((error: unknown) => {
+    const errors = getFieldErrors(error)
+    setFieldErrors(errors)
+    return Object.keys(errors).length > 0
+  }, [])
+
+  const clearFieldError = useCallback((field: string) => {
+    setFieldErrors((prev) => {
+      if (!(field in prev)) return prev
+      const next = { ...prev }
+      delete next[field]
+      return next
+    })
+  }, [])
+
+  const clearFieldErrors = useCallback(() => setFieldErrors({}), [])
+
+  return { fieldErrors, applyError, clearFieldError, clearFieldErrors }
+}
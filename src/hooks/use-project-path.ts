@@ -0,0 +1,18 @@
+import * as React from "react"
+
+import { useProject } from "@/contexts/ProjectContext"
+import { isProjectScopedPath, projectPath } from "@/lib/project-routes"
+
+/**
+ * Build links to project pages in the selected project, e.g. toProjectPath("/test-runs")
+ */
+export function useProjectPath() {
+  const { selectedProject } = useProject()
+  const projectId = selectedProject?.id
+
+  return React.useCallback(
+    (path: string) =>
+      projectId !== undefined && isProjectScopedPath(path) ? projectPath(projectId, path) : path,
+    [projectId]
+  )
+}
@@ -0,0 +1,17 @@
+import { useProject } from "@/contexts/ProjectContext"
+import { canEditProject, canManageProject, getProjectRole } from "@/lib/project-roles"
+
+/**
+ * The current user's role in the selected project and what it allows
+ */
+export function useProjectPermissions() {
+  const { selectedProject } = useProject()
+  const role = selectedProject ? getProjectRole(selectedProject) : "owner"
+
+  return {
+    role,
+    isViewer: role === "viewer",
+    canEdit: canEditProject(role),
+    canManage: canManageProject(role),
+  }
+}
@@ -9,14 +9,33 @@ import {
   mockGetProject,
   mockUpdateProject,
   mockDeleteProject,
+  mockGetProjectDeletionPreview,
+  mockGetProjectMembers,
+  mockUpdateProjectMember,
+  mockRemoveProjectMember,
+  mockGetProjectInvitations,
+  mockCreateProjectInvitation,
+  mockRevokeProjectInvitation,
+  mockAcceptProjectInvitation,
+  mockGetDeviceProfiles,
+  mockCreateDeviceProfile,
+  mockUpdateDeviceProfile,
+  mockDeleteDeviceProfile,
+  mockGetPreconditionBlocks,
+  mockCreatePreconditionBlock,
+  mockUpdatePreconditionBlock,
+  mockDeletePreconditionBlock,
   mockGetTestSuites,
   mockGetTestSuite,
   mockCreateTestSuite,
   mockUpdateTestSuite,
   mockDeleteTestSuite,
+  mockCloneTestSuite,
+  mockResetTestSuiteContext,
   mockGetTestRunsForSuite,
   mockGetLatestTestRun,
   mockGetTestRun,
+  mockGetMatrixTestRuns,
   mockCreateTestRun,
   mockGetScenarios,
   mockGetScenario,
@@ -38,31 +57,131 @@ import {
   mockRequestMobileAppBuildUpload,
   mockCompleteMobileAppBuild,
   mockDeleteMobileAppBuild,
+  mockUpdateTestRun,
+  mockDeleteTestRun,
+  mockCreateScenario,
+  mockUpdateScenario,
+  mockDeleteScenario,
+  mockReorderScenarios,
+  mockGetTestSuiteAttachments,
+  mockUploadTestSuiteAttachments,
+  mockDeleteTestSuiteAttachment,
+  mockGetSuiteEnvironments,
+  mockCreateSuiteEnvironment,
+  mockUpdateSuiteEnvironment,
+  mockDeleteSuiteEnvironment,
+  mockGenerateScenarios,
+  mockGetExplorationActions,
+  mockLaunchRuntime,
+  mockTriggerLiveRun,
+  mockTriggerMatrixRun,
+  mockStopLiveSession,
+  mockStartAgentInSession,
+  mockStopAgentInSession,
+  mockGetAgentStatusInSession,
+  mockResetBrowserInSession,
+  mockGetWebrtcIceServers,
+  mockCreateAgentSession,
+  mockExecuteAgentStep,
+  mockCompleteAgentStep,
+  mockGetAgentSessionStatus,
+  mockGetLatestSessionScreenshot,
+  mockGetAgentSessionHistory,
+  mockChangePassword,
+  mockGetAuthSessions,
+  mockRevokeAuthSession,
+  mockRevokeAllAuthSessions,
+  persistMockDb,
 } from './mock-api';
+import { clearUserFromStorage, getAccessToken, getRefreshToken, saveAuthTokens } from './auth-storage';
+import { redirectToAuth } from './auth-redirect';
+import { invalidateQueriesForEndpoint } from './query-cache';
+import { getApiFixtureMode, recordApiFixture, replayApiFixture } from './api-fixtures';
+import { broadcastTabMessage } from './tab-sync';
+import { NetworkError, TimeoutError, createApiError, isAbortError, isApiError } from './api-errors';
+import type { DeviceProfileFields } from './resolutions';
+import type { PreconditionFlow, SuitePreconditions } from './preconditions';
+import type { ScenarioDataTable } from './scenario-parameters';
+import { apiEndpoints } from './api-generated';
+import type {
+  PasswordChange,
+  SessionCreateResponse,
+  SessionHistoryResponse,
+  SessionStatusResponse,
+  StepExecuteResponse,
+  TestSuiteAttachmentResponse as GeneratedTestSuiteAttachmentResponse,
+  Token,
+} from './api-generated';
+
+export type {
+  PasswordChange,
+  SessionCreateResponse,
+  SessionHistoryResponse,
+  SessionStatusResponse,
+  StepExecuteResponse,
+} from './api-generated';
 
 // Get the API base URL from environment variable or use a default
 // In development, we use the Vite proxy, so we leave this empty to use relative URLs
 // In production, this should be set to https://api.usekplr.com
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '';
 
+// Auth endpoints never trigger a refresh: they either issue tokens or run without one
+const NO_REFRESH_ENDPOINTS = [
+  '/api/auth/login',
+  '/api/auth/register',
+  '/api/auth/refresh',
+  '/api/auth/logout',
+];
+
+// Paths where a failed refresh must not bounce the user to the auth service
+const NO_AUTH_REDIRECT_PATHS = ['/login', '/callback'];
+
+const READ_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+// Methods that are safe to send again after a failure
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+// Responses that usually mean "try again shortly" rather than "this request is wrong"
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+const DEFAULT_GET_RETRIES = 2;
+const DEFAULT_GET_TIMEOUT_MS = 30 * 1000;
+const DEFAULT_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 8 * 1000;
+
 /**
- * Make an API request
+ * Per-call options accepted by apiRequest and the request helpers
  */
-export const apiRequest = async <T = any>(
-  endpoint: string,
-  options: RequestInit = {}
-): Promise<T> => {
-  // Check if we should use mock API
-  if (shouldUseMockApi()) {
-    return handleMockRequest<T>(endpoint, options);
-  }
+export interface ApiRequestOptions extends RequestInit {
+  /** Abort each attempt after this many milliseconds (GET defaults to 30s, other methods wait indefinitely) */
+  timeoutMs?: number;
+  /** Extra attempts after a transient failure; only honoured for idempotent methods (GET defaults to 2) */
+  retries?: number;
+  /** Base delay for the exponential backoff between retries */
+  retryDelayMs?: number;
+}
 
+// A single in-flight refresh shared by every request that received a 401
+let refreshPromise: Promise<string | null> | null = null;
+let isRedirectingToAuth = false;
+
+const buildUrl = (endpoint: string): string => {
+  // In development, use the Vite proxy (relative URL)
+  // In production, use the full API URL
+  return endpoint.startsWith('http')
+    ? endpoint
+    : API_BASE_URL
+    ? `${API_BASE_URL}${endpoint}`
+    : endpoint; // Use relative URL for Vite proxy in dev
+};
+
+const sendRequest = (endpoint: string, options: RequestInit): Promise<Response> => {
   const headers: Record<string, string> = {
     ...(options.headers as Record<string, string>),
   };
 
-  const storedToken =
-    localStorage.getItem('access_token') || sessionStorage.getItem('access_token');
+  const storedToken = getAccessToken();
   if (storedToken && !headers.Authorization) {
     headers.Authorization = `Bearer ${storedToken}`;
   }
@@ -74,56 +193,295 @@ export const apiRequest = async <T = any>(
     headers['Content-Type'] = 'application/json';
   }
 
-  // In development, use the Vite proxy (relative URL)
-  // In production, use the full API URL
-  const url = endpoint.startsWith('http')
-    ? endpoint
-    : API_BASE_URL
-    ? `${API_BASE_URL}${endpoint}`
-    : endpoint; // Use relative URL for Vite proxy in dev
-
-  const response = await fetch(url, {
+  return fetch(buildUrl(endpoint), {
     ...options,
     headers,
     credentials: 'include',
   });
+};
 
-  // For localhost, try to extract tokens from response headers if available
-  // Note: JavaScript can't read Set-Cookie headers, but the proxy might expose them differently
-  // We rely on checkUrlForAuth() to extract tokens from URL params and store them
+/**
+ * Send a request, turning a failed connection into a NetworkError
+ */
+const sendRequestOrThrow = async (endpoint: string, options: RequestInit): Promise<Response> => {
+  try {
+    return await sendRequest(endpoint, options);
+  } catch (error) {
+    // Cancellation is not a network failure; let the caller see the AbortError
+    if (isAbortError(error)) {
+      throw error;
+    }
+    throw new NetworkError(
+      error instanceof Error && error.message ? error.message : 'Network request failed',
+      { endpoint, method: (options.method || 'GET').toUpperCase() }
+    );
+  }
+};
 
-  if (!response.ok) {
-    let errorData: any;
-    try {
-      errorData = await response.json();
-    } catch {
-      errorData = {
-        detail: `HTTP ${response.status}: ${response.statusText}`,
-      };
+const performTokenRefresh = async (): Promise<string | null> => {
+  // The backend reads the refresh token from its cookie when none is passed
+  const refreshToken = getRefreshToken();
+
+  try {
+    const tokens: Token = await apiEndpoints.refreshToken(refreshToken ? { refresh_token: refreshToken } : undefined);
+    if (!tokens?.access_token) {
+      return null;
+    }
+    saveAuthTokens(tokens.access_token, tokens.refresh_token);
+    return tokens.access_token;
+  } catch (error) {
+    // A rejected refresh just means the session is over
+    if (!isApiError(error)) {
+      console.error('Error refreshing access token:', error);
     }
+    return null;
+  }
+};
+
+/**
+ * Exchange the refresh token for a new access token.
+ * Concurrent callers share one refresh request; resolves to null if the session can't be renewed.
+ */
+export const refreshAccessToken = (): Promise<string | null> => {
+  if (!refreshPromise) {
+    refreshPromise = performTokenRefresh().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+const shouldAttemptRefresh = (endpoint: string, options: RequestInit): boolean => {
+  if (NO_REFRESH_ENDPOINTS.some((path) => endpoint.includes(path))) {
+    return false;
+  }
+  // Callers that pass their own Authorization header manage their credentials themselves
+  const headers = options.headers as Record<string, string> | undefined;
+  if (headers?.Authorization) {
+    return false;
+  }
+  // Credentials always include cookies, so a session may exist even with no token stored here
+  return true;
+};
+
+/**
+ * Whether this tab held tokens for the session that just failed to refresh. Cookie-only and
+ * anonymous requests just fail with the 401 and leave signing in to the route guards.
+ */
+const hadStoredSession = (): boolean => Boolean(getAccessToken() || getRefreshToken());
+
+/**
+ * Drop the expired session and send the user back through sign in, returning to the current page
+ */
+const handleExpiredSession = () => {
+  clearUserFromStorage();
+  // The refresh token is shared, so the other tabs are signed out too
+  broadcastTabMessage({ type: 'logout' });
+  if (isRedirectingToAuth || NO_AUTH_REDIRECT_PATHS.includes(window.location.pathname)) {
+    return;
+  }
+  isRedirectingToAuth = true;
+  redirectToAuth(`${window.location.pathname}${window.location.search}`);
+};
 
-    // Handle HTTPValidationError format from OpenAPI spec
-    if (errorData.detail && Array.isArray(errorData.detail)) {
-      // Validation error with multiple field errors
-      const errorMessages = errorData.detail.map((err: any) => {
-        const field = err.loc?.slice(1).join('.') || 'field';
-        return `${field}: ${err.msg}`;
-      }).join(', ');
-      throw new Error(errorMessages || 'Validation error');
+const createAbortError = (): Error => new DOMException('The request was aborted', 'AbortError');
+
+/**
+ * Wait before the next retry, stopping early if the caller aborts
+ */
+const waitForRetry = (delayMs: number, signal?: AbortSignal | null): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
     }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
 
-    // Handle single detail string or message
-    const errorMessage = errorData.detail || errorData.message || `HTTP ${response.status}: ${response.statusText}`;
-    
-    throw new Error(errorMessage);
+/**
+ * Exponential backoff with full jitter, so clients that failed together don't retry together
+ */
+const getRetryDelay = (attempt: number, baseDelayMs: number): number => {
+  const ceiling = Math.min(MAX_RETRY_DELAY_MS, baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+};
+
+const isRetryableError = (error: unknown): boolean => {
+  if (error instanceof NetworkError || error instanceof TimeoutError) {
+    return true;
   }
+  return isApiError(error) && RETRYABLE_STATUSES.has(error.status);
+};
 
-  // Handle 204 No Content responses
-  if (response.status === 204) {
-    return undefined as T;
+/**
+ * Send one attempt of a request and parse its response.
+ * The attempt is aborted when the caller's signal fires or `timeoutMs` elapses.
+ */
+const runAttempt = async <T>(
+  endpoint: string,
+  options: RequestInit,
+  method: string,
+  timeoutMs?: number
+): Promise<T> => {
+  const controller = new AbortController();
+  const callerSignal = options.signal;
+  const abortFromCaller = () => controller.abort();
+  let hasTimedOut = false;
+
+  if (callerSignal?.aborted) {
+    throw createAbortError();
   }
+  callerSignal?.addEventListener('abort', abortFromCaller, { once: true });
+  const timer = timeoutMs
+    ? setTimeout(() => {
+        hasTimedOut = true;
+        controller.abort();
+      }, timeoutMs)
+    : undefined;
+
+  const attemptOptions: RequestInit = { ...options, signal: controller.signal };
+
+  try {
+    let response = await sendRequestOrThrow(endpoint, attemptOptions);
+
+    if (response.status === 401 && shouldAttemptRefresh(endpoint, options)) {
+      const newToken = await refreshAccessToken();
+      if (newToken) {
+        response = await sendRequestOrThrow(endpoint, attemptOptions);
+      } else if (hadStoredSession()) {
+        handleExpiredSession();
+      }
+    }
+
+    // For localhost, try to extract tokens from response headers if available
+    // Note: JavaScript can't read Set-Cookie headers, but the proxy might expose them differently
+    // We rely on checkUrlForAuth() to extract tokens from URL params and store them
+
+    if (!response.ok) {
+      let errorData: unknown;
+      try {
+        errorData = await response.json();
+      } catch {
+        errorData = null;
+      }
+
+      throw createApiError(response, errorData, { endpoint, method });
+    }
+
+    // Handle 204 No Content responses
+    if (response.status === 204) {
+      return undefined as T;
+    }
 
-  return response.json();
+    return await response.json();
+  } catch (error) {
+    if (hasTimedOut) {
+      throw new TimeoutError(`Request timed out after ${timeoutMs}ms`, { endpoint, method });
+    }
+    if (callerSignal?.aborted && !isAbortError(error)) {
+      throw createAbortError();
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    callerSignal?.removeEventListener('abort', abortFromCaller);
+  }
+};
+
+/**
+ * Make an API request
+ *
+ * On a 401 the access token is refreshed once (shared across concurrent requests) and the
+ * request is replayed. This covers sessions held only in cookies too. If the refresh fails
+ * and this tab had stored tokens, the user is redirected to sign in.
+ *
+ * Idempotent requests that fail with a network error, a timeout or a 429/502/503/504 are
+ * retried with jittered exponential backoff. Aborting `options.signal` cancels the request
+ * and any pending retry with an AbortError. Successful writes invalidate the cached reads
+ * of the resource they touched.
+ *
+ * In fixture record mode responses are also captured (see api-fixtures); in replay mode they
+ * are served from the loaded bundle instead of the network.
+ */
+export const apiRequest = async <T = any>(
+  endpoint: string,
+  options: ApiRequestOptions = {}
+): Promise<T> => {
+  const method = (options.method || 'GET').toUpperCase();
+  const fixtureMode = getApiFixtureMode();
+
+  if (fixtureMode === 'replay') {
+    const data = await replayApiFixture<T>(method, endpoint);
+    if (!READ_METHODS.has(method)) {
+      invalidateQueriesForEndpoint(endpoint);
+    }
+    return data;
+  }
+  if (fixtureMode !== 'record') {
+    return performRequest<T>(endpoint, options, method);
+  }
+
+  try {
+    const data = await performRequest<T>(endpoint, options, method);
+    recordApiFixture(method, endpoint, data === undefined ? 204 : 200, data);
+    return data;
+  } catch (error) {
+    if (isApiError(error) && error.status > 0) {
+      recordApiFixture(method, endpoint, error.status, { detail: error.detail });
+    }
+    throw error;
+  }
+};
+
+const performRequest = async <T>(
+  endpoint: string,
+  options: ApiRequestOptions,
+  method: string
+): Promise<T> => {
+  const { timeoutMs, retries, retryDelayMs = DEFAULT_RETRY_DELAY_MS, ...init } = options;
+  const isWrite = !READ_METHODS.has(method);
+
+  // Check if we should use mock API
+  if (shouldUseMockApi()) {
+    const data = await handleMockRequest<T>(endpoint, init);
+    // The mock answers regardless of the signal; still report a cancelled read as cancelled
+    if (!isWrite && init.signal?.aborted) {
+      throw createAbortError();
+    }
+    if (isWrite) {
+      invalidateQueriesForEndpoint(endpoint);
+    }
+    return data;
+  }
+
+  const isIdempotent = IDEMPOTENT_METHODS.has(method);
+  const maxRetries = isIdempotent ? retries ?? (method === 'GET' ? DEFAULT_GET_RETRIES : 0) : 0;
+  const attemptTimeoutMs = timeoutMs ?? (method === 'GET' ? DEFAULT_GET_TIMEOUT_MS : undefined);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const data = await runAttempt<T>(endpoint, init, method, attemptTimeoutMs);
+      // Cached reads of whatever this write touched are now out of date
+      if (isWrite) {
+        invalidateQueriesForEndpoint(endpoint);
+      }
+      return data;
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+      await waitForRetry(getRetryDelay(attempt, retryDelayMs), init.signal);
+    }
+  }
 };
 
 /**
@@ -133,7 +491,21 @@ const handleMockRequest = async <T = any>(
   endpoint: string,
   options: RequestInit = {}
 ): Promise<T> => {
-  const method = options.method || 'GET';
+  try {
+    return await routeMockRequest<T>(endpoint, options);
+  } finally {
+    // Reads advance simulated runs too, so save after every request
+    persistMockDb();
+  }
+};
+
+const routeMockRequest = async <T = any>(
+  endpoint: string,
+  options: RequestInit = {}
+): Promise<T> => {
+  const method = (options.method || 'GET').toUpperCase();
+  const path = endpoint.split('?')[0];
+  const query = new URL(endpoint, 'http://dummy').searchParams;
 
   // ============================================================================
   // Auth API
@@ -150,10 +522,142 @@ const handleMockRequest = async <T = any>(
     } as T;
   }
 
+  // Handle POST /api/auth/change-password
+  if (method === 'POST' && path.endsWith('/api/auth/change-password')) {
+    const body = options.body ? JSON.parse(options.body as string) : {};
+    return mockChangePassword(body) as Promise<T>;
+  }
+
+  // Handle GET /api/auth/sessions
+  if (method === 'GET' && path.endsWith('/api/auth/sessions')) {
+    return mockGetAuthSessions() as Promise<T>;
+  }
+
+  // Handle POST /api/auth/sessions/revoke-all
+  if (method === 'POST' && path.endsWith('/api/auth/sessions/revoke-all')) {
+    await mockRevokeAllAuthSessions();
+    return undefined as T;
+  }
+
+  // Handle DELETE /api/auth/sessions/{id}
+  if (method === 'DELETE' && path.match(/\/api\/auth\/sessions\/[^/]+$/)) {
+    await mockRevokeAuthSession(decodeURIComponent(path.split('/').pop()!));
+    return undefined as T;
+  }
+
   // ============================================================================
   // Projects API
   // ============================================================================
 
+  // Handle GET /api/projects/{id}/deletion-preview
+  if (method === 'GET' && path.match(/\/api\/projects\/\d+\/deletion-preview$/)) {
+    const projectId = parseInt(path.split('/')[3], 10);
+    return mockGetProjectDeletionPreview(projectId) as Promise<T>;
+  }
+
+  // Handle GET /api/projects/{id}/members
+  if (method === 'GET' && path.match(/\/api\/projects\/\d+\/members$/)) {
+    const projectId = parseInt(path.split('/')[3], 10);
+    return mockGetProjectMembers(projectId) as Promise<T>;
+  }
+
+  // Handle PATCH/DELETE /api/projects/{id}/members/{member_id}
+  const memberMatch = path.match(/\/api\/projects\/(\d+)\/members\/(\d+)$/);
+  if (memberMatch) {
+    const projectId = parseInt(memberMatch[1], 10);
+    const memberId = parseInt(memberMatch[2], 10);
+    if (method === 'PATCH') {
+      const body = options.body ? JSON.parse(options.body as string) : {};
+      return mockUpdateProjectMember(projectId, memberId, body) as Promise<T>;
+    }
+    if (method === 'DELETE') {
+      await mockRemoveProjectMember(projectId, memberId);
+      return undefined as T;
+    }
+  }
+
+  // Handle GET/POST /api/projects/{id}/invitations
+  const invitationsMatch = path.match(/\/api\/projects\/(\d+)\/invitations$/);
+  if (invitationsMatch) {
+    const projectId = parseInt(invitationsMatch[1], 10);
+    if (method === 'GET') {
+      return mockGetProjectInvitations(projectId) as Promise<T>;
+    }
+    if (method === 'POST') {
+      const body = options.body ? JSON.parse(options.body as string) : {};
+      return mockCreateProjectInvitation(projectId, body) as Promise<T>;
+    }
+  }
+
+  // Handle DELETE /api/projects/{id}/invitations/{invitation_id}
+  const invitationMatch = path.match(/\/api\/projects\/(\d+)\/invitations\/(\d+)$/);
+  if (method === 'DELETE' && invitationMatch) {
+    await mockRevokeProjectInvitation(parseInt(invitationMatch[1], 10), parseInt(invitationMatch[2], 10));
+    return undefined as T;
+  }
+
+  // Handle GET/POST /api/projects/{id}/device-profiles
+  const deviceProfilesMatch = path.match(/\/api\/projects\/(\d+)\/device-profiles$/);
+  if (deviceProfilesMatch) {
+    const projectId = parseInt(deviceProfilesMatch[1], 10);
+    if (method === 'GET') {
+      return mockGetDeviceProfiles(projectId) as Promise<T>;
+    }
+    if (method === 'POST') {
+      const body = options.body ? JSON.parse(options.body as string) : {};
+      return mockCreateDeviceProfile(projectId, body) as Promise<T>;
+    }
+  }
+
+  // Handle PATCH/DELETE /api/projects/{id}/device-profiles/{profile_id}
+  const deviceProfileMatch = path.match(/\/api\/projects\/(\d+)\/device-profiles\/(\d+)$/);
+  if (deviceProfileMatch) {
+    const projectId = parseInt(deviceProfileMatch[1], 10);
+    const profileId = parseInt(deviceProfileMatch[2], 10);
+    if (method === 'PATCH') {
+      const body = options.body ? JSON.parse(options.body as string) : {};
+      return mockUpdateDeviceProfile(projectId, profileId, body) as Promise<T>;
+    }
+    if (method === 'DELETE') {
+      await mockDeleteDeviceProfile(projectId, profileId);
+      return undefined as T;
+    }
+  }
+
+  // Handle GET/POST /api/projects/{id}/precondition-blocks
+  const preconditionBlocksMatch = path.match(/\/api\/projects\/(\d+)\/precondition-blocks$/);
+  if (preconditionBlocksMatch) {
+    const projectId = parseInt(preconditionBlocksMatch[1], 10);
+    if (method === 'GET') {
+      return mockGetPreconditionBlocks(projectId) as Promise<T>;
+    }
+    if (method === 'POST') {
+      const body = options.body ? JSON.parse(options.body as string) : {};
+      return mockCreatePreconditionBlock(projectId, body) as Promise<T>;
+    }
+  }
+
+  // Handle PATCH/DELETE /api/projects/{id}/precondition-blocks/{block_id}
+  const preconditionBlockMatch = path.match(/\/api\/projects\/(\d+)\/precondition-blocks\/(\d+)$/);
+  if (preconditionBlockMatch) {
+    const projectId = parseInt(preconditionBlockMatch[1], 10);
+    const blockId = parseInt(preconditionBlockMatch[2], 10);
+    if (method === 'PATCH') {
+      const body = options.body ? JSON.parse(options.body as string) : {};
+      return mockUpdatePreconditionBlock(projectId, blockId, body) as Promise<T>;
+    }
+    if (method === 'DELETE') {
+      await mockDeletePreconditionBlock(projectId, blockId);
+      return undefined as T;
+    }
+  }
+
+  // Handle POST /api/invitations/{token}/accept
+  const acceptMatch = path.match(/\/api\/invitations\/([^/]+)\/accept$/);
+  if (method === 'POST' && acceptMatch) {
+    return mockAcceptProjectInvitation(decodeURIComponent(acceptMatch[1])) as Promise<T>;
+  }
+
   // Handle GET /api/projects/
   if (method === 'GET' && endpoint.includes('/api/projects/') && !endpoint.match(/\/api\/projects\/\d+$/)) {
     return mockGetProjects() as Promise<T>;
@@ -198,13 +702,92 @@ const handleMockRequest = async <T = any>(
   // Test Suites API
   // ============================================================================
 
+  // Handle GET /api/test-suites/{id}/attachments
+  if (method === 'GET' && path.match(/\/api\/test-suites\/\d+\/attachments$/)) {
+    const match = path.match(/\/api\/test-suites\/(\d+)\/attachments$/);
+    if (match) {
+      return mockGetTestSuiteAttachments(parseInt(match[1], 10)) as Promise<T>;
+    }
+  }
+
+  // Handle POST /api/test-suites/{id}/attachments
+  if (method === 'POST' && path.match(/\/api\/test-suites\/\d+\/attachments$/)) {
+    const match = path.match(/\/api\/test-suites\/(\d+)\/attachments$/);
+    if (match) {
+      return mockUploadTestSuiteAttachments(parseInt(match[1], 10), options.body) as Promise<T>;
+    }
+  }
+
+  // Handle DELETE /api/test-suites/{id}/attachments/{attachment_id}
+  if (method === 'DELETE' && path.match(/\/api\/test-suites\/\d+\/attachments\/\d+$/)) {
+    const match = path.match(/\/api\/test-suites\/(\d+)\/attachments\/(\d+)$/);
+    if (match) {
+      await mockDeleteTestSuiteAttachment(parseInt(match[1], 10), parseInt(match[2], 10));
+      return undefined as T;
+    }
+  }
+
+  // Handle GET /api/test-suites/{id}/environments
+  if (method === 'GET' && path.match(/\/api\/test-suites\/\d+\/environments$/)) {
+    const match = path.match(/\/api\/test-suites\/(\d+)\/environments$/);
+    if (match) {
+      return mockGetSuiteEnvironments(parseInt(match[1], 10)) as Promise<T>;
+    }
+  }
+
+  // Handle POST /api/test-suites/{id}/environments
+  if (method === 'POST' && path.match(/\/api\/test-suites\/\d+\/environments$/)) {
+    const match = path.match(/\/api\/test-suites\/(\d+)\/environments$/);
+    if (match) {
+      const body = options.body ? JSON.parse(options.body as string) : {};
+      return mockCreateSuiteEnvironment(parseInt(match[1], 10), body) as Promise<T>;
+    }
+  }
+
+  // Handle PATCH /api/test-suites/{id}/environments/{environment_id}
+  if (method === 'PATCH' && path.match(/\/api\/test-suites\/\d+\/environments\/\d+$/)) {
+    const match = path.match(/\/api\/test-suites\/(\d+)\/environments\/(\d+)$/);
+    if (match) {
+      const body = options.body ? JSON.parse(options.body as string) : {};
+      return mockUpdateSuiteEnvironment(parseInt(match[1], 10), parseInt(match[2], 10), body) as Promise<T>;
+    }
+  }
+
+  // Handle DELETE /api/test-suites/{id}/environments/{environment_id}
+  if (method === 'DELETE' && path.match(/\/api\/test-suites\/\d+\/environments\/\d+$/)) {
+    const match = path.match(/\/api\/test-suites\/(\d+)\/environments\/(\d+)$/);
+    if (match) {
+      await mockDeleteSuiteEnvironment(parseInt(match[1], 10), parseInt(match[2], 10));
+      return undefined as T;
+    }
+  }
+
+  // Handle POST /api/test-suites/{id}/clone
+  if (method === 'POST' && path.match(/\/api\/test-suites\/\d+\/clone$/)) {
+    const match = path.match(/\/api\/test-suites\/(\d+)\/clone$/);
+    if (match) {
+      const body = options.body ? JSON.parse(options.body as string) : {};
+      return mockCloneTestSuite(parseInt(match[1], 10), body) as Promise<T>;
+    }
+  }
+
+  // Handle POST /api/test-suites/{id}/reset-context
+  if (method === 'POST' && path.match(/\/api\/test-suites\/\d+\/reset-context$/)) {
+    const match = path.match(/\/api\/test-suites\/(\d+)\/reset-context$/);
+    if (match) {
+      return mockResetTestSuiteContext(parseInt(match[1], 10)) as Promise<T>;
+    }
+  }
+
   // Handle GET /api/test-suites/
-  if (method === 'GET' && endpoint.includes('/api/test-suites/')) {
+  if (method === 'GET' && path.endsWith('/api/test-suites/')) {
     let parsedProjectId: number | undefined;
+    let search: string | undefined;
     try {
       const url = new URL(endpoint, 'http://dummy');
       const projectId = url.searchParams.get('project_id');
       parsedProjectId = projectId ? parseInt(projectId, 10) : undefined;
+      search = url.searchParams.get('search') ?? undefined;
     } catch {
       // If URL parsing fails, try manual parsing
       const match = endpoint.match(/[?&]project_id=(\d+)/);
@@ -212,7 +795,7 @@ const handleMockRequest = async <T = any>(
         parsedProjectId = parseInt(match[1], 10);
       }
     }
-    return mockGetTestSuites(parsedProjectId) as Promise<T>;
+    return mockGetTestSuites(parsedProjectId, search) as Promise<T>;
   }
 
   // Handle GET /api/test-suites/{id}
@@ -225,7 +808,7 @@ const handleMockRequest = async <T = any>(
   }
 
   // Handle POST /api/test-suites/
-  if (method === 'POST' && endpoint.includes('/api/test-suites/')) {
+  if (method === 'POST' && path.endsWith('/api/test-suites/')) {
     const body = options.body ? JSON.parse(options.body as string) : {};
     return mockCreateTestSuite(body) as Promise<T>;
   }
@@ -259,7 +842,13 @@ const handleMockRequest = async <T = any>(
     const match = endpoint.match(/\/api\/test-runs\/suite\/(\d+)\/runs/);
     if (match) {
       const testSuiteId = parseInt(match[1], 10);
-      return mockGetTestRunsForSuite(testSuiteId) as Promise<T>;
+      const limit = query.get('limit');
+      const offset = query.get('offset');
+      return mockGetTestRunsForSuite(
+        testSuiteId,
+        limit ? parseInt(limit, 10) : undefined,
+        offset ? parseInt(offset, 10) : 0
+      ) as Promise<T>;
     }
   }
 
@@ -272,6 +861,12 @@ const handleMockRequest = async <T = any>(
     }
   }
 
+  // Handle GET /api/test-runs/matrix/{matrix_id}
+  if (method === 'GET' && path.match(/\/api\/test-runs\/matrix\/[^/]+$/)) {
+    const matrixId = decodeURIComponent(path.split('/').pop()!);
+    return mockGetMatrixTestRuns(matrixId) as Promise<T>;
+  }
+
   // Handle GET /api/test-runs/{id}
   if (method === 'GET' && endpoint.match(/\/api\/test-runs\/\d+$/)) {
     const match = endpoint.match(/\/api\/test-runs\/(\d+)$/);
@@ -282,17 +877,35 @@ const handleMockRequest = async <T = any>(
   }
 
   // Handle POST /api/test-runs/
-  if (method === 'POST' && endpoint.includes('/api/test-runs/')) {
+  if (method === 'POST' && path.endsWith('/api/test-runs/')) {
     const body = options.body ? JSON.parse(options.body as string) : {};
     return mockCreateTestRun(body) as Promise<T>;
   }
 
+  // Handle PATCH /api/test-runs/{id}
+  if (method === 'PATCH' && path.match(/\/api\/test-runs\/\d+$/)) {
+    const match = path.match(/\/api\/test-runs\/(\d+)$/);
+    if (match) {
+      const body = options.body ? JSON.parse(options.body as string) : {};
+      return mockUpdateTestRun(parseInt(match[1], 10), body) as Promise<T>;
+    }
+  }
+
+  // Handle DELETE /api/test-runs/{id}
+  if (method === 'DELETE' && path.match(/\/api\/test-runs\/\d+$/)) {
+    const match = path.match(/\/api\/test-runs\/(\d+)$/);
+    if (match) {
+      await mockDeleteTestRun(parseInt(match[1], 10));
+      return undefined as T;
+    }
+  }
+
   // ============================================================================
   // Scenarios API
   // ============================================================================
 
   // Handle GET /api/scenarios/
-  if (method === 'GET' && endpoint.includes('/api/scenarios/')) {
+  if (method === 'GET' && path.endsWith('/api/scenarios/')) {
     let parsedTestSuiteId: number | undefined;
     try {
       const url = new URL(endpoint, 'http://dummy');
@@ -317,12 +930,137 @@ const handleMockRequest = async <T = any>(
     }
   }
 
+  // Handle POST /api/scenarios/
+  if (method === 'POST' && path.endsWith('/api/scenarios/')) {
+    const body = options.body ? JSON.parse(options.body as string) : {};
+    return mockCreateScenario(body) as Promise<T>;
+  }
+
+  // Handle PUT /api/scenarios/reorder
+  if (method === 'PUT' && path.endsWith('/api/scenarios/reorder')) {
+    const body = options.body ? JSON.parse(options.body as string) : {};
+    return mockReorderScenarios(body.test_suite_id, body.scenario_ids) as Promise<T>;
+  }
+
+  // Handle PUT /api/scenarios/{id}
+  if (method === 'PUT' && path.match(/\/api\/scenarios\/\d+$/)) {
+    const match = path.match(/\/api\/scenarios\/(\d+)$/);
+    if (match) {
+      const body = options.body ? JSON.parse(options.body as string) : {};
+      return mockUpdateScenario(parseInt(match[1], 10), body) as Promise<T>;
+    }
+  }
+
+  // Handle DELETE /api/scenarios/{id}
+  if (method === 'DELETE' && path.match(/\/api\/scenarios\/\d+$/)) {
+    const match = path.match(/\/api\/scenarios\/(\d+)$/);
+    if (match) {
+      await mockDeleteScenario(parseInt(match[1], 10));
+      return undefined as T;
+    }
+  }
+
+  // ============================================================================
+  // Scenario Generation & Computer Use API
+  // ============================================================================
+
+  // Handle POST /api/scenario-generation/generate
+  if (method === 'POST' && path.endsWith('/api/scenario-generation/generate')) {
+    const body = options.body ? JSON.parse(options.body as string) : {};
+    return mockGenerateScenarios(body) as Promise<T>;
+  }
+
+  // Handle POST /api/computer-use/exploration-actions
+  if (method === 'POST' && path.endsWith('/api/computer-use/exploration-actions')) {
+    const body = options.body ? JSON.parse(options.body as string) : {};
+    return mockGetExplorationActions(body) as Promise<T>;
+  }
+
+  // Handle POST /api/computer-use/sessions
+  if (method === 'POST' && path.endsWith('/api/computer-use/sessions')) {
+    const body = options.body ? JSON.parse(options.body as string) : {};
+    return mockCreateAgentSession(body) as Promise<T>;
+  }
+
+  // Handle /api/computer-use/sessions/{uuid}/...
+  const agentSessionMatch = path.match(/\/api\/computer-use\/sessions\/([^/]+)\/(.+)$/);
+  if (agentSessionMatch) {
+    const [, sessionUuid, action] = agentSessionMatch;
+    const completeMatch = action.match(/^steps\/(\d+)\/complete$/);
+    if (method === 'POST' && action === 'steps') {
+      return mockExecuteAgentStep(sessionUuid) as Promise<T>;
+    }
+    if (method === 'POST' && completeMatch) {
+      return mockCompleteAgentStep(sessionUuid, parseInt(completeMatch[1], 10)) as Promise<T>;
+    }
+    if (method === 'GET' && action === 'status') {
+      return mockGetAgentSessionStatus(sessionUuid) as Promise<T>;
+    }
+    if (method === 'GET' && action === 'latest-screenshot') {
+      return mockGetLatestSessionScreenshot(sessionUuid) as Promise<T>;
+    }
+    if (method === 'GET' && action === 'history') {
+      return mockGetAgentSessionHistory(sessionUuid) as Promise<T>;
+    }
+  }
+
+  // ============================================================================
+  // Live Runs API
+  // ============================================================================
+
+  // Handle GET /api/webrtc/ice-servers
+  if (method === 'GET' && path.endsWith('/api/webrtc/ice-servers')) {
+    return mockGetWebrtcIceServers() as Promise<T>;
+  }
+
+  // Handle POST /api/live-runs/runtime
+  if (method === 'POST' && path.endsWith('/api/live-runs/runtime')) {
+    const body = options.body ? JSON.parse(options.body as string) : {};
+    return mockLaunchRuntime(body) as Promise<T>;
+  }
+
+  // Handle POST /api/live-runs/trigger
+  if (method === 'POST' && path.endsWith('/api/live-runs/trigger')) {
+    const body = options.body ? JSON.parse(options.body as string) : {};
+    return mockTriggerLiveRun(body) as Promise<T>;
+  }
+
+  // Handle POST /api/live-runs/matrix
+  if (method === 'POST' && path.endsWith('/api/live-runs/matrix')) {
+    const body = options.body ? JSON.parse(options.body as string) : {};
+    return mockTriggerMatrixRun(body) as Promise<T>;
+  }
+
+  // Handle DELETE /api/live-runs/sessions/{pod}
+  if (method === 'DELETE' && path.match(/\/api\/live-runs\/sessions\/[^/]+$/)) {
+    const podInstanceId = decodeURIComponent(path.split('/').pop()!);
+    const testRunId = query.get('test_run_id');
+    return mockStopLiveSession(podInstanceId, testRunId ? parseInt(testRunId, 10) : undefined) as Promise<T>;
+  }
+
+  // Handle /api/live-runs/sessions/{pod}/agent/* and /browser/reset
+  const liveSessionMatch = path.match(/\/api\/live-runs\/sessions\/([^/]+)\/(agent\/start|agent\/stop|agent\/status|browser\/reset)$/);
+  if (liveSessionMatch) {
+    const podInstanceId = decodeURIComponent(liveSessionMatch[1]);
+    const body = options.body ? JSON.parse(options.body as string) : {};
+    switch (`${method} ${liveSessionMatch[2]}`) {
+      case 'POST agent/start':
+        return mockStartAgentInSession(podInstanceId, body) as Promise<T>;
+      case 'POST agent/stop':
+        return mockStopAgentInSession(podInstanceId) as Promise<T>;
+      case 'GET agent/status':
+        return mockGetAgentStatusInSession(podInstanceId) as Promise<T>;
+      case 'POST browser/reset':
+        return mockResetBrowserInSession(podInstanceId, body) as Promise<T>;
+    }
+  }
+
   // ============================================================================
   // Schedules API
   // ============================================================================
 
   // Handle GET /api/schedules/
-  if (method === 'GET' && endpoint.includes('/api/schedules/')) {
+  if (method === 'GET' && path.endsWith('/api/schedules/')) {
     const params: any = {};
     try {
       const url = new URL(endpoint, 'http://dummy');
@@ -363,7 +1101,7 @@ const handleMockRequest = async <T = any>(
   }
 
   // Handle POST /api/schedules/
-  if (method === 'POST' && endpoint.includes('/api/schedules/')) {
+  if (method === 'POST' && path.endsWith('/api/schedules/')) {
     const body = options.body ? JSON.parse(options.body as string) : {};
     return mockCreateSchedule(body) as Promise<T>;
   }
@@ -379,8 +1117,8 @@ const handleMockRequest = async <T = any>(
   }
 
   // Handle DELETE /api/schedules/{id}
-  if (method === 'DELETE' && endpoint.match(/\/api\/schedules\/\d+$/)) {
-    const match = endpoint.match(/\/api\/schedules\/(\d+)$/);
+  if (method === 'DELETE' && path.match(/\/api\/schedules\/\d+$/)) {
+    const match = path.match(/\/api\/schedules\/(\d+)$/);
     if (match) {
       const scheduleId = parseInt(match[1], 10);
       await mockDeleteSchedule(scheduleId);
@@ -393,7 +1131,7 @@ const handleMockRequest = async <T = any>(
   // ============================================================================
 
   // Handle GET /api/secrets/
-  if (method === 'GET' && endpoint.includes('/api/secrets/') && !endpoint.includes('/reveal')) {
+  if (method === 'GET' && path.endsWith('/api/secrets/')) {
     return mockGetSecrets() as Promise<T>;
   }
 
@@ -416,7 +1154,7 @@ const handleMockRequest = async <T = any>(
   }
 
   // Handle POST /api/secrets/
-  if (method === 'POST' && endpoint.includes('/api/secrets/')) {
+  if (method === 'POST' && path.endsWith('/api/secrets/')) {
     const body = options.body ? JSON.parse(options.body as string) : {};
     return mockCreateSecret(body) as Promise<T>;
   }
@@ -522,147 +1260,398 @@ const handleMockRequest = async <T = any>(
     return mockGetMobileApps(parsedProjectId) as Promise<T>;
   }
 
-  // Handle POST /api/app-registry/apps
-  if (method === 'POST' && endpoint.includes('/api/app-registry/apps') && !endpoint.includes('/build-uploads')) {
-    const body = options.body ? JSON.parse(options.body as string) : {};
-    return mockCreateMobileApp(body) as Promise<T>;
-  }
+  // Handle POST /api/app-registry/apps
+  if (method === 'POST' && endpoint.includes('/api/app-registry/apps') && !endpoint.includes('/build-uploads')) {
+    const body = options.body ? JSON.parse(options.body as string) : {};
+    return mockCreateMobileApp(body) as Promise<T>;
+  }
+
+  // Handle POST /api/app-registry/apps/{id}/build-uploads
+  if (method === 'POST' && endpoint.match(/\/api\/app-registry\/apps\/\d+\/build-uploads/)) {
+    const match = endpoint.match(/\/api\/app-registry\/apps\/(\d+)\/build-uploads/);
+    if (match) {
+      const appId = parseInt(match[1], 10);
+      const body = options.body ? JSON.parse(options.body as string) : {};
+      return mockRequestMobileAppBuildUpload(appId, body) as Promise<T>;
+    }
+  }
+
+  // Handle POST /api/app-registry/builds/{id}/complete
+  if (method === 'POST' && endpoint.match(/\/api\/app-registry\/builds\/\d+\/complete/)) {
+    const match = endpoint.match(/\/api\/app-registry\/builds\/(\d+)\/complete/);
+    if (match) {
+      const buildId = parseInt(match[1], 10);
+      const body = options.body ? JSON.parse(options.body as string) : {};
+      return mockCompleteMobileAppBuild(buildId, body) as Promise<T>;
+    }
+  }
+
+  // Handle DELETE /api/app-registry/builds/{id}
+  if (method === 'DELETE' && endpoint.match(/\/api\/app-registry\/builds\/\d+$/)) {
+    const match = endpoint.match(/\/api\/app-registry\/builds\/(\d+)$/);
+    if (match) {
+      const buildId = parseInt(match[1], 10);
+      await mockDeleteMobileAppBuild(buildId);
+      return undefined as T;
+    }
+  }
+
+  // Fallback: return empty array or throw error
+  console.warn(`Mock API: Unhandled endpoint ${method} ${endpoint}`);
+  return [] as T;
+};
+
+/**
+ * GET request helper
+ */
+export const apiGet = <T = any>(endpoint: string, options: ApiRequestOptions = {}): Promise<T> => {
+  return apiRequest<T>(endpoint, { ...options, method: 'GET' });
+};
+
+/**
+ * POST request helper
+ */
+export const apiPost = <T = any>(
+  endpoint: string,
+  data?: any,
+  options: ApiRequestOptions = {}
+): Promise<T> => {
+  return apiRequest<T>(endpoint, {
+    ...options,
+    method: 'POST',
+    body: data ? JSON.stringify(data) : undefined,
+  });
+};
+
+/**
+ * PUT request helper
+ */
+export const apiPut = <T = any>(
+  endpoint: string,
+  data?: any,
+  options: ApiRequestOptions = {}
+): Promise<T> => {
+  return apiRequest<T>(endpoint, {
+    ...options,
+    method: 'PUT',
+    body: data ? JSON.stringify(data) : undefined,
+  });
+};
+
+/**
+ * DELETE request helper
+ */
+export const apiDelete = <T = any>(endpoint: string, options: ApiRequestOptions = {}): Promise<T> => {
+  return apiRequest<T>(endpoint, { ...options, method: 'DELETE' });
+};
+
+/**
+ * PATCH request helper
+ */
+export const apiPatch = <T = any>(
+  endpoint: string,
+  data?: any,
+  options: ApiRequestOptions = {}
+): Promise<T> => {
+  return apiRequest<T>(endpoint, {
+    ...options,
+    method: 'PATCH',
+    body: data ? JSON.stringify(data) : undefined,
+  });
+};
+
+// ============================================================================
+// Projects API (Projects = Workspaces)
+// ============================================================================
+
+export type ProjectRole = 'owner' | 'editor' | 'viewer';
+
+export interface ProjectResponse {
+  id: number;
+  name: string;
+  description: string | null;
+  user_id: number;
+  created_at: string;
+  updated_at: string | null;
+  /** The current user's role; missing for projects created before members existed (owner) */
+  role?: ProjectRole;
+}
+
+export interface ProjectCreate {
+  name: string;
+  description?: string | null;
+}
+
+export interface ProjectUpdate {
+  name?: string | null;
+  description?: string | null;
+}
+
+/**
+ * Get all projects for the current user
+ */
+export const getProjects = async (options?: ApiRequestOptions): Promise<ProjectResponse[]> => {
+  return apiGet<ProjectResponse[]>('/api/projects/', options);
+};
+
+/**
+ * Get a specific project
+ */
+export const getProject = async (projectId: number, options?: ApiRequestOptions): Promise<ProjectResponse> => {
+  return apiGet<ProjectResponse>(`/api/projects/${projectId}`, options);
+};
+
+/**
+ * Create a new project
+ */
+export const createProject = async (data: ProjectCreate): Promise<ProjectResponse> => {
+  return apiPost<ProjectResponse>('/api/projects/', data);
+};
+
+/**
+ * Update a project
+ */
+export const updateProject = async (projectId: number, data: ProjectUpdate): Promise<ProjectResponse> => {
+  return apiPut<ProjectResponse>(`/api/projects/${projectId}`, data);
+};
+
+/**
+ * Delete a project
+ */
+export const deleteProject = async (projectId: number): Promise<void> => {
+  return apiDelete(`/api/projects/${projectId}`);
+};
+
+export interface ProjectResourceSummary {
+  id: number;
+  name: string;
+}
+
+/**
+ * Everything deleting a project removes along with it
+ */
+export interface ProjectDeletionPreview {
+  project_id: number;
+  test_suites: ProjectResourceSummary[];
+  test_run_count: number;
+  schedules: ProjectResourceSummary[];
+  secrets: ProjectResourceSummary[];
+  mobile_apps: ProjectResourceSummary[];
+}
+
+/**
+ * Preview what deleting a project cascades to
+ */
+export const getProjectDeletionPreview = async (
+  projectId: number,
+  options?: ApiRequestOptions
+): Promise<ProjectDeletionPreview> => {
+  return apiGet<ProjectDeletionPreview>(`/api/projects/${projectId}/deletion-preview`, options);
+};
+
+// ============================================================================
+// Project Members API
+// ============================================================================
+
+export interface ProjectMemberResponse {
+  id: number;
+  project_id: number;
+  user_id: number;
+  email: string;
+  full_name: string | null;
+  role: ProjectRole;
+  created_at: string;
+}
+
+export interface ProjectInvitationResponse {
+  id: number;
+  project_id: number;
+  email: string;
+  role: ProjectRole;
+  status: 'pending' | 'accepted' | 'revoked';
+  invited_by_email: string;
+  created_at: string;
+  expires_at: string;
+}
+
+export interface ProjectInvitationCreate {
+  email: string;
+  role: ProjectRole;
+}
+
+/**
+ * Get the members of a project
+ */
+export const getProjectMembers = async (
+  projectId: number,
+  options?: ApiRequestOptions
+): Promise<ProjectMemberResponse[]> => {
+  return apiGet<ProjectMemberResponse[]>(`/api/projects/${projectId}/members`, options);
+};
 
-  // Handle POST /api/app-registry/apps/{id}/build-uploads
-  if (method === 'POST' && endpoint.match(/\/api\/app-registry\/apps\/\d+\/build-uploads/)) {
-    const match = endpoint.match(/\/api\/app-registry\/apps\/(\d+)\/build-uploads/);
-    if (match) {
-      const appId = parseInt(match[1], 10);
-      const body = options.body ? JSON.parse(options.body as string) : {};
-      return mockRequestMobileAppBuildUpload(appId, body) as Promise<T>;
-    }
-  }
+/**
+ * Change a member's role (owners only)
+ */
+export const updateProjectMember = async (
+  projectId: number,
+  memberId: number,
+  data: { role: ProjectRole }
+): Promise<ProjectMemberResponse> => {
+  return apiPatch<ProjectMemberResponse>(`/api/projects/${projectId}/members/${memberId}`, data);
+};
 
-  // Handle POST /api/app-registry/builds/{id}/complete
-  if (method === 'POST' && endpoint.match(/\/api\/app-registry\/builds\/\d+\/complete/)) {
-    const match = endpoint.match(/\/api\/app-registry\/builds\/(\d+)\/complete/);
-    if (match) {
-      const buildId = parseInt(match[1], 10);
-      const body = options.body ? JSON.parse(options.body as string) : {};
-      return mockCompleteMobileAppBuild(buildId, body) as Promise<T>;
-    }
-  }
+/**
+ * Remove a member from a project, or leave it when it is the current user
+ */
+export const removeProjectMember = async (projectId: number, memberId: number): Promise<void> => {
+  return apiDelete(`/api/projects/${projectId}/members/${memberId}`);
+};
 
-  // Handle DELETE /api/app-registry/builds/{id}
-  if (method === 'DELETE' && endpoint.match(/\/api\/app-registry\/builds\/\d+$/)) {
-    const match = endpoint.match(/\/api\/app-registry\/builds\/(\d+)$/);
-    if (match) {
-      const buildId = parseInt(match[1], 10);
-      await mockDeleteMobileAppBuild(buildId);
-      return undefined as T;
-    }
-  }
+/**
+ * Get the pending invitations of a project
+ */
+export const getProjectInvitations = async (
+  projectId: number,
+  options?: ApiRequestOptions
+): Promise<ProjectInvitationResponse[]> => {
+  return apiGet<ProjectInvitationResponse[]>(`/api/projects/${projectId}/invitations`, options);
+};
 
-  // Fallback: return empty array or throw error
-  console.warn(`Mock API: Unhandled endpoint ${method} ${endpoint}`);
-  return [] as T;
+/**
+ * Invite someone to a project by email
+ */
+export const createProjectInvitation = async (
+  projectId: number,
+  data: ProjectInvitationCreate
+): Promise<ProjectInvitationResponse> => {
+  return apiPost<ProjectInvitationResponse>(`/api/projects/${projectId}/invitations`, data);
 };
 
 /**
- * GET request helper
+ * Revoke a pending invitation
  */
-export const apiGet = <T = any>(endpoint: string): Promise<T> => {
-  return apiRequest<T>(endpoint, { method: 'GET' });
+export const revokeProjectInvitation = async (projectId: number, invitationId: number): Promise<void> => {
+  return apiDelete(`/api/projects/${projectId}/invitations/${invitationId}`);
 };
 
 /**
- * POST request helper
+ * Accept an invitation from its emailed link; returns the project joined
  */
-export const apiPost = <T = any>(endpoint: string, data?: any): Promise<T> => {
-  return apiRequest<T>(endpoint, {
-    method: 'POST',
-    body: data ? JSON.stringify(data) : undefined,
-  });
+export const acceptProjectInvitation = async (token: string): Promise<ProjectResponse> => {
+  return apiPost<ProjectResponse>(`/api/invitations/${encodeURIComponent(token)}/accept`);
+};
+
+// ============================================================================
+// Device Profiles API
+// ============================================================================
+
+export interface DeviceProfileResponse extends DeviceProfileFields {
+  id: number;
+  project_id: number;
+  created_at: string;
+  updated_at: string | null;
+}
+
+export type DeviceProfileCreate = DeviceProfileFields;
+
+export type DeviceProfileUpdate = Partial<DeviceProfileFields>;
+
+/**
+ * Get a project's custom device profiles (see validateDeviceProfile for the rules)
+ */
+export const getDeviceProfiles = async (
+  projectId: number,
+  options?: ApiRequestOptions
+): Promise<DeviceProfileResponse[]> => {
+  return apiGet<DeviceProfileResponse[]>(`/api/projects/${projectId}/device-profiles`, options);
 };
 
 /**
- * PUT request helper
+ * Create a device profile
  */
-export const apiPut = <T = any>(endpoint: string, data?: any): Promise<T> => {
-  return apiRequest<T>(endpoint, {
-    method: 'PUT',
-    body: data ? JSON.stringify(data) : undefined,
-  });
+export const createDeviceProfile = async (
+  projectId: number,
+  data: DeviceProfileCreate
+): Promise<DeviceProfileResponse> => {
+  return apiPost<DeviceProfileResponse>(`/api/projects/${projectId}/device-profiles`, data);
 };
 
 /**
- * DELETE request helper
+ * Update a device profile
  */
-export const apiDelete = <T = any>(endpoint: string): Promise<T> => {
-  return apiRequest<T>(endpoint, { method: 'DELETE' });
+export const updateDeviceProfile = async (
+  projectId: number,
+  profileId: number,
+  data: DeviceProfileUpdate
+): Promise<DeviceProfileResponse> => {
+  return apiPatch<DeviceProfileResponse>(`/api/projects/${projectId}/device-profiles/${profileId}`, data);
 };
 
 /**
- * PATCH request helper
+ * Delete a device profile; suites that used it fall back to the default resolution
  */
-export const apiPatch = <T = any>(endpoint: string, data?: any): Promise<T> => {
-  return apiRequest<T>(endpoint, {
-    method: 'PATCH',
-    body: data ? JSON.stringify(data) : undefined,
-  });
+export const deleteDeviceProfile = async (projectId: number, profileId: number): Promise<void> => {
+  return apiDelete(`/api/projects/${projectId}/device-profiles/${profileId}`);
 };
 
 // ============================================================================
-// Projects API (Projects = Workspaces)
+// Precondition Blocks API
 // ============================================================================
 
-export interface ProjectResponse {
+export interface PreconditionBlockResponse extends PreconditionFlow {
   id: number;
+  project_id: number;
   name: string;
   description: string | null;
-  user_id: number;
+  /** Suites whose preconditions point at this block */
+  suite_count: number;
   created_at: string;
   updated_at: string | null;
 }
 
-export interface ProjectCreate {
+export interface PreconditionBlockCreate extends PreconditionFlow {
   name: string;
   description?: string | null;
 }
 
-export interface ProjectUpdate {
-  name?: string | null;
-  description?: string | null;
-}
-
-/**
- * Get all projects for the current user
- */
-export const getProjects = async (): Promise<ProjectResponse[]> => {
-  return apiGet<ProjectResponse[]>('/api/projects/');
-};
+export type PreconditionBlockUpdate = Partial<PreconditionBlockCreate>;
 
 /**
- * Get a specific project
+ * Get a project's reusable precondition blocks
  */
-export const getProject = async (projectId: number): Promise<ProjectResponse> => {
-  return apiGet<ProjectResponse>(`/api/projects/${projectId}`);
+export const getPreconditionBlocks = async (
+  projectId: number,
+  options?: ApiRequestOptions
+): Promise<PreconditionBlockResponse[]> => {
+  return apiGet<PreconditionBlockResponse[]>(`/api/projects/${projectId}/precondition-blocks`, options);
 };
 
 /**
- * Create a new project
+ * Create a precondition block
  */
-export const createProject = async (data: ProjectCreate): Promise<ProjectResponse> => {
-  return apiPost<ProjectResponse>('/api/projects/', data);
+export const createPreconditionBlock = async (
+  projectId: number,
+  data: PreconditionBlockCreate
+): Promise<PreconditionBlockResponse> => {
+  return apiPost<PreconditionBlockResponse>(`/api/projects/${projectId}/precondition-blocks`, data);
 };
 
 /**
- * Update a project
+ * Update a precondition block; every suite using it picks up the change on its next run
  */
-export const updateProject = async (projectId: number, data: ProjectUpdate): Promise<ProjectResponse> => {
-  return apiPut<ProjectResponse>(`/api/projects/${projectId}`, data);
+export const updatePreconditionBlock = async (
+  projectId: number,
+  blockId: number,
+  data: PreconditionBlockUpdate
+): Promise<PreconditionBlockResponse> => {
+  return apiPatch<PreconditionBlockResponse>(`/api/projects/${projectId}/precondition-blocks/${blockId}`, data);
 };
 
 /**
- * Delete a project
+ * Delete a precondition block; fails while suites still use it
  */
-export const deleteProject = async (projectId: number): Promise<void> => {
-  return apiDelete(`/api/projects/${projectId}`);
+export const deletePreconditionBlock = async (projectId: number, blockId: number): Promise<void> => {
+  return apiDelete(`/api/projects/${projectId}/precondition-blocks/${blockId}`);
 };
 
 // ============================================================================
@@ -684,22 +1673,107 @@ export interface GoogleCallbackResponse {
 /**
  * Exchange Google OAuth code for tokens
  * This is called when the auth service redirects with just a code
- * The endpoint expects a callback data object with the code
+ * The endpoint expects a callback data object with the code.
+ * With `link` the Google identity is attached to the signed-in account instead.
  */
-export const exchangeGoogleCode = async (code: string): Promise<GoogleCallbackResponse> => {
+export const exchangeGoogleCode = async (
+  code: string,
+  options: { link?: boolean; state?: string } = {}
+): Promise<GoogleCallbackResponse> => {
   // The endpoint accepts additionalProperties, so we can send the code directly
   // Based on the OpenAPI spec, it accepts a flexible object
   return apiPost<GoogleCallbackResponse>('/api/auth/google/callback', {
     code,
     // Include redirect_uri if needed (some OAuth flows require it)
     redirect_uri: `${window.location.origin}/callback`,
+    ...(options.link ? { link: true } : {}),
+    // Lets the backend check the code belongs to the flow it started
+    ...(options.state ? { state: options.state } : {}),
   });
 };
 
+export interface GoogleAuthInitResponse {
+  auth_url?: string;
+  authorization_url?: string;
+  url?: string;
+  state?: string;
+}
+
+/**
+ * Get the Google consent screen URL to send the user to, with the OAuth `state` Google will
+ * echo back to the callback (taken from the URL when the response doesn't list it)
+ */
+export const getGoogleAuthUrl = async (): Promise<{ url: string; state: string }> => {
+  const response = await apiGet<GoogleAuthInitResponse>('/api/auth/google');
+  const url = response.auth_url || response.authorization_url || response.url;
+  let state = response.state;
+  if (url && !state) {
+    try {
+      state = new URL(url).searchParams.get('state') ?? undefined;
+    } catch {
+      state = undefined;
+    }
+  }
+  if (!url || !state) {
+    throw new Error('Google sign-in is not available right now');
+  }
+  return { url, state };
+};
+
+/**
+ * Change the signed-in user's password
+ */
+export const changePassword = async (data: PasswordChange): Promise<void> => {
+  return apiPost('/api/auth/change-password', data);
+};
+
+export interface AuthSessionResponse {
+  id: string;
+  user_agent?: string | null;
+  ip_address?: string | null;
+  created_at: string;
+  last_active_at?: string | null;
+  is_current: boolean;
+}
+
+/**
+ * List the signed-in user's active sessions (not yet in openapi.json)
+ */
+export const getAuthSessions = async (options?: ApiRequestOptions): Promise<AuthSessionResponse[]> => {
+  return apiGet<AuthSessionResponse[]>('/api/auth/sessions', options);
+};
+
+/**
+ * Sign out a single session
+ */
+export const revokeAuthSession = async (sessionId: string): Promise<void> => {
+  return apiDelete(`/api/auth/sessions/${encodeURIComponent(sessionId)}`);
+};
+
+/**
+ * Sign out every session except the current one; callers sign that one out themselves
+ */
+export const revokeAllAuthSessions = async (): Promise<void> => {
+  return apiPost('/api/auth/sessions/revoke-all');
+};
+
 // ============================================================================
 // Test Suites API
 // ============================================================================
 
+export interface PersistentContextInfo {
+  updated_at: string;
+  /** Run whose browser state was saved */
+  test_run_id: number | null;
+}
+
+export interface SuiteLastRun {
+  id: number;
+  status: string;
+  started_at: string;
+  completed_at: string | null;
+}
+
 export interface TestSuiteResponse {
   id: number;
   name: string;
@@ -709,14 +1783,23 @@ export interface TestSuiteResponse {
   resolution: string | null;
   creation_mode: string;
   preconditions_enabled: boolean;
-  preconditions: any;
+  /** Free text on suites saved before preconditions were structured; read it with parseSuitePreconditions */
+  preconditions: SuitePreconditions | string | null;
   has_persistent_context: boolean;
+  /** Browser state saved by the last finished run; null until a run saves one or after a reset */
+  persistent_context?: PersistentContextInfo | null;
   exploration_enabled: boolean;
   exploration_step_limit: number | null;
   project_id: number;
+  /** Lowercase labels other pages can select suites by */
+  tags?: string[];
+  /** Slash-separated folder path, e.g. "Store/Checkout"; null when the suite is not filed */
+  folder?: string | null;
+  /** Most recent run, only included in list responses */
+  last_run?: SuiteLastRun | null;
   created_at: string;
   updated_at: string | null;
-  attachments?: any[];
+  attachments?: TestSuiteAttachmentResponse[];
 }
 
 export interface TestSuiteCreate {
@@ -727,10 +1810,12 @@ export interface TestSuiteCreate {
   resolution?: string;
   creation_mode?: string;
   preconditions_enabled?: boolean;
-  preconditions?: any;
+  preconditions?: SuitePreconditions | null;
   has_persistent_context?: boolean;
   exploration_enabled?: boolean;
   exploration_step_limit?: number | null;
+  tags?: string[];
+  folder?: string | null;
   project_id: number;
 }
 
@@ -741,27 +1826,43 @@ export interface TestSuiteUpdate {
   ai_testing_instructions?: string | null;
   resolution?: string | null;
   preconditions_enabled?: boolean | null;
-  preconditions?: any;
+  preconditions?: SuitePreconditions | null;
   has_persistent_context?: boolean | null;
   exploration_enabled?: boolean | null;
   exploration_step_limit?: number | null;
+  tags?: string[] | null;
+  folder?: string | null;
 }
 
 /**
  * Get all test suites
  */
-export const getTestSuites = async (projectId?: number): Promise<TestSuiteResponse[]> => {
+export const getTestSuites = async (projectId?: number, options?: ApiRequestOptions): Promise<TestSuiteResponse[]> => {
   const endpoint = projectId
     ? `/api/test-suites/?project_id=${projectId}`
     : '/api/test-suites/';
-  return apiGet<TestSuiteResponse[]>(endpoint);
+  return apiGet<TestSuiteResponse[]>(endpoint, options);
+};
+
+/**
+ * Suites of a project whose name, description or scenarios contain every word of `query`
+ */
+export const searchTestSuites = async (
+  projectId: number,
+  query: string,
+  options?: ApiRequestOptions
+): Promise<TestSuiteResponse[]> => {
+  return apiGet<TestSuiteResponse[]>(
+    `/api/test-suites/?project_id=${projectId}&search=${encodeURIComponent(query)}`,
+    options
+  );
 };
 
 /**
  * Get a specific test suite
  */
-export const getTestSuite = async (testSuiteId: number): Promise<TestSuiteResponse> => {
-  return apiGet<TestSuiteResponse>(`/api/test-suites/${testSuiteId}`);
+export const getTestSuite = async (testSuiteId: number, options?: ApiRequestOptions): Promise<TestSuiteResponse> => {
+  return apiGet<TestSuiteResponse>(`/api/test-suites/${testSuiteId}`, options);
 };
 
 /**
@@ -778,6 +1879,33 @@ export const updateTestSuite = async (testSuiteId: number, data: TestSuiteUpdate
   return apiPut<TestSuiteResponse>(`/api/test-suites/${testSuiteId}`, data);
 };
 
+export interface TestSuiteClone {
+  /** Defaults to "<name> (copy)" */
+  name?: string | null;
+  application_url?: string | null;
+  /** Defaults to the source suite's project */
+  project_id?: number | null;
+}
+
+/**
+ * Deep-copy a test suite with its scenarios, attachments and environments
+ */
+export const cloneTestSuite = async (testSuiteId: number, data: TestSuiteClone): Promise<TestSuiteResponse> => {
+  return apiPost<TestSuiteResponse>(`/api/test-suites/${testSuiteId}/clone`, data);
+};
+
+export interface ResetContextResponse {
+  test_suite_id: number;
+  reset_at: string;
+}
+
+/**
+ * Clear a suite's saved cookies, storage and logins so its next run starts fresh
+ */
+export const resetTestSuiteContext = async (testSuiteId: number): Promise<ResetContextResponse> => {
+  return apiPost<ResetContextResponse>(`/api/test-suites/${testSuiteId}/reset-context`);
+};
+
 /**
  * Delete a test suite
  */
@@ -785,24 +1913,119 @@ export const deleteTestSuite = async (testSuiteId: number): Promise<void> => {
   return apiDelete(`/api/test-suites/${testSuiteId}`);
 };
 
+export interface TestSuiteAttachmentResponse extends GeneratedTestSuiteAttachmentResponse {
+  /** Last time scenario generation read this file; null if it never has */
+  used_in_generation_at?: string | null;
+}
+
+/**
+ * List the attachments of a test suite
+ */
+export const getTestSuiteAttachments = async (
+  testSuiteId: number,
+  options: ApiRequestOptions = {}
+): Promise<TestSuiteAttachmentResponse[]> => {
+  return apiGet<TestSuiteAttachmentResponse[]>(`/api/test-suites/${testSuiteId}/attachments`, options);
+};
+
 /**
  * Upload attachments for a test suite
  */
 export const uploadTestSuiteAttachments = async (
   testSuiteId: number,
   files: File[]
-): Promise<any[]> => {
+): Promise<TestSuiteAttachmentResponse[]> => {
   if (!files.length) {
     return [];
   }
   const formData = new FormData();
   files.forEach((file) => formData.append('files', file));
-  return apiRequest<any[]>(`/api/test-suites/${testSuiteId}/attachments`, {
+  return apiRequest<TestSuiteAttachmentResponse[]>(`/api/test-suites/${testSuiteId}/attachments`, {
     method: 'POST',
     body: formData,
   });
 };
 
+/**
+ * Delete an attachment of a test suite
+ */
+export const deleteTestSuiteAttachment = async (testSuiteId: number, attachmentId: number): Promise<void> => {
+  return apiDelete(`/api/test-suites/${testSuiteId}/attachments/${attachmentId}`);
+};
+
+export interface SecretBinding {
+  /** Name the agent sees the secret under */
+  name: string;
+  secret_id: number;
+}
+
+export interface SuiteEnvironmentResponse {
+  id: number;
+  test_suite_id: number;
+  name: string;
+  base_url: string;
+  variables: Record<string, string>;
+  secret_bindings: SecretBinding[];
+  /** Targeted when a run or schedule doesn't pick an environment */
+  is_default: boolean;
+  created_at: string;
+  updated_at: string | null;
+}
+
+export interface SuiteEnvironmentCreate {
+  name: string;
+  base_url: string;
+  variables?: Record<string, string>;
+  secret_bindings?: SecretBinding[];
+  is_default?: boolean;
+}
+
+export interface SuiteEnvironmentUpdate {
+  name?: string | null;
+  base_url?: string | null;
+  variables?: Record<string, string> | null;
+  secret_bindings?: SecretBinding[] | null;
+  is_default?: boolean | null;
+}
+
+/**
+ * Get the environments (dev, staging, prod...) a test suite can run against
+ */
+export const getSuiteEnvironments = async (
+  testSuiteId: number,
+  options?: ApiRequestOptions
+): Promise<SuiteEnvironmentResponse[]> => {
+  return apiGet<SuiteEnvironmentResponse[]>(`/api/test-suites/${testSuiteId}/environments`, options);
+};
+
+/**
+ * Create an environment for a test suite
+ */
+export const createSuiteEnvironment = async (
+  testSuiteId: number,
+  data: SuiteEnvironmentCreate
+): Promise<SuiteEnvironmentResponse> => {
+  return apiPost<SuiteEnvironmentResponse>(`/api/test-suites/${testSuiteId}/environments`, data);
+};
+
+/**
+ * Update an environment of a test suite
+ */
+export const updateSuiteEnvironment = async (
+  testSuiteId: number,
+  environmentId: number,
+  data: SuiteEnvironmentUpdate
+): Promise<SuiteEnvironmentResponse> => {
+  return apiPatch<SuiteEnvironmentResponse>(`/api/test-suites/${testSuiteId}/environments/${environmentId}`, data);
+};
+
+/**
+ * Delete an environment of a test suite; schedules targeting it fall back to the default
+ */
+export const deleteSuiteEnvironment = async (testSuiteId: number, environmentId: number): Promise<void> => {
+  return apiDelete(`/api/test-suites/${testSuiteId}/environments/${environmentId}`);
+};
+
 export interface ScenarioGenerationRequest {
   test_suite_id?: number;
   test_suite_name: string;
@@ -813,10 +2036,24 @@ export interface ScenarioGenerationRequest {
   setup_screenshot_base64?: string;
   setup_final_url?: string;
   exploration_screenshots_base64?: string[];
+  /** Attachments of `test_suite_id` to read for context */
+  attachment_ids?: number[];
+  /** Scenarios generated so far; a refinement extends them instead of starting over */
+  previous_scenarios?: string[];
+  /** Generated scenarios the user rejected, and why, so similar ones aren't suggested again */
+  rejected_scenarios?: Array<{ scenario: string; reason: string }>;
+  /** The suite's current scenarios, so they aren't suggested again */
+  existing_scenarios?: string[];
+  /** What to change, e.g. "more edge cases around payment" */
+  refinement?: string;
 }
 
 export interface ScenarioGenerationResponse {
   scenarios: string[];
+  /** Attachments the generator actually read; files it can't parse are skipped */
+  attachment_ids?: number[];
+  /** Coverage category of each scenario, in the same order; see lib/scenario-generation */
+  categories?: string[];
 }
 
 /**
@@ -876,12 +2113,18 @@ export interface TestRunResponse {
   started_at: string;
   completed_at: string | null;
   platform?: string;
+  environment_id?: number | null;
+  /** Viewport the run used; set on every run of a matrix */
+  resolution?: string | null;
+  /** Shared by the runs a matrix run fanned out to */
+  matrix_id?: string | null;
 }
 
 export interface TestRunCreate {
   test_suite_id: number;
   run_type: string;
   total_scenarios?: number;
+  environment_id?: number | null;
 }
 
 export interface TestRunUpdate {
@@ -893,7 +2136,12 @@ export interface TestRunUpdate {
 /**
  * Get test runs for a specific test suite
  */
-export const getTestRunsForSuite = async (testSuiteId: number, limit?: number, offset?: number): Promise<TestRunResponse[]> => {
+export const getTestRunsForSuite = async (
+  testSuiteId: number,
+  limit?: number,
+  offset?: number,
+  options?: ApiRequestOptions
+): Promise<TestRunResponse[]> => {
   const queryParams = new URLSearchParams();
   if (limit !== undefined) {
     queryParams.append('limit', limit.toString());
@@ -905,14 +2153,17 @@ export const getTestRunsForSuite = async (testSuiteId: number, limit?: number, o
   const endpoint = queryString
     ? `/api/test-runs/suite/${testSuiteId}/runs?${queryString}`
     : `/api/test-runs/suite/${testSuiteId}/runs`;
-  return apiGet<TestRunResponse[]>(endpoint);
+  return apiGet<TestRunResponse[]>(endpoint, options);
 };
 
 /**
  * Get latest test run for a test suite
  */
-export const getLatestTestRun = async (testSuiteId: number): Promise<TestRunResponse | null> => {
-  return apiGet<TestRunResponse | null>(`/api/test-runs/suite/${testSuiteId}/latest`);
+export const getLatestTestRun = async (
+  testSuiteId: number,
+  options?: ApiRequestOptions
+): Promise<TestRunResponse | null> => {
+  return apiGet<TestRunResponse | null>(`/api/test-runs/suite/${testSuiteId}/latest`, options);
 };
 
 export interface TestRunStep {
@@ -937,6 +2188,10 @@ export interface TestRunScenario {
   name: string;
   status?: string;
   steps?: TestRunStep[];
+  /** Data table row this result is for (0-based); null for scenarios without a table */
+  iteration_index?: number | null;
+  /** The row's values; secret placeholders are never resolved here */
+  iteration_values?: Record<string, string> | null;
 }
 
 export interface TestRunSession {
@@ -953,16 +2208,44 @@ export interface TestRunSession {
   screenshots?: string[];
 }
 
+export interface PreconditionStepResult {
+  step_number: number;
+  instruction: string;
+  secret_name: string | null;
+  status: 'pending' | 'running' | 'passed' | 'failed' | 'skipped';
+  reasoning?: string | null;
+  screenshot_url?: string | null;
+}
+
+/**
+ * The setup that ran before the run's scenarios
+ */
+export interface PreconditionRunResult {
+  /** Set when the suite used a precondition block */
+  block_id: number | null;
+  block_name: string | null;
+  status: 'pending' | 'running' | 'passed' | 'failed';
+  steps: PreconditionStepResult[];
+  success_check: string | null;
+  /** Null until the check has been evaluated */
+  success_check_passed: boolean | null;
+}
+
 export interface TestRunWithSessionsResponse extends TestRunResponse {
   sessions: TestRunSession[];
   scenarios?: TestRunScenario[];
+  /** Null when the suite has no preconditions */
+  preconditions?: PreconditionRunResult | null;
 }
 
 /**
  * Get a specific test run
  */
-export const getTestRun = async (testRunId: number): Promise<TestRunWithSessionsResponse> => {
-  return apiGet<TestRunWithSessionsResponse>(`/api/test-runs/${testRunId}`);
+export const getTestRun = async (
+  testRunId: number,
+  options?: ApiRequestOptions
+): Promise<TestRunWithSessionsResponse> => {
+  return apiGet<TestRunWithSessionsResponse>(`/api/test-runs/${testRunId}`, options);
 };
 
 /**
@@ -985,7 +2268,8 @@ export interface LiveRunTriggerRequest {
 
 export interface LiveRunTriggerResponse {
   status: string;
-  schedule_id: string;
+  /** Null for runs started by hand */
+  schedule_id: string | null;
   message_id: string;
   test_run_id: number;
   pod_instance_id: string;
@@ -996,6 +2280,37 @@ export const triggerLiveRun = async (data: LiveRunTriggerRequest): Promise<LiveR
   return apiPost<LiveRunTriggerResponse>('/api/live-runs/trigger', data);
 };
 
+export interface MatrixRunRequest {
+  project_id: number;
+  suite_id: number;
+  /** One headless run per viewport, e.g. ["1920x1080", "390x844", "profile:3"] */
+  resolutions: string[];
+  environment_id?: number | null;
+  options?: { max_steps?: number };
+}
+
+export interface MatrixRunResponse {
+  matrix_id: string;
+  runs: Array<{ resolution: string; test_run_id: number }>;
+}
+
+/**
+ * Fan a suite out across several viewports; each viewport gets its own test run
+ */
+export const triggerMatrixRun = async (data: MatrixRunRequest): Promise<MatrixRunResponse> => {
+  return apiPost<MatrixRunResponse>('/api/live-runs/matrix', data);
+};
+
+/**
+ * Get every run of a matrix with its scenarios, in the order the viewports were requested
+ */
+export const getMatrixTestRuns = async (
+  matrixId: string,
+  options?: ApiRequestOptions
+): Promise<TestRunWithSessionsResponse[]> => {
+  return apiGet<TestRunWithSessionsResponse[]>(`/api/test-runs/matrix/${encodeURIComponent(matrixId)}`, options);
+};
+
 export interface StopSessionResponse {
   status: string;
   pod_instance_id: string;
@@ -1034,7 +2349,10 @@ export const getWebrtcIceServers = async (): Promise<WebrtcIceServersResponse> =
 export interface RuntimeLaunchRequest {
   platform: 'web' | 'android';
   ttl_seconds?: number;
+  /** "WIDTHxHEIGHT"; with a device profile, its size in the chosen orientation */
   resolution?: string;
+  /** Applies the profile's pixel ratio, user agent and touch support */
+  device_profile_id?: number;
   client_interaction?: 'enabled' | 'disabled';
 }
 
@@ -1052,14 +2370,34 @@ export const launchRuntime = async (data: RuntimeLaunchRequest): Promise<Runtime
   return apiPost<RuntimeLaunchResponse>('/api/live-runs/runtime', data);
 };
 
+/**
+ * A scenario as the agent runs it; placeholders are filled in by the backend
+ */
+export interface AgentScenarioDefinition {
+  id: number;
+  name: string;
+  description: string | null;
+  steps: string[];
+  assertions: string[];
+  start_url: string | null;
+  /** The scenario's own step budget; null falls back to the run's `max_steps` */
+  max_steps: number | null;
+  data_table: ScenarioDataTable | null;
+}
+
 export interface AgentStartRequest {
   run_request: {
     environment: string;
     inputs: {
       scenarios: string[];
       scenario_ids: number[];
+      /** Same order as `scenario_ids` */
+      scenario_definitions?: AgentScenarioDefinition[];
       test_run_id: number;
       base_url?: string;
+      /** The backend resolves the environment's variables and secret bindings */
+      environment_id?: number;
+      /** Step budget for scenarios without their own; left out when every scenario sets one */
       max_steps?: number;
     };
   };
@@ -1150,6 +2488,15 @@ export interface ScenarioResponse {
   name: string;
   description: string | null;
   test_suite_id: number;
+  /** Ordered instructions for the agent; see lib/scenario-definition */
+  steps?: string[];
+  assertions?: string[];
+  max_steps?: number | null;
+  start_url?: string | null;
+  /** Runs the scenario once per row, filling in `{{column}}` placeholders */
+  data_table?: ScenarioDataTable | null;
+  /** Order within the suite; scenarios are returned sorted by it */
+  position?: number;
   created_at: string;
   updated_at: string | null;
 }
@@ -1158,21 +2505,31 @@ export interface ScenarioCreate {
   name: string;
   description?: string | null;
   test_suite_id: number;
+  steps?: string[];
+  assertions?: string[];
+  max_steps?: number | null;
+  start_url?: string | null;
+  data_table?: ScenarioDataTable | null;
 }
 
 export interface ScenarioUpdate {
   name?: string | null;
   description?: string | null;
+  steps?: string[];
+  assertions?: string[];
+  max_steps?: number | null;
+  start_url?: string | null;
+  data_table?: ScenarioDataTable | null;
 }
 
 /**
  * Get scenarios for a test suite
  */
-export const getScenarios = async (testSuiteId?: number): Promise<ScenarioResponse[]> => {
+export const getScenarios = async (testSuiteId?: number, options?: ApiRequestOptions): Promise<ScenarioResponse[]> => {
   const endpoint = testSuiteId
     ? `/api/scenarios/?test_suite_id=${testSuiteId}`
     : '/api/scenarios/';
-  return apiGet<ScenarioResponse[]>(endpoint);
+  return apiGet<ScenarioResponse[]>(endpoint, options);
 };
 
 /**
@@ -1203,6 +2560,16 @@ export const deleteScenario = async (scenarioId: number): Promise<void> => {
   return apiDelete(`/api/scenarios/${scenarioId}`);
 };
 
+/**
+ * Set the order of a suite's scenarios; `scenarioIds` must list every scenario in the suite
+ */
+export const reorderScenarios = async (testSuiteId: number, scenarioIds: number[]): Promise<ScenarioResponse[]> => {
+  return apiPut<ScenarioResponse[]>('/api/scenarios/reorder', {
+    test_suite_id: testSuiteId,
+    scenario_ids: scenarioIds,
+  });
+};
+
 // ============================================================================
 // App Registry API
 // ============================================================================
@@ -1265,9 +2632,9 @@ export interface CompleteBuildRequest {
   status?: string;
 }
 
-export const getMobileApps = async (projectId?: number): Promise<MobileAppResponse[]> => {
+export const getMobileApps = async (projectId?: number, options?: ApiRequestOptions): Promise<MobileAppResponse[]> => {
   const suffix = projectId ? `?project_id=${projectId}` : '';
-  return apiGet<MobileAppResponse[]>(`/api/app-registry/apps${suffix}`);
+  return apiGet<MobileAppResponse[]>(`/api/app-registry/apps${suffix}`, options);
 };
 
 export const createMobileApp = async (data: CreateMobileAppRequest): Promise<MobileAppResponse> => {
@@ -1311,44 +2678,48 @@ export interface CreateAgentSessionRequest {
 export interface ExecuteAgentStepRequest {
   screenshot_base64: string;
   current_url: string;
-  context: Record<string, any>;
+  context: Record<string, unknown>;
 }
 
 export interface CompleteAgentStepRequest {
   url: string;
-  context: any;
+  context: Record<string, unknown>;
   screenshot_base64?: string;
-  console_logs?: any[];
-  network_logs?: any[];
+  console_logs?: unknown[];
+  network_logs?: unknown[];
 }
 
-export const createAgentSession = async (data: CreateAgentSessionRequest): Promise<any> => {
-  return apiPost('/api/computer-use/sessions', data);
+export const createAgentSession = async (data: CreateAgentSessionRequest): Promise<SessionCreateResponse> => {
+  return apiPost<SessionCreateResponse>('/api/computer-use/sessions', data);
 };
 
 export const executeAgentStep = async (
   sessionUuid: string,
   data: ExecuteAgentStepRequest
-): Promise<any> => {
-  return apiPost(`/api/computer-use/sessions/${sessionUuid}/steps`, data);
+): Promise<StepExecuteResponse> => {
+  return apiPost<StepExecuteResponse>(`/api/computer-use/sessions/${sessionUuid}/steps`, data);
 };
 
 export const completeAgentStep = async (
   sessionUuid: string,
   stepId: number,
   data: CompleteAgentStepRequest
-): Promise<any> => {
+): Promise<unknown> => {
   return apiPost(`/api/computer-use/sessions/${sessionUuid}/steps/${stepId}/complete`, data);
 };
 
-export const getAgentSessionStatus = async (sessionUuid: string): Promise<any> => {
-  return apiGet(`/api/computer-use/sessions/${sessionUuid}/status`);
+export const getAgentSessionStatus = async (sessionUuid: string): Promise<SessionStatusResponse> => {
+  return apiGet<SessionStatusResponse>(`/api/computer-use/sessions/${sessionUuid}/status`);
 };
 
-export const getLatestSessionScreenshot = async (sessionUuid: string): Promise<any> => {
+export const getLatestSessionScreenshot = async (sessionUuid: string): Promise<unknown> => {
   return apiGet(`/api/computer-use/sessions/${sessionUuid}/latest-screenshot`);
 };
 
+export const getAgentSessionHistory = async (sessionUuid: string): Promise<SessionHistoryResponse> => {
+  return apiGet<SessionHistoryResponse>(`/api/computer-use/sessions/${sessionUuid}/history`);
+};
+
 // ============================================================================
 // Schedules API
 // ============================================================================
@@ -1356,7 +2727,10 @@ export const getLatestSessionScreenshot = async (sessionUuid: string): Promise<a
 export interface ScheduleResponse {
   id: number;
   project_id: number;
-  test_suite_id: number;
+  /** Null when the schedule runs every suite with `tag` */
+  test_suite_id: number | null;
+  /** Runs every suite of the project that has this tag when the schedule fires */
+  tag: string | null;
   name: string;
   description: string | null;
   frequency: 'daily' | 'weekly' | 'monthly';
@@ -1367,6 +2741,10 @@ export interface ScheduleResponse {
   start_date: string | null;
   end_date: string | null;
   is_active: boolean;
+  /** Null runs against the suite's default environment */
+  environment_id: number | null;
+  /** Clear the suite's saved browser context before each scheduled run */
+  reset_context_before_run: boolean;
   last_run_at: string | null;
   next_run_at: string | null;
   created_at: string | null;
@@ -1382,7 +2760,9 @@ export interface ScheduleCreate {
   name: string;
   description?: string | null;
   project_id: number;
-  test_suite_id: number;
+  /** Set either this or `tag` */
+  test_suite_id?: number | null;
+  tag?: string | null;
   frequency: 'daily' | 'weekly' | 'monthly';
   time_of_day: string;
   timezone?: string;
@@ -1391,6 +2771,8 @@ export interface ScheduleCreate {
   start_date?: string | null;
   end_date?: string | null;
   is_active?: boolean;
+  environment_id?: number | null;
+  reset_context_before_run?: boolean;
 }
 
 export interface ScheduleUpdate {
@@ -1398,6 +2780,7 @@ export interface ScheduleUpdate {
   description?: string | null;
   project_id?: number | null;
   test_suite_id?: number | null;
+  tag?: string | null;
   frequency?: 'daily' | 'weekly' | 'monthly' | null;
   time_of_day?: string | null;
   timezone?: string | null;
@@ -1406,6 +2789,8 @@ export interface ScheduleUpdate {
   start_date?: string | null;
   end_date?: string | null;
   is_active?: boolean | null;
+  environment_id?: number | null;
+  reset_context_before_run?: boolean | null;
 }
 
 /**
@@ -1415,7 +2800,7 @@ export const getSchedules = async (params?: {
   project_id?: number;
   test_suite_id?: number;
   is_active?: boolean;
-}): Promise<ScheduleResponse[]> => {
+}, options?: ApiRequestOptions): Promise<ScheduleResponse[]> => {
   const queryParams = new URLSearchParams();
   if (params?.project_id) queryParams.append('project_id', params.project_id.toString());
   if (params?.test_suite_id) queryParams.append('test_suite_id', params.test_suite_id.toString());
@@ -1424,7 +2809,7 @@ export const getSchedules = async (params?: {
   const endpoint = queryParams.toString()
     ? `/api/schedules/?${queryParams.toString()}`
     : '/api/schedules/';
-  return apiGet<ScheduleResponse[]>(endpoint);
+  return apiGet<ScheduleResponse[]>(endpoint, options);
 };
 
 /**
@@ -1490,7 +2875,7 @@ export const getDashboardStatistics = async (params?: {
   project_id?: number;
   start_date?: string;
   end_date?: string;
-}): Promise<DashboardStatistics> => {
+}, options?: ApiRequestOptions): Promise<DashboardStatistics> => {
   const queryParams = new URLSearchParams();
   if (params?.project_id) queryParams.append('project_id', params.project_id.toString());
   if (params?.start_date) queryParams.append('start_date', params.start_date);
@@ -1499,7 +2884,7 @@ export const getDashboardStatistics = async (params?: {
   const endpoint = queryParams.toString()
     ? `/api/dashboard/statistics?${queryParams.toString()}`
     : '/api/dashboard/statistics';
-  return apiGet<DashboardStatistics>(endpoint);
+  return apiGet<DashboardStatistics>(endpoint, options);
 };
 
 /**
@@ -1508,7 +2893,7 @@ export const getDashboardStatistics = async (params?: {
 export const getRecentTestRuns = async (params?: {
   project_id?: number;
   limit?: number;
-}): Promise<RecentRun[]> => {
+}, options?: ApiRequestOptions): Promise<RecentRun[]> => {
   const queryParams = new URLSearchParams();
   if (params?.project_id) queryParams.append('project_id', params.project_id.toString());
   if (params?.limit) queryParams.append('limit', params.limit.toString());
@@ -1516,7 +2901,7 @@ export const getRecentTestRuns = async (params?: {
   const endpoint = queryParams.toString()
     ? `/api/dashboard/recent-runs?${queryParams.toString()}`
     : '/api/dashboard/recent-runs';
-  return apiGet<RecentRun[]>(endpoint);
+  return apiGet<RecentRun[]>(endpoint, options);
 };
 
 // ============================================================================
@@ -1525,6 +2910,8 @@ export const getRecentTestRuns = async (params?: {
 
 export interface SecretResponse {
   id: number;
+  /** Null for secrets available in every project */
+  project_id?: number | null;
   name: string;
   value_masked: string;
   description: string | null;
@@ -1551,8 +2938,8 @@ export interface SecretRevealResponse {
 /**
  * Get all secrets for the current user
  */
-export const getSecrets = async (): Promise<SecretResponse[]> => {
-  return apiGet<SecretResponse[]>('/api/secrets/');
+export const getSecrets = async (options?: ApiRequestOptions): Promise<SecretResponse[]> => {
+  return apiGet<SecretResponse[]>('/api/secrets/', options);
 };
 
 /**
@@ -0,0 +1,194 @@
+/**
+ * Structured errors thrown by apiRequest
+ */
+
+import type { ValidationError } from './api-generated';
+
+/**
+ * Validation messages keyed by the top-level request field the backend rejected
+ */
+export type FieldErrors = Record<string, string>;
+
+interface ApiErrorOptions {
+  status: number;
+  endpoint: string;
+  method: string;
+  requestId?: string | null;
+  detail?: unknown;
+}
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly endpoint: string;
+  readonly method: string;
+  readonly requestId: string | null;
+  readonly detail: unknown;
+
+  constructor(message: string, options: ApiErrorOptions) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = options.status;
+    this.endpoint = options.endpoint;
+    this.method = options.method;
+    this.requestId = options.requestId ?? null;
+    this.detail = options.detail;
+  }
+}
+
+export class BadRequestError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'BadRequestError';
+  }
+}
+
+/**
+ * 401 that survived a token refresh: the user has to sign in again
+ */
+export class SessionExpiredError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'SessionExpiredError';
+  }
+}
+
+export class ForbiddenError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * FastAPI 422 response; `fieldErrors` maps each rejected field to its message
+ */
+export class RequestValidationError extends ApiError {
+  readonly fieldErrors: FieldErrors;
+  readonly validationErrors: ValidationError[];
+
+  constructor(message: string, options: ApiErrorOptions & { validationErrors: ValidationError[] }) {
+    super(message, options);
+    this.name = 'RequestValidationError';
+    this.validationErrors = options.validationErrors;
+    this.fieldErrors = toFieldErrors(options.validationErrors);
+  }
+}
+
+export class ServerError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * The request never got a response (offline, DNS, CORS, connection reset)
+ */
+export class NetworkError extends ApiError {
+  constructor(message: string, options: Omit<ApiErrorOptions, 'status'>) {
+    super(message, { ...options, status: 0 });
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The request was aborted because it exceeded its `timeoutMs`
+ */
+export class TimeoutError extends ApiError {
+  constructor(message: string, options: Omit<ApiErrorOptions, 'status'>) {
+    super(message, { ...options, status: 0 });
+    this.name = 'TimeoutError';
+  }
+}
+
+// FastAPI prefixes every location with where the value came from
+const LOCATION_SOURCES = new Set(['body', 'query', 'path', 'header', 'cookie']);
+
+const fieldPath = (loc: ValidationError['loc']): string[] => {
+  const path = loc.map(String);
+  return LOCATION_SOURCES.has(path[0]) ? path.slice(1) : path;
+};
+
+const toFieldErrors = (validationErrors: ValidationError[]): FieldErrors => {
+  const fieldErrors: FieldErrors = {};
+  validationErrors.forEach((err) => {
+    const [field, ...nested] = fieldPath(err.loc ?? []);
+    if (!field || fieldErrors[field]) {
+      return;
+    }
+    fieldErrors[field] = nested.length ? `${nested.join('.')}: ${err.msg}` : err.msg;
+  });
+  return fieldErrors;
+};
+
+const isValidationErrorList = (value: unknown): value is ValidationError[] =>
+  Array.isArray(value) && value.every((item) => item && typeof item === 'object' && 'msg' in item);
+
+/**
+ * Build the ApiError subclass that matches a failed response
+ */
+export const createApiError = (
+  response: Response,
+  body: unknown,
+  request: { endpoint: string; method: string }
+): ApiError => {
+  const status = response.status;
+  const requestId =
+    response.headers.get('x-request-id') || response.headers.get('x-correlation-id');
+  const payload = (body && typeof body === 'object' ? body : {}) as { detail?: unknown; message?: unknown };
+  const options: ApiErrorOptions = { ...request, status, requestId, detail: payload.detail };
+
+  // Handle HTTPValidationError format from OpenAPI spec
+  if (isValidationErrorList(payload.detail)) {
+    const message = payload.detail
+      .map((err) => `${fieldPath(err.loc ?? []).join('.') || 'field'}: ${err.msg}`)
+      .join(', ');
+    return new RequestValidationError(message || 'Validation error', {
+      ...options,
+      validationErrors: payload.detail,
+    });
+  }
+
+  // Handle single detail string or message
+  const message =
+    (typeof payload.detail === 'string' && payload.detail) ||
+    (typeof payload.message === 'string' && payload.message) ||
+    `HTTP ${status}: ${response.statusText}`;
+
+  if (status === 400) return new BadRequestError(message, options);
+  if (status === 401) return new SessionExpiredError(message, options);
+  if (status === 403) return new ForbiddenError(message, options);
+  if (status === 404) return new NotFoundError(message, options);
+  if (status === 409) return new ConflictError(message, options);
+  if (status === 422) return new RequestValidationError(message, { ...options, validationErrors: [] });
+  if (status >= 500) return new ServerError(message, options);
+  return new ApiError(message, options);
+};
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
+
+/**
+ * Field errors carried by a validation failure, or an empty object for any other error
+ */
+export const getFieldErrors = (error: unknown): FieldErrors =>
+  error instanceof RequestValidationError ? error.fieldErrors : {};
+
+/**
+ * True when the caller cancelled the request through its AbortSignal
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
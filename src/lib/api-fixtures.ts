@@ -0,0 +1,285 @@
+/**
+ * Record-and-replay of API responses
+ *
+ * In record mode apiRequest copies every response (secrets redacted) into a fixture bundle that
+ * can be downloaded as JSON. In replay mode apiRequest answers from a loaded bundle and never
+ * touches the network, so a recorded session can be reopened locally with no backend.
+ *
+ * The mode is per tab: open the app with `?api_fixtures=record`, `?api_fixtures=replay` or
+ * `?api_fixtures=off` to switch.
+ */
+
+import { createApiError, NetworkError } from './api-errors';
+
+export type ApiFixtureMode = 'off' | 'record' | 'replay';
+
+export interface ApiFixture {
+  method: string;
+  endpoint: string;
+  status: number;
+  body: unknown;
+  recorded_at: string;
+}
+
+export interface ApiFixtureBundle {
+  version: 1;
+  recorded_at: string;
+  app_url: string;
+  fixtures: ApiFixture[];
+}
+
+export interface ApiFixtureState {
+  mode: ApiFixtureMode;
+  fixtureCount: number;
+  hasBundle: boolean;
+}
+
+const MODE_STORAGE_KEY = 'kplr_api_fixture_mode';
+const RECORDING_STORAGE_KEY = 'kplr_api_fixture_recording';
+const BUNDLE_STORAGE_KEY = 'kplr_api_fixture_bundle';
+const MODE_QUERY_PARAM = 'api_fixtures';
+
+export const REDACTED = '[REDACTED]';
+
+// Object keys whose values are never written to a bundle
+const SENSITIVE_KEY_PATTERN = /token|secret|password|passwd|api[-_]?key|authorization|cookie|credential|private[-_]?key|signature/i;
+
+// Query parameters carrying credentials, e.g. in signed storage URLs
+const SENSITIVE_QUERY_PATTERN = /([?&][^=&#\s"]*(?:token|signature|credential|secret|key)[^=&#\s"]*=)[^&#\s"]*/gi;
+
+const JWT_PATTERN = /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g;
+
+// Auth calls other than /me only carry credentials, so they are never recorded
+const UNRECORDED_ENDPOINT_PATTERN = /^\/api\/auth\/(?!me$)/;
+
+// Secret values are returned under a plain `value` key
+const SECRET_ENDPOINT_PATTERN = /^\/api\/secrets\//;
+
+const listeners = new Set<() => void>();
+// Which recorded response to serve next for each request, so polled endpoints play back in order
+const replayCursors = new Map<string, number>();
+
+const isFixtureMode = (value: unknown): value is ApiFixtureMode =>
+  value === 'off' || value === 'record' || value === 'replay';
+
+const readJson = <T>(key: string): T | null => {
+  try {
+    const stored = sessionStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    sessionStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    // Large bundles can exceed the storage quota; they still work until the tab reloads
+    console.warn(`Failed to store ${key}:`, error);
+  }
+};
+
+const readInitialMode = (): ApiFixtureMode => {
+  if (typeof window === 'undefined') return 'off';
+  const requested = new URLSearchParams(window.location.search).get(MODE_QUERY_PARAM);
+  if (isFixtureMode(requested)) {
+    sessionStorage.setItem(MODE_STORAGE_KEY, requested);
+    return requested;
+  }
+  const stored = sessionStorage.getItem(MODE_STORAGE_KEY);
+  return isFixtureMode(stored) ? stored : 'off';
+};
+
+const createEmptyBundle = (): ApiFixtureBundle => ({
+  version: 1,
+  recorded_at: new Date().toISOString(),
+  app_url: typeof window === 'undefined' ? '' : window.location.origin,
+  fixtures: [],
+});
+
+let mode: ApiFixtureMode = readInitialMode();
+let recording: ApiFixtureBundle = readJson<ApiFixtureBundle>(RECORDING_STORAGE_KEY) ?? createEmptyBundle();
+let replayBundle: ApiFixtureBundle | null = readJson<ApiFixtureBundle>(BUNDLE_STORAGE_KEY);
+
+const buildState = (): ApiFixtureState => ({
+  mode,
+  fixtureCount: mode === 'replay' ? replayBundle?.fixtures.length ?? 0 : recording.fixtures.length,
+  hasBundle: replayBundle !== null,
+});
+
+// Snapshot for useSyncExternalStore; replaced whenever anything changes
+let state: ApiFixtureState = buildState();
+
+const notify = () => {
+  state = buildState();
+  listeners.forEach((listener) => listener());
+};
+
+/**
+ * Path and query of a request, without the API origin
+ */
+const normalizeEndpoint = (endpoint: string): string => endpoint.replace(/^https?:\/\/[^/]+/, '');
+
+const fixtureKey = (method: string, endpoint: string): string =>
+  `${method.toUpperCase()} ${redactString(normalizeEndpoint(endpoint))}`;
+
+const redactString = (value: string): string =>
+  value.replace(JWT_PATTERN, REDACTED).replace(SENSITIVE_QUERY_PATTERN, `$1${REDACTED}`);
+
+/**
+ * Deep copy of `value` with credentials and secret values replaced by REDACTED
+ */
+export const redactSecrets = (value: unknown, endpoint: string = ''): unknown => {
+  const redactSecretValues = SECRET_ENDPOINT_PATTERN.test(normalizeEndpoint(endpoint));
+
+  const redact = (current: unknown): unknown => {
+    if (typeof current === 'string') {
+      return redactString(current);
+    }
+    if (Array.isArray(current)) {
+      return current.map(redact);
+    }
+    if (current && typeof current === 'object') {
+      return Object.fromEntries(
+        Object.entries(current).map(([key, entry]) => {
+          const isSensitive = SENSITIVE_KEY_PATTERN.test(key) || (redactSecretValues && key === 'value');
+          return [key, isSensitive && entry !== null && entry !== undefined ? REDACTED : redact(entry)];
+        })
+      );
+    }
+    return current;
+  };
+
+  return redact(value);
+};
+
+export const getApiFixtureMode = (): ApiFixtureMode => mode;
+
+export const getApiFixtureState = (): ApiFixtureState => state;
+
+export const subscribeApiFixtures = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Switch this tab's fixture mode; starting a recording discards the previous one
+ */
+export const setApiFixtureMode = (nextMode: ApiFixtureMode) => {
+  mode = nextMode;
+  sessionStorage.setItem(MODE_STORAGE_KEY, nextMode);
+  if (nextMode === 'record') {
+    recording = createEmptyBundle();
+    writeJson(RECORDING_STORAGE_KEY, recording);
+  }
+  replayCursors.clear();
+  notify();
+};
+
+/**
+ * Add a response to the recording. Request bodies are never stored.
+ */
+export const recordApiFixture = (method: string, endpoint: string, status: number, body: unknown) => {
+  const path = normalizeEndpoint(endpoint);
+  if (mode !== 'record' || UNRECORDED_ENDPOINT_PATTERN.test(path.split('?')[0])) {
+    return;
+  }
+
+  const fixture: ApiFixture = {
+    method: method.toUpperCase(),
+    endpoint: redactString(path),
+    status,
+    body: redactSecrets(body, path),
+    recorded_at: new Date().toISOString(),
+  };
+
+  // Polling returns the same payload over and over; keep only the changes
+  const previous = [...recording.fixtures]
+    .reverse()
+    .find((item) => fixtureKey(item.method, item.endpoint) === fixtureKey(fixture.method, fixture.endpoint));
+  if (previous && previous.status === fixture.status && JSON.stringify(previous.body) === JSON.stringify(fixture.body)) {
+    return;
+  }
+
+  recording.fixtures.push(fixture);
+  writeJson(RECORDING_STORAGE_KEY, recording);
+  notify();
+};
+
+/**
+ * Answer a request from the loaded bundle. Repeated requests get the recorded responses in order
+ * and then keep getting the last one.
+ */
+export const replayApiFixture = async <T>(method: string, endpoint: string): Promise<T> => {
+  const key = fixtureKey(method, endpoint);
+  const matches = (replayBundle?.fixtures ?? []).filter(
+    (fixture) => fixtureKey(fixture.method, fixture.endpoint) === key
+  );
+
+  if (!matches.length) {
+    throw new NetworkError(`No recorded response for ${key}`, { endpoint, method });
+  }
+
+  const cursor = replayCursors.get(key) ?? 0;
+  replayCursors.set(key, Math.min(cursor + 1, matches.length - 1));
+  const fixture = matches[cursor];
+
+  if (fixture.status >= 400) {
+    const response = new Response(JSON.stringify(fixture.body), { status: fixture.status });
+    throw createApiError(response, fixture.body, { endpoint, method });
+  }
+  return fixture.body as T;
+};
+
+export const getRecordedFixtureBundle = (): ApiFixtureBundle => recording;
+
+const isFixtureBundle = (value: unknown): value is ApiFixtureBundle => {
+  const bundle = value as ApiFixtureBundle | null;
+  return (
+    !!bundle &&
+    bundle.version === 1 &&
+    Array.isArray(bundle.fixtures) &&
+    bundle.fixtures.every(
+      (fixture) =>
+        fixture &&
+        typeof fixture.method === 'string' &&
+        typeof fixture.endpoint === 'string' &&
+        typeof fixture.status === 'number'
+    )
+  );
+};
+
+/**
+ * Load a downloaded bundle for replay
+ */
+export const loadApiFixtureBundle = async (file: File): Promise<ApiFixtureBundle> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} is not valid JSON`);
+  }
+  if (!isFixtureBundle(parsed)) {
+    throw new Error(`${file.name} is not an API fixture bundle`);
+  }
+
+  replayBundle = parsed;
+  writeJson(BUNDLE_STORAGE_KEY, parsed);
+  replayCursors.clear();
+  notify();
+  return parsed;
+};
+
+/**
+ * Stop recording or replaying and forget the tab's bundles
+ */
+export const clearApiFixtures = () => {
+  sessionStorage.removeItem(RECORDING_STORAGE_KEY);
+  sessionStorage.removeItem(BUNDLE_STORAGE_KEY);
+  recording = createEmptyBundle();
+  replayBundle = null;
+  setApiFixtureMode('off');
+};
@@ -0,0 +1,1240 @@
+/**
+ * Types and endpoint functions generated from openapi.json (kplr API 1.0.0)
+ *
+ * DO NOT EDIT BY HAND. Run `npm run generate:api` after updating the spec.
+ */
+
+import { apiRequest } from './api-client';
+import type { ApiRequestOptions } from './api-client';
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+/**
+ * Schema for a single action to execute.
+ */
+export interface ActionSchema {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface Body_upload_base64_image_api_images_upload_base64_post {
+  image_data: string;
+  filename?: string | null;
+  content_type?: string;
+}
+
+export interface Body_upload_image_api_images_upload_post {
+  file: Blob;
+}
+
+export interface Body_upload_test_suite_attachments_api_test_suites__test_suite_id__attachments_post {
+  files: Blob[];
+}
+
+export interface ExplorationActionSchema {
+  name: string;
+  args?: Record<string, unknown>;
+  description?: string | null;
+}
+
+export interface ExplorationActionsRequest {
+  screenshot_base64: string;
+  current_url: string;
+  max_actions?: number;
+  guidance?: string | null;
+}
+
+export interface ExplorationActionsResponse {
+  actions: ExplorationActionSchema[];
+}
+
+export interface HTTPValidationError {
+  detail?: ValidationError[];
+}
+
+export interface PasswordChange {
+  current_password: string;
+  new_password: string;
+}
+
+export interface ProjectCreate {
+  name: string;
+  description?: string | null;
+}
+
+export interface ProjectResponse {
+  name: string;
+  description?: string | null;
+  id: number;
+  user_id: number;
+  created_at: string;
+  updated_at?: string | null;
+}
+
+export interface ProjectUpdate {
+  name?: string | null;
+  description?: string | null;
+}
+
+export interface ScenarioCreate {
+  name: string;
+  description?: string | null;
+  test_suite_id: number;
+}
+
+export interface ScenarioGenerationRequest {
+  test_suite_id?: number | null;
+  test_suite_name: string;
+  application_url: string;
+  test_description: string;
+  ai_testing_instructions?: string | null;
+  setup_instructions?: string | null;
+  setup_screenshot_base64?: string | null;
+  setup_final_url?: string | null;
+  exploration_screenshots_base64?: string[] | null;
+}
+
+export interface ScenarioGenerationResponse {
+  scenarios: string[];
+}
+
+export interface ScenarioResponse {
+  name: string;
+  description?: string | null;
+  id: number;
+  test_suite_id: number;
+  created_at: string;
+  updated_at?: string | null;
+}
+
+export interface ScenarioUpdate {
+  name?: string | null;
+  description?: string | null;
+}
+
+export interface ScheduleCreate {
+  name: string;
+  description?: string | null;
+  project_id: number;
+  test_suite_id: number;
+  frequency: ScheduleFrequency;
+  time_of_day: string;
+  timezone?: string;
+  days_of_week?: number[] | null;
+  day_of_month?: number | null;
+  start_date?: string | null;
+  end_date?: string | null;
+  is_active?: boolean | null;
+}
+
+export type ScheduleFrequency = "daily" | "weekly" | "monthly";
+
+export interface ScheduleResponse {
+  id: number;
+  project_id: number;
+  test_suite_id: number;
+  name: string;
+  description: string | null;
+  frequency: ScheduleFrequency;
+  time_of_day: string;
+  timezone: string;
+  days_of_week: number[] | null;
+  day_of_month: number | null;
+  start_date: string | null;
+  end_date: string | null;
+  is_active: boolean;
+  last_run_at: string | null;
+  next_run_at: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+  test_suite: ScheduleSuiteSummary | null;
+}
+
+export interface ScheduleSuiteSummary {
+  id: number;
+  name: string;
+  project_id: number;
+}
+
+export interface ScheduleUpdate {
+  name?: string | null;
+  description?: string | null;
+  project_id?: number | null;
+  test_suite_id?: number | null;
+  frequency?: ScheduleFrequency | null;
+  time_of_day?: string | null;
+  timezone?: string | null;
+  days_of_week?: number[] | null;
+  day_of_month?: number | null;
+  start_date?: string | null;
+  end_date?: string | null;
+  is_active?: boolean | null;
+}
+
+/**
+ * Schema for creating a new secret.
+ */
+export interface SecretCreate {
+  name: string;
+  value: string;
+  description?: string | null;
+}
+
+/**
+ * Schema for secret response (value is masked).
+ */
+export interface SecretResponse {
+  id: number;
+  name: string;
+  value_masked: string;
+  description?: string | null;
+  created_at: string;
+  updated_at?: string | null;
+}
+
+/**
+ * Schema for updating a secret.
+ */
+export interface SecretUpdate {
+  name?: string | null;
+  value?: string | null;
+  description?: string | null;
+}
+
+/**
+ * Request to create a new agent session.
+ */
+export interface SessionCreateRequest {
+  query: string;
+  model_name?: string;
+  initial_url?: string;
+  screen_size?: [number, number];
+  test_run_id?: number | null;
+  scenario_id?: number | null;
+}
+
+/**
+ * Response after creating a session.
+ */
+export interface SessionCreateResponse {
+  session_uuid: string;
+  session_id: number;
+  status: string;
+  message: string;
+}
+
+/**
+ * Complete history of a session.
+ */
+export interface SessionHistoryResponse {
+  session_uuid: string;
+  query: string;
+  status: string;
+  steps: StepHistorySchema[];
+  final_reasoning?: string | null;
+}
+
+/**
+ * Current status of a session.
+ */
+export interface SessionStatusResponse {
+  session_uuid: string;
+  status: string;
+  step_count: number;
+  final_reasoning?: string | null;
+  created_at: string;
+  updated_at?: string | null;
+}
+
+/**
+ * Request to execute the next step in the agent workflow.
+ */
+export interface StepExecuteRequest {
+  screenshot_base64?: string | null;
+  screenshot_path?: string | null;
+  current_url: string;
+  context?: Record<string, unknown>;
+}
+
+/**
+ * Response containing the next step to execute.
+ */
+export interface StepExecuteResponse {
+  step_id: number;
+  step_number: number;
+  reasoning: string;
+  actions: ActionSchema[];
+  status: string;
+  final_reasoning?: string | null;
+}
+
+/**
+ * Historical record of a single step.
+ */
+export interface StepHistorySchema {
+  step_number: number;
+  reasoning: string;
+  status: string;
+  actions: Array<Record<string, unknown>>;
+  created_at: string;
+}
+
+/**
+ * Request to create a new test run.
+ */
+export interface TestRunCreate {
+  test_suite_id: number;
+  run_type: string;
+  total_scenarios?: number;
+}
+
+/**
+ * Response containing test run data.
+ */
+export interface TestRunResponse {
+  id: number;
+  test_suite_id: number;
+  user_id: number;
+  run_type: string;
+  status: string;
+  total_scenarios: number;
+  passed_scenarios: number;
+  failed_scenarios: number;
+  started_at: string;
+  completed_at?: string | null;
+}
+
+/**
+ * Request to update a test run.
+ */
+export interface TestRunUpdate {
+  status?: string | null;
+  passed_scenarios?: number | null;
+  failed_scenarios?: number | null;
+}
+
+/**
+ * Test run response including linked sessions.
+ */
+export interface TestRunWithSessionsResponse {
+  id: number;
+  test_suite_id: number;
+  user_id: number;
+  run_type: string;
+  status: string;
+  total_scenarios: number;
+  passed_scenarios: number;
+  failed_scenarios: number;
+  started_at: string;
+  completed_at?: string | null;
+  sessions?: Array<Record<string, unknown>>;
+}
+
+export interface TestSuiteAttachmentResponse {
+  id: number;
+  filename: string;
+  content_type?: string | null;
+  size: number;
+  storage_url?: string | null;
+  created_at: string;
+}
+
+export interface TestSuiteCreate {
+  name: string;
+  description?: string | null;
+  application_url?: string | null;
+  ai_testing_instructions?: string | null;
+  resolution?: string | null;
+  creation_mode?: "manual" | "ai";
+  preconditions_enabled?: boolean;
+  preconditions?: unknown | null;
+  has_persistent_context?: boolean;
+  exploration_enabled?: boolean;
+  exploration_step_limit?: number | null;
+  project_id: number;
+}
+
+export interface TestSuiteResponse {
+  name: string;
+  description?: string | null;
+  application_url?: string | null;
+  ai_testing_instructions?: string | null;
+  resolution?: string | null;
+  creation_mode?: "manual" | "ai";
+  preconditions_enabled?: boolean;
+  preconditions?: unknown | null;
+  has_persistent_context?: boolean;
+  exploration_enabled?: boolean;
+  exploration_step_limit?: number | null;
+  id: number;
+  project_id: number;
+  created_at: string;
+  updated_at?: string | null;
+  attachments?: TestSuiteAttachmentResponse[];
+}
+
+export interface TestSuiteUpdate {
+  name?: string | null;
+  description?: string | null;
+  application_url?: string | null;
+  ai_testing_instructions?: string | null;
+  resolution?: string | null;
+  preconditions_enabled?: boolean | null;
+  preconditions?: unknown | null;
+  has_persistent_context?: boolean | null;
+  exploration_enabled?: boolean | null;
+  exploration_step_limit?: number | null;
+}
+
+export interface Token {
+  access_token: string;
+  refresh_token: string;
+  token_type?: string;
+}
+
+export interface UserCreate {
+  email: string;
+  username: string;
+  full_name?: string | null;
+  password: string;
+}
+
+export interface UserLogin {
+  email: string;
+  password: string;
+}
+
+export interface UserResponse {
+  email: string;
+  username: string;
+  full_name?: string | null;
+  id: number;
+  is_active: boolean;
+  is_verified: boolean;
+  created_at: string;
+  last_login?: string | null;
+  bio?: string | null;
+  avatar_url?: string | null;
+}
+
+export interface ValidationError {
+  loc: Array<string | number>;
+  msg: string;
+  type: string;
+}
+
+// ============================================================================
+// Endpoints
+// ============================================================================
+
+const withQuery = (endpoint: string, query?: Record<string, string | number | boolean | null | undefined>): string => {
+  const params = new URLSearchParams();
+  Object.entries(query ?? {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) {
+      params.append(key, String(value));
+    }
+  });
+  const queryString = params.toString();
+  return queryString ? `${endpoint}?${queryString}` : endpoint;
+};
+
+/**
+ * One function per spec operation, named after its summary
+ */
+export const apiEndpoints = {
+  /**
+   * POST /api/auth/register
+   *
+   * Register a new user
+   */
+  register: (
+    body: UserCreate,
+    options: ApiRequestOptions = {}
+  ): Promise<UserResponse> => {
+    return apiRequest('/api/auth/register', { ...options, method: 'POST', body: JSON.stringify(body) });
+  },
+
+  /**
+   * POST /api/auth/login
+   *
+   * Login user and return access and refresh tokens
+   */
+  login: (
+    body: UserLogin,
+    options: ApiRequestOptions = {}
+  ): Promise<Token> => {
+    return apiRequest('/api/auth/login', { ...options, method: 'POST', body: JSON.stringify(body) });
+  },
+
+  /**
+   * POST /api/auth/refresh
+   *
+   * Refresh access token using refresh token from cookie or body
+   */
+  refreshToken: (
+    query?: { refresh_token?: string },
+    options: ApiRequestOptions = {}
+  ): Promise<Token> => {
+    return apiRequest(withQuery('/api/auth/refresh', query), { ...options, method: 'POST' });
+  },
+
+  /**
+   * GET /api/auth/me
+   *
+   * Get current user information
+   */
+  getCurrentUserInfo: (
+    options: ApiRequestOptions = {}
+  ): Promise<UserResponse> => {
+    return apiRequest('/api/auth/me', { ...options, method: 'GET' });
+  },
+
+  /**
+   * PUT /api/auth/me
+   *
+   * Update current user information
+   */
+  updateCurrentUser: (
+    body: Record<string, unknown>,
+    options: ApiRequestOptions = {}
+  ): Promise<UserResponse> => {
+    return apiRequest('/api/auth/me', { ...options, method: 'PUT', body: JSON.stringify(body) });
+  },
+
+  /**
+   * POST /api/auth/change-password
+   *
+   * Change user password
+   */
+  changePassword: (
+    body: PasswordChange,
+    options: ApiRequestOptions = {}
+  ): Promise<unknown> => {
+    return apiRequest('/api/auth/change-password', { ...options, method: 'POST', body: JSON.stringify(body) });
+  },
+
+  /**
+   * GET /api/auth/google
+   *
+   * Initiate Google OAuth flow
+   */
+  googleAuthInitiate: (
+    options: ApiRequestOptions = {}
+  ): Promise<Record<string, unknown>> => {
+    return apiRequest('/api/auth/google', { ...options, method: 'GET' });
+  },
+
+  /**
+   * POST /api/auth/google/callback
+   *
+   * Handle Google OAuth callback with authorization code (supports both Web and Desktop flows)
+   */
+  googleAuthCallback: (
+    body: Record<string, unknown>,
+    options: ApiRequestOptions = {}
+  ): Promise<Record<string, unknown>> => {
+    return apiRequest('/api/auth/google/callback', { ...options, method: 'POST', body: JSON.stringify(body) });
+  },
+
+  /**
+   * POST /api/auth/logout
+   *
+   * Logout user (client should discard tokens)
+   */
+  logout: (
+    options: ApiRequestOptions = {}
+  ): Promise<unknown> => {
+    return apiRequest('/api/auth/logout', { ...options, method: 'POST' });
+  },
+
+  /**
+   * POST /api/computer-use/sessions
+   *
+   * Create a new agent session with initial step.
+   *
+   * This initializes a new agentic workflow for a user query and automatically
+   * creates the first step to avoid the wasted open_web_browser call.
+   * The session UUID is returned and should be used for all subsequent step executions.
+   */
+  createAgentSession: (
+    body: SessionCreateRequest,
+    options: ApiRequestOptions = {}
+  ): Promise<SessionCreateResponse> => {
+    return apiRequest('/api/computer-use/sessions', { ...options, method: 'POST', body: JSON.stringify(body) });
+  },
+
+  /**
+   * POST /api/computer-use/sessions/{session_uuid}/steps
+   *
+   * Execute the next step in the agent workflow.
+   *
+   * The Electron client sends the current browser state (screenshot + context),
+   * and the backend queries Gemini for the next action(s) to take.
+   *
+   * The response contains:
+   * - reasoning: Why the agent is taking this action
+   * - actions: List of Playwright commands to execute
+   * - status: Whether to CONTINUE or COMPLETE the workflow
+   */
+  executeAgentStep: (
+    sessionUuid: string,
+    body: StepExecuteRequest,
+    options: ApiRequestOptions = {}
+  ): Promise<StepExecuteResponse> => {
+    return apiRequest(`/api/computer-use/sessions/${encodeURIComponent(String(sessionUuid))}/steps`, { ...options, method: 'POST', body: JSON.stringify(body) });
+  },
+
+  /**
+   * POST /api/computer-use/sessions/{session_uuid}/steps/{step_id}/complete
+   *
+   * Mark step actions as executed and save post-execution state.
+   *
+   * Called by the Electron client after executing all Playwright actions.
+   * Stores the resulting screenshot and updated context.
+   */
+  completeStepExecution: (
+    sessionUuid: string,
+    stepId: number,
+    body: Record<string, unknown>,
+    options: ApiRequestOptions = {}
+  ): Promise<unknown> => {
+    return apiRequest(`/api/computer-use/sessions/${encodeURIComponent(String(sessionUuid))}/steps/${encodeURIComponent(String(stepId))}/complete`, { ...options, method: 'POST', body: JSON.stringify(body) });
+  },
+
+  /**
+   * GET /api/computer-use/sessions/{session_uuid}/status
+   *
+   * Get the current status of an agent session.
+   */
+  getSessionStatus: (
+    sessionUuid: string,
+    options: ApiRequestOptions = {}
+  ): Promise<SessionStatusResponse> => {
+    return apiRequest(`/api/computer-use/sessions/${encodeURIComponent(String(sessionUuid))}/status`, { ...options, method: 'GET' });
+  },
+
+  /**
+   * GET /api/computer-use/sessions/{session_uuid}/latest-screenshot
+   *
+   * Get the latest screenshot for a session.
+   */
+  getLatestScreenshot: (
+    sessionUuid: string,
+    options: ApiRequestOptions = {}
+  ): Promise<unknown> => {
+    return apiRequest(`/api/computer-use/sessions/${encodeURIComponent(String(sessionUuid))}/latest-screenshot`, { ...options, method: 'GET' });
+  },
+
+  /**
+   * GET /api/computer-use/sessions/{session_uuid}/history
+   *
+   * Get the complete execution history of a session.
+   */
+  getSessionHistory: (
+    sessionUuid: string,
+    options: ApiRequestOptions = {}
+  ): Promise<SessionHistoryResponse> => {
+    return apiRequest(`/api/computer-use/sessions/${encodeURIComponent(String(sessionUuid))}/history`, { ...options, method: 'GET' });
+  },
+
+  /**
+   * DELETE /api/computer-use/sessions/{session_uuid}
+   *
+   * Cancel an active agent session.
+   */
+  cancelSession: (
+    sessionUuid: string,
+    options: ApiRequestOptions = {}
+  ): Promise<unknown> => {
+    return apiRequest(`/api/computer-use/sessions/${encodeURIComponent(String(sessionUuid))}`, { ...options, method: 'DELETE' });
+  },
+
+  /**
+   * POST /api/computer-use/exploration-actions
+   *
+   * Return independent UI actions that can be executed from the provided screenshot.
+   */
+  generateExplorationActions: (
+    body: ExplorationActionsRequest,
+    options: ApiRequestOptions = {}
+  ): Promise<ExplorationActionsResponse> => {
+    return apiRequest('/api/computer-use/exploration-actions', { ...options, method: 'POST', body: JSON.stringify(body) });
+  },
+
+  /**
+   * POST /api/images/upload
+   *
+   * Upload an image file.
+   *
+   * The image will be stored in:
+   * - GCP bucket (production)
+   * - Local directory (development)
+   *
+   * Returns the file path and public URL for the uploaded image.
+   */
+  uploadImage: (
+    body: FormData,
+    options: ApiRequestOptions = {}
+  ): Promise<unknown> => {
+    return apiRequest('/api/images/upload', { ...options, method: 'POST', body: body });
+  },
+
+  /**
+   * POST /api/images/upload-base64
+   *
+   * Upload a base64 encoded image.
+   *
+   * This endpoint is useful for receiving images from the ElectronJS application
+   * that sends screenshots as base64 data.
+   */
+  uploadBase64Image: (
+    options: ApiRequestOptions = {}
+  ): Promise<unknown> => {
+    return apiRequest('/api/images/upload-base64', { ...options, method: 'POST' });
+  },
+
+  /**
+   * DELETE /api/images/{file_path}
+   *
+   * Delete an image by its file path.
+   *
+   * This endpoint allows users to delete images they've uploaded.
+   */
+  deleteImage: (
+    filePath: string,
+    options: ApiRequestOptions = {}
+  ): Promise<unknown> => {
+    return apiRequest(`/api/images/${encodeURIComponent(String(filePath))}`, { ...options, method: 'DELETE' });
+  },
+
+  /**
+   * GET /api/images/url/{file_path}
+   *
+   * Get the public URL for an image by its file path.
+   *
+   * This endpoint returns the public URL that can be used to access the image.
+   */
+  getImageUrl: (
+    filePath: string,
+    options: ApiRequestOptions = {}
+  ): Promise<unknown> => {
+    return apiRequest(`/api/images/url/${encodeURIComponent(String(filePath))}`, { ...options, method: 'GET' });
+  },
+
+  /**
+   * GET /api/projects/
+   *
+   * Get all projects for the current user.
+   */
+  getProjects: (
+    options: ApiRequestOptions = {}
+  ): Promise<ProjectResponse[]> => {
+    return apiRequest('/api/projects/', { ...options, method: 'GET' });
+  },
+
+  /**
+   * POST /api/projects/
+   *
+   * Create a new project for the current user.
+   */
+  createProject: (
+    body: ProjectCreate,
+    options: ApiRequestOptions = {}
+  ): Promise<ProjectResponse> => {
+    return apiRequest('/api/projects/', { ...options, method: 'POST', body: JSON.stringify(body) });
+  },
+
+  /**
+   * GET /api/projects/{project_id}
+   *
+   * Get a specific project by ID.
+   */
+  getProject: (
+    projectId: number,
+    options: ApiRequestOptions = {}
+  ): Promise<ProjectResponse> => {
+    return apiRequest(`/api/projects/${encodeURIComponent(String(projectId))}`, { ...options, method: 'GET' });
+  },
+
+  /**
+   * PUT /api/projects/{project_id}
+   *
+   * Update a project.
+   */
+  updateProject: (
+    projectId: number,
+    body: ProjectUpdate,
+    options: ApiRequestOptions = {}
+  ): Promise<ProjectResponse> => {
+    return apiRequest(`/api/projects/${encodeURIComponent(String(projectId))}`, { ...options, method: 'PUT', body: JSON.stringify(body) });
+  },
+
+  /**
+   * DELETE /api/projects/{project_id}
+   *
+   * Delete a project.
+   */
+  deleteProject: (
+    projectId: number,
+    options: ApiRequestOptions = {}
+  ): Promise<void> => {
+    return apiRequest(`/api/projects/${encodeURIComponent(String(projectId))}`, { ...options, method: 'DELETE' });
+  },
+
+  /**
+   * GET /api/test-suites/
+   *
+   * Get test suites. If project_id is provided, get test suites for that project.
+   */
+  getTestSuites: (
+    query?: { project_id?: number },
+    options: ApiRequestOptions = {}
+  ): Promise<TestSuiteResponse[]> => {
+    return apiRequest(withQuery('/api/test-suites/', query), { ...options, method: 'GET' });
+  },
+
+  /**
+   * POST /api/test-suites/
+   *
+   * Create a new test suite for a project.
+   */
+  createTestSuite: (
+    body: TestSuiteCreate,
+    options: ApiRequestOptions = {}
+  ): Promise<TestSuiteResponse> => {
+    return apiRequest('/api/test-suites/', { ...options, method: 'POST', body: JSON.stringify(body) });
+  },
+
+  /**
+   * GET /api/test-suites/{test_suite_id}
+   *
+   * Get a specific test suite by ID.
+   */
+  getTestSuite: (
+    testSuiteId: number,
+    options: ApiRequestOptions = {}
+  ): Promise<TestSuiteResponse> => {
+    return apiRequest(`/api/test-suites/${encodeURIComponent(String(testSuiteId))}`, { ...options, method: 'GET' });
+  },
+
+  /**
+   * PUT /api/test-suites/{test_suite_id}
+   *
+   * Update a test suite.
+   */
+  updateTestSuite: (
+    testSuiteId: number,
+    body: TestSuiteUpdate,
+    options: ApiRequestOptions = {}
+  ): Promise<TestSuiteResponse> => {
+    return apiRequest(`/api/test-suites/${encodeURIComponent(String(testSuiteId))}`, { ...options, method: 'PUT', body: JSON.stringify(body) });
+  },
+
+  /**
+   * DELETE /api/test-suites/{test_suite_id}
+   *
+   * Delete a test suite.
+   */
+  deleteTestSuite: (
+    testSuiteId: number,
+    options: ApiRequestOptions = {}
+  ): Promise<void> => {
+    return apiRequest(`/api/test-suites/${encodeURIComponent(String(testSuiteId))}`, { ...options, method: 'DELETE' });
+  },
+
+  /**
+   * POST /api/test-suites/{test_suite_id}/reset-context
+   */
+  resetTestSuiteContext: (
+    testSuiteId: number,
+    options: ApiRequestOptions = {}
+  ): Promise<unknown> => {
+    return apiRequest(`/api/test-suites/${encodeURIComponent(String(testSuiteId))}/reset-context`, { ...options, method: 'POST' });
+  },
+
+  /**
+   * GET /api/test-suites/{test_suite_id}/attachments
+   */
+  listTestSuiteAttachments: (
+    testSuiteId: number,
+    options: ApiRequestOptions = {}
+  ): Promise<TestSuiteAttachmentResponse[]> => {
+    return apiRequest(`/api/test-suites/${encodeURIComponent(String(testSuiteId))}/attachments`, { ...options, method: 'GET' });
+  },
+
+  /**
+   * POST /api/test-suites/{test_suite_id}/attachments
+   */
+  uploadTestSuiteAttachments: (
+    testSuiteId: number,
+    body: FormData,
+    options: ApiRequestOptions = {}
+  ): Promise<TestSuiteAttachmentResponse[]> => {
+    return apiRequest(`/api/test-suites/${encodeURIComponent(String(testSuiteId))}/attachments`, { ...options, method: 'POST', body: body });
+  },
+
+  /**
+   * DELETE /api/test-suites/{test_suite_id}/attachments/{attachment_id}
+   */
+  deleteTestSuiteAttachment: (
+    testSuiteId: number,
+    attachmentId: number,
+    options: ApiRequestOptions = {}
+  ): Promise<void> => {
+    return apiRequest(`/api/test-suites/${encodeURIComponent(String(testSuiteId))}/attachments/${encodeURIComponent(String(attachmentId))}`, { ...options, method: 'DELETE' });
+  },
+
+  /**
+   * GET /api/scenarios/
+   *
+   * Get scenarios. If test_suite_id is provided, get scenarios for that test suite.
+   */
+  getScenarios: (
+    query?: { test_suite_id?: number },
+    options: ApiRequestOptions = {}
+  ): Promise<ScenarioResponse[]> => {
+    return apiRequest(withQuery('/api/scenarios/', query), { ...options, method: 'GET' });
+  },
+
+  /**
+   * POST /api/scenarios/
+   *
+   * Create a new scenario for a test suite.
+   */
+  createScenario: (
+    body: ScenarioCreate,
+    options: ApiRequestOptions = {}
+  ): Promise<ScenarioResponse> => {
+    return apiRequest('/api/scenarios/', { ...options, method: 'POST', body: JSON.stringify(body) });
+  },
+
+  /**
+   * GET /api/scenarios/{scenario_id}
+   *
+   * Get a specific scenario by ID.
+   */
+  getScenario: (
+    scenarioId: number,
+    options: ApiRequestOptions = {}
+  ): Promise<ScenarioResponse> => {
+    return apiRequest(`/api/scenarios/${encodeURIComponent(String(scenarioId))}`, { ...options, method: 'GET' });
+  },
+
+  /**
+   * PUT /api/scenarios/{scenario_id}
+   *
+   * Update a scenario.
+   */
+  updateScenario: (
+    scenarioId: number,
+    body: ScenarioUpdate,
+    options: ApiRequestOptions = {}
+  ): Promise<ScenarioResponse> => {
+    return apiRequest(`/api/scenarios/${encodeURIComponent(String(scenarioId))}`, { ...options, method: 'PUT', body: JSON.stringify(body) });
+  },
+
+  /**
+   * DELETE /api/scenarios/{scenario_id}
+   *
+   * Delete a scenario.
+   */
+  deleteScenario: (
+    scenarioId: number,
+    options: ApiRequestOptions = {}
+  ): Promise<void> => {
+    return apiRequest(`/api/scenarios/${encodeURIComponent(String(scenarioId))}`, { ...options, method: 'DELETE' });
+  },
+
+  /**
+   * POST /api/test-runs/
+   *
+   * Create a new test run.
+   *
+   * Use this endpoint when:
+   * - Running a single scenario: run_type='single', total_scenarios=1
+   * - Running multiple scenarios (Run All): run_type='batch', total_scenarios=N
+   *
+   * This allows tracking whether a scenario execution was part of a batch or standalone.
+   */
+  createTestRun: (
+    body: TestRunCreate,
+    options: ApiRequestOptions = {}
+  ): Promise<TestRunResponse> => {
+    return apiRequest('/api/test-runs/', { ...options, method: 'POST', body: JSON.stringify(body) });
+  },
+
+  /**
+   * GET /api/test-runs/{test_run_id}
+   *
+   * Get a test run by ID with its associated sessions.
+   */
+  getTestRun: (
+    testRunId: number,
+    options: ApiRequestOptions = {}
+  ): Promise<TestRunWithSessionsResponse> => {
+    return apiRequest(`/api/test-runs/${encodeURIComponent(String(testRunId))}`, { ...options, method: 'GET' });
+  },
+
+  /**
+   * PATCH /api/test-runs/{test_run_id}
+   *
+   * Update a test run (e.g., mark as completed, update stats).
+   */
+  updateTestRun: (
+    testRunId: number,
+    body: TestRunUpdate,
+    options: ApiRequestOptions = {}
+  ): Promise<TestRunResponse> => {
+    return apiRequest(`/api/test-runs/${encodeURIComponent(String(testRunId))}`, { ...options, method: 'PATCH', body: JSON.stringify(body) });
+  },
+
+  /**
+   * DELETE /api/test-runs/{test_run_id}
+   *
+   * Delete a test run and all its associated sessions.
+   */
+  deleteTestRun: (
+    testRunId: number,
+    options: ApiRequestOptions = {}
+  ): Promise<void> => {
+    return apiRequest(`/api/test-runs/${encodeURIComponent(String(testRunId))}`, { ...options, method: 'DELETE' });
+  },
+
+  /**
+   * GET /api/test-runs/suite/{test_suite_id}/runs
+   *
+   * Get all test runs for a specific test suite, ordered by most recent.
+   */
+  getTestRunsForSuite: (
+    testSuiteId: number,
+    query?: { limit?: number },
+    options: ApiRequestOptions = {}
+  ): Promise<TestRunResponse[]> => {
+    return apiRequest(withQuery(`/api/test-runs/suite/${encodeURIComponent(String(testSuiteId))}/runs`, query), { ...options, method: 'GET' });
+  },
+
+  /**
+   * GET /api/test-runs/suite/{test_suite_id}/latest
+   *
+   * Get the most recent test run for a test suite.
+   */
+  getLatestTestRun: (
+    testSuiteId: number,
+    options: ApiRequestOptions = {}
+  ): Promise<TestRunResponse | null> => {
+    return apiRequest(`/api/test-runs/suite/${encodeURIComponent(String(testSuiteId))}/latest`, { ...options, method: 'GET' });
+  },
+
+  /**
+   * POST /api/test-runs/cleanup-stuck-runs
+   *
+   * Mark all 'running' test runs older than 1 hour as 'failed'.
+   */
+  cleanupStuckRuns: (
+    options: ApiRequestOptions = {}
+  ): Promise<Record<string, unknown>> => {
+    return apiRequest('/api/test-runs/cleanup-stuck-runs', { ...options, method: 'POST' });
+  },
+
+  /**
+   * POST /api/scenario-generation/generate
+   *
+   * Generate test scenarios using Gemini 2.5 Flash.
+   * This endpoint uses gemini-2.5-flash (not computer use) to generate text scenarios.
+   */
+  generateScenarios: (
+    body: ScenarioGenerationRequest,
+    options: ApiRequestOptions = {}
+  ): Promise<ScenarioGenerationResponse> => {
+    return apiRequest('/api/scenario-generation/generate', { ...options, method: 'POST', body: JSON.stringify(body) });
+  },
+
+  /**
+   * GET /api/secrets/
+   *
+   * Get all secrets for the current user (values are masked).
+   */
+  getSecrets: (
+    options: ApiRequestOptions = {}
+  ): Promise<SecretResponse[]> => {
+    return apiRequest('/api/secrets/', { ...options, method: 'GET' });
+  },
+
+  /**
+   * POST /api/secrets/
+   *
+   * Create a new secret.
+   */
+  createSecret: (
+    body: SecretCreate,
+    options: ApiRequestOptions = {}
+  ): Promise<SecretResponse> => {
+    return apiRequest('/api/secrets/', { ...options, method: 'POST', body: JSON.stringify(body) });
+  },
+
+  /**
+   * GET /api/secrets/{secret_id}
+   *
+   * Get a specific secret (value is masked).
+   */
+  getSecret: (
+    secretId: number,
+    options: ApiRequestOptions = {}
+  ): Promise<SecretResponse> => {
+    return apiRequest(`/api/secrets/${encodeURIComponent(String(secretId))}`, { ...options, method: 'GET' });
+  },
+
+  /**
+   * PATCH /api/secrets/{secret_id}
+   *
+   * Update a secret.
+   */
+  updateSecret: (
+    secretId: number,
+    body: SecretUpdate,
+    options: ApiRequestOptions = {}
+  ): Promise<SecretResponse> => {
+    return apiRequest(`/api/secrets/${encodeURIComponent(String(secretId))}`, { ...options, method: 'PATCH', body: JSON.stringify(body) });
+  },
+
+  /**
+   * DELETE /api/secrets/{secret_id}
+   *
+   * Delete a secret.
+   */
+  deleteSecret: (
+    secretId: number,
+    options: ApiRequestOptions = {}
+  ): Promise<void> => {
+    return apiRequest(`/api/secrets/${encodeURIComponent(String(secretId))}`, { ...options, method: 'DELETE' });
+  },
+
+  /**
+   * GET /api/secrets/{secret_id}/reveal
+   *
+   * Reveal the actual value of a secret (use with caution).
+   */
+  revealSecret: (
+    secretId: number,
+    options: ApiRequestOptions = {}
+  ): Promise<Record<string, unknown>> => {
+    return apiRequest(`/api/secrets/${encodeURIComponent(String(secretId))}/reveal`, { ...options, method: 'GET' });
+  },
+
+  /**
+   * GET /api/dashboard/statistics
+   *
+   * Get dashboard statistics for the current user.
+   *
+   * Returns:
+   * - total_test_runs: Total number of test runs
+   * - passed_scenarios: Total number of passed scenarios
+   * - failed_scenarios: Total number of failed scenarios
+   * - success_rate: Overall success rate percentage
+   */
+  getDashboardStatistics: (
+    query?: { project_id?: number | null; start_date?: string | null; end_date?: string | null },
+    options: ApiRequestOptions = {}
+  ): Promise<unknown> => {
+    return apiRequest(withQuery('/api/dashboard/statistics', query), { ...options, method: 'GET' });
+  },
+
+  /**
+   * GET /api/dashboard/recent-runs
+   *
+   * Get recent test runs for the dashboard.
+   */
+  getRecentTestRuns: (
+    query?: { project_id?: number | null; limit?: number },
+    options: ApiRequestOptions = {}
+  ): Promise<unknown> => {
+    return apiRequest(withQuery('/api/dashboard/recent-runs', query), { ...options, method: 'GET' });
+  },
+
+  /**
+   * GET /api/schedules/
+   */
+  listSchedules: (
+    query?: { project_id?: number | null; test_suite_id?: number | null; is_active?: boolean | null },
+    options: ApiRequestOptions = {}
+  ): Promise<ScheduleResponse[]> => {
+    return apiRequest(withQuery('/api/schedules/', query), { ...options, method: 'GET' });
+  },
+
+  /**
+   * POST /api/schedules/
+   */
+  createSchedule: (
+    body: ScheduleCreate,
+    options: ApiRequestOptions = {}
+  ): Promise<ScheduleResponse> => {
+    return apiRequest('/api/schedules/', { ...options, method: 'POST', body: JSON.stringify(body) });
+  },
+
+  /**
+   * GET /api/schedules/{schedule_id}
+   */
+  getSchedule: (
+    scheduleId: number,
+    options: ApiRequestOptions = {}
+  ): Promise<ScheduleResponse> => {
+    return apiRequest(`/api/schedules/${encodeURIComponent(String(scheduleId))}`, { ...options, method: 'GET' });
+  },
+
+  /**
+   * PUT /api/schedules/{schedule_id}
+   */
+  updateSchedule: (
+    scheduleId: number,
+    body: ScheduleUpdate,
+    options: ApiRequestOptions = {}
+  ): Promise<ScheduleResponse> => {
+    return apiRequest(`/api/schedules/${encodeURIComponent(String(scheduleId))}`, { ...options, method: 'PUT', body: JSON.stringify(body) });
+  },
+
+  /**
+   * DELETE /api/schedules/{schedule_id}
+   */
+  deleteSchedule: (
+    scheduleId: number,
+    query?: { hard?: boolean },
+    options: ApiRequestOptions = {}
+  ): Promise<void> => {
+    return apiRequest(withQuery(`/api/schedules/${encodeURIComponent(String(scheduleId))}`, query), { ...options, method: 'DELETE' });
+  },
+
+  /**
+   * GET /api/debug/test-logs
+   *
+   * Test endpoint to verify logging is working in development
+   */
+  testLogs: (
+    options: ApiRequestOptions = {}
+  ): Promise<unknown> => {
+    return apiRequest('/api/debug/test-logs', { ...options, method: 'GET' });
+  },
+
+  /**
+   * GET /
+   *
+   * Root endpoint
+   */
+  root: (
+    options: ApiRequestOptions = {}
+  ): Promise<unknown> => {
+    return apiRequest('/', { ...options, method: 'GET' });
+  },
+
+  /**
+   * GET /health
+   *
+   * Health check endpoint
+   */
+  healthCheck: (
+    options: ApiRequestOptions = {}
+  ): Promise<unknown> => {
+    return apiRequest('/health', { ...options, method: 'GET' });
+  },
+};
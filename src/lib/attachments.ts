@@ -0,0 +1,42 @@
+/**
+ * Helpers for suite attachments: the files that give scenario generation extra context
+ */
+
+export const ALLOWED_ATTACHMENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'text/plain',
+  'text/csv',
+];
+
+/** Value for a file input's `accept` */
+export const ATTACHMENT_ACCEPT = 'image/*,.pdf,.doc,.docx,.txt,.csv';
+
+export type AttachmentPreviewKind = 'image' | 'pdf' | 'text';
+
+/**
+ * How an attachment can be shown in the browser; null when it can only be downloaded
+ */
+export const getAttachmentPreviewKind = (
+  contentType: string | null | undefined,
+  filename: string
+): AttachmentPreviewKind | null => {
+  const type = contentType?.toLowerCase() ?? '';
+  const extension = filename.split('.').pop()?.toLowerCase() ?? '';
+
+  if (type.startsWith('image/')) return 'image';
+  if (type === 'application/pdf' || extension === 'pdf') return 'pdf';
+  if (type.startsWith('text/') || extension === 'txt' || extension === 'csv') return 'text';
+  return null;
+};
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return bytes + ' B';
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+  return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+};
@@ -47,12 +47,42 @@ export const clearUserFromStorage = (): void => {
   localStorage.removeItem('user');
   sessionStorage.removeItem('user');
   // Also clear auth tokens
-  localStorage.removeItem('access_token');
+  clearAuthTokens();
   localStorage.removeItem('auth_token');
-  sessionStorage.removeItem('access_token');
   sessionStorage.removeItem('auth_token');
 };
 
+/**
+ * Save access (and optionally refresh) tokens to both storages
+ */
+export const saveAuthTokens = (accessToken: string, refreshToken?: string | null): void => {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem('access_token', accessToken);
+  sessionStorage.setItem('access_token', accessToken);
+  if (refreshToken) {
+    localStorage.setItem('refresh_token', refreshToken);
+    sessionStorage.setItem('refresh_token', refreshToken);
+  }
+};
+
+export const getAccessToken = (): string | null => {
+  if (typeof window === 'undefined') return null;
+  return localStorage.getItem('access_token') || sessionStorage.getItem('access_token');
+};
+
+export const getRefreshToken = (): string | null => {
+  if (typeof window === 'undefined') return null;
+  return localStorage.getItem('refresh_token') || sessionStorage.getItem('refresh_token');
+};
+
+export const clearAuthTokens = (): void => {
+  if (typeof window === 'undefined') return;
+  localStorage.removeItem('access_token');
+  localStorage.removeItem('refresh_token');
+  sessionStorage.removeItem('access_token');
+  sessionStorage.removeItem('refresh_token');
+};
+
 /**
  * Encode user data for URL parameter
  */
@@ -108,8 +138,8 @@ export const checkUrlForAuth = (): boolean => {
     console.log('🔐 Detected JWT token, storing...');
 
     // Store JWT token for API calls
-    localStorage.setItem('access_token', authToken);
-    sessionStorage.setItem('access_token', authToken);
+    // The auth service may also hand back a refresh token so expired sessions can be renewed
+    saveAuthTokens(authToken, urlParams.get('refresh_token'));
     console.log('🔐 Stored token in localStorage and sessionStorage');
 
     // Try to decode JWT to get user info (JWT payload is base64 encoded JSON)
@@ -137,8 +167,9 @@ export const checkUrlForAuth = (): boolean => {
     // Clear the auth session ID since authentication is complete
     sessionStorage.removeItem('auth_session_id');
 
-    // Clean up URL by removing auth parameter
+    // Clean up URL by removing auth parameters
     urlParams.delete('auth');
+    urlParams.delete('refresh_token');
     const newUrl = window.location.pathname +
       (urlParams.toString() ? '?' + urlParams.toString() : '') +
       window.location.hash;
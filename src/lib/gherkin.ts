@@ -0,0 +1,395 @@
+/**
+ * Gherkin import: turns `.feature` files into suite scenarios
+ *
+ * - `Given`/`When` steps become scenario steps and `Then` steps become assertions; `And`, `But`
+ *   and `*` follow the step before them.
+ * - A `Scenario Outline` becomes one data-driven scenario: `<column>` turns into a `{{column}}`
+ *   placeholder and its `Examples` tables into the data table rows.
+ * - A feature's `Background` can become the suite's preconditions; otherwise, and for a `Rule`'s
+ *   `Background`, its steps are put at the start of every scenario that follows it.
+ *
+ * Only English keywords are understood. Tags and comments are ignored.
+ */
+
+import { createScenario, type ScenarioResponse } from './api-client';
+import { validateScenarioDefinition, type ScenarioDefinition } from './scenario-definition';
+import type { ScenarioDataTable } from './scenario-parameters';
+import type { PreconditionFlow } from './preconditions';
+
+export interface GherkinScenario extends ScenarioDefinition {
+  /** Line of the `Scenario` keyword in its file */
+  line: number;
+  /** Steps from the feature's Background at the start of `steps` */
+  background_steps: number;
+}
+
+export interface GherkinFeature {
+  name: string;
+  file_name: string;
+  background: PreconditionFlow | null;
+  scenarios: GherkinScenario[];
+}
+
+export interface GherkinParseResult {
+  features: GherkinFeature[];
+  /** Parts of the file that were skipped or changed, with their line */
+  warnings: string[];
+}
+
+export class GherkinError extends Error {
+  readonly problems: string[];
+
+  constructor(message: string, problems: string[] = []) {
+    super(message);
+    this.name = 'GherkinError';
+    this.problems = problems;
+  }
+}
+
+const HEADER_PATTERN = /^(Feature|Rule|Background|Scenario Outline|Scenario Template|Scenario|Example|Examples|Scenarios):\s*(.*)$/;
+const STEP_PATTERN = /^(Given|When|Then|And|But|\*)\s+(.+)$/;
+const OUTLINE_PARAMETER_PATTERN = /<([^<>]+)>/g;
+const DOC_STRING_DELIMITERS = ['"""', '```'];
+
+type StepPhase = 'step' | 'assertion';
+
+interface StepList {
+  steps: string[];
+  assertions: string[];
+  phase: StepPhase;
+}
+
+interface ScenarioDraft extends StepList {
+  name: string;
+  description: string[];
+  line: number;
+  outline: boolean;
+  examples: ScenarioDataTable | null;
+  examplesHeader: string[] | null;
+}
+
+interface FeatureDraft extends GherkinFeature {
+  backgroundList: StepList | null;
+}
+
+type Section =
+  | { kind: 'feature' | 'rule' }
+  | { kind: 'background'; list: StepList }
+  | { kind: 'scenario'; draft: ScenarioDraft }
+  | { kind: 'examples'; draft: ScenarioDraft };
+
+const emptyStepList = (): StepList => ({ steps: [], assertions: [], phase: 'step' });
+
+/**
+ * A Gherkin table header as a data table column: placeholders only allow letters, digits, "_" and "-"
+ */
+const toColumnName = (header: string): string => {
+  const name = header.trim().replace(/[^\w-]+/g, '_').replace(/^_+|_+$/g, '');
+  return /^[A-Za-z_]/.test(name) ? name : `_${name}`;
+};
+
+const parseTableRow = (line: string): string[] =>
+  line
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim().replace(/\\\|/g, '|').replace(/\\n/g, ' ').replace(/\\\\/g, '\\'));
+
+const addStep = (list: StepList, keyword: string, text: string) => {
+  if (keyword === 'Given' || keyword === 'When') list.phase = 'step';
+  if (keyword === 'Then') list.phase = 'assertion';
+  (list.phase === 'step' ? list.steps : list.assertions).push(text);
+};
+
+// Step arguments (a data table or doc string) are folded into the step's own line
+const appendToLastStep = (list: StepList, text: string) => {
+  const target = list.phase === 'step' ? list.steps : list.assertions;
+  if (target.length === 0) return false;
+  target[target.length - 1] = `${target[target.length - 1]}: ${text}`;
+  return true;
+};
+
+const backgroundToPreconditions = (list: StepList): PreconditionFlow => ({
+  steps: list.steps.map((instruction) => ({ instruction, secret_name: null })),
+  success_check: list.assertions.length > 0 ? list.assertions.join('; ') : null,
+});
+
+// Background assertions run as checks before the scenario's own steps
+const backgroundToSteps = (list: StepList): string[] => [
+  ...list.steps,
+  ...list.assertions.map((assertion) => `Check that ${assertion}`),
+];
+
+/**
+ * Read a `.feature` file. Anything the importer can't use is skipped with a warning;
+ * a file without a feature or scenarios throws a `GherkinError`.
+ */
+export const parseGherkin = (source: string, fileName: string): GherkinParseResult => {
+  const features: FeatureDraft[] = [];
+  const warnings: string[] = [];
+  const warn = (line: number, message: string) => warnings.push(`${fileName}, line ${line}: ${message}`);
+
+  let feature: FeatureDraft | null = null;
+  let inRule = false;
+  let ruleBackground: StepList | null = null;
+  let section: Section | null = null;
+  let docString: { delimiter: string; lines: string[]; line: number } | null = null;
+  // Table rows right after a step belong to that step
+  let stepTable: string[][] | null = null;
+
+  const currentList = (): StepList | null => {
+    if (section?.kind === 'background') return section.list;
+    if (section?.kind === 'scenario') return section.draft;
+    return null;
+  };
+
+  const flushStepTable = () => {
+    if (!stepTable) return;
+    const list = currentList();
+    if (list) appendToLastStep(list, stepTable.map((row) => row.join(', ')).join('; '));
+    stepTable = null;
+  };
+
+  const finishScenario = (draft: ScenarioDraft) => {
+    if (!feature) return;
+    let dataTable: ScenarioDataTable | null = null;
+    let fill = (text: string) => text;
+
+    if (draft.outline) {
+      if (draft.examples && draft.examples.rows.length > 0) {
+        dataTable = draft.examples;
+        const columns = dataTable.columns;
+        fill = (text) =>
+          text.replace(OUTLINE_PARAMETER_PATTERN, (match, name: string) =>
+            columns.includes(toColumnName(name)) ? `{{${toColumnName(name)}}}` : match
+          );
+      } else {
+        warn(draft.line, `Scenario Outline "${draft.name}" has no Examples rows, so it was imported as a single scenario`);
+      }
+    }
+
+    const featureBackground = feature.backgroundList ? backgroundToSteps(feature.backgroundList) : [];
+    const background = [...featureBackground, ...(ruleBackground ? backgroundToSteps(ruleBackground) : [])];
+    feature.scenarios.push({
+      name: fill(draft.name) || `Scenario at line ${draft.line}`,
+      description: draft.description.join('\n').trim() || null,
+      steps: [...background, ...draft.steps].map(fill),
+      assertions: draft.assertions.map(fill),
+      max_steps: null,
+      start_url: null,
+      data_table: dataTable,
+      line: draft.line,
+      background_steps: featureBackground.length,
+    });
+  };
+
+  const closeSection = () => {
+    flushStepTable();
+    if (section?.kind === 'scenario' || section?.kind === 'examples') finishScenario(section.draft);
+    section = null;
+  };
+
+  const lines = source.replace(/^\uFEFF/, '').split(/\r?\n/);
+  for (let index = 0; index < lines.length; index++) {
+    const lineNumber = index + 1;
+    const line = lines[index].trim();
+
+    if (docString) {
+      if (line === docString.delimiter) {
+        const list = currentList();
+        const text = docString.lines.join(' ').replace(/\s+/g, ' ').trim();
+        if (!list || !appendToLastStep(list, `"${text}"`)) warn(docString.line, 'Doc string is not attached to a step and was skipped');
+        docString = null;
+      } else {
+        docString.lines.push(line);
+      }
+      continue;
+    }
+
+    if (!line || line.startsWith('#') || line.startsWith('@')) continue;
+
+    if (line.startsWith('|')) {
+      const cells = parseTableRow(line);
+      if (section?.kind === 'examples') {
+        const { draft } = section;
+        if (!draft.outline) {
+          // Already warned about at the Examples keyword
+        } else if (!draft.examplesHeader) {
+          draft.examplesHeader = cells.map(toColumnName);
+          const table = draft.examples ?? { columns: [], rows: [] };
+          draft.examplesHeader.forEach((column) => {
+            if (!table.columns.includes(column)) table.columns.push(column);
+          });
+          draft.examples = table;
+        } else if (draft.examples) {
+          const header = draft.examplesHeader;
+          draft.examples.rows.push(Object.fromEntries(header.map((column, i) => [column, cells[i] ?? ''])));
+        }
+      } else if (currentList()) {
+        stepTable = [...(stepTable ?? []), cells];
+      } else {
+        warn(lineNumber, 'Table is not attached to a step and was skipped');
+      }
+      continue;
+    }
+    flushStepTable();
+
+    const delimiter = DOC_STRING_DELIMITERS.find((candidate) => line.startsWith(candidate));
+    if (delimiter) {
+      docString = { delimiter, lines: [], line: lineNumber };
+      continue;
+    }
+
+    const header = line.match(HEADER_PATTERN);
+    if (header) {
+      const [, keyword, title] = header;
+      const name = title.trim();
+
+      if (keyword === 'Examples' || keyword === 'Scenarios') {
+        if (section?.kind === 'scenario' || section?.kind === 'examples') {
+          if (!section.draft.outline) {
+            warn(lineNumber, 'Examples under a plain Scenario were skipped; use "Scenario Outline"');
+          }
+          // Each Examples table has its own header; rows from all of them are combined
+          section.draft.examplesHeader = null;
+          section = { kind: 'examples', draft: section.draft };
+        } else {
+          warn(lineNumber, 'Examples outside a Scenario Outline were skipped');
+        }
+        continue;
+      }
+
+      closeSection();
+      if (keyword === 'Feature') {
+        if (feature) features.push(feature);
+        feature = { name, file_name: fileName, background: null, scenarios: [], backgroundList: null };
+        inRule = false;
+        ruleBackground = null;
+        section = { kind: 'feature' };
+        continue;
+      }
+      if (!feature) {
+        warn(lineNumber, `"${keyword}" before any Feature was skipped`);
+        continue;
+      }
+      if (keyword === 'Rule') {
+        inRule = true;
+        ruleBackground = null;
+        section = { kind: 'rule' };
+      } else if (keyword === 'Background') {
+        const list = emptyStepList();
+        if (inRule) ruleBackground = list;
+        else feature.backgroundList = list;
+        section = { kind: 'background', list };
+      } else {
+        section = {
+          kind: 'scenario',
+          draft: {
+            ...emptyStepList(),
+            name,
+            description: [],
+            line: lineNumber,
+            outline: keyword === 'Scenario Outline' || keyword === 'Scenario Template',
+            examples: null,
+            examplesHeader: null,
+          },
+        };
+      }
+      continue;
+    }
+
+    const step = line.match(STEP_PATTERN);
+    if (step) {
+      const list = currentList();
+      if (list) {
+        addStep(list, step[1], step[2].trim());
+      } else if (section?.kind === 'examples') {
+        warn(lineNumber, 'Step after Examples was skipped');
+      } else {
+        warn(lineNumber, 'Step outside a Scenario or Background was skipped');
+      }
+      continue;
+    }
+
+    // Free text is a description until the first step
+    if (section?.kind === 'scenario' && section.draft.steps.length === 0 && section.draft.assertions.length === 0) {
+      section.draft.description.push(line);
+    } else if (section?.kind !== 'feature' && section?.kind !== 'rule' && section?.kind !== 'background') {
+      warn(lineNumber, `Unrecognised line was skipped: "${line.length > 60 ? `${line.slice(0, 57)}...` : line}"`);
+    }
+  }
+
+  if (docString) warn(docString.line, 'Doc string is never closed and was skipped');
+  closeSection();
+  if (feature) features.push(feature);
+
+  if (features.length === 0) {
+    throw new GherkinError(`${fileName} has no Feature`, warnings);
+  }
+  const result = features.map(({ backgroundList, ...rest }) => ({
+    ...rest,
+    background: backgroundList && backgroundList.steps.length > 0 ? backgroundToPreconditions(backgroundList) : null,
+  }));
+  if (result.every((item) => item.scenarios.length === 0)) {
+    throw new GherkinError(`${fileName} has no scenarios`, warnings);
+  }
+  return { features: result, warnings };
+};
+
+/**
+ * Problems that would stop a parsed scenario from saving, e.g. too many steps
+ */
+export const getGherkinScenarioProblems = (scenario: GherkinScenario): string[] =>
+  Object.values(validateScenarioDefinition(scenario));
+
+export interface GherkinImportPlan {
+  scenarios: ScenarioDefinition[];
+  /** The Background to save as the suite's preconditions; null keeps them as they are */
+  preconditions: PreconditionFlow | null;
+}
+
+/**
+ * What to create from the parsed features. With `useBackgroundAsPreconditions`, the first
+ * feature Background becomes the suite's preconditions and is left out of that feature's
+ * scenarios; other Backgrounds stay as leading steps.
+ */
+export const buildGherkinImport = (
+  features: GherkinFeature[],
+  isSelected: (feature: GherkinFeature, scenario: GherkinScenario) => boolean,
+  useBackgroundAsPreconditions: boolean
+): GherkinImportPlan => {
+  const preconditionsFeature = useBackgroundAsPreconditions ? features.find((feature) => feature.background) : undefined;
+  const scenarios = features.flatMap((feature) =>
+    feature.scenarios
+      .filter((scenario) => isSelected(feature, scenario))
+      .map((scenario): ScenarioDefinition => ({
+        name: scenario.name,
+        description: scenario.description,
+        steps: feature === preconditionsFeature ? scenario.steps.slice(scenario.background_steps) : scenario.steps,
+        assertions: scenario.assertions,
+        max_steps: scenario.max_steps,
+        start_url: scenario.start_url,
+        data_table: scenario.data_table,
+      }))
+  );
+  return { scenarios, preconditions: preconditionsFeature?.background ?? null };
+};
+
+/**
+ * Create the scenarios of an import, in order. Failures don't stop the rest; they are counted.
+ */
+export const createGherkinScenarios = async (
+  testSuiteId: number,
+  scenarios: ScenarioDefinition[]
+): Promise<{ created: ScenarioResponse[]; failed: number }> => {
+  const created: ScenarioResponse[] = [];
+  let failed = 0;
+  for (const scenario of scenarios) {
+    try {
+      created.push(await createScenario({ ...scenario, test_suite_id: testSuiteId }));
+    } catch {
+      failed++;
+    }
+  }
+  return { created, failed };
+};
@@ -0,0 +1,50 @@
+/**
+ * Direct Google OAuth against the backend (/api/auth/google), used for the Google button on
+ * the login page and for linking Google to an existing account.
+ *
+ * Google sends the user back to /callback?code=...&state=...; the stored intent tells the callback
+ * page whether to sign in with the code or link it to the signed-in account. The stored `state`
+ * ties the callback to the flow this tab started, so a code from someone else's flow (login CSRF)
+ * is rejected before it is exchanged.
+ */
+
+import { getGoogleAuthUrl } from './api-client';
+
+export type GoogleOAuthIntent = 'sign-in' | 'link';
+
+const INTENT_STORAGE_KEY = 'google_oauth_intent';
+const STATE_STORAGE_KEY = 'google_oauth_state';
+
+export interface PendingGoogleOAuth {
+  intent: GoogleOAuthIntent;
+  /** The `state` the backend issued when the flow started */
+  state: string;
+}
+
+/**
+ * Send the user to Google's consent screen
+ */
+export const startGoogleOAuth = async (intent: GoogleOAuthIntent, returnPath: string) => {
+  const { url, state } = await getGoogleAuthUrl();
+  sessionStorage.setItem(INTENT_STORAGE_KEY, intent);
+  sessionStorage.setItem(STATE_STORAGE_KEY, state);
+  sessionStorage.setItem('auth_redirect_path', returnPath);
+  window.location.href = url;
+};
+
+/**
+ * Read and forget the flow stored by startGoogleOAuth, if any
+ */
+export const consumeGoogleOAuth = (): PendingGoogleOAuth | null => {
+  const intent = sessionStorage.getItem(INTENT_STORAGE_KEY);
+  const state = sessionStorage.getItem(STATE_STORAGE_KEY);
+  sessionStorage.removeItem(INTENT_STORAGE_KEY);
+  sessionStorage.removeItem(STATE_STORAGE_KEY);
+  return (intent === 'sign-in' || intent === 'link') && state ? { intent, state } : null;
+};
+
+/**
+ * Whether the `state` Google sent back is the one this tab's flow started with
+ */
+export const isGoogleOAuthStateValid = (pending: PendingGoogleOAuth, returnedState: string | null): boolean =>
+  returnedState !== null && returnedState === pending.state;
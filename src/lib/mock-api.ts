@@ -1,8 +1,72 @@
 /**
  * Mock API responses for development/testing
  * These match the actual API schema from the backend
+ *
+ * With VITE_USE_MOCK_API=true the whole app runs against this in-memory backend. Its data is
+ * saved to localStorage after every request so it survives reloads; call resetMockDatabase()
+ * to go back to the seed data.
  */
 
+import { getAttachmentPreviewKind } from './attachments';
+import {
+  createSyntheticScreenshot,
+  simulateRunProgress,
+  type MockRunSimulation,
+  type SimulatedScenarioPlan,
+  type SimulatedPreconditionResult,
+  type SimulatedPreconditions,
+  type SimulatedScenario,
+} from './mock-run-simulation';
+import {
+  normalizePreconditionFlow,
+  parseSuitePreconditions,
+  validatePreconditionFlow,
+  type PreconditionFlow,
+} from './preconditions';
+import {
+  normalizeFolderPath,
+  normalizeSuiteTag,
+  validateSuiteOrganization,
+} from './suite-organization';
+import { normalizeScenarioDefinition, validateScenarioDefinition } from './scenario-definition';
+import { guessScenarioCategory, type ScenarioCoverageCategory } from './scenario-generation';
+import {
+  fillPlaceholders,
+  findPlaceholders,
+  getScenarioIterations,
+  type ScenarioDataTable,
+} from './scenario-parameters';
+import {
+  deviceProfileValue,
+  getDeviceProfileId,
+  normalizeResolution,
+  validateDeviceProfile,
+  type DeviceProfileFields,
+} from './resolutions';
+import type {
+  AgentControlResponse,
+  AgentStartRequest,
+  BrowserResetRequest,
+  CreateAgentSessionRequest,
+  ExplorationActionsRequest,
+  ExplorationActionsResponse,
+  LiveRunTriggerRequest,
+  LiveRunTriggerResponse,
+  PasswordChange,
+  RuntimeLaunchRequest,
+  RuntimeLaunchResponse,
+  ScenarioCreate,
+  ScenarioGenerationRequest,
+  ScenarioGenerationResponse,
+  ScenarioUpdate,
+  SessionCreateResponse,
+  SessionHistoryResponse,
+  SessionStatusResponse,
+  StepExecuteResponse,
+  StopSessionResponse,
+  TestRunUpdate,
+} from './api-client';
+
 export interface ProjectResponse {
   id: number;
   name: string;
@@ -10,6 +74,7 @@ export interface ProjectResponse {
   user_id: number;
   created_at: string; // ISO date-time string
   updated_at: string | null; // ISO date-time string or null
+  role?: ProjectRole; // The current user's role in the project
 }
 
 // Mock projects data matching ProjectResponse schema
@@ -38,17 +103,38 @@ const mockProjects: ProjectResponse[] = [
     created_at: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString(), // 10 days ago
     updated_at: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(), // 1 day ago
   },
+  {
+    id: 4,
+    name: "Partner Workspace",
+    description: "Shared with you as a viewer",
+    user_id: 2,
+    created_at: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000).toISOString(), // 8 days ago
+    updated_at: null,
+  },
 ];
 
 /**
  * Check if we should use mock API
- * Set to false to always use production APIs
+ * Production APIs are used unless VITE_USE_MOCK_API=true
  */
 export const shouldUseMockApi = (): boolean => {
-  // Always use production APIs - set to false
-  return false;
+  return import.meta.env.VITE_USE_MOCK_API === 'true';
+};
+
+/**
+ * Remove every item matching `predicate`, keeping the array instance
+ */
+const removeWhere = <T>(items: T[], predicate: (item: T) => boolean) => {
+  for (let index = items.length - 1; index >= 0; index--) {
+    if (predicate(items[index])) {
+      items.splice(index, 1);
+    }
+  }
 };
 
+const createMockId = (prefix: string): string =>
+  `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
 /**
  * Mock GET /api/projects/
  * Returns all projects for the current user
@@ -57,8 +143,10 @@ export const mockGetProjects = async (): Promise<ProjectResponse[]> => {
   // Simulate API delay
   await new Promise(resolve => setTimeout(resolve, 300));
 
-  // Return a copy of mock projects
-  return [...mockProjects];
+  // Only the projects the current user belongs to, with their role in each
+  return mockProjects
+    .filter(p => getMockProjectRole(p.id) !== null)
+    .map(p => ({ ...p, role: getMockProjectRole(p.id) ?? undefined }));
 };
 
 /**
@@ -80,8 +168,17 @@ export const mockCreateProject = async (data: { name: string; description?: stri
 
   // Add to mock data
   mockProjects.push(newProject);
+  mockProjectMembers.push({
+    id: nextMemberId(),
+    project_id: newProject.id,
+    user_id: MOCK_CURRENT_USER.id,
+    email: MOCK_CURRENT_USER.email,
+    full_name: MOCK_CURRENT_USER.full_name,
+    role: 'owner',
+    created_at: newProject.created_at,
+  });
 
-  return newProject;
+  return { ...newProject, role: 'owner' };
 };
 
 /**
@@ -94,11 +191,11 @@ export const mockGetProject = async (projectId: number): Promise<ProjectResponse
 
   const project = mockProjects.find(p => p.id === projectId);
 
-  if (!project) {
+  if (!project || getMockProjectRole(projectId) === null) {
     throw new Error(`Project with id ${projectId} not found`);
   }
 
-  return { ...project };
+  return { ...project, role: getMockProjectRole(projectId) ?? undefined };
 };
 
 /**
@@ -117,6 +214,7 @@ export const mockUpdateProject = async (
   if (projectIndex === -1) {
     throw new Error(`Project with id ${projectId} not found`);
   }
+  requireMockProjectOwner(projectId);
 
   // Update project
   const updatedProject: ProjectResponse = {
@@ -127,7 +225,7 @@ export const mockUpdateProject = async (
 
   mockProjects[projectIndex] = updatedProject;
 
-  return { ...updatedProject };
+  return { ...updatedProject, role: getMockProjectRole(projectId) ?? undefined };
 };
 
 /**
@@ -143,9 +241,580 @@ export const mockDeleteProject = async (projectId: number): Promise<void> => {
   if (projectIndex === -1) {
     throw new Error(`Project with id ${projectId} not found`);
   }
+  requireMockProjectOwner(projectId);
 
-  // Remove project
+  // Remove project and cascade like the backend does (see mockGetProjectDeletionPreview)
   mockProjects.splice(projectIndex, 1);
+  const suiteIds = new Set(mockTestSuites.filter(s => s.project_id === projectId).map(s => s.id));
+  removeWhere(mockTestSuites, s => suiteIds.has(s.id));
+  removeWhere(mockScenarios, s => suiteIds.has(s.test_suite_id));
+  removeWhere(mockAttachments, a => suiteIds.has(a.test_suite_id));
+  removeWhere(mockSuiteEnvironments, e => suiteIds.has(e.test_suite_id));
+  const runIds = new Set(mockTestRuns.filter(r => suiteIds.has(r.test_suite_id)).map(r => r.id));
+  removeWhere(mockTestRuns, r => runIds.has(r.id));
+  removeWhere(mockRunSimulations, sim => runIds.has(sim.test_run_id));
+  removeWhere(mockSchedules, s => s.project_id === projectId);
+  removeWhere(mockSecrets, s => s.project_id === projectId);
+  removeWhere(mockMobileApps, app => app.project_id === projectId);
+  removeWhere(mockProjectMembers, m => m.project_id === projectId);
+  removeWhere(mockProjectInvitations, i => i.project_id === projectId);
+  removeWhere(mockDeviceProfiles, p => p.project_id === projectId);
+  removeWhere(mockPreconditionBlocks, b => b.project_id === projectId);
+};
+
+// ============================================================================
+// Project Members Mock Data
+// ============================================================================
+
+export type ProjectRole = 'owner' | 'editor' | 'viewer';
+
+export interface ProjectMemberResponse {
+  id: number;
+  project_id: number;
+  user_id: number;
+  email: string;
+  full_name: string | null;
+  role: ProjectRole;
+  created_at: string;
+}
+
+export interface ProjectInvitationResponse {
+  id: number;
+  project_id: number;
+  email: string;
+  role: ProjectRole;
+  status: 'pending' | 'accepted' | 'revoked';
+  invited_by_email: string;
+  created_at: string;
+  expires_at: string;
+}
+
+interface MockProjectInvitation extends ProjectInvitationResponse {
+  token: string;
+}
+
+interface ProjectResourceSummary {
+  id: number;
+  name: string;
+}
+
+export interface ProjectDeletionPreview {
+  project_id: number;
+  test_suites: ProjectResourceSummary[];
+  test_run_count: number;
+  schedules: ProjectResourceSummary[];
+  secrets: ProjectResourceSummary[];
+  mobile_apps: ProjectResourceSummary[];
+}
+
+// The signed-in mock user (see GET /api/auth/me)
+const MOCK_CURRENT_USER = { id: 1, email: 'dev@example.com', full_name: 'Dev User' };
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const mockProjectMembers: ProjectMemberResponse[] = [
+  ...[1, 2, 3].map(projectId => ({
+    id: projectId,
+    project_id: projectId,
+    user_id: MOCK_CURRENT_USER.id,
+    email: MOCK_CURRENT_USER.email,
+    full_name: MOCK_CURRENT_USER.full_name,
+    role: 'owner' as const,
+    created_at: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
+  })),
+  {
+    id: 4,
+    project_id: 1,
+    user_id: 2,
+    email: "qa.lead@example.com",
+    full_name: "QA Lead",
+    role: "editor",
+    created_at: new Date(Date.now() - 12 * 24 * 60 * 60 * 1000).toISOString(),
+  },
+  {
+    id: 5,
+    project_id: 4,
+    user_id: 2,
+    email: "qa.lead@example.com",
+    full_name: "QA Lead",
+    role: "owner",
+    created_at: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000).toISOString(),
+  },
+  {
+    id: 6,
+    project_id: 4,
+    user_id: MOCK_CURRENT_USER.id,
+    email: MOCK_CURRENT_USER.email,
+    full_name: MOCK_CURRENT_USER.full_name,
+    role: "viewer",
+    created_at: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
+  },
+];
+
+const mockProjectInvitations: MockProjectInvitation[] = [
+  {
+    id: 1,
+    project_id: 1,
+    email: "designer@example.com",
+    role: "viewer",
+    status: "pending",
+    invited_by_email: MOCK_CURRENT_USER.email,
+    token: "mock-invitation-1",
+    created_at: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
+    expires_at: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000).toISOString(),
+  },
+];
+
+const nextMemberId = () => Math.max(...mockProjectMembers.map(m => m.id), 0) + 1;
+
+/**
+ * The current user's role in a project, or null when they are not a member
+ */
+const getMockProjectRole = (projectId: number): ProjectRole | null => {
+  const members = mockProjectMembers.filter(m => m.project_id === projectId);
+  // Projects saved before members existed only have their creator
+  if (members.length === 0) {
+    return mockProjects.find(p => p.id === projectId)?.user_id === MOCK_CURRENT_USER.id ? 'owner' : null;
+  }
+  return members.find(m => m.user_id === MOCK_CURRENT_USER.id)?.role ?? null;
+};
+
+const requireMockProjectOwner = (projectId: number) => {
+  if (getMockProjectRole(projectId) !== 'owner') {
+    throw new Error('Only workspace owners can do this');
+  }
+};
+
+const requireMockProjectEditor = (projectId: number) => {
+  const role = getMockProjectRole(projectId);
+  if (!role || role === 'viewer') {
+    throw new Error('Viewers cannot change this workspace');
+  }
+};
+
+const assertKeepsAnOwner = (projectId: number, memberId: number) => {
+  const otherOwners = mockProjectMembers.filter(
+    m => m.project_id === projectId && m.role === 'owner' && m.id !== memberId
+  );
+  if (otherOwners.length === 0) {
+    throw new Error('A workspace needs at least one owner');
+  }
+};
+
+const toInvitationResponse = ({ token: _token, ...invitation }: MockProjectInvitation): ProjectInvitationResponse => invitation;
+
+export const mockGetProjectMembers = async (projectId: number): Promise<ProjectMemberResponse[]> => {
+  await new Promise(resolve => setTimeout(resolve, 250));
+  return mockProjectMembers.filter(m => m.project_id === projectId).map(m => ({ ...m }));
+};
+
+export const mockUpdateProjectMember = async (
+  projectId: number,
+  memberId: number,
+  data: { role: ProjectRole }
+): Promise<ProjectMemberResponse> => {
+  await new Promise(resolve => setTimeout(resolve, 250));
+  requireMockProjectOwner(projectId);
+
+  const member = mockProjectMembers.find(m => m.id === memberId && m.project_id === projectId);
+  if (!member) {
+    throw new Error(`Member with id ${memberId} not found`);
+  }
+  if (member.role === 'owner' && data.role !== 'owner') {
+    assertKeepsAnOwner(projectId, memberId);
+  }
+  member.role = data.role;
+  return { ...member };
+};
+
+export const mockRemoveProjectMember = async (projectId: number, memberId: number): Promise<void> => {
+  await new Promise(resolve => setTimeout(resolve, 250));
+
+  const member = mockProjectMembers.find(m => m.id === memberId && m.project_id === projectId);
+  if (!member) {
+    throw new Error(`Member with id ${memberId} not found`);
+  }
+  // Anyone may leave; removing someone else takes an owner
+  if (member.user_id !== MOCK_CURRENT_USER.id) {
+    requireMockProjectOwner(projectId);
+  }
+  if (member.role === 'owner') {
+    assertKeepsAnOwner(projectId, memberId);
+  }
+  removeWhere(mockProjectMembers, m => m.id === memberId);
+};
+
+export const mockGetProjectInvitations = async (projectId: number): Promise<ProjectInvitationResponse[]> => {
+  await new Promise(resolve => setTimeout(resolve, 200));
+  return mockProjectInvitations
+    .filter(i => i.project_id === projectId && i.status === 'pending')
+    .map(toInvitationResponse);
+};
+
+export const mockCreateProjectInvitation = async (
+  projectId: number,
+  data: { email: string; role: ProjectRole }
+): Promise<ProjectInvitationResponse> => {
+  await new Promise(resolve => setTimeout(resolve, 300));
+  requireMockProjectOwner(projectId);
+
+  const email = data.email.trim().toLowerCase();
+  if (mockProjectMembers.some(m => m.project_id === projectId && m.email.toLowerCase() === email)) {
+    throw new Error(`${email} is already a member of this workspace`);
+  }
+  if (mockProjectInvitations.some(i => i.project_id === projectId && i.status === 'pending' && i.email === email)) {
+    throw new Error(`${email} already has a pending invitation`);
+  }
+
+  const invitation: MockProjectInvitation = {
+    id: Math.max(...mockProjectInvitations.map(i => i.id), 0) + 1,
+    project_id: projectId,
+    email,
+    role: data.role,
+    status: 'pending',
+    invited_by_email: MOCK_CURRENT_USER.email,
+    token: createMockId('invite'),
+    created_at: new Date().toISOString(),
+    expires_at: new Date(Date.now() + INVITATION_TTL_MS).toISOString(),
+  };
+  mockProjectInvitations.push(invitation);
+  return toInvitationResponse(invitation);
+};
+
+export const mockRevokeProjectInvitation = async (projectId: number, invitationId: number): Promise<void> => {
+  await new Promise(resolve => setTimeout(resolve, 200));
+  requireMockProjectOwner(projectId);
+
+  const invitation = mockProjectInvitations.find(i => i.id === invitationId && i.project_id === projectId);
+  if (!invitation || invitation.status !== 'pending') {
+    throw new Error(`Invitation with id ${invitationId} not found`);
+  }
+  invitation.status = 'revoked';
+};
+
+/**
+ * Mock POST /api/invitations/{token}/accept
+ * Joins the invited project as the signed-in user
+ */
+export const mockAcceptProjectInvitation = async (token: string): Promise<ProjectResponse> => {
+  await new Promise(resolve => setTimeout(resolve, 300));
+
+  const invitation = mockProjectInvitations.find(i => i.token === token);
+  const project = invitation && mockProjects.find(p => p.id === invitation.project_id);
+  if (!invitation || !project || invitation.status !== 'pending') {
+    throw new Error('This invitation is no longer valid');
+  }
+  if (new Date(invitation.expires_at).getTime() < Date.now()) {
+    throw new Error('This invitation has expired');
+  }
+
+  invitation.status = 'accepted';
+  // Already a member (e.g. the mock user accepting their own invite): keep the existing role
+  if (getMockProjectRole(project.id) === null) {
+    mockProjectMembers.push({
+      id: nextMemberId(),
+      project_id: project.id,
+      user_id: MOCK_CURRENT_USER.id,
+      email: MOCK_CURRENT_USER.email,
+      full_name: MOCK_CURRENT_USER.full_name,
+      role: invitation.role,
+      created_at: new Date().toISOString(),
+    });
+  }
+  return { ...project, role: getMockProjectRole(project.id) ?? undefined };
+};
+
+/**
+ * Mock GET /api/projects/{project_id}/deletion-preview
+ * Everything that deleting the project also deletes
+ */
+export const mockGetProjectDeletionPreview = async (projectId: number): Promise<ProjectDeletionPreview> => {
+  await new Promise(resolve => setTimeout(resolve, 250));
+
+  if (!mockProjects.some(p => p.id === projectId)) {
+    throw new Error(`Project with id ${projectId} not found`);
+  }
+  const summarize = (item: { id: number; name: string }) => ({ id: item.id, name: item.name });
+  const suites = mockTestSuites.filter(s => s.project_id === projectId);
+  const suiteIds = new Set(suites.map(s => s.id));
+
+  return {
+    project_id: projectId,
+    test_suites: suites.map(summarize),
+    test_run_count: mockTestRuns.filter(r => suiteIds.has(r.test_suite_id)).length,
+    schedules: mockSchedules.filter(s => s.project_id === projectId).map(summarize),
+    // Account-wide secrets (no project_id) are kept
+    secrets: mockSecrets.filter(s => s.project_id === projectId).map(summarize),
+    mobile_apps: mockMobileApps.filter(app => app.project_id === projectId).map(summarize),
+  };
+};
+
+// ============================================================================
+// Device Profiles Mock Data
+// ============================================================================
+
+export interface DeviceProfileResponse extends DeviceProfileFields {
+  id: number;
+  project_id: number;
+  created_at: string;
+  updated_at: string | null;
+}
+
+const mockDeviceProfiles: DeviceProfileResponse[] = [
+  {
+    id: 1,
+    project_id: 1,
+    name: "iPad Mini (landscape)",
+    width: 744,
+    height: 1133,
+    device_scale_factor: 2,
+    user_agent: "Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1",
+    has_touch: true,
+    orientation: "landscape",
+    created_at: new Date(Date.now() - 12 * 24 * 60 * 60 * 1000).toISOString(),
+    updated_at: null,
+  },
+];
+
+// Same rules as the form, so the mock rejects what the backend would
+const assertValidDeviceProfile = (profile: Partial<DeviceProfileFields>) => {
+  const problems = Object.values(validateDeviceProfile(profile));
+  if (problems.length > 0) {
+    throw new Error(problems[0]);
+  }
+};
+
+const findMockDeviceProfile = (projectId: number, profileId: number): DeviceProfileResponse => {
+  const profile = mockDeviceProfiles.find(p => p.id === profileId && p.project_id === projectId);
+  if (!profile) {
+    throw new Error(`Device profile with id ${profileId} not found`);
+  }
+  return profile;
+};
+
+export const mockGetDeviceProfiles = async (projectId: number): Promise<DeviceProfileResponse[]> => {
+  await new Promise(resolve => setTimeout(resolve, 200));
+  return mockDeviceProfiles.filter(p => p.project_id === projectId).map(p => ({ ...p }));
+};
+
+export const mockCreateDeviceProfile = async (
+  projectId: number,
+  data: DeviceProfileFields
+): Promise<DeviceProfileResponse> => {
+  await new Promise(resolve => setTimeout(resolve, 300));
+
+  requireMockProjectEditor(projectId);
+  const fields: DeviceProfileFields = {
+    name: data.name?.trim(),
+    width: data.width,
+    height: data.height,
+    device_scale_factor: data.device_scale_factor,
+    user_agent: data.user_agent?.trim() || null,
+    has_touch: Boolean(data.has_touch),
+    orientation: data.orientation,
+  };
+  assertValidDeviceProfile(fields);
+
+  const profile: DeviceProfileResponse = {
+    ...fields,
+    id: Math.max(...mockDeviceProfiles.map(p => p.id), 0) + 1,
+    project_id: projectId,
+    created_at: new Date().toISOString(),
+    updated_at: null,
+  };
+  mockDeviceProfiles.push(profile);
+  return { ...profile };
+};
+
+export const mockUpdateDeviceProfile = async (
+  projectId: number,
+  profileId: number,
+  data: Partial<DeviceProfileFields>
+): Promise<DeviceProfileResponse> => {
+  await new Promise(resolve => setTimeout(resolve, 300));
+
+  requireMockProjectEditor(projectId);
+  const profile = findMockDeviceProfile(projectId, profileId);
+  const updated: DeviceProfileResponse = {
+    ...profile,
+    ...data,
+    name: (data.name ?? profile.name).trim(),
+    user_agent: data.user_agent !== undefined ? data.user_agent?.trim() || null : profile.user_agent,
+    updated_at: new Date().toISOString(),
+  };
+  assertValidDeviceProfile(updated);
+  Object.assign(profile, updated);
+  return { ...profile };
+};
+
+export const mockDeleteDeviceProfile = async (projectId: number, profileId: number): Promise<void> => {
+  await new Promise(resolve => setTimeout(resolve, 200));
+
+  requireMockProjectEditor(projectId);
+  findMockDeviceProfile(projectId, profileId);
+  removeWhere(mockDeviceProfiles, p => p.id === profileId);
+
+  // Suites that used it go back to the default resolution
+  const value = deviceProfileValue(profileId);
+  mockTestSuites.forEach(suite => {
+    if (suite.resolution === value) {
+      suite.resolution = null;
+    }
+  });
+};
+
+// ============================================================================
+// Precondition Blocks Mock Data
+// ============================================================================
+
+interface MockPreconditionBlock extends PreconditionFlow {
+  id: number;
+  project_id: number;
+  name: string;
+  description: string | null;
+  created_at: string;
+  updated_at: string | null;
+}
+
+export interface PreconditionBlockResponse extends MockPreconditionBlock {
+  suite_count: number;
+}
+
+const mockPreconditionBlocks: MockPreconditionBlock[] = [
+  {
+    id: 1,
+    project_id: 1,
+    name: "Log in as admin",
+    description: "Signs in with the shared admin test account",
+    steps: [
+      { instruction: "Open the login page", secret_name: null },
+      { instruction: "Type the username into the Email field", secret_name: "test_username" },
+      { instruction: "Type the password into the Password field", secret_name: "test_password" },
+      { instruction: "Click Sign in", secret_name: null },
+    ],
+    success_check: "The account menu shows the admin user",
+    created_at: new Date(Date.now() - 14 * 24 * 60 * 60 * 1000).toISOString(),
+    updated_at: null,
+  },
+];
+
+// Secrets a project can reference: its own plus the global ones
+const listMockSecretNames = (projectId: number): string[] =>
+  mockSecrets.filter(secret => !secret.project_id || secret.project_id === projectId).map(secret => secret.name);
+
+const toPreconditionBlockResponse = (block: MockPreconditionBlock): PreconditionBlockResponse => ({
+  ...block,
+  steps: block.steps.map(step => ({ ...step })),
+  suite_count: mockTestSuites.filter(
+    suite => suite.project_id === block.project_id && parseSuitePreconditions(suite.preconditions)?.block_id === block.id
+  ).length,
+});
+
+const findMockPreconditionBlock = (projectId: number, blockId: number): MockPreconditionBlock => {
+  const block = mockPreconditionBlocks.find(b => b.id === blockId && b.project_id === projectId);
+  if (!block) {
+    throw new Error(`Precondition block with id ${blockId} not found`);
+  }
+  return block;
+};
+
+const validateMockPreconditionBlock = (projectId: number, name: string, flow: PreconditionFlow, blockId?: number) => {
+  if (!name) {
+    throw new Error('Name is required');
+  }
+  if (mockPreconditionBlocks.some(b => b.project_id === projectId && b.id !== blockId && b.name.toLowerCase() === name.toLowerCase())) {
+    throw new Error(`A precondition block named "${name}" already exists`);
+  }
+  const problems = Object.values(validatePreconditionFlow(flow, listMockSecretNames(projectId)));
+  if (problems.length > 0) {
+    throw new Error(problems[0]);
+  }
+};
+
+export const mockGetPreconditionBlocks = async (projectId: number): Promise<PreconditionBlockResponse[]> => {
+  await new Promise(resolve => setTimeout(resolve, 200));
+  return mockPreconditionBlocks.filter(b => b.project_id === projectId).map(toPreconditionBlockResponse);
+};
+
+export const mockCreatePreconditionBlock = async (
+  projectId: number,
+  data: Partial<PreconditionFlow> & { name?: string; description?: string | null }
+): Promise<PreconditionBlockResponse> => {
+  await new Promise(resolve => setTimeout(resolve, 300));
+
+  requireMockProjectEditor(projectId);
+  const name = data.name?.trim() ?? '';
+  const flow = normalizePreconditionFlow({ steps: data.steps ?? [], success_check: data.success_check ?? null });
+  validateMockPreconditionBlock(projectId, name, flow);
+
+  const block: MockPreconditionBlock = {
+    id: Math.max(...mockPreconditionBlocks.map(b => b.id), 0) + 1,
+    project_id: projectId,
+    name,
+    description: data.description?.trim() || null,
+    ...flow,
+    created_at: new Date().toISOString(),
+    updated_at: null,
+  };
+  mockPreconditionBlocks.push(block);
+  return toPreconditionBlockResponse(block);
+};
+
+export const mockUpdatePreconditionBlock = async (
+  projectId: number,
+  blockId: number,
+  data: Partial<PreconditionFlow> & { name?: string; description?: string | null }
+): Promise<PreconditionBlockResponse> => {
+  await new Promise(resolve => setTimeout(resolve, 300));
+
+  requireMockProjectEditor(projectId);
+  const block = findMockPreconditionBlock(projectId, blockId);
+  const name = data.name !== undefined ? data.name.trim() : block.name;
+  const flow = normalizePreconditionFlow({
+    steps: data.steps ?? block.steps,
+    success_check: data.success_check !== undefined ? data.success_check : block.success_check,
+  });
+  validateMockPreconditionBlock(projectId, name, flow, blockId);
+
+  Object.assign(block, {
+    name,
+    description: data.description !== undefined ? data.description?.trim() || null : block.description,
+    ...flow,
+    updated_at: new Date().toISOString(),
+  });
+  return toPreconditionBlockResponse(block);
+};
+
+export const mockDeletePreconditionBlock = async (projectId: number, blockId: number): Promise<void> => {
+  await new Promise(resolve => setTimeout(resolve, 200));
+
+  requireMockProjectEditor(projectId);
+  const block = findMockPreconditionBlock(projectId, blockId);
+  const { suite_count } = toPreconditionBlockResponse(block);
+  if (suite_count > 0) {
+    throw new Error(`"${block.name}" is used by ${suite_count} test suite${suite_count === 1 ? '' : 's'}`);
+  }
+  removeWhere(mockPreconditionBlocks, b => b.id === blockId);
+};
+
+/**
+ * Mirror the backend's checks on a suite's preconditions; legacy free text is stored as steps
+ */
+const normalizeMockSuitePreconditions = (projectId: number, value: unknown) => {
+  const preconditions = parseSuitePreconditions(value);
+  if (!preconditions) {
+    return null;
+  }
+  if (preconditions.block_id !== null) {
+    findMockPreconditionBlock(projectId, preconditions.block_id);
+    return { block_id: preconditions.block_id, steps: [], success_check: null };
+  }
+  const flow = normalizePreconditionFlow(preconditions);
+  const problems = Object.values(validatePreconditionFlow(flow, listMockSecretNames(projectId)));
+  if (problems.length > 0) {
+    throw new Error(`Preconditions: ${problems[0]}`);
+  }
+  return { block_id: null, ...flow };
 };
 
 // ============================================================================
@@ -163,12 +832,16 @@ export interface TestSuiteResponse {
   preconditions_enabled: boolean;
   preconditions: any;
   has_persistent_context: boolean;
+  persistent_context?: { updated_at: string; test_run_id: number | null } | null;
   exploration_enabled: boolean;
   exploration_step_limit: number | null;
   project_id: number;
+  tags: string[];
+  folder: string | null;
+  last_run?: { id: number; status: string; started_at: string; completed_at: string | null } | null;
   created_at: string;
   updated_at: string | null;
-  attachments?: any[];
+  attachments?: MockAttachment[];
 }
 
 const mockTestSuites: TestSuiteResponse[] = [
@@ -181,11 +854,17 @@ const mockTestSuites: TestSuiteResponse[] = [
     resolution: "1920x1080",
     creation_mode: "ai",
     preconditions_enabled: true,
-    preconditions: { login_required: true },
+    preconditions: { block_id: 1, steps: [], success_check: null },
     has_persistent_context: true,
+    persistent_context: {
+      updated_at: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000 + 30 * 60 * 1000).toISOString(),
+      test_run_id: 3,
+    },
     exploration_enabled: false,
     exploration_step_limit: null,
     project_id: 1,
+    tags: ['checkout', 'smoke'],
+    folder: 'Store/Checkout',
     created_at: new Date(Date.now() - 15 * 24 * 60 * 60 * 1000).toISOString(),
     updated_at: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
   },
@@ -203,6 +882,8 @@ const mockTestSuites: TestSuiteResponse[] = [
     exploration_enabled: true,
     exploration_step_limit: 10,
     project_id: 1,
+    tags: ['auth', 'smoke'],
+    folder: 'Accounts',
     created_at: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString(),
     updated_at: null,
   },
@@ -220,18 +901,64 @@ const mockTestSuites: TestSuiteResponse[] = [
     exploration_enabled: false,
     exploration_step_limit: null,
     project_id: 1,
+    tags: ['search'],
+    folder: 'Store',
     created_at: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
     updated_at: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
   },
 ];
 
-export const mockGetTestSuites = async (projectId?: number): Promise<TestSuiteResponse[]> => {
+const getMockLastRun = (testSuiteId: number): TestSuiteResponse['last_run'] => {
+  const latest = mockTestRuns
+    .filter(r => r.test_suite_id === testSuiteId)
+    .sort((a, b) => new Date(b.started_at).getTime() - new Date(a.started_at).getTime())[0];
+  return latest
+    ? { id: latest.id, status: latest.status, started_at: latest.started_at, completed_at: latest.completed_at }
+    : null;
+};
+
+/**
+ * Whether every word of the query appears in the suite's name, description or one of its scenarios
+ */
+const matchesMockSuiteSearch = (suite: TestSuiteResponse, query: string): boolean => {
+  const text = [
+    suite.name,
+    suite.description,
+    ...mockScenarios.filter(s => s.test_suite_id === suite.id).flatMap(s => [s.name, s.description]),
+  ]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => text.includes(word));
+};
+
+/**
+ * Mock GET /api/test-suites/
+ * Lists include each suite's last run; `search` matches name, description and scenario text
+ */
+export const mockGetTestSuites = async (projectId?: number, search?: string): Promise<TestSuiteResponse[]> => {
   await new Promise(resolve => setTimeout(resolve, 300));
 
-  if (projectId) {
-    return mockTestSuites.filter(suite => suite.project_id === projectId);
+  return mockTestSuites
+    .filter(suite => !projectId || suite.project_id === projectId)
+    .filter(suite => !search?.trim() || matchesMockSuiteSearch(suite, search))
+    .map(suite => ({ ...suite, last_run: getMockLastRun(suite.id) }));
+};
+
+/**
+ * Clean up tags and folder the way the backend does, rejecting ones it would refuse
+ */
+const normalizeMockSuiteOrganization = (tags: unknown, folder: unknown): { tags: string[]; folder: string | null } => {
+  const normalizedTags = Array.from(new Set(
+    (Array.isArray(tags) ? tags : []).filter((tag): tag is string => typeof tag === 'string').map(normalizeSuiteTag).filter(Boolean)
+  ));
+  const normalizedFolder = normalizeFolderPath(typeof folder === 'string' ? folder : null);
+  const errors = validateSuiteOrganization(normalizedTags, normalizedFolder);
+  const firstError = Object.values(errors)[0];
+  if (firstError) {
+    throw new Error(firstError);
   }
-  return [...mockTestSuites];
+  return { tags: normalizedTags, folder: normalizedFolder };
 };
 
 export const mockGetTestSuite = async (testSuiteId: number): Promise<TestSuiteResponse> => {
@@ -241,7 +968,7 @@ export const mockGetTestSuite = async (testSuiteId: number): Promise<TestSuiteRe
   if (!suite) {
     throw new Error(`Test suite with id ${testSuiteId} not found`);
   }
-  return { ...suite };
+  return { ...suite, attachments: listSuiteAttachments(testSuiteId) };
 };
 
 export const mockCreateTestSuite = async (data: any): Promise<TestSuiteResponse> => {
@@ -256,11 +983,12 @@ export const mockCreateTestSuite = async (data: any): Promise<TestSuiteResponse>
     resolution: data.resolution || "1920x1080",
     creation_mode: data.creation_mode || "ai",
     preconditions_enabled: data.preconditions_enabled || false,
-    preconditions: data.preconditions || null,
+    preconditions: normalizeMockSuitePreconditions(data.project_id, data.preconditions),
     has_persistent_context: data.has_persistent_context || false,
     exploration_enabled: data.exploration_enabled || false,
     exploration_step_limit: data.exploration_step_limit || null,
     project_id: data.project_id,
+    ...normalizeMockSuiteOrganization(data.tags, data.folder),
     created_at: new Date().toISOString(),
     updated_at: null,
   };
@@ -282,11 +1010,99 @@ export const mockUpdateTestSuite = async (testSuiteId: number, data: any): Promi
     ...data,
     updated_at: new Date().toISOString(),
   };
+  if (data.preconditions !== undefined) {
+    updatedSuite.preconditions = normalizeMockSuitePreconditions(updatedSuite.project_id, data.preconditions);
+  }
+  if (data.tags !== undefined || data.folder !== undefined) {
+    Object.assign(updatedSuite, normalizeMockSuiteOrganization(
+      data.tags !== undefined ? data.tags : updatedSuite.tags,
+      data.folder !== undefined ? data.folder : updatedSuite.folder
+    ));
+  }
 
   mockTestSuites[suiteIndex] = updatedSuite;
   return { ...updatedSuite };
 };
 
+/**
+ * Mock POST /api/test-suites/{test_suite_id}/clone
+ * Deep-copies a suite with its scenarios, attachments and environments, optionally into another project
+ */
+export const mockCloneTestSuite = async (
+  testSuiteId: number,
+  data: { name?: string | null; application_url?: string | null; project_id?: number | null }
+): Promise<TestSuiteResponse> => {
+  await new Promise(resolve => setTimeout(resolve, 500));
+
+  const source = mockTestSuites.find(s => s.id === testSuiteId);
+  if (!source) {
+    throw new Error(`Test suite with id ${testSuiteId} not found`);
+  }
+  const projectId = data.project_id ?? source.project_id;
+  if (!mockProjects.some(p => p.id === projectId)) {
+    throw new Error(`Project with id ${projectId} not found`);
+  }
+
+  // Blocks belong to a project, so a clone into another one gets the block's steps inline
+  const preconditions = parseSuitePreconditions(source.preconditions);
+  const block = projectId !== source.project_id && preconditions?.block_id != null
+    ? mockPreconditionBlocks.find(b => b.id === preconditions.block_id)
+    : undefined;
+
+  const now = new Date().toISOString();
+  const clone: TestSuiteResponse = {
+    ...source,
+    preconditions: block
+      ? { block_id: null, steps: block.steps.map(step => ({ ...step })), success_check: block.success_check }
+      : source.preconditions,
+    persistent_context: null,
+    id: Math.max(...mockTestSuites.map(s => s.id), 0) + 1,
+    name: data.name?.trim() || `${source.name} (copy)`,
+    application_url: data.application_url !== undefined ? data.application_url || null : source.application_url,
+    project_id: projectId,
+    created_at: now,
+    updated_at: null,
+  };
+  mockTestSuites.push(clone);
+
+  let nextScenarioId = Math.max(...mockScenarios.map(s => s.id), 0) + 1;
+  mockScenarios
+    .filter(s => s.test_suite_id === testSuiteId)
+    .forEach(scenario => {
+      mockScenarios.push({ ...scenario, id: nextScenarioId++, test_suite_id: clone.id, created_at: now, updated_at: null });
+    });
+
+  let nextAttachmentId = Math.max(...mockAttachments.map(a => a.id), 0) + 1;
+  listSuiteAttachments(testSuiteId).forEach(attachment => {
+    mockAttachments.push({ ...attachment, id: nextAttachmentId++, test_suite_id: clone.id, used_in_generation_at: null, created_at: now });
+  });
+
+  let nextEnvironmentId = Math.max(...mockSuiteEnvironments.map(e => e.id), 0) + 1;
+  listSuiteEnvironments(testSuiteId).forEach(environment => {
+    mockSuiteEnvironments.push({ ...environment, id: nextEnvironmentId++, test_suite_id: clone.id, created_at: now, updated_at: null });
+  });
+
+  return { ...clone, attachments: listSuiteAttachments(clone.id) };
+};
+
+/**
+ * Mock POST /api/test-suites/{test_suite_id}/reset-context
+ * Drops the saved browser state so the next run starts logged out with empty storage
+ */
+export const mockResetTestSuiteContext = async (testSuiteId: number): Promise<{ test_suite_id: number; reset_at: string }> => {
+  await new Promise(resolve => setTimeout(resolve, 300));
+
+  const suite = mockTestSuites.find(s => s.id === testSuiteId);
+  if (!suite) {
+    throw new Error(`Test suite with id ${testSuiteId} not found`);
+  }
+  if (!suite.has_persistent_context) {
+    throw new Error('This test suite does not keep a persistent browser context');
+  }
+  suite.persistent_context = null;
+  return { test_suite_id: testSuiteId, reset_at: new Date().toISOString() };
+};
+
 export const mockDeleteTestSuite = async (testSuiteId: number): Promise<void> => {
   await new Promise(resolve => setTimeout(resolve, 250));
 
@@ -296,6 +1112,11 @@ export const mockDeleteTestSuite = async (testSuiteId: number): Promise<void> =>
   }
 
   mockTestSuites.splice(suiteIndex, 1);
+
+  // Cascade like the backend does
+  removeWhere(mockScenarios, s => s.test_suite_id === testSuiteId);
+  removeWhere(mockAttachments, a => a.test_suite_id === testSuiteId);
+  removeWhere(mockSuiteEnvironments, e => e.test_suite_id === testSuiteId);
 };
 
 // ============================================================================
@@ -313,6 +1134,10 @@ export interface TestRunResponse {
   failed_scenarios: number;
   started_at: string;
   completed_at: string | null;
+  platform?: string;
+  environment_id?: number | null;
+  resolution?: string | null;
+  matrix_id?: string | null;
 }
 
 const mockTestRuns: TestRunResponse[] = [
@@ -378,13 +1203,47 @@ const mockTestRuns: TestRunResponse[] = [
   },
 ];
 
-export const mockGetTestRunsForSuite = async (testSuiteId: number): Promise<TestRunResponse[]> => {
+// Agent activity for runs started through the live-runs API; seeded runs have none
+const mockRunSimulations: MockRunSimulation[] = [];
+
+/**
+ * Copy the simulated progress of every active run onto its test run record
+ */
+const advanceSimulatedRuns = () => {
+  mockRunSimulations.forEach(simulation => {
+    const run = mockTestRuns.find(r => r.id === simulation.test_run_id);
+    if (!run || run.completed_at) return;
+    const progress = simulateRunProgress(simulation);
+    run.status = progress.status;
+    run.total_scenarios = simulation.scenarios.length;
+    run.passed_scenarios = progress.passed_scenarios;
+    run.failed_scenarios = progress.failed_scenarios;
+    run.completed_at = progress.completed_at;
+
+    // A finished run leaves its browser state behind for suites that keep it
+    const suite = mockTestSuites.find(s => s.id === run.test_suite_id);
+    if (progress.completed_at && suite?.has_persistent_context) {
+      suite.persistent_context = { updated_at: progress.completed_at, test_run_id: run.id };
+    }
+  });
+};
+
+export const mockGetTestRunsForSuite = async (
+  testSuiteId: number,
+  limit?: number,
+  offset: number = 0
+): Promise<TestRunResponse[]> => {
   await new Promise(resolve => setTimeout(resolve, 300));
-  return mockTestRuns.filter(run => run.test_suite_id === testSuiteId);
+  advanceSimulatedRuns();
+  const runs = mockTestRuns
+    .filter(run => run.test_suite_id === testSuiteId)
+    .sort((a, b) => new Date(b.started_at).getTime() - new Date(a.started_at).getTime());
+  return runs.slice(offset, limit !== undefined ? offset + limit : undefined);
 };
 
 export const mockGetLatestTestRun = async (testSuiteId: number): Promise<TestRunResponse | null> => {
   await new Promise(resolve => setTimeout(resolve, 200));
+  advanceSimulatedRuns();
   const runs = mockTestRuns
     .filter(run => run.test_suite_id === testSuiteId)
     .sort((a, b) => new Date(b.started_at).getTime() - new Date(a.started_at).getTime());
@@ -393,16 +1252,46 @@ export const mockGetLatestTestRun = async (testSuiteId: number): Promise<TestRun
 
 export const mockGetTestRun = async (testRunId: number): Promise<any> => {
   await new Promise(resolve => setTimeout(resolve, 200));
+  advanceSimulatedRuns();
   const run = mockTestRuns.find(r => r.id === testRunId);
   if (!run) {
     throw new Error(`Test run with id ${testRunId} not found`);
   }
+  const simulation = mockRunSimulations.find(sim => sim.test_run_id === testRunId);
+  const progress = simulation ? simulateRunProgress(simulation) : null;
   return {
     ...run,
     sessions: [], // Mock sessions array
+    scenarios: progress?.scenarios,
+    preconditions: progress?.preconditions ?? null,
   };
 };
 
+export const mockGetMatrixTestRuns = async (
+  matrixId: string
+): Promise<Array<TestRunResponse & {
+  sessions: never[];
+  scenarios?: SimulatedScenario[];
+  preconditions: SimulatedPreconditionResult | null;
+}>> => {
+  await new Promise(resolve => setTimeout(resolve, 300));
+  advanceSimulatedRuns();
+  const runs = mockTestRuns.filter(r => r.matrix_id === matrixId);
+  if (runs.length === 0) {
+    throw new Error(`Matrix run ${matrixId} not found`);
+  }
+  return runs.map(run => {
+    const simulation = mockRunSimulations.find(sim => sim.test_run_id === run.id);
+    const progress = simulation ? simulateRunProgress(simulation) : null;
+    return {
+      ...run,
+      sessions: [],
+      scenarios: progress?.scenarios,
+      preconditions: progress?.preconditions ?? null,
+    };
+  });
+};
+
 export const mockCreateTestRun = async (data: any): Promise<TestRunResponse> => {
   await new Promise(resolve => setTimeout(resolve, 400));
 
@@ -417,12 +1306,38 @@ export const mockCreateTestRun = async (data: any): Promise<TestRunResponse> =>
     failed_scenarios: 0,
     started_at: new Date().toISOString(),
     completed_at: null,
+    environment_id: data.environment_id ?? null,
   };
 
   mockTestRuns.push(newRun);
   return newRun;
 };
 
+export const mockUpdateTestRun = async (testRunId: number, data: TestRunUpdate): Promise<TestRunResponse> => {
+  await new Promise(resolve => setTimeout(resolve, 200));
+
+  const run = mockTestRuns.find(r => r.id === testRunId);
+  if (!run) {
+    throw new Error(`Test run with id ${testRunId} not found`);
+  }
+  Object.assign(run, data);
+  if (data.status === 'completed' || data.status === 'failed') {
+    run.completed_at = run.completed_at || new Date().toISOString();
+  }
+  return { ...run };
+};
+
+export const mockDeleteTestRun = async (testRunId: number): Promise<void> => {
+  await new Promise(resolve => setTimeout(resolve, 200));
+
+  const runIndex = mockTestRuns.findIndex(r => r.id === testRunId);
+  if (runIndex === -1) {
+    throw new Error(`Test run with id ${testRunId} not found`);
+  }
+  mockTestRuns.splice(runIndex, 1);
+  removeWhere(mockRunSimulations, sim => sim.test_run_id === testRunId);
+};
+
 // ============================================================================
 // Scenarios Mock Data
 // ============================================================================
@@ -432,6 +1347,12 @@ export interface ScenarioResponse {
   name: string;
   description: string | null;
   test_suite_id: number;
+  steps: string[];
+  assertions: string[];
+  max_steps: number | null;
+  start_url: string | null;
+  data_table: ScenarioDataTable | null;
+  position: number;
   created_at: string;
   updated_at: string | null;
 }
@@ -442,6 +1363,12 @@ const mockScenarios: ScenarioResponse[] = [
     name: "Navigate to checkout page and complete purchase",
     description: "Test the full checkout flow",
     test_suite_id: 1,
+    steps: [],
+    assertions: [],
+    max_steps: null,
+    start_url: null,
+    data_table: null,
+    position: 0,
     created_at: new Date(Date.now() - 15 * 24 * 60 * 60 * 1000).toISOString(),
     updated_at: null,
   },
@@ -450,6 +1377,19 @@ const mockScenarios: ScenarioResponse[] = [
     name: "Add items to cart and verify total",
     description: "Test cart functionality",
     test_suite_id: 1,
+    steps: [
+      "Open the first product in the catalog",
+      "Click Add to cart",
+      "Open the cart",
+    ],
+    assertions: [
+      "The cart badge shows 1",
+      "The cart total equals the product price",
+    ],
+    max_steps: 15,
+    start_url: "/products",
+    data_table: null,
+    position: 1,
     created_at: new Date(Date.now() - 14 * 24 * 60 * 60 * 1000).toISOString(),
     updated_at: null,
   },
@@ -458,6 +1398,23 @@ const mockScenarios: ScenarioResponse[] = [
     name: "Login with valid credentials",
     description: "Test successful login",
     test_suite_id: 2,
+    steps: [
+      "Type {{email}} into the Email field",
+      "Type {{secrets.test_password}} into the Password field",
+      "Click Sign in",
+    ],
+    assertions: ["The account menu shows the {{role}} role"],
+    max_steps: null,
+    start_url: "/login",
+    data_table: {
+      columns: ["role", "email"],
+      rows: [
+        { role: "admin", email: "admin@example.com" },
+        { role: "editor", email: "editor@example.com" },
+        { role: "viewer", email: "viewer@example.com" },
+      ],
+    },
+    position: 0,
     created_at: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString(),
     updated_at: null,
   },
@@ -466,16 +1423,51 @@ const mockScenarios: ScenarioResponse[] = [
     name: "Search for products and apply filters",
     description: "Test search and filter functionality",
     test_suite_id: 3,
+    steps: [],
+    assertions: [],
+    max_steps: null,
+    start_url: null,
+    data_table: null,
+    position: 0,
     created_at: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
     updated_at: null,
   },
 ];
 
+// Scenarios saved before they had an order keep their creation order
+const byScenarioPosition = (a: ScenarioResponse, b: ScenarioResponse) =>
+  (a.position ?? a.id) - (b.position ?? b.id) || a.id - b.id;
+
+const listSuiteScenarios = (testSuiteId: number): ScenarioResponse[] =>
+  mockScenarios.filter(s => s.test_suite_id === testSuiteId).sort(byScenarioPosition);
+
+/**
+ * Normalize and check the structured fields of a scenario create or update
+ */
+const checkMockScenarioDefinition = (scenario: ScenarioResponse): ScenarioResponse => {
+  const normalized = normalizeScenarioDefinition({
+    name: scenario.name ?? '',
+    description: scenario.description,
+    steps: scenario.steps ?? [],
+    assertions: scenario.assertions ?? [],
+    max_steps: scenario.max_steps ?? null,
+    start_url: scenario.start_url ?? null,
+    data_table: scenario.data_table ?? null,
+  });
+  const suite = mockTestSuites.find(s => s.id === scenario.test_suite_id);
+  const secretNames = suite ? listMockSecretNames(suite.project_id) : undefined;
+  const problem = Object.values(validateScenarioDefinition(normalized, secretNames))[0];
+  if (problem) {
+    throw new Error(problem);
+  }
+  return { ...scenario, ...normalized };
+};
+
 export const mockGetScenarios = async (testSuiteId?: number): Promise<ScenarioResponse[]> => {
   await new Promise(resolve => setTimeout(resolve, 300));
 
   if (testSuiteId) {
-    return mockScenarios.filter(s => s.test_suite_id === testSuiteId);
+    return listSuiteScenarios(testSuiteId);
   }
   return [...mockScenarios];
 };
@@ -490,6 +1482,86 @@ export const mockGetScenario = async (scenarioId: number): Promise<ScenarioRespo
   return { ...scenario };
 };
 
+export const mockCreateScenario = async (data: ScenarioCreate): Promise<ScenarioResponse> => {
+  await new Promise(resolve => setTimeout(resolve, 300));
+
+  if (!mockTestSuites.some(s => s.id === data.test_suite_id)) {
+    throw new Error(`Test suite with id ${data.test_suite_id} not found`);
+  }
+
+  const suiteScenarios = listSuiteScenarios(data.test_suite_id);
+  const newScenario = checkMockScenarioDefinition({
+    id: Math.max(...mockScenarios.map(s => s.id), 0) + 1,
+    name: data.name,
+    description: data.description || null,
+    test_suite_id: data.test_suite_id,
+    steps: data.steps ?? [],
+    assertions: data.assertions ?? [],
+    max_steps: data.max_steps ?? null,
+    start_url: data.start_url ?? null,
+    data_table: data.data_table ?? null,
+    position: Math.max(...suiteScenarios.map(s => s.position ?? s.id), -1) + 1,
+    created_at: new Date().toISOString(),
+    updated_at: null,
+  });
+
+  mockScenarios.push(newScenario);
+  return { ...newScenario };
+};
+
+export const mockUpdateScenario = async (scenarioId: number, data: ScenarioUpdate): Promise<ScenarioResponse> => {
+  await new Promise(resolve => setTimeout(resolve, 300));
+
+  const scenarioIndex = mockScenarios.findIndex(s => s.id === scenarioId);
+  if (scenarioIndex === -1) {
+    throw new Error(`Scenario with id ${scenarioId} not found`);
+  }
+
+  const updatedScenario = checkMockScenarioDefinition({
+    ...mockScenarios[scenarioIndex],
+    ...data,
+    name: data.name ?? mockScenarios[scenarioIndex].name,
+    id: scenarioId,
+    test_suite_id: mockScenarios[scenarioIndex].test_suite_id,
+    updated_at: new Date().toISOString(),
+  });
+
+  mockScenarios[scenarioIndex] = updatedScenario;
+  return { ...updatedScenario };
+};
+
+export const mockDeleteScenario = async (scenarioId: number): Promise<void> => {
+  await new Promise(resolve => setTimeout(resolve, 250));
+
+  const scenarioIndex = mockScenarios.findIndex(s => s.id === scenarioId);
+  if (scenarioIndex === -1) {
+    throw new Error(`Scenario with id ${scenarioId} not found`);
+  }
+
+  mockScenarios.splice(scenarioIndex, 1);
+};
+
+/**
+ * Mock PUT /api/scenarios/reorder
+ */
+export const mockReorderScenarios = async (testSuiteId: number, scenarioIds: number[]): Promise<ScenarioResponse[]> => {
+  await new Promise(resolve => setTimeout(resolve, 250));
+
+  const suiteScenarios = listSuiteScenarios(testSuiteId);
+  const isSameSet = scenarioIds.length === suiteScenarios.length
+    && new Set(scenarioIds).size === scenarioIds.length
+    && suiteScenarios.every(s => scenarioIds.includes(s.id));
+  if (!isSameSet) {
+    throw new Error('The new order must list every scenario in the suite exactly once');
+  }
+
+  scenarioIds.forEach((id, position) => {
+    const scenario = mockScenarios.find(s => s.id === id);
+    if (scenario) scenario.position = position;
+  });
+  return listSuiteScenarios(testSuiteId);
+};
+
 // ============================================================================
 // Schedules Mock Data
 // ============================================================================
@@ -497,7 +1569,8 @@ export const mockGetScenario = async (scenarioId: number): Promise<ScenarioRespo
 export interface ScheduleResponse {
   id: number;
   project_id: number;
-  test_suite_id: number;
+  test_suite_id: number | null;
+  tag: string | null;
   name: string;
   description: string | null;
   frequency: 'daily' | 'weekly' | 'monthly';
@@ -508,6 +1581,8 @@ export interface ScheduleResponse {
   start_date: string | null;
   end_date: string | null;
   is_active: boolean;
+  environment_id: number | null;
+  reset_context_before_run: boolean;
   last_run_at: string | null;
   next_run_at: string | null;
   created_at: string | null;
@@ -524,6 +1599,7 @@ const mockSchedules: ScheduleResponse[] = [
     id: 1,
     project_id: 1,
     test_suite_id: 1,
+    tag: null,
     name: "Daily Checkout Tests",
     description: "Run checkout tests every day",
     frequency: "daily",
@@ -534,6 +1610,8 @@ const mockSchedules: ScheduleResponse[] = [
     start_date: null,
     end_date: null,
     is_active: true,
+    environment_id: null,
+    reset_context_before_run: false,
     last_run_at: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
     next_run_at: new Date(Date.now() + 8 * 60 * 60 * 1000).toISOString(),
     created_at: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
@@ -548,6 +1626,7 @@ const mockSchedules: ScheduleResponse[] = [
     id: 2,
     project_id: 1,
     test_suite_id: 2,
+    tag: null,
     name: "Weekly Auth Tests",
     description: "Run authentication tests weekly",
     frequency: "weekly",
@@ -558,6 +1637,8 @@ const mockSchedules: ScheduleResponse[] = [
     start_date: null,
     end_date: null,
     is_active: true,
+    environment_id: null,
+    reset_context_before_run: false,
     last_run_at: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
     next_run_at: new Date(Date.now() + 1 * 24 * 60 * 60 * 1000).toISOString(),
     created_at: new Date(Date.now() - 14 * 24 * 60 * 60 * 1000).toISOString(),
@@ -568,6 +1649,29 @@ const mockSchedules: ScheduleResponse[] = [
       project_id: 1,
     },
   },
+  {
+    id: 3,
+    project_id: 1,
+    test_suite_id: null,
+    tag: "smoke",
+    name: "Nightly Smoke",
+    description: "Every suite tagged smoke, each night",
+    frequency: "daily",
+    time_of_day: "02:00:00",
+    timezone: "America/New_York",
+    days_of_week: null,
+    day_of_month: null,
+    start_date: null,
+    end_date: null,
+    is_active: true,
+    environment_id: null,
+    reset_context_before_run: true,
+    last_run_at: new Date(Date.now() - 14 * 60 * 60 * 1000).toISOString(),
+    next_run_at: new Date(Date.now() + 10 * 60 * 60 * 1000).toISOString(),
+    created_at: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
+    updated_at: null,
+    test_suite: null,
+  },
 ];
 
 export const mockGetSchedules = async (params?: any): Promise<ScheduleResponse[]> => {
@@ -601,10 +1705,17 @@ export const mockGetSchedule = async (scheduleId: number): Promise<ScheduleRespo
 export const mockCreateSchedule = async (data: any): Promise<ScheduleResponse> => {
   await new Promise(resolve => setTimeout(resolve, 400));
 
+  // A schedule targets one suite or every suite with a tag, never both
+  const tag = data.tag ? normalizeSuiteTag(data.tag) : null;
+  if (!data.test_suite_id === !tag) {
+    throw new Error('Choose either a test suite or a tag to schedule');
+  }
+
   const newSchedule: ScheduleResponse = {
     id: Math.max(...mockSchedules.map(s => s.id), 0) + 1,
     project_id: data.project_id,
-    test_suite_id: data.test_suite_id,
+    test_suite_id: data.test_suite_id ?? null,
+    tag,
     name: data.name,
     description: data.description || null,
     frequency: data.frequency,
@@ -615,6 +1726,8 @@ export const mockCreateSchedule = async (data: any): Promise<ScheduleResponse> =
     start_date: data.start_date || null,
     end_date: data.end_date || null,
     is_active: data.is_active !== undefined ? data.is_active : true,
+    environment_id: data.environment_id ?? null,
+    reset_context_before_run: data.reset_context_before_run ?? false,
     last_run_at: null,
     next_run_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
     created_at: new Date().toISOString(),
@@ -665,6 +1778,7 @@ export const mockDeleteSchedule = async (scheduleId: number): Promise<void> => {
 
 export interface SecretResponse {
   id: number;
+  project_id?: number | null;
   name: string;
   value_masked: string;
   description: string | null;
@@ -675,6 +1789,7 @@ export interface SecretResponse {
 const mockSecrets: SecretResponse[] = [
   {
     id: 1,
+    project_id: 1,
     name: "api_key",
     value_masked: "sk-*****1234",
     description: "API key for external service",
@@ -800,6 +1915,7 @@ export interface DashboardStatistics {
 
 export const mockGetDashboardStatistics = async (params?: any): Promise<DashboardStatistics> => {
   await new Promise(resolve => setTimeout(resolve, 300));
+  advanceSimulatedRuns();
 
   // Calculate from mock test runs
   const allRuns = mockTestRuns.filter(run => {
@@ -826,6 +1942,7 @@ export const mockGetDashboardStatistics = async (params?: any): Promise<Dashboar
 
 export const mockGetRecentTestRuns = async (params?: any): Promise<TestRunResponse[]> => {
   await new Promise(resolve => setTimeout(resolve, 300));
+  advanceSimulatedRuns();
 
   let runs = [...mockTestRuns];
 
@@ -1119,3 +2236,923 @@ export const mockDeleteMobileAppBuild = async (buildId: number): Promise<void> =
   throw new Error(`Build with id ${buildId} not found`);
 };
 
+
+// ============================================================================
+// Test Suite Attachments Mock Data
+// ============================================================================
+
+export interface MockAttachment {
+  id: number;
+  test_suite_id: number;
+  filename: string;
+  content_type?: string | null;
+  size: number;
+  storage_url?: string | null;
+  used_in_generation_at?: string | null;
+  created_at: string;
+}
+
+const mockAttachments: MockAttachment[] = [];
+
+// Small files are kept as data URLs so they can be previewed; larger ones would bloat the saved mock database
+const MOCK_ATTACHMENT_DATA_LIMIT = 256 * 1024;
+
+const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const listSuiteAttachments = (testSuiteId: number): MockAttachment[] =>
+  mockAttachments.filter(a => a.test_suite_id === testSuiteId).map(a => ({ ...a }));
+
+export const mockGetTestSuiteAttachments = async (testSuiteId: number): Promise<MockAttachment[]> => {
+  await new Promise(resolve => setTimeout(resolve, 200));
+  return listSuiteAttachments(testSuiteId);
+};
+
+/**
+ * Files over MOCK_ATTACHMENT_DATA_LIMIT keep only their metadata; the mock backend has no storage to serve them from
+ */
+export const mockUploadTestSuiteAttachments = async (testSuiteId: number, body: unknown): Promise<MockAttachment[]> => {
+  await new Promise(resolve => setTimeout(resolve, 500));
+
+  if (!mockTestSuites.some(s => s.id === testSuiteId)) {
+    throw new Error(`Test suite with id ${testSuiteId} not found`);
+  }
+
+  const files = body instanceof FormData
+    ? body.getAll('files').filter((entry): entry is File => entry instanceof File)
+    : [];
+
+  const uploaded: MockAttachment[] = [];
+  for (const file of files) {
+    const attachment: MockAttachment = {
+      id: Math.max(...mockAttachments.map(a => a.id), 0) + 1,
+      test_suite_id: testSuiteId,
+      filename: file.name,
+      content_type: file.type || null,
+      size: file.size,
+      storage_url: file.size <= MOCK_ATTACHMENT_DATA_LIMIT ? await readFileAsDataUrl(file) : null,
+      used_in_generation_at: null,
+      created_at: new Date().toISOString(),
+    };
+    mockAttachments.push(attachment);
+    uploaded.push({ ...attachment });
+  }
+  return uploaded;
+};
+
+export const mockDeleteTestSuiteAttachment = async (testSuiteId: number, attachmentId: number): Promise<void> => {
+  await new Promise(resolve => setTimeout(resolve, 200));
+
+  const index = mockAttachments.findIndex(a => a.id === attachmentId && a.test_suite_id === testSuiteId);
+  if (index === -1) {
+    throw new Error(`Attachment with id ${attachmentId} not found`);
+  }
+  mockAttachments.splice(index, 1);
+};
+
+// ============================================================================
+// Suite Environments Mock Data
+// ============================================================================
+
+export interface SuiteEnvironmentResponse {
+  id: number;
+  test_suite_id: number;
+  name: string;
+  base_url: string;
+  variables: Record<string, string>;
+  secret_bindings: Array<{ name: string; secret_id: number }>;
+  is_default: boolean;
+  created_at: string;
+  updated_at: string | null;
+}
+
+const mockSuiteEnvironments: SuiteEnvironmentResponse[] = [
+  {
+    id: 1,
+    test_suite_id: 1,
+    name: "Production",
+    base_url: "https://demo-store.example.com",
+    variables: {},
+    secret_bindings: [],
+    is_default: true,
+    created_at: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
+    updated_at: null,
+  },
+  {
+    id: 2,
+    test_suite_id: 1,
+    name: "Staging",
+    base_url: "https://staging.demo-store.example.com",
+    variables: { coupon_code: "STAGING10" },
+    secret_bindings: [
+      { name: "username", secret_id: 2 },
+      { name: "password", secret_id: 3 },
+    ],
+    is_default: false,
+    created_at: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString(),
+    updated_at: null,
+  },
+];
+
+const listSuiteEnvironments = (testSuiteId: number): SuiteEnvironmentResponse[] =>
+  mockSuiteEnvironments.filter(e => e.test_suite_id === testSuiteId).map(e => ({ ...e }));
+
+const findMockSuiteEnvironment = (testSuiteId: number, environmentId: number): SuiteEnvironmentResponse => {
+  const environment = mockSuiteEnvironments.find(e => e.id === environmentId && e.test_suite_id === testSuiteId);
+  if (!environment) {
+    throw new Error(`Environment with id ${environmentId} not found`);
+  }
+  return environment;
+};
+
+// Mirrors the backend's 422s: a name unique within the suite and an absolute http(s) base URL
+const validateMockSuiteEnvironment = (testSuiteId: number, data: Partial<SuiteEnvironmentResponse>, environmentId?: number) => {
+  if (data.name !== undefined) {
+    if (!data.name?.trim()) {
+      throw new Error('Environment name is required');
+    }
+    const taken = mockSuiteEnvironments.some(e =>
+      e.test_suite_id === testSuiteId && e.id !== environmentId && e.name.toLowerCase() === data.name!.trim().toLowerCase()
+    );
+    if (taken) {
+      throw new Error(`An environment named "${data.name.trim()}" already exists`);
+    }
+  }
+  if (data.base_url !== undefined && !/^https?:\/\/\S+$/i.test(data.base_url ?? '')) {
+    throw new Error('Base URL must start with http:// or https://');
+  }
+  (data.secret_bindings ?? []).forEach(binding => {
+    if (!mockSecrets.some(secret => secret.id === binding.secret_id)) {
+      throw new Error(`Secret with id ${binding.secret_id} not found`);
+    }
+  });
+};
+
+// At most one default per suite
+const makeOnlyDefault = (environment: SuiteEnvironmentResponse) => {
+  mockSuiteEnvironments.forEach(e => {
+    if (e.test_suite_id === environment.test_suite_id && e.id !== environment.id) {
+      e.is_default = false;
+    }
+  });
+};
+
+export const mockGetSuiteEnvironments = async (testSuiteId: number): Promise<SuiteEnvironmentResponse[]> => {
+  await new Promise(resolve => setTimeout(resolve, 200));
+  return listSuiteEnvironments(testSuiteId);
+};
+
+export const mockCreateSuiteEnvironment = async (
+  testSuiteId: number,
+  data: Partial<SuiteEnvironmentResponse>
+): Promise<SuiteEnvironmentResponse> => {
+  await new Promise(resolve => setTimeout(resolve, 300));
+
+  if (!mockTestSuites.some(s => s.id === testSuiteId)) {
+    throw new Error(`Test suite with id ${testSuiteId} not found`);
+  }
+  const name = (data.name ?? '').trim();
+  const baseUrl = (data.base_url ?? '').trim();
+  validateMockSuiteEnvironment(testSuiteId, { ...data, name, base_url: baseUrl });
+
+  const environment: SuiteEnvironmentResponse = {
+    id: Math.max(...mockSuiteEnvironments.map(e => e.id), 0) + 1,
+    test_suite_id: testSuiteId,
+    name,
+    base_url: baseUrl,
+    variables: data.variables || {},
+    secret_bindings: data.secret_bindings || [],
+    // The first environment of a suite becomes its default
+    is_default: Boolean(data.is_default) || !mockSuiteEnvironments.some(e => e.test_suite_id === testSuiteId),
+    created_at: new Date().toISOString(),
+    updated_at: null,
+  };
+  mockSuiteEnvironments.push(environment);
+  if (environment.is_default) {
+    makeOnlyDefault(environment);
+  }
+  return { ...environment };
+};
+
+export const mockUpdateSuiteEnvironment = async (
+  testSuiteId: number,
+  environmentId: number,
+  data: Partial<SuiteEnvironmentResponse>
+): Promise<SuiteEnvironmentResponse> => {
+  await new Promise(resolve => setTimeout(resolve, 300));
+
+  const environment = findMockSuiteEnvironment(testSuiteId, environmentId);
+  const updates = Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== null && value !== undefined)
+  ) as Partial<SuiteEnvironmentResponse>;
+  validateMockSuiteEnvironment(testSuiteId, updates, environmentId);
+
+  Object.assign(environment, updates, {
+    name: updates.name?.trim() ?? environment.name,
+    base_url: updates.base_url?.trim() ?? environment.base_url,
+    updated_at: new Date().toISOString(),
+  });
+  if (environment.is_default) {
+    makeOnlyDefault(environment);
+  }
+  return { ...environment };
+};
+
+export const mockDeleteSuiteEnvironment = async (testSuiteId: number, environmentId: number): Promise<void> => {
+  await new Promise(resolve => setTimeout(resolve, 200));
+
+  const environment = findMockSuiteEnvironment(testSuiteId, environmentId);
+  removeWhere(mockSuiteEnvironments, e => e.id === environmentId);
+
+  // Schedules that targeted it run against the default instead
+  mockSchedules.forEach(schedule => {
+    if (schedule.environment_id === environmentId) {
+      schedule.environment_id = null;
+    }
+  });
+  if (environment.is_default) {
+    const next = mockSuiteEnvironments.find(e => e.test_suite_id === testSuiteId);
+    if (next) {
+      next.is_default = true;
+    }
+  }
+};
+
+// ============================================================================
+// Scenario Generation Mock Data
+// ============================================================================
+
+// Refinement suggestions by category; `focus` is what the refinement asks about, else the suite name
+const MOCK_REFINEMENT_TEMPLATES: Record<ScenarioCoverageCategory, Array<(focus: string) => string>> = {
+  happy_path: [
+    (focus) => `Complete the main ${focus} flow from start to finish and verify the success message`,
+    (focus) => `Open ${focus} from the navigation and verify its content is shown`,
+  ],
+  validation: [
+    (focus) => `Submit ${focus} with missing required fields and verify each field shows an error`,
+    (focus) => `Enter values in the wrong format for ${focus} and verify they are rejected`,
+  ],
+  auth: [
+    (focus) => `Open ${focus} while logged out and verify the login page is shown`,
+    (focus) => `Open ${focus} as a user without permission and verify access is denied`,
+  ],
+  edge_case: [
+    (focus) => `Submit ${focus} twice in quick succession and verify it is only processed once`,
+    (focus) => `Use the maximum allowed length in every ${focus} field and verify nothing is cut off`,
+    (focus) => `Lose the network connection during ${focus} and verify a retry is offered`,
+  ],
+};
+
+const MOCK_REFINEMENT_CATEGORY_HINTS: Array<[ScenarioCoverageCategory, RegExp]> = [
+  ['edge_case', /\bedge|unusual|corner|boundar/i],
+  ['validation', /\bvalidat|invalid|error|missing/i],
+  ['auth', /\bauth|log ?in|permission|role|access/i],
+  ['happy_path', /\bhappy|main|success/i],
+];
+
+/**
+ * Mock POST /api/scenario-generation/generate
+ * Reads the requested attachments it can parse (images, PDFs and text) and records that it used them.
+ * With a refinement it suggests scenarios for the categories and topic asked about, skipping ones
+ * already generated, rejected or in the suite.
+ */
+export const mockGenerateScenarios = async (
+  data: ScenarioGenerationRequest
+): Promise<ScenarioGenerationResponse> => {
+  await new Promise(resolve => setTimeout(resolve, 1200));
+
+  const requestedIds: number[] = Array.isArray(data.attachment_ids) ? data.attachment_ids : [];
+  const usedAt = new Date().toISOString();
+  const readAttachments = mockAttachments.filter(a =>
+    a.test_suite_id === data.test_suite_id &&
+    requestedIds.includes(a.id) &&
+    getAttachmentPreviewKind(a.content_type, a.filename) !== null
+  );
+  readAttachments.forEach(a => {
+    a.used_in_generation_at = usedAt;
+  });
+
+  const subject = data.test_suite_name || 'the application';
+  const refinement: string = typeof data.refinement === 'string' ? data.refinement : '';
+  const isRefining = !!refinement || (Array.isArray(data.previous_scenarios) && data.previous_scenarios.length > 0);
+
+  let scenarios: string[];
+  let categories: ScenarioCoverageCategory[];
+  if (!isRefining) {
+    scenarios = [
+      `Open ${subject} and verify the landing page loads without errors`,
+      `Navigate through the main menu and check that every link opens the right page`,
+      `Submit the primary form with valid data and verify the confirmation message`,
+      `Submit the primary form with missing required fields and verify validation errors are shown`,
+      `Resize to a mobile viewport and verify the layout adapts`,
+      ...readAttachments.map(a => `Walk through the flow shown in ${a.filename} and verify each step matches it`),
+    ];
+    categories = scenarios.map(guessScenarioCategory);
+  } else {
+    const focus = refinement.match(/\b(?:around|about|for|on|in)\s+(?:the\s+)?(.+)$/i)?.[1]?.trim() || subject;
+    const asked = MOCK_REFINEMENT_CATEGORY_HINTS.filter(([, pattern]) => pattern.test(refinement)).map(([category]) => category);
+    const wanted = asked.length > 0 ? asked : (Object.keys(MOCK_REFINEMENT_TEMPLATES) as ScenarioCoverageCategory[]);
+    const known = new Set(
+      [
+        ...(data.previous_scenarios ?? []),
+        ...(data.existing_scenarios ?? []),
+        ...(data.rejected_scenarios ?? []).map((rejected: { scenario: string }) => rejected.scenario),
+      ].map((text: string) => text.toLowerCase())
+    );
+    const suggestions = wanted
+      .flatMap(category => MOCK_REFINEMENT_TEMPLATES[category].map(template => ({ text: template(focus), category })))
+      .filter(suggestion => !known.has(suggestion.text.toLowerCase()));
+    scenarios = suggestions.map(suggestion => suggestion.text);
+    categories = suggestions.map(suggestion => suggestion.category);
+  }
+
+  return {
+    scenarios,
+    attachment_ids: readAttachments.map(a => a.id),
+    categories,
+  };
+};
+
+export const mockGetExplorationActions = async (data: ExplorationActionsRequest): Promise<ExplorationActionsResponse> => {
+  await new Promise(resolve => setTimeout(resolve, 600));
+
+  const actions = [
+    { name: 'scroll_document', args: { direction: 'down' }, description: 'Scroll to reveal more content' },
+    { name: 'click_at', args: { x: 640, y: 120 }, description: 'Open the main navigation' },
+    { name: 'scroll_document', args: { direction: 'up' }, description: 'Return to the top of the page' },
+  ];
+  return { actions: actions.slice(0, data.max_actions || actions.length) };
+};
+
+// ============================================================================
+// Live Runs Mock Data
+// ============================================================================
+
+interface MockLiveSession {
+  pod_instance_id: string;
+  platform: string;
+  status: 'running' | 'stopped';
+  test_run_id: number | null;
+  created_at: string;
+}
+
+const mockLiveSessions: MockLiveSession[] = [];
+
+const findLiveSession = (podInstanceId: string): MockLiveSession => {
+  const session = mockLiveSessions.find(s => s.pod_instance_id === podInstanceId && s.status === 'running');
+  if (!session) {
+    throw new Error(`Session ${podInstanceId} not found`);
+  }
+  return session;
+};
+
+/**
+ * The setup a run of `suite` does first, with a shared block expanded
+ */
+const planMockPreconditions = (suite: TestSuiteResponse): SimulatedPreconditions | null => {
+  const preconditions = suite.preconditions_enabled ? parseSuitePreconditions(suite.preconditions) : null;
+  if (!preconditions) {
+    return null;
+  }
+  const block = preconditions.block_id !== null
+    ? mockPreconditionBlocks.find(b => b.id === preconditions.block_id)
+    : undefined;
+  const flow = block ?? preconditions;
+  const secretNames = listMockSecretNames(suite.project_id);
+  return {
+    block_id: block?.id ?? null,
+    block_name: block?.name ?? null,
+    steps: flow.steps.map(step => ({ ...step })),
+    success_check: flow.success_check,
+    missing_secrets: flow.steps
+      .map(step => step.secret_name)
+      .filter((name): name is string => !!name && !secretNames.includes(name)),
+  };
+};
+
+/**
+ * Start simulating the agent working through `scenarioIds` for a test run
+ */
+const startRunSimulation = (testRunId: number, scenarioIds: number[], scenarioNames: string[], baseUrl?: string) => {
+  const run = mockTestRuns.find(r => r.id === testRunId);
+  if (!run) {
+    throw new Error(`Test run with id ${testRunId} not found`);
+  }
+  const suite = mockTestSuites.find(s => s.id === run.test_suite_id);
+  const secretNames = suite ? listMockSecretNames(suite.project_id) : [];
+  // Data-driven scenarios run once per row; secrets stay as placeholders and are checked, never filled in
+  const toSimulated = (scenario: ScenarioResponse): SimulatedScenarioPlan[] => {
+    const texts = [scenario.name, scenario.start_url, ...(scenario.steps ?? []), ...(scenario.assertions ?? [])];
+    const missingSecrets = findPlaceholders(texts).secrets.filter(name => !secretNames.includes(name));
+    const iterations = getScenarioIterations(scenario.data_table) ?? [null];
+    return iterations.map(iteration => {
+      const fill = (text: string) => (iteration ? fillPlaceholders(text, iteration.values) : text);
+      return {
+        id: scenario.id,
+        name: scenario.name,
+        steps: (scenario.steps ?? []).map(fill),
+        assertions: (scenario.assertions ?? []).map(fill),
+        max_steps: scenario.max_steps ?? null,
+        start_url: scenario.start_url ? fill(scenario.start_url) : null,
+        iteration,
+        missing_secrets: missingSecrets,
+      };
+    });
+  };
+  const scenarios = scenarioIds.length
+    ? scenarioIds.flatMap((id, index) => {
+        const scenario = mockScenarios.find(s => s.id === id);
+        return scenario ? toSimulated(scenario) : [{ id, name: scenarioNames[index] || `Scenario ${id}` }];
+      })
+    : listSuiteScenarios(run.test_suite_id).flatMap(toSimulated);
+
+  removeWhere(mockRunSimulations, sim => sim.test_run_id === testRunId);
+  mockRunSimulations.push({
+    test_run_id: testRunId,
+    scenarios,
+    application_url: baseUrl || suite?.application_url || 'https://example.com',
+    preconditions: suite ? planMockPreconditions(suite) : null,
+    started_at: new Date().toISOString(),
+    stopped_at: null,
+  });
+
+  Object.assign(run, {
+    status: 'running',
+    total_scenarios: scenarios.length,
+    passed_scenarios: 0,
+    failed_scenarios: 0,
+    completed_at: null,
+  });
+};
+
+/**
+ * Freeze a simulated run where it is; unfinished runs end up failed
+ */
+const stopRunSimulation = (testRunId: number | null) => {
+  const simulation = mockRunSimulations.find(sim => sim.test_run_id === testRunId);
+  if (simulation && !simulation.stopped_at) {
+    advanceSimulatedRuns();
+    const run = mockTestRuns.find(r => r.id === testRunId);
+    if (run && !run.completed_at) {
+      simulation.stopped_at = new Date().toISOString();
+      advanceSimulatedRuns();
+    }
+  }
+};
+
+export const mockLaunchRuntime = async (data: RuntimeLaunchRequest): Promise<RuntimeLaunchResponse> => {
+  await new Promise(resolve => setTimeout(resolve, 800));
+
+  const session: MockLiveSession = {
+    pod_instance_id: createMockId('mock-pod'),
+    platform: data.platform || 'web',
+    status: 'running',
+    test_run_id: null,
+    created_at: new Date().toISOString(),
+  };
+  mockLiveSessions.push(session);
+
+  // No stream to connect to, so the viewer shows its idle placeholder
+  return { status: 'running', pod_instance_id: session.pod_instance_id, stream_url: '' };
+};
+
+export const mockTriggerLiveRun = async (data: LiveRunTriggerRequest): Promise<LiveRunTriggerResponse> => {
+  await new Promise(resolve => setTimeout(resolve, 800));
+
+  const run = await mockCreateTestRun({ test_suite_id: data.suite_id, run_type: 'live' });
+  run.platform = data.platform || 'web';
+  startRunSimulation(run.id, data.scenario_id ? [data.scenario_id] : [], []);
+
+  const session: MockLiveSession = {
+    pod_instance_id: createMockId('mock-pod'),
+    platform: data.platform || 'web',
+    status: 'running',
+    test_run_id: run.id,
+    created_at: new Date().toISOString(),
+  };
+  mockLiveSessions.push(session);
+
+  return {
+    status: 'running',
+    schedule_id: null,
+    message_id: createMockId('mock-message'),
+    test_run_id: run.id,
+    pod_instance_id: session.pod_instance_id,
+    stream_url: '',
+  };
+};
+
+/**
+ * Matrix runs are headless: one simulated run per viewport and no live session to watch
+ */
+export const mockTriggerMatrixRun = async (data: {
+  suite_id: number;
+  resolutions?: string[];
+  environment_id?: number | null;
+}): Promise<{ matrix_id: string; runs: Array<{ resolution: string; test_run_id: number }> }> => {
+  await new Promise(resolve => setTimeout(resolve, 800));
+
+  const requested: string[] = Array.isArray(data.resolutions) ? data.resolutions : [];
+  const projectId = mockTestSuites.find(s => s.id === data.suite_id)?.project_id;
+  // Presets, or device profiles of the suite's own project
+  const resolutions = Array.from(new Set(requested.map(value => {
+    const profileId = getDeviceProfileId(value);
+    if (profileId === null) {
+      return normalizeResolution(value);
+    }
+    return mockDeviceProfiles.some(p => p.id === profileId && p.project_id === projectId) ? deviceProfileValue(profileId) : null;
+  })));
+  if (resolutions.length === 0 || resolutions.some(value => value === null)) {
+    throw new Error('Pick at least one supported resolution');
+  }
+  const environment = data.environment_id
+    ? mockSuiteEnvironments.find(e => e.id === data.environment_id && e.test_suite_id === data.suite_id)
+    : mockSuiteEnvironments.find(e => e.test_suite_id === data.suite_id && e.is_default);
+
+  const matrixId = createMockId('mock-matrix');
+  const runs = [];
+  for (const resolution of resolutions as string[]) {
+    const run = await mockCreateTestRun({
+      test_suite_id: data.suite_id,
+      run_type: 'matrix',
+      environment_id: environment?.id ?? null,
+    });
+    Object.assign(run, { platform: 'web', resolution, matrix_id: matrixId });
+    startRunSimulation(run.id, [], [], environment?.base_url);
+    runs.push({ resolution, test_run_id: run.id });
+  }
+
+  return { matrix_id: matrixId, runs };
+};
+
+export const mockStopLiveSession = async (podInstanceId: string, testRunId?: number): Promise<StopSessionResponse> => {
+  await new Promise(resolve => setTimeout(resolve, 400));
+
+  const session = findLiveSession(podInstanceId);
+  session.status = 'stopped';
+  const runId = testRunId ?? session.test_run_id;
+  stopRunSimulation(runId);
+
+  return {
+    status: 'stopped',
+    pod_instance_id: podInstanceId,
+    job_deleted: true,
+    service_deleted: true,
+    test_run_updated: runId !== null,
+  };
+};
+
+export const mockStartAgentInSession = async (podInstanceId: string, data: AgentStartRequest): Promise<AgentControlResponse> => {
+  await new Promise(resolve => setTimeout(resolve, 400));
+
+  const session = findLiveSession(podInstanceId);
+  const inputs = data?.run_request?.inputs || {};
+  if (!inputs.test_run_id) {
+    throw new Error('run_request.inputs.test_run_id is required');
+  }
+  stopRunSimulation(session.test_run_id);
+  startRunSimulation(inputs.test_run_id, inputs.scenario_ids || [], inputs.scenarios || [], inputs.base_url);
+  session.test_run_id = inputs.test_run_id;
+
+  return { ok: true, result: { status: 'started', test_run_id: inputs.test_run_id } };
+};
+
+export const mockStopAgentInSession = async (podInstanceId: string): Promise<AgentControlResponse> => {
+  await new Promise(resolve => setTimeout(resolve, 300));
+
+  const session = findLiveSession(podInstanceId);
+  stopRunSimulation(session.test_run_id);
+  return { ok: true, result: { status: 'stopped' } };
+};
+
+export const mockGetAgentStatusInSession = async (podInstanceId: string): Promise<AgentControlResponse> => {
+  await new Promise(resolve => setTimeout(resolve, 200));
+
+  const session = findLiveSession(podInstanceId);
+  advanceSimulatedRuns();
+  const run = mockTestRuns.find(r => r.id === session.test_run_id);
+  return {
+    ok: true,
+    result: {
+      status: run?.status === 'running' ? 'running' : 'idle',
+      test_run_id: session.test_run_id,
+    },
+  };
+};
+
+export const mockResetBrowserInSession = async (podInstanceId: string, data: BrowserResetRequest): Promise<AgentControlResponse> => {
+  await new Promise(resolve => setTimeout(resolve, 300));
+
+  findLiveSession(podInstanceId);
+  return { ok: true, result: { status: 'reset', url: data?.url ?? null } };
+};
+
+export const mockGetWebrtcIceServers = async (): Promise<{ iceServers: RTCIceServer[] }> => {
+  return { iceServers: [] };
+};
+
+// ============================================================================
+// Computer Use Mock Data
+// ============================================================================
+
+interface MockAgentStep {
+  step_id: number;
+  step_number: number;
+  reasoning: string;
+  actions: Array<{ name: string; args: Record<string, unknown> }>;
+  status: string;
+  created_at: string;
+}
+
+interface MockAgentSession {
+  session_uuid: string;
+  session_id: number;
+  query: string;
+  initial_url: string;
+  status: string;
+  steps: MockAgentStep[];
+  final_reasoning: string | null;
+  created_at: string;
+  updated_at: string | null;
+}
+
+// The simulated agent declares the task done after this many steps
+const MOCK_AGENT_STEP_COUNT = 5;
+
+const mockAgentSessions: MockAgentSession[] = [];
+
+const findAgentSession = (sessionUuid: string): MockAgentSession => {
+  const session = mockAgentSessions.find(s => s.session_uuid === sessionUuid);
+  if (!session) {
+    throw new Error(`Session ${sessionUuid} not found`);
+  }
+  return session;
+};
+
+export const mockCreateAgentSession = async (data: CreateAgentSessionRequest): Promise<SessionCreateResponse> => {
+  await new Promise(resolve => setTimeout(resolve, 400));
+
+  const session: MockAgentSession = {
+    session_uuid: createMockId('mock-session'),
+    session_id: Math.max(...mockAgentSessions.map(s => s.session_id), 0) + 1,
+    query: data.query,
+    initial_url: data.initial_url,
+    status: 'active',
+    steps: [],
+    final_reasoning: null,
+    created_at: new Date().toISOString(),
+    updated_at: null,
+  };
+  mockAgentSessions.push(session);
+
+  return {
+    session_uuid: session.session_uuid,
+    session_id: session.session_id,
+    status: session.status,
+    message: 'Session created',
+  };
+};
+
+export const mockExecuteAgentStep = async (sessionUuid: string): Promise<StepExecuteResponse> => {
+  await new Promise(resolve => setTimeout(resolve, 700));
+
+  const session = findAgentSession(sessionUuid);
+  if (session.status !== 'active') {
+    throw new Error(`Session ${sessionUuid} is ${session.status}`);
+  }
+
+  const stepNumber = session.steps.length + 1;
+  const isLast = stepNumber >= MOCK_AGENT_STEP_COUNT;
+  const step: MockAgentStep = {
+    step_id: stepNumber + session.session_id * 1000,
+    step_number: stepNumber,
+    reasoning: isLast
+      ? `The goal "${session.query}" has been reached.`
+      : `Step ${stepNumber} towards: ${session.query}`,
+    actions: isLast ? [] : [{ name: 'click_at', args: { x: 200 + stepNumber * 80, y: 300 } }],
+    status: 'pending',
+    created_at: new Date().toISOString(),
+  };
+  session.steps.push(step);
+  session.updated_at = step.created_at;
+
+  if (isLast) {
+    step.status = 'completed';
+    session.status = 'completed';
+    session.final_reasoning = step.reasoning;
+  }
+
+  return {
+    step_id: step.step_id,
+    step_number: step.step_number,
+    reasoning: step.reasoning,
+    actions: step.actions,
+    status: session.status,
+    final_reasoning: session.final_reasoning ?? undefined,
+  };
+};
+
+export const mockCompleteAgentStep = async (sessionUuid: string, stepId: number): Promise<{ status: string; step_id: number }> => {
+  await new Promise(resolve => setTimeout(resolve, 200));
+
+  const session = findAgentSession(sessionUuid);
+  const step = session.steps.find(s => s.step_id === stepId);
+  if (!step) {
+    throw new Error(`Step with id ${stepId} not found`);
+  }
+  step.status = 'completed';
+  session.updated_at = new Date().toISOString();
+  return { status: 'completed', step_id: stepId };
+};
+
+export const mockGetAgentSessionStatus = async (sessionUuid: string): Promise<SessionStatusResponse> => {
+  await new Promise(resolve => setTimeout(resolve, 150));
+
+  const session = findAgentSession(sessionUuid);
+  return {
+    session_uuid: session.session_uuid,
+    status: session.status,
+    step_count: session.steps.length,
+    final_reasoning: session.final_reasoning ?? undefined,
+    created_at: session.created_at,
+    updated_at: session.updated_at ?? undefined,
+  };
+};
+
+export const mockGetLatestSessionScreenshot = async (
+  sessionUuid: string
+): Promise<{ session_uuid: string; step_number: number; screenshot_url: string }> => {
+  await new Promise(resolve => setTimeout(resolve, 150));
+
+  const session = findAgentSession(sessionUuid);
+  const lastStep = session.steps[session.steps.length - 1];
+  return {
+    session_uuid: session.session_uuid,
+    step_number: lastStep?.step_number ?? 0,
+    screenshot_url: createSyntheticScreenshot({
+      url: session.initial_url,
+      title: lastStep ? `Step ${lastStep.step_number}` : 'Start',
+      caption: lastStep?.reasoning ?? session.query,
+      tone: session.status === 'completed' ? 'success' : 'neutral',
+    }),
+  };
+};
+
+export const mockGetAgentSessionHistory = async (sessionUuid: string): Promise<SessionHistoryResponse> => {
+  await new Promise(resolve => setTimeout(resolve, 200));
+
+  const session = findAgentSession(sessionUuid);
+  return {
+    session_uuid: session.session_uuid,
+    query: session.query,
+    status: session.status,
+    steps: session.steps.map(step => ({
+      step_number: step.step_number,
+      reasoning: step.reasoning,
+      status: step.status,
+      actions: step.actions,
+      created_at: step.created_at,
+    })),
+    final_reasoning: session.final_reasoning ?? undefined,
+  };
+};
+
+// ============================================================================
+// Auth Mock Data
+// ============================================================================
+
+export interface MockAuthSession {
+  id: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_active_at: string | null;
+  is_current: boolean;
+}
+
+const mockAuthSessions: MockAuthSession[] = [
+  {
+    id: 'current',
+    user_agent: typeof navigator === 'undefined' ? null : navigator.userAgent,
+    ip_address: '127.0.0.1',
+    created_at: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
+    last_active_at: new Date().toISOString(),
+    is_current: true,
+  },
+  {
+    id: 'mock-session-laptop',
+    user_agent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Safari/605.1.15',
+    ip_address: '203.0.113.24',
+    created_at: new Date(Date.now() - 6 * 24 * 60 * 60 * 1000).toISOString(),
+    last_active_at: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
+    is_current: false,
+  },
+];
+
+export const mockChangePassword = async (data: PasswordChange): Promise<{ message: string }> => {
+  await new Promise(resolve => setTimeout(resolve, 400));
+
+  if (!data.current_password || !data.new_password) {
+    throw new Error('Both the current and the new password are required');
+  }
+  if (data.current_password === data.new_password) {
+    throw new Error('The new password must be different from the current one');
+  }
+  return { message: 'Password changed successfully' };
+};
+
+export const mockGetAuthSessions = async (): Promise<MockAuthSession[]> => {
+  await new Promise(resolve => setTimeout(resolve, 200));
+  return mockAuthSessions.map(session => ({ ...session }));
+};
+
+export const mockRevokeAuthSession = async (sessionId: string): Promise<void> => {
+  await new Promise(resolve => setTimeout(resolve, 200));
+
+  const index = mockAuthSessions.findIndex(session => session.id === sessionId);
+  if (index === -1) {
+    throw new Error(`Session ${sessionId} not found`);
+  }
+  mockAuthSessions.splice(index, 1);
+};
+
+export const mockRevokeAllAuthSessions = async (): Promise<void> => {
+  await new Promise(resolve => setTimeout(resolve, 300));
+  // Only the other sessions disappear; the mock user stays signed in on the next load
+  removeWhere(mockAuthSessions, session => !session.is_current);
+};
+
+// ============================================================================
+// Mock Database Persistence
+// ============================================================================
+
+const MOCK_DB_STORAGE_KEY = 'kplr_mock_db';
+
+// Every collection that is saved; pendingUploads is deliberately left out
+const mockCollections = {
+  projects: mockProjects,
+  testSuites: mockTestSuites,
+  testRuns: mockTestRuns,
+  runSimulations: mockRunSimulations,
+  scenarios: mockScenarios,
+  schedules: mockSchedules,
+  secrets: mockSecrets,
+  mobileApps: mockMobileApps,
+  attachments: mockAttachments,
+  suiteEnvironments: mockSuiteEnvironments,
+  liveSessions: mockLiveSessions,
+  agentSessions: mockAgentSessions,
+  authSessions: mockAuthSessions,
+  projectMembers: mockProjectMembers,
+  projectInvitations: mockProjectInvitations,
+  deviceProfiles: mockDeviceProfiles,
+  preconditionBlocks: mockPreconditionBlocks,
+};
+
+type MockCollections = typeof mockCollections;
+
+const restoreMockDb = () => {
+  try {
+    const stored = localStorage.getItem(MOCK_DB_STORAGE_KEY);
+    if (!stored) return;
+    const saved = JSON.parse(stored) as Partial<MockCollections>;
+    (Object.keys(mockCollections) as Array<keyof MockCollections>).forEach(name => {
+      const items = saved[name];
+      if (Array.isArray(items)) {
+        const collection = mockCollections[name] as unknown[];
+        collection.splice(0, collection.length, ...items);
+      }
+    });
+    nextAppId = Math.max(...mockMobileApps.map(app => app.id), 0) + 1;
+    nextBuildId = Math.max(...mockMobileApps.flatMap(app => (app.builds || []).map(build => build.id)), 0) + 1;
+  } catch (error) {
+    console.warn('Ignoring unreadable mock database:', error);
+  }
+};
+
+/**
+ * Save the mock database so it survives page reloads
+ */
+export const persistMockDb = () => {
+  try {
+    localStorage.setItem(MOCK_DB_STORAGE_KEY, JSON.stringify(mockCollections));
+  } catch (error) {
+    console.warn('Failed to persist mock database:', error);
+  }
+};
+
+/**
+ * Drop everything saved by the mock backend; the seed data is back after the next reload
+ */
+export const resetMockDatabase = () => {
+  localStorage.removeItem(MOCK_DB_STORAGE_KEY);
+};
+
+if (shouldUseMockApi()) {
+  restoreMockDb();
+}
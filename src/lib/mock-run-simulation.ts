@@ -0,0 +1,402 @@
+/**
+ * Simulated test run progression for the mock backend
+ *
+ * Progress is derived from the time elapsed since the agent started, so a run keeps moving
+ * (and finishes) across page reloads without any timers.
+ */
+
+import { resolveScenarioStartUrl } from './scenario-definition';
+import { findPlaceholders, type ScenarioIteration } from './scenario-parameters';
+
+export interface SimulatedPreconditions {
+  block_id: number | null;
+  block_name: string | null;
+  steps: Array<{ instruction: string; secret_name: string | null }>;
+  success_check: string | null;
+  /** Referenced secrets that don't exist; the first step using one fails the setup */
+  missing_secrets: string[];
+}
+
+export interface SimulatedScenarioPlan {
+  id: number;
+  name: string;
+  /** Structured scenarios are followed step by step instead of splitting the name */
+  steps?: string[];
+  assertions?: string[];
+  max_steps?: number | null;
+  start_url?: string | null;
+  /** Set for one row of a data-driven scenario; the texts above already have the row filled in */
+  iteration?: ScenarioIteration | null;
+  /** Secrets the scenario uses that don't exist; the first step using one fails the scenario */
+  missing_secrets?: string[];
+}
+
+export interface MockRunSimulation {
+  test_run_id: number;
+  scenarios: SimulatedScenarioPlan[];
+  application_url: string;
+  /** Setup that runs before the first scenario */
+  preconditions?: SimulatedPreconditions | null;
+  started_at: string;
+  stopped_at: string | null;
+}
+
+export interface SimulatedStep {
+  id: number;
+  step_number: number;
+  action: string;
+  reasoning?: string;
+  status: string;
+  before_screenshot_url?: string;
+  after_screenshot_url?: string;
+  console_logs: string[];
+  network_logs: string[];
+  created_at?: string;
+}
+
+export interface SimulatedScenario {
+  id: number;
+  name: string;
+  status: 'pending' | 'running' | 'passed' | 'failed';
+  steps: SimulatedStep[];
+  iteration_index: number | null;
+  iteration_values: Record<string, string> | null;
+}
+
+export interface SimulatedPreconditionResult {
+  block_id: number | null;
+  block_name: string | null;
+  status: 'pending' | 'running' | 'passed' | 'failed';
+  steps: Array<{
+    step_number: number;
+    instruction: string;
+    secret_name: string | null;
+    status: 'pending' | 'running' | 'passed' | 'failed' | 'skipped';
+    reasoning?: string;
+    screenshot_url?: string;
+  }>;
+  success_check: string | null;
+  success_check_passed: boolean | null;
+}
+
+export interface SimulatedRunProgress {
+  status: 'running' | 'completed' | 'failed';
+  passed_scenarios: number;
+  failed_scenarios: number;
+  completed_at: string | null;
+  preconditions: SimulatedPreconditionResult | null;
+  scenarios: SimulatedScenario[];
+}
+
+// How long the simulated agent spends on each step
+export const SIMULATED_STEP_MS = 3000;
+
+interface PlannedStep {
+  action: string;
+  reasoning: string;
+  page: string;
+  /** Secret the step needs but the workspace doesn't have */
+  missingSecret?: string;
+}
+
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let index = 0; index < value.length; index++) {
+    hash = (hash * 31 + value.charCodeAt(index)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const escapeXml = (value: string): string =>
+  value.replace(/[<>&'"]/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const truncate = (value: string, length: number): string =>
+  value.length > length ? `${value.slice(0, length - 1)}…` : value;
+
+/**
+ * A browser-window sketch as an SVG data URL, labelled with the page and the step being taken
+ */
+export const createSyntheticScreenshot = (options: {
+  url: string;
+  title: string;
+  caption: string;
+  tone: 'neutral' | 'success' | 'error';
+}): string => {
+  const accent = { neutral: '#f97316', success: '#16a34a', error: '#dc2626' }[options.tone];
+  const svg = [
+    '<svg xmlns="http://www.w3.org/2000/svg" width="1280" height="800" viewBox="0 0 1280 800">',
+    '<rect width="1280" height="800" fill="#f8fafc"/>',
+    '<rect width="1280" height="56" fill="#e2e8f0"/>',
+    '<circle cx="28" cy="28" r="8" fill="#f87171"/><circle cx="52" cy="28" r="8" fill="#fbbf24"/><circle cx="76" cy="28" r="8" fill="#34d399"/>',
+    '<rect x="110" y="14" width="1140" height="28" rx="14" fill="#ffffff"/>',
+    `<text x="130" y="34" font-family="sans-serif" font-size="15" fill="#475569">${escapeXml(truncate(options.url, 110))}</text>`,
+    `<rect x="80" y="110" width="1120" height="8" rx="4" fill="${accent}"/>`,
+    `<text x="80" y="190" font-family="sans-serif" font-size="40" font-weight="bold" fill="#0f172a">${escapeXml(truncate(options.title, 48))}</text>`,
+    '<rect x="80" y="230" width="700" height="20" rx="6" fill="#cbd5e1"/>',
+    '<rect x="80" y="270" width="560" height="20" rx="6" fill="#cbd5e1"/>',
+    '<rect x="80" y="330" width="1120" height="300" rx="12" fill="#ffffff" stroke="#e2e8f0" stroke-width="2"/>',
+    `<text x="110" y="480" font-family="sans-serif" font-size="26" fill="${accent}">${escapeXml(truncate(options.caption, 70))}</text>`,
+    '</svg>',
+  ].join('');
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+/**
+ * The steps the simulated agent takes for a scenario: its listed steps and one check per assertion,
+ * or one step per clause of its name when it has none. A step budget cuts the plan short.
+ */
+const planSteps = (scenario: SimulatedScenarioPlan, applicationUrl: string): PlannedStep[] => {
+  const clauses = scenario.steps?.length
+    ? scenario.steps
+    : scenario.name
+        .split(/,|\band\b|\bthen\b/i)
+        .map((clause) => clause.trim())
+        .filter(Boolean)
+        .slice(0, 4);
+  const checks: PlannedStep[] = scenario.assertions?.length
+    ? scenario.assertions.map((assertion) => ({
+        action: `Verify: ${assertion}`,
+        reasoning: `Checking that ${assertion.charAt(0).toLowerCase()}${assertion.slice(1)}.`,
+        page: 'Verification',
+      }))
+    : [{
+        action: 'Verify the expected outcome',
+        reasoning: 'Checking that the page reflects the scenario outcome.',
+        page: 'Verification',
+      }];
+  const startUrl = resolveScenarioStartUrl(scenario.start_url, applicationUrl);
+
+  const plan: PlannedStep[] = [
+    { action: `Navigate to ${startUrl}`, reasoning: 'Opening the application under test.', page: 'Home' },
+    ...clauses.map((clause) => {
+      // The backend types secret values in for the agent; the step as shown keeps the placeholder
+      const { secrets } = findPlaceholders([clause]);
+      return {
+        action: clause.charAt(0).toUpperCase() + clause.slice(1),
+        reasoning: secrets.length > 0
+          ? `Entered the value of ${secrets.map((name) => `secret "${name}"`).join(' and ')}.`
+          : `Working towards the goal: ${clause.toLowerCase()}.`,
+        page: truncate(clause, 40),
+        missingSecret: secrets.find((name) => scenario.missing_secrets?.includes(name)),
+      };
+    }),
+    ...checks,
+  ];
+  // A missing secret ends the scenario at the step that needs it
+  const missingIndex = plan.findIndex((step) => step.missingSecret);
+  const reachable = missingIndex === -1 ? plan : plan.slice(0, missingIndex + 1);
+  return scenario.max_steps ? reachable.slice(0, scenario.max_steps) : reachable;
+};
+
+// The agent ran out of its step budget before checking the outcome
+const exceedsStepBudget = (scenario: SimulatedScenarioPlan, applicationUrl: string): boolean =>
+  !!scenario.max_steps && planSteps({ ...scenario, max_steps: null }, applicationUrl).length > scenario.max_steps;
+
+const iterationFields = (scenario: SimulatedScenarioPlan) => ({
+  iteration_index: scenario.iteration?.index ?? null,
+  iteration_values: scenario.iteration?.values ?? null,
+});
+
+/**
+ * How far the setup got with `stepsAvailable` agent steps. The success check takes a step of its own.
+ */
+const simulatePreconditions = (
+  preconditions: SimulatedPreconditions,
+  applicationUrl: string,
+  stepsAvailable: number,
+  isStopped: boolean
+): { result: SimulatedPreconditionResult; stepsUsed: number } => {
+  const failingIndex = preconditions.steps.findIndex(
+    (step) => step.secret_name !== null && preconditions.missing_secrets.includes(step.secret_name)
+  );
+  const plannedCount = failingIndex === -1
+    ? preconditions.steps.length + (preconditions.success_check ? 1 : 0)
+    : failingIndex + 1;
+  const executedCount = Math.min(plannedCount, stepsAvailable);
+
+  const steps = preconditions.steps.map((step, index): SimulatedPreconditionResult['steps'][number] => {
+    const base = { step_number: index + 1, instruction: step.instruction, secret_name: step.secret_name };
+    if (index < executedCount) {
+      const failed = index === failingIndex;
+      return {
+        ...base,
+        status: failed ? 'failed' : 'passed',
+        reasoning: failed
+          ? `Secret "${step.secret_name}" is not available in this workspace.`
+          : step.secret_name
+            ? `Entered the value of secret "${step.secret_name}".`
+            : `Done: ${step.instruction.toLowerCase()}.`,
+        screenshot_url: createSyntheticScreenshot({
+          url: applicationUrl,
+          title: preconditions.block_name || 'Setup',
+          caption: failed ? 'Missing secret' : `Done: ${step.instruction}`,
+          tone: failed ? 'error' : 'success',
+        }),
+      };
+    }
+    if (failingIndex !== -1 && index > failingIndex) {
+      return { ...base, status: 'skipped' };
+    }
+    return { ...base, status: index === executedCount && !isStopped ? 'running' : 'pending' };
+  });
+
+  const isDone = executedCount === plannedCount;
+  let status: SimulatedPreconditionResult['status'] = 'pending';
+  if (failingIndex !== -1 && isDone) {
+    status = 'failed';
+  } else if (isDone) {
+    status = 'passed';
+  } else if (isStopped) {
+    status = executedCount > 0 ? 'failed' : 'pending';
+  } else {
+    status = 'running';
+  }
+
+  return {
+    result: {
+      block_id: preconditions.block_id,
+      block_name: preconditions.block_name,
+      status,
+      steps,
+      success_check: preconditions.success_check,
+      success_check_passed: status === 'passed' && preconditions.success_check ? true : status === 'failed' ? false : null,
+    },
+    stepsUsed: executedCount,
+  };
+};
+
+// Roughly one in four scenarios (or data rows) fails, always the same ones for a given run
+const shouldScenarioFail = (testRunId: number, scenario: SimulatedScenarioPlan): boolean =>
+  hashString(`${testRunId}:${scenario.id}${scenario.iteration ? `:${scenario.iteration.index}` : ''}`) % 4 === 0;
+
+/**
+ * Where a simulated run is at `now`
+ */
+export const simulateRunProgress = (simulation: MockRunSimulation, now: number = Date.now()): SimulatedRunProgress => {
+  const startedAt = new Date(simulation.started_at).getTime();
+  const stoppedAt = simulation.stopped_at ? new Date(simulation.stopped_at).getTime() : null;
+  const elapsed = Math.max(0, (stoppedAt ?? now) - startedAt);
+  let stepsRemaining = Math.floor(elapsed / SIMULATED_STEP_MS);
+  let stepOffset = 0;
+  let nextStepId = simulation.test_run_id * 1000;
+  let hasCurrent = false;
+
+  const setup = simulation.preconditions
+    ? simulatePreconditions(simulation.preconditions, simulation.application_url, stepsRemaining, !!stoppedAt)
+    : null;
+  const setupFailed = setup?.result.status === 'failed';
+  if (setup) {
+    stepsRemaining -= setup.stepsUsed;
+    stepOffset += setup.stepsUsed;
+    // Scenarios wait until the setup has passed
+    if (setup.result.status !== 'passed') {
+      hasCurrent = true;
+      stepsRemaining = 0;
+    }
+  }
+
+  const scenarios = simulation.scenarios.map((scenario): SimulatedScenario => {
+    if (setupFailed) {
+      return { id: scenario.id, name: scenario.name, status: 'failed', steps: [], ...iterationFields(scenario) };
+    }
+    const plan = planSteps(scenario, simulation.application_url);
+    const missingSecret = plan[plan.length - 1]?.missingSecret;
+    const outOfSteps = !missingSecret && exceedsStepBudget(scenario, simulation.application_url);
+    const fails = !!missingSecret || outOfSteps || shouldScenarioFail(simulation.test_run_id, scenario);
+    const executedCount = Math.min(plan.length, stepsRemaining);
+    const isFinished = executedCount === plan.length;
+    stepsRemaining -= executedCount;
+
+    const steps: SimulatedStep[] = plan.slice(0, executedCount).map((planned, index) => {
+      const isFailure = fails && index === plan.length - 1;
+      const executedAt = new Date(startedAt + (stepOffset + index + 1) * SIMULATED_STEP_MS).toISOString();
+      const url = `${simulation.application_url.replace(/\/$/, '')}/${index === 0 ? '' : `step-${index}`}`;
+      return {
+        id: ++nextStepId,
+        step_number: index + 1,
+        action: planned.action,
+        reasoning: isFailure
+          ? missingSecret
+            ? `Secret "${missingSecret}" is not available in this workspace.`
+            : outOfSteps
+              ? `Stopped after ${plan.length} steps, the most this scenario allows, before every assertion was checked.`
+              : `Assertion failed: the page did not show the expected result for "${scenario.name}".`
+          : planned.reasoning,
+        status: isFailure ? 'FAILED' : 'COMPLETE',
+        before_screenshot_url: createSyntheticScreenshot({
+          url,
+          title: planned.page,
+          caption: `Before: ${planned.action}`,
+          tone: 'neutral',
+        }),
+        after_screenshot_url: createSyntheticScreenshot({
+          url,
+          title: planned.page,
+          caption: isFailure ? 'Expected result not found' : `Done: ${planned.action}`,
+          tone: isFailure ? 'error' : 'success',
+        }),
+        console_logs: isFailure
+          ? [`[log] ${planned.action}`, '[error] Uncaught AssertionError: expected element to be visible']
+          : [`[log] ${planned.action}`],
+        network_logs: [`GET ${url} 200`],
+        created_at: executedAt,
+      };
+    });
+
+    // The first unfinished scenario is the one the agent is working on right now
+    const isCurrent = !isFinished && !stoppedAt && !hasCurrent;
+    if (isCurrent) {
+      hasCurrent = true;
+      const planned = plan[executedCount];
+      steps.push({
+        id: ++nextStepId,
+        step_number: executedCount + 1,
+        action: planned.action,
+        status: 'RUNNING',
+        console_logs: [],
+        network_logs: [],
+      });
+    }
+    stepOffset += plan.length;
+
+    let status: SimulatedScenario['status'] = 'pending';
+    if (isFinished) {
+      status = fails ? 'failed' : 'passed';
+    } else if (isCurrent) {
+      status = 'running';
+    } else if (executedCount > 0) {
+      status = 'failed';
+    }
+    return { id: scenario.id, name: scenario.name, status, steps, ...iterationFields(scenario) };
+  });
+
+  const passed = scenarios.filter((scenario) => scenario.status === 'passed').length;
+  const failed = scenarios.filter((scenario) => scenario.status === 'failed').length;
+  const isDone = passed + failed === scenarios.length && (!setup || setup.result.status === 'passed');
+  const totalDuration = simulation.scenarios.reduce(
+    (total, scenario) => total + planSteps(scenario, simulation.application_url).length * SIMULATED_STEP_MS,
+    (setup?.stepsUsed ?? 0) * SIMULATED_STEP_MS
+  );
+
+  let status: SimulatedRunProgress['status'] = 'running';
+  let completedAt: string | null = null;
+  if (stoppedAt) {
+    status = 'failed';
+    completedAt = simulation.stopped_at;
+  } else if (setupFailed) {
+    status = 'failed';
+    completedAt = new Date(startedAt + (setup?.stepsUsed ?? 0) * SIMULATED_STEP_MS).toISOString();
+  } else if (isDone) {
+    status = 'completed';
+    completedAt = new Date(startedAt + totalDuration).toISOString();
+  }
+
+  return {
+    status,
+    passed_scenarios: passed,
+    failed_scenarios: failed,
+    completed_at: completedAt,
+    preconditions: setup?.result ?? null,
+    scenarios,
+  };
+};
@@ -0,0 +1,269 @@
+/**
+ * Playwright export: turns the recorded steps of passing scenarios into a Playwright Test spec
+ *
+ * Agent actions are plain sentences ("Click Sign in", "Type admin@example.com into the Email
+ * field"), so each one is matched against the phrasings the agent uses and translated to a
+ * role/label/text locator. Steps that don't match are kept as TODO comments rather than guessed,
+ * so the spec always compiles but may need finishing by hand.
+ *
+ * Secret placeholders become environment variables (`{{secrets.api_key}}` reads `API_KEY`);
+ * secret values are never part of a run, so they can't end up in the spec.
+ */
+
+import type { TestRunScenario, TestRunStep, TestRunWithSessionsResponse } from './api-client';
+import { describeIteration } from './scenario-parameters';
+
+export interface PlaywrightExportOptions {
+  suiteName: string;
+  testRunId: number;
+  /** Default for `BASE_URL`; relative navigation resolves against it */
+  applicationUrl: string | null;
+  viewport?: { width: number; height: number } | null;
+  scenarios: TestRunScenario[];
+}
+
+interface TranslatedStep {
+  lines: string[];
+  /** False when the step became a TODO comment */
+  translated: boolean;
+}
+
+const PASSING_STATUSES = ['passed', 'completed'];
+const KEY_NAMES = ['Enter', 'Escape', 'Tab', 'Backspace', 'Space', 'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'];
+const SECRET_PLACEHOLDER_PATTERN = /^\{\{\s*secrets\.([\w.-]+)\s*\}\}$/;
+
+/**
+ * A run's scenario results; runs that only report sessions get one result per session
+ */
+export const getRunScenarioResults = (testRun: TestRunWithSessionsResponse): TestRunScenario[] =>
+  testRun.scenarios?.length
+    ? testRun.scenarios
+    : (testRun.sessions ?? []).map((session, index) => ({
+        id: session.scenario_id ?? session.scenario?.id ?? index,
+        name: session.scenario?.name ?? `Scenario ${index + 1}`,
+        status: session.status,
+        steps: session.steps ?? session.scenario?.steps,
+      }));
+
+/**
+ * Whether a scenario result can be exported: it passed and has recorded steps
+ */
+export const isExportableScenario = (scenario: TestRunScenario): boolean =>
+  PASSING_STATUSES.includes((scenario.status ?? '').toLowerCase()) && (scenario.steps?.length ?? 0) > 0;
+
+export const getExportScenarioKey = (scenario: TestRunScenario): string =>
+  scenario.iteration_index == null ? `${scenario.id}` : `${scenario.id}-row-${scenario.iteration_index}`;
+
+const quote = (value: string): string => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const comment = (value: string): string => value.replace(/\s+/g, ' ').trim();
+
+// Strip the quotes the agent puts around names and values
+const unquote = (value: string): string => value.trim().replace(/^["'“‘](.*)["'”’]$/, '$1').trim();
+
+/**
+ * The code for a typed value: a string literal, or the environment variable for a secret
+ */
+const valueExpression = (value: string): string => {
+  const secret = unquote(value).match(SECRET_PLACEHOLDER_PATTERN);
+  if (secret) {
+    return `process.env.${secret[1].replace(/[^\w]/g, '_').toUpperCase()} ?? ''`;
+  }
+  return quote(unquote(value));
+};
+
+/**
+ * A locator for a named control. "the Sign in button" is a button, "the Pricing link" a link and
+ * "the Email field" a labelled input; anything else is found by its text.
+ */
+const locatorFor = (target: string, fallback: 'text' | 'label'): string => {
+  const cleaned = unquote(target.replace(/^(the|a|an)\s+/i, ''));
+  const role = cleaned.match(/^(.+?)\s+(button|link|tab|checkbox|menu item|option)$/i);
+  if (role) {
+    const roleName = role[2].toLowerCase() === 'menu item' ? 'menuitem' : role[2].toLowerCase();
+    return `page.getByRole('${roleName}', { name: ${quote(unquote(role[1]))} })`;
+  }
+  const field = cleaned.match(/^(.+?)\s+(field|input|box|textbox|text box|dropdown|select)$/i);
+  if (field) {
+    return `page.getByLabel(${quote(unquote(field[1]))})`;
+  }
+  return fallback === 'label' ? `page.getByLabel(${quote(cleaned)})` : `page.getByText(${quote(cleaned)}).first()`;
+};
+
+// Paths are appended as quoted strings so nothing in them is read as template syntax
+const urlExpression = (url: string, applicationUrl: string | null): string => {
+  if (url.startsWith('/')) return `BASE_URL + ${quote(url)}`;
+  if (applicationUrl && url.replace(/\/$/, '') === applicationUrl.replace(/\/$/, '')) return 'BASE_URL';
+  if (applicationUrl && url.startsWith(applicationUrl.replace(/\/$/, '') + '/')) {
+    return `BASE_URL + ${quote(url.slice(applicationUrl.replace(/\/$/, '').length))}`;
+  }
+  return quote(url);
+};
+
+/**
+ * An assertion from a "Verify: ..." step: quoted text must be visible, a URL or path must be
+ * the current page, a title must match; anything else is left as a TODO
+ */
+const translateAssertion = (statement: string, applicationUrl: string | null): TranslatedStep => {
+  const url = statement.match(/\b(?:url|address)\b.*?\b(?:is|contains|includes|matches|equals)\s+(\S+)/i);
+  if (url) {
+    const target = unquote(url[1]).replace(/[.,]$/, '');
+    const expected = target.startsWith('http')
+      ? urlExpression(target, applicationUrl)
+      : `new RegExp(${quote(escapeRegExp(target))})`;
+    return { lines: [`await expect(page).toHaveURL(${expected});`], translated: true };
+  }
+  const title = statement.match(/\btitle\b.*?\b(?:is|contains|includes)\s+["'“](.+?)["'”]/i);
+  if (title) {
+    return { lines: [`await expect(page).toHaveTitle(new RegExp(${quote(escapeRegExp(title[1]))}));`], translated: true };
+  }
+  const quoted = [...statement.matchAll(/["“]([^"”]+)["”]/g)].map((match) => match[1]);
+  if (quoted.length > 0) {
+    return {
+      lines: quoted.map((text) => `await expect(page.getByText(${quote(text)}).first()).toBeVisible();`),
+      translated: true,
+    };
+  }
+  return { lines: [`// TODO: assert that ${comment(statement)}`], translated: false };
+};
+
+/**
+ * The Playwright code for one recorded agent action
+ */
+export const translateAction = (action: string, applicationUrl: string | null): TranslatedStep => {
+  const text = action.trim().replace(/\.$/, '');
+
+  const verify = text.match(/^(?:verify|assert|check that|confirm|expect)\s*:?\s+(.+)$/i);
+  if (verify) return translateAssertion(verify[1], applicationUrl);
+
+  const navigate = text.match(/^(?:navigate|go|open|visit|load)\s+(?:to\s+)?(?:the\s+)?(?:page\s+)?(https?:\/\/\S+|\/\S*)/i);
+  if (navigate) {
+    return { lines: [`await page.goto(${urlExpression(navigate[1].replace(/[.,]$/, ''), applicationUrl)});`], translated: true };
+  }
+
+  const fill = text.match(/^(?:type|enter|fill in|fill|input)\s+(.+?)\s+(?:into|in|on)\s+(.+)$/i);
+  if (fill) {
+    return { lines: [`await ${locatorFor(fill[2], 'label')}.fill(${valueExpression(fill[1])});`], translated: true };
+  }
+  const fillWith = text.match(/^(?:fill(?: in)?|set)\s+(.+?)\s+(?:with|to)\s+(.+)$/i);
+  if (fillWith) {
+    return { lines: [`await ${locatorFor(fillWith[1], 'label')}.fill(${valueExpression(fillWith[2])});`], translated: true };
+  }
+
+  const select = text.match(/^(?:select|choose|pick)\s+(.+?)\s+(?:from|in)\s+(.+)$/i);
+  if (select) {
+    return { lines: [`await ${locatorFor(select[2], 'label')}.selectOption({ label: ${quote(unquote(select[1]))} });`], translated: true };
+  }
+
+  const check = text.match(/^(check|tick|uncheck|untick)\s+(.+)$/i);
+  if (check) {
+    const method = /^un/i.test(check[1]) ? 'uncheck' : 'check';
+    return { lines: [`await ${locatorFor(check[2], 'label')}.${method}();`], translated: true };
+  }
+
+  const click = text.match(/^(?:click|tap|press|select|choose)\s+(?:on\s+)?(.+)$/i);
+  if (click) {
+    const keyName = click[1].replace(/^the\s+/i, '').replace(/\s+key$/i, '').replace(/\s+/g, '');
+    const key = KEY_NAMES.find((name) => name.toLowerCase() === keyName.toLowerCase());
+    if (key) {
+      return { lines: [`await page.keyboard.press(${quote(key)});`], translated: true };
+    }
+    return { lines: [`await ${locatorFor(click[1], 'text')}.click();`], translated: true };
+  }
+
+  const hover = text.match(/^(?:hover|mouse over)\s+(?:over\s+)?(.+)$/i);
+  if (hover) {
+    return { lines: [`await ${locatorFor(hover[1], 'text')}.hover();`], translated: true };
+  }
+
+  if (/^scroll\b/i.test(text)) {
+    return { lines: [`await page.mouse.wheel(0, ${/\bup\b/i.test(text) ? -600 : 600});`], translated: true };
+  }
+  if (/^wait\b/i.test(text)) {
+    return { lines: [`await page.waitForLoadState('networkidle');`], translated: true };
+  }
+
+  return { lines: [`// TODO: ${comment(text)}`], translated: false };
+};
+
+const getTestTitle = (scenario: TestRunScenario): string =>
+  scenario.iteration_values ? `${scenario.name} (${describeIteration(scenario.iteration_values)})` : scenario.name;
+
+const stepOrder = (a: TestRunStep, b: TestRunStep) => (a.step_number ?? a.id) - (b.step_number ?? b.id);
+
+/**
+ * A runnable Playwright Test spec for the exportable scenarios in `options.scenarios`, with how
+ * many steps had to be left as TODOs
+ */
+export const generatePlaywrightSpec = (options: PlaywrightExportOptions): { code: string; todoCount: number } => {
+  let todoCount = 0;
+  const scenarios = options.scenarios.filter(isExportableScenario);
+
+  const tests = scenarios.map((scenario) => {
+    const steps = [...(scenario.steps ?? [])].sort(stepOrder);
+    const body: string[] = [];
+    // The agent starts at the application URL; only say so when its first step doesn't navigate
+    const firstAction = steps[0]?.action ?? steps[0]?.action_summary ?? '';
+    if (!translateAction(firstAction, options.applicationUrl).lines[0]?.startsWith('await page.goto(')) {
+      body.push('await page.goto(BASE_URL);', '');
+    }
+    steps.forEach((step, index) => {
+      const action = step.action || step.action_summary || '';
+      if (!action) return;
+      const result = translateAction(action, options.applicationUrl);
+      if (result.translated) {
+        body.push(`// ${index + 1}. ${comment(action)}`);
+        if (step.reasoning) body.push(`// ${comment(step.reasoning)}`);
+        body.push(...result.lines, '');
+      } else {
+        // The agent's reasoning is the best hint for whoever writes this step
+        todoCount++;
+        body.push(`// ${index + 1}. TODO: ${comment(action)}`);
+        if (step.reasoning) body.push(`// ${comment(step.reasoning)}`);
+        body.push('');
+      }
+    });
+    while (body[body.length - 1] === '') body.pop();
+
+    return [
+      `  test(${quote(getTestTitle(scenario))}, async ({ page }) => {`,
+      ...body.map((line) => (line ? `    ${line}` : '')),
+      '  });',
+    ].join('\n');
+  });
+
+  const header = [
+    `// Generated from test run #${options.testRunId} of "${comment(options.suiteName)}".`,
+    '// Recorded agent steps were translated to locators; review them, and finish any TODOs, before',
+    '// relying on this spec in CI. Secrets are read from environment variables.',
+    "import { test, expect } from '@playwright/test';",
+    '',
+    `const BASE_URL = process.env.BASE_URL ?? ${quote(options.applicationUrl ?? 'http://localhost:3000')};`,
+    '',
+  ];
+  if (options.viewport) {
+    header.push(`test.use({ viewport: { width: ${options.viewport.width}, height: ${options.viewport.height} } });`, '');
+  }
+
+  const code = [
+    ...header,
+    `test.describe(${quote(options.suiteName)}, () => {`,
+    tests.join('\n\n'),
+    '});',
+    '',
+  ].join('\n');
+  return { code, todoCount };
+};
+
+/**
+ * "checkout-flow-run-42.spec.ts"
+ */
+export const getPlaywrightSpecFileName = (suiteName: string, testRunId: number): string => {
+  const slug = suiteName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'suite'}-run-${testRunId}.spec.ts`;
+};
@@ -0,0 +1,113 @@
+/**
+ * Structured suite preconditions: the setup the agent runs before any scenario
+ *
+ * A suite either lists its own steps or points at a precondition block, a named flow shared by
+ * every suite in the project (e.g. "Log in as admin").
+ */
+
+export interface PreconditionStep {
+  /** What the agent does, e.g. "Type the admin password into the Password field" */
+  instruction: string;
+  /** Project secret the step types in; the agent gets the value, never the prompt or the logs */
+  secret_name: string | null;
+}
+
+export interface PreconditionFlow {
+  steps: PreconditionStep[];
+  /** How the agent tells setup worked, e.g. "The dashboard shows the Admin menu" */
+  success_check: string | null;
+}
+
+/**
+ * What suites store in `preconditions`
+ */
+export interface SuitePreconditions extends PreconditionFlow {
+  /** Run this precondition block instead of `steps` */
+  block_id: number | null;
+}
+
+export const MAX_PRECONDITION_STEPS = 20;
+
+export const emptyPreconditionStep = (): PreconditionStep => ({ instruction: '', secret_name: null });
+
+export const emptySuitePreconditions = (): SuitePreconditions => ({
+  block_id: null,
+  steps: [emptyPreconditionStep()],
+  success_check: null,
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Read whatever a suite has in `preconditions`. Free text from before preconditions were
+ * structured becomes one step per line; anything unrecognised reads as no preconditions.
+ */
+export const parseSuitePreconditions = (value: unknown): SuitePreconditions | null => {
+  if (typeof value === 'string') {
+    const steps = value
+      .split('\n')
+      .map((line) => line.replace(/^\s*(?:[-*]|\d+[.)])\s*/, '').trim())
+      .filter(Boolean)
+      .map((instruction): PreconditionStep => ({ instruction, secret_name: null }));
+    return steps.length > 0 ? { block_id: null, steps, success_check: null } : null;
+  }
+  if (!isRecord(value)) {
+    return null;
+  }
+
+  const blockId = typeof value.block_id === 'number' ? value.block_id : null;
+  const steps = Array.isArray(value.steps)
+    ? value.steps.filter(isRecord).map((step): PreconditionStep => ({
+        instruction: typeof step.instruction === 'string' ? step.instruction : '',
+        secret_name: typeof step.secret_name === 'string' && step.secret_name ? step.secret_name : null,
+      }))
+    : [];
+  if (blockId === null && steps.length === 0) {
+    return null;
+  }
+  return {
+    block_id: blockId,
+    steps,
+    success_check: typeof value.success_check === 'string' && value.success_check ? value.success_check : null,
+  };
+};
+
+/**
+ * Check a flow before saving. `secretNames` are the secrets the project can use; leave it out
+ * to skip that check.
+ */
+export const validatePreconditionFlow = (
+  flow: PreconditionFlow,
+  secretNames?: string[]
+): Record<string, string> => {
+  const errors: Record<string, string> = {};
+
+  if (flow.steps.length === 0) {
+    errors.steps = 'Add at least one step';
+  } else if (flow.steps.length > MAX_PRECONDITION_STEPS) {
+    errors.steps = `Use at most ${MAX_PRECONDITION_STEPS} steps`;
+  } else {
+    const emptyIndex = flow.steps.findIndex((step) => !step.instruction.trim());
+    const unknownSecret = secretNames
+      ? flow.steps.find((step) => step.secret_name && !secretNames.includes(step.secret_name))
+      : undefined;
+    if (emptyIndex !== -1) {
+      errors.steps = `Step ${emptyIndex + 1} needs an instruction`;
+    } else if (unknownSecret) {
+      errors.steps = `Secret "${unknownSecret.secret_name}" does not exist in this workspace`;
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Trim a flow for the API, dropping blank trailing steps
+ */
+export const normalizePreconditionFlow = (flow: PreconditionFlow): PreconditionFlow => ({
+  steps: flow.steps
+    .map((step) => ({ instruction: step.instruction.trim(), secret_name: step.secret_name || null }))
+    .filter((step, index, steps) => step.instruction || steps.slice(index).some((s) => s.instruction)),
+  success_check: flow.success_check?.trim() || null,
+});
@@ -0,0 +1,27 @@
+/**
+ * What each member role may do in a project
+ *
+ * Owners manage the project itself (settings, members, deletion), editors change its content
+ * (suites, scenarios, runs, schedules, apps) and viewers only browse it. The backend enforces
+ * the same rules; the UI uses these to hide actions a role cannot take.
+ */
+
+import type { ProjectResponse, ProjectRole } from './api-client';
+
+export const PROJECT_ROLES: { value: ProjectRole; label: string; description: string }[] = [
+  { value: 'owner', label: 'Owner', description: 'Full access, including settings, members and deletion' },
+  { value: 'editor', label: 'Editor', description: 'Create and run tests, schedules and apps' },
+  { value: 'viewer', label: 'Viewer', description: 'View suites, runs and results only' },
+];
+
+export const getProjectRoleLabel = (role: ProjectRole): string =>
+  PROJECT_ROLES.find((r) => r.value === role)?.label ?? role;
+
+/**
+ * The current user's role in a project; projects without one predate members and are the user's own
+ */
+export const getProjectRole = (project: ProjectResponse): ProjectRole => project.role ?? 'owner';
+
+export const canEditProject = (role: ProjectRole): boolean => role === 'owner' || role === 'editor';
+
+export const canManageProject = (role: ProjectRole): boolean => role === 'owner';
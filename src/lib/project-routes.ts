@@ -0,0 +1,54 @@
+/**
+ * Project-scoped URLs
+ *
+ * Pages that show a single project's data live under /p/:projectId so a shared link always
+ * opens in the right workspace. The unprefixed paths still work and redirect.
+ */
+
+export const PROJECT_ROUTE_PREFIX = '/p';
+
+// Sections whose pages show a single project's data
+export const PROJECT_SCOPED_SECTIONS = [
+  'dashboard',
+  'test-suites',
+  'create-suite',
+  'suite',
+  'test-runs',
+  'scheduler',
+  'app-registry',
+  'settings',
+];
+
+// Detail pages fall back to their list when switching to another project
+const SECTION_LIST_PATHS: Record<string, string> = {
+  'create-suite': '/test-suites',
+  suite: '/test-suites',
+};
+
+const PROJECT_PATH_PATTERN = /^\/p\/(\d+)(\/.*)?$/;
+
+/**
+ * `path` inside the given project, e.g. projectPath(3, '/test-runs') → '/p/3/test-runs'
+ */
+export const projectPath = (projectId: number, path: string): string =>
+  `${PROJECT_ROUTE_PREFIX}/${projectId}${path.startsWith('/') ? path : `/${path}`}`;
+
+/**
+ * Split a project-scoped pathname into its project and the path within it
+ */
+export const parseProjectPath = (pathname: string): { projectId: number; path: string } | null => {
+  const match = pathname.match(PROJECT_PATH_PATTERN);
+  return match ? { projectId: parseInt(match[1], 10), path: match[2] || '/' } : null;
+};
+
+const getSection = (path: string): string => path.split(/[?#]/)[0].split('/')[1] ?? '';
+
+export const isProjectScopedPath = (path: string): boolean => PROJECT_SCOPED_SECTIONS.includes(getSection(path));
+
+/**
+ * The list page of the section `path` belongs to, which exists in every project
+ */
+export const getSectionPath = (path: string): string => {
+  const section = getSection(path) || 'dashboard';
+  return SECTION_LIST_PATHS[section] ?? `/${section}`;
+};
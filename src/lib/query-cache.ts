@@ -0,0 +1,240 @@
+/**
+ * Client-side cache for API reads
+ *
+ * Entries are keyed by the API resource plus its params. Concurrent fetches of the same key share
+ * one request, fresh entries are served without a request, and stale entries stay visible while
+ * they are revalidated. Successful mutations invalidate the resources they touch (see apiRequest).
+ */
+
+export type QueryKey = readonly [resource: string, ...params: unknown[]];
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: unknown;
+  updatedAt: number;
+  isFetching: boolean;
+  isInvalidated: boolean;
+}
+
+interface QueryEntry<T> {
+  key: QueryKey;
+  state: QueryState<T>;
+  promise: Promise<T> | null;
+  // Bumped by every invalidation; a fetch started under an older generation may predate the write
+  generation: number;
+  promiseGeneration: number;
+  fetcher: (() => Promise<T>) | null;
+  listeners: Set<() => void>;
+}
+
+export interface FetchQueryOptions {
+  /** How long fetched data is served without a new request */
+  staleTime?: number;
+  /** Ignore cached data and always hit the network (in-flight requests are still shared) */
+  force?: boolean;
+}
+
+export const DEFAULT_STALE_TIME_MS = 30 * 1000;
+
+const EMPTY_STATE: QueryState<never> = {
+  data: undefined,
+  error: null,
+  updatedAt: 0,
+  isFetching: false,
+  isInvalidated: false,
+};
+
+/**
+ * Keys for every cached read, grouped by the API resource they come from
+ */
+export const queryKeys = {
+  projects: () => ['projects'] as const,
+  projectMembers: (projectId: number) => ['projects', projectId, 'members'] as const,
+  projectInvitations: (projectId: number) => ['projects', projectId, 'invitations'] as const,
+  deviceProfiles: (projectId: number) => ['projects', projectId, 'device-profiles'] as const,
+  preconditionBlocks: (projectId: number) => ['projects', projectId, 'precondition-blocks'] as const,
+  projectDeletionPreview: (projectId: number) => ['projects', projectId, 'deletion-preview'] as const,
+  testSuites: (projectId?: number) => ['test-suites', { projectId }] as const,
+  testSuiteSearch: (projectId: number, search: string) => ['test-suites', 'search', { projectId, search }] as const,
+  testSuite: (testSuiteId: number) => ['test-suites', testSuiteId] as const,
+  suiteEnvironments: (testSuiteId: number) => ['test-suites', testSuiteId, 'environments'] as const,
+  suiteAttachments: (testSuiteId: number) => ['test-suites', testSuiteId, 'attachments'] as const,
+  testRunsForSuite: (testSuiteId: number, limit?: number, offset?: number) =>
+    ['test-runs', 'suite', testSuiteId, { limit, offset }] as const,
+  scenarios: (testSuiteId?: number) => ['scenarios', { testSuiteId }] as const,
+  schedules: (params?: { project_id?: number; test_suite_id?: number; is_active?: boolean }) =>
+    ['schedules', params ?? {}] as const,
+  dashboardStatistics: (projectId?: number) => ['dashboard', 'statistics', { projectId }] as const,
+  recentTestRuns: (projectId?: number, limit?: number) => ['dashboard', 'recent-runs', { projectId, limit }] as const,
+  secrets: () => ['secrets'] as const,
+  mobileApps: (projectId?: number) => ['app-registry', { projectId }] as const,
+  authSessions: () => ['auth', 'sessions'] as const,
+};
+
+// Writes to the resource on the left can change the cached reads on the right
+const MUTATION_INVALIDATES: Record<string, string[]> = {
+  projects: ['projects', 'test-suites', 'schedules', 'dashboard', 'secrets', 'app-registry'],
+  'test-suites': ['test-suites', 'scenarios', 'test-runs', 'schedules', 'dashboard'],
+  scenarios: ['scenarios', 'test-suites', 'test-runs'],
+  'test-runs': ['test-runs', 'dashboard'],
+  'live-runs': ['test-runs', 'dashboard'],
+  // Generation records which suite attachments it read
+  'scenario-generation': ['test-suites'],
+  schedules: ['schedules', 'dashboard'],
+  secrets: ['secrets'],
+  'app-registry': ['app-registry'],
+  auth: ['auth'],
+  invitations: ['projects'],
+};
+
+const cache = new Map<string, QueryEntry<unknown>>();
+
+const hashQueryKey = (key: QueryKey): string => JSON.stringify(key);
+
+const getEntry = <T>(key: QueryKey): QueryEntry<T> => {
+  const hash = hashQueryKey(key);
+  let entry = cache.get(hash) as QueryEntry<T> | undefined;
+  if (!entry) {
+    entry = {
+      key,
+      state: EMPTY_STATE,
+      promise: null,
+      generation: 0,
+      promiseGeneration: 0,
+      fetcher: null,
+      listeners: new Set(),
+    };
+    cache.set(hash, entry as QueryEntry<unknown>);
+  }
+  return entry;
+};
+
+const updateState = <T>(entry: QueryEntry<T>, updates: Partial<QueryState<T>>) => {
+  entry.state = { ...entry.state, ...updates };
+  entry.listeners.forEach((listener) => listener());
+};
+
+const isStale = (state: QueryState<unknown>, staleTime: number): boolean =>
+  state.isInvalidated || state.data === undefined || Date.now() - state.updatedAt >= staleTime;
+
+/**
+ * Current state of a query; the same object is returned until the entry changes
+ */
+export const getQueryState = <T>(key: QueryKey): QueryState<T> => {
+  const entry = cache.get(hashQueryKey(key)) as QueryEntry<T> | undefined;
+  return entry ? entry.state : EMPTY_STATE;
+};
+
+export const getQueryData = <T>(key: QueryKey): T | undefined => getQueryState<T>(key).data;
+
+const startFetch = <T>(entry: QueryEntry<T>, fetcher: () => Promise<T>): Promise<T> => {
+  const generation = entry.generation;
+  const promise: Promise<T> = fetcher().then(
+    (data) => {
+      const newer = entry.promise !== promise ? entry.promise : null;
+      if (!newer) entry.promise = null;
+      if (generation !== entry.generation) {
+        // Invalidated while in flight: keep the entry stale and hand callers the newer fetch if there is one
+        if (!newer) updateState(entry, { isFetching: false });
+        return newer ?? data;
+      }
+      updateState(entry, { data, error: null, updatedAt: Date.now(), isFetching: false, isInvalidated: false });
+      return data;
+    },
+    (error) => {
+      const newer = entry.promise !== promise ? entry.promise : null;
+      if (!newer) {
+        entry.promise = null;
+        updateState(entry, { error, isFetching: false });
+      }
+      throw error;
+    }
+  );
+  entry.promise = promise;
+  entry.promiseGeneration = generation;
+  updateState(entry, { isFetching: true });
+  return promise;
+};
+
+/**
+ * Fetch a query, serving fresh cached data and sharing any request already in flight.
+ * A request started before the query was invalidated is not shared; a new one is sent.
+ */
+export const fetchQuery = <T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  options: FetchQueryOptions = {}
+): Promise<T> => {
+  const { staleTime = DEFAULT_STALE_TIME_MS, force = false } = options;
+  const entry = getEntry<T>(key);
+  entry.fetcher = fetcher;
+
+  if (entry.promise && entry.promiseGeneration === entry.generation) {
+    return entry.promise;
+  }
+  if (!force && !isStale(entry.state, staleTime)) {
+    return Promise.resolve(entry.state.data as T);
+  }
+
+  return startFetch(entry, fetcher);
+};
+
+/**
+ * Replace cached data, e.g. to show the result of a mutation before the refetch lands
+ */
+export const setQueryData = <T>(key: QueryKey, updater: T | ((previous: T | undefined) => T)) => {
+  const entry = getEntry<T>(key);
+  const data =
+    typeof updater === 'function' ? (updater as (previous: T | undefined) => T)(entry.state.data) : updater;
+  updateState(entry, { data, error: null, updatedAt: Date.now() });
+};
+
+export const subscribeQuery = (key: QueryKey, listener: () => void): (() => void) => {
+  const entry = getEntry(key);
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+  };
+};
+
+const matchesPrefix = (key: QueryKey, prefix: readonly unknown[]): boolean =>
+  prefix.every((part, index) => JSON.stringify(part) === JSON.stringify(key[index]));
+
+/**
+ * Mark every query starting with `prefix` as stale.
+ * Queries that are on screen refetch right away; the rest refetch the next time they are used.
+ */
+export const invalidateQueries = (prefix: readonly unknown[]) => {
+  cache.forEach((entry) => {
+    if (!matchesPrefix(entry.key, prefix)) {
+      return;
+    }
+    entry.generation++;
+    updateState(entry, { isInvalidated: true });
+    if (entry.listeners.size > 0 && entry.fetcher) {
+      fetchQuery(entry.key, entry.fetcher).catch(() => undefined);
+    }
+  });
+};
+
+/**
+ * Invalidate the resources a successful write to `endpoint` may have changed
+ */
+export const invalidateQueriesForEndpoint = (endpoint: string) => {
+  const path = endpoint.replace(/^https?:\/\/[^/]+/, '').split('?')[0];
+  const resource = path.match(/^\/api\/([^/]+)/)?.[1];
+  (resource ? MUTATION_INVALIDATES[resource] ?? [] : []).forEach((root) => invalidateQueries([root]));
+};
+
+/**
+ * Drop every cached response, e.g. when the user signs out
+ */
+export const clearQueryCache = () => {
+  cache.forEach((entry) => {
+    entry.promise = null;
+    // Responses still in flight belong to the previous session
+    entry.generation++;
+    updateState(entry, EMPTY_STATE);
+  });
+  cache.clear();
+};
@@ -1,4 +1,4 @@
-export type ResolutionGroup = "Desktop" | "Mobile";
+export type ResolutionGroup = "Desktop" | "Tablet" | "Mobile";
 
 export type ResolutionOption = {
   value: string;
@@ -34,6 +34,11 @@ export const RESOLUTION_OPTIONS: ResolutionOption[] = [
     label: "Minimum Supported Desktop Viewport",
     group: "Desktop",
   },
+  {
+    value: "768x1024",
+    label: "iPad, Standard Tablet (Portrait)",
+    group: "Tablet",
+  },
   {
     value: "414x896",
     label: "iPhone XR, iPhone 11",
@@ -82,3 +87,141 @@ export const normalizeResolution = (value?: string | null): string | null => {
   }
   return null;
 };
+
+export const RESOLUTION_GROUPS: ResolutionGroup[] = ["Desktop", "Tablet", "Mobile"];
+
+export const getResolutionOption = (value?: string | null): ResolutionOption | undefined => {
+  const normalized = normalizeResolution(value);
+  return RESOLUTION_OPTIONS.find((option) => option.value === normalized);
+};
+
+// ============================================================================
+// Custom device profiles
+// ============================================================================
+
+export type DeviceOrientation = "portrait" | "landscape";
+
+export interface DeviceProfileFields {
+  name: string;
+  /** Portrait width in CSS pixels; landscape swaps width and height */
+  width: number;
+  height: number;
+  device_scale_factor: number;
+  user_agent: string | null;
+  has_touch: boolean;
+  orientation: DeviceOrientation;
+}
+
+export interface DeviceProfile extends DeviceProfileFields {
+  id: number;
+}
+
+export const DEVICE_PROFILE_LIMITS = {
+  minSize: 240,
+  maxSize: 3840,
+  minScaleFactor: 1,
+  maxScaleFactor: 4,
+  maxNameLength: 60,
+  maxUserAgentLength: 512,
+};
+
+// Suites and runs refer to a profile with this prefix wherever they'd hold a "WIDTHxHEIGHT" value
+const DEVICE_PROFILE_PREFIX = "profile:";
+
+export const deviceProfileValue = (profileId: number): string => `${DEVICE_PROFILE_PREFIX}${profileId}`;
+
+export const getDeviceProfileId = (value?: string | null): number | null => {
+  const match = value?.trim().match(/^profile:(\d+)$/);
+  return match ? Number(match[1]) : null;
+};
+
+/**
+ * The one place device profiles are checked; the form and the mock backend both use it.
+ * Returns messages keyed by field, empty when the profile is valid.
+ */
+export const validateDeviceProfile = (profile: Partial<DeviceProfileFields>): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  const limits = DEVICE_PROFILE_LIMITS;
+
+  const name = profile.name?.trim() ?? "";
+  if (!name) {
+    errors.name = "Name is required";
+  } else if (name.length > limits.maxNameLength) {
+    errors.name = `Keep the name under ${limits.maxNameLength} characters`;
+  }
+
+  (["width", "height"] as const).forEach((field) => {
+    const value = profile[field];
+    if (typeof value !== "number" || !Number.isInteger(value)) {
+      errors[field] = "Enter a whole number of pixels";
+    } else if (value < limits.minSize || value > limits.maxSize) {
+      errors[field] = `Must be between ${limits.minSize} and ${limits.maxSize}`;
+    }
+  });
+
+  const scale = profile.device_scale_factor;
+  if (typeof scale !== "number" || Number.isNaN(scale) || scale < limits.minScaleFactor || scale > limits.maxScaleFactor) {
+    errors.device_scale_factor = `Must be between ${limits.minScaleFactor} and ${limits.maxScaleFactor}`;
+  }
+
+  if ((profile.user_agent?.length ?? 0) > limits.maxUserAgentLength) {
+    errors.user_agent = `Keep the user agent under ${limits.maxUserAgentLength} characters`;
+  }
+
+  if (profile.orientation !== "portrait" && profile.orientation !== "landscape") {
+    errors.orientation = "Pick portrait or landscape";
+  }
+
+  return errors;
+};
+
+export interface Viewport {
+  /** What suites store: a preset like "390x844" or a profile reference */
+  value: string;
+  label: string;
+  width: number;
+  height: number;
+  deviceProfile: DeviceProfile | null;
+}
+
+/**
+ * Resolve a stored resolution against the presets and the project's device profiles.
+ * Returns null for anything unknown, including profiles from another project.
+ */
+export const resolveViewport = (value: string | null | undefined, profiles: DeviceProfile[] = []): Viewport | null => {
+  const profileId = getDeviceProfileId(value);
+  if (profileId !== null) {
+    const profile = profiles.find((p) => p.id === profileId);
+    if (!profile) {
+      return null;
+    }
+    const isLandscape = profile.orientation === "landscape";
+    return {
+      value: deviceProfileValue(profile.id),
+      label: profile.name,
+      width: isLandscape ? profile.height : profile.width,
+      height: isLandscape ? profile.width : profile.height,
+      deviceProfile: profile,
+    };
+  }
+
+  const option = getResolutionOption(value);
+  if (!option) {
+    return null;
+  }
+  const [width, height] = option.value.split("x").map(Number);
+  return { value: option.value, label: option.label, width, height, deviceProfile: null };
+};
+
+/**
+ * "390x844 · iPhone 12..." for presets, the profile name and size for device profiles
+ */
+export const getViewportLabel = (value: string | null | undefined, profiles: DeviceProfile[] = []): string => {
+  const viewport = resolveViewport(value, profiles);
+  if (!viewport) {
+    return value || "Default";
+  }
+  return viewport.deviceProfile
+    ? `${viewport.label} (${viewport.width}x${viewport.height})`
+    : `${viewport.value} · ${viewport.label}`;
+};
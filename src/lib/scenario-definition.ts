@@ -0,0 +1,179 @@
+/**
+ * Structured scenarios: ordered steps, explicit assertions, a starting URL and a step budget
+ *
+ * Scenarios from before these fields existed only have a name and a free-text description; they
+ * read as having no steps or assertions and the agent works from the name alone.
+ */
+
+import type { AgentScenarioDefinition, ScenarioResponse } from './api-client';
+import {
+  normalizeDataTable,
+  rewriteLegacySecrets,
+  validateScenarioParameters,
+  type ScenarioDataTable,
+} from './scenario-parameters';
+
+export const MAX_SCENARIO_STEPS = 30;
+export const MAX_SCENARIO_ASSERTIONS = 15;
+/** Upper bound for a scenario's agent step budget */
+export const MAX_AGENT_STEPS = 200;
+/** Step budget for scenarios that don't set `max_steps` */
+export const DEFAULT_AGENT_STEPS = 8;
+
+export interface ScenarioDefinition {
+  name: string;
+  description: string | null;
+  /** What the agent does, in order, e.g. "Add the first product to the cart" */
+  steps: string[];
+  /** What must hold at the end, e.g. "The cart badge shows 1" */
+  assertions: string[];
+  /** How many agent actions the scenario may take before it fails; null uses the suite default */
+  max_steps: number | null;
+  /** Absolute URL, or a path on the suite's application URL; null starts at the application URL */
+  start_url: string | null;
+  /** Runs the scenario once per row; see lib/scenario-parameters */
+  data_table: ScenarioDataTable | null;
+}
+
+export const emptyScenarioDefinition = (): ScenarioDefinition => ({
+  name: '',
+  description: null,
+  steps: [''],
+  assertions: [''],
+  max_steps: null,
+  start_url: null,
+  data_table: null,
+});
+
+/**
+ * The editable definition of a saved scenario, with one blank row to type into when a list is empty
+ */
+export const scenarioToDefinition = (scenario: ScenarioResponse): ScenarioDefinition => ({
+  name: scenario.name,
+  description: scenario.description,
+  steps: scenario.steps?.length ? [...scenario.steps] : [''],
+  assertions: scenario.assertions?.length ? [...scenario.assertions] : [''],
+  max_steps: scenario.max_steps ?? null,
+  start_url: scenario.start_url ?? null,
+  data_table: scenario.data_table ?? null,
+});
+
+const isValidStartUrl = (value: string): boolean => {
+  if (value.startsWith('/')) return true;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * The scenario text placeholders can appear in
+ */
+export const getScenarioTexts = (definition: ScenarioDefinition): Array<string | null> => [
+  definition.name,
+  definition.description,
+  definition.start_url,
+  ...definition.steps,
+  ...definition.assertions,
+];
+
+/**
+ * The definition with every legacy `${name}` secret reference in its texts rewritten as `{{secrets.name}}`
+ */
+export const rewriteDefinitionLegacySecrets = (definition: ScenarioDefinition): ScenarioDefinition => ({
+  ...definition,
+  name: rewriteLegacySecrets(definition.name),
+  description: definition.description === null ? null : rewriteLegacySecrets(definition.description),
+  start_url: definition.start_url === null ? null : rewriteLegacySecrets(definition.start_url),
+  steps: definition.steps.map(rewriteLegacySecrets),
+  assertions: definition.assertions.map(rewriteLegacySecrets),
+});
+
+/**
+ * Check a definition before saving; errors are keyed by field. `secretNames` are the secrets the
+ * project can use; leave it out to skip that check.
+ */
+export const validateScenarioDefinition = (
+  definition: ScenarioDefinition,
+  secretNames?: string[]
+): Record<string, string> => {
+  const errors: Record<string, string> = validateScenarioParameters(
+    getScenarioTexts(definition),
+    definition.data_table,
+    secretNames
+  );
+  const steps = definition.steps.filter((step) => step.trim());
+  const assertions = definition.assertions.filter((assertion) => assertion.trim());
+
+  if (!definition.name.trim()) {
+    errors.name = 'Name is required';
+  }
+  if (steps.length > MAX_SCENARIO_STEPS) {
+    errors.steps = `Use at most ${MAX_SCENARIO_STEPS} steps`;
+  }
+  if (assertions.length > MAX_SCENARIO_ASSERTIONS) {
+    errors.assertions = `Use at most ${MAX_SCENARIO_ASSERTIONS} assertions`;
+  }
+  if (definition.max_steps !== null) {
+    if (!Number.isInteger(definition.max_steps) || definition.max_steps < 1 || definition.max_steps > MAX_AGENT_STEPS) {
+      errors.max_steps = `Must be a whole number from 1 to ${MAX_AGENT_STEPS}`;
+    } else if (definition.max_steps < steps.length) {
+      errors.max_steps = `Allow at least ${steps.length} steps, one per listed step`;
+    }
+  }
+  // A placeholder in the URL is only known once a row fills it in
+  const startUrl = definition.start_url?.trim();
+  if (startUrl && !startUrl.includes('{{') && !isValidStartUrl(startUrl)) {
+    errors.start_url = 'Use a full http(s) URL or a path starting with "/"';
+  }
+
+  return errors;
+};
+
+/**
+ * Trim a definition for the API, dropping blank steps and assertions
+ */
+export const normalizeScenarioDefinition = (definition: ScenarioDefinition): ScenarioDefinition => ({
+  name: definition.name.trim(),
+  description: definition.description?.trim() || null,
+  steps: definition.steps.map((step) => step.trim()).filter(Boolean),
+  assertions: definition.assertions.map((assertion) => assertion.trim()).filter(Boolean),
+  max_steps: definition.max_steps,
+  start_url: definition.start_url?.trim() || null,
+  data_table: normalizeDataTable(definition.data_table),
+});
+
+/**
+ * What the agent needs to run a saved scenario; older scenarios send empty steps and assertions
+ */
+export const scenarioToAgentDefinition = (scenario: ScenarioResponse): AgentScenarioDefinition => ({
+  id: scenario.id,
+  name: scenario.name,
+  description: scenario.description,
+  steps: scenario.steps ?? [],
+  assertions: scenario.assertions ?? [],
+  start_url: scenario.start_url ?? null,
+  max_steps: scenario.max_steps ?? null,
+  data_table: scenario.data_table ?? null,
+});
+
+/**
+ * Where a scenario starts: `start_url` resolved against the suite's application URL
+ */
+export const resolveScenarioStartUrl = (startUrl: string | null | undefined, applicationUrl: string): string => {
+  if (!startUrl) return applicationUrl;
+  if (!startUrl.startsWith('/')) return startUrl;
+  return `${applicationUrl.replace(/\/$/, '')}${startUrl}`;
+};
+
+/**
+ * `items` with the entry at `from` moved to `to`
+ */
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
@@ -0,0 +1,152 @@
+/**
+ * Iterative scenario generation: coverage categories, duplicate detection and the context sent
+ * back to the generator when a set is refined
+ *
+ * Each round sends the scenarios generated so far, the ones rejected (with why) and what to
+ * change, so the generator extends the set instead of starting over.
+ */
+
+import type { ScenarioGenerationRequest } from './api-client';
+
+export const SCENARIO_COVERAGE_CATEGORIES = ['happy_path', 'validation', 'auth', 'edge_case'] as const;
+
+export type ScenarioCoverageCategory = (typeof SCENARIO_COVERAGE_CATEGORIES)[number];
+
+export const SCENARIO_COVERAGE_LABELS: Record<ScenarioCoverageCategory, string> = {
+  happy_path: 'Happy path',
+  validation: 'Validation',
+  auth: 'Auth',
+  edge_case: 'Edge case',
+};
+
+/** What to ask for when a category has no scenarios yet */
+export const SCENARIO_COVERAGE_PROMPTS: Record<ScenarioCoverageCategory, string> = {
+  happy_path: 'Add the main successful flows',
+  validation: 'Add scenarios for invalid and missing input',
+  auth: 'Add scenarios for login, logout and permissions',
+  edge_case: 'Add edge cases and unusual conditions',
+};
+
+export interface GeneratedScenario {
+  id: string;
+  text: string;
+  category: ScenarioCoverageCategory;
+  /** 1 for the first generation, then one more per refinement */
+  round: number;
+  /** The suite scenario this repeats; such scenarios start unselected */
+  duplicate_of: string | null;
+  /** Null unless the scenario was rejected (the reason may be empty); sent back so the generator avoids it */
+  rejection_reason: string | null;
+}
+
+export interface GenerationFeedback {
+  /** What to change, e.g. "more edge cases around payment" */
+  refinement: string;
+  round: number;
+}
+
+const CATEGORY_KEYWORDS: Array<[ScenarioCoverageCategory, RegExp]> = [
+  ['auth', /\b(log ?in|log ?out|sign ?in|sign ?out|sign ?up|password|session|permission|role|unauthori[sz]ed|access|2fa|token)\b/i],
+  ['validation', /\b(invalid|missing|required|validat\w*|error message|empty|malformed|incorrect|wrong format)\b/i],
+  ['edge_case', /\b(edge|boundary|maximum|minimum|limit|timeout|offline|slow|concurrent|twice|double|large|zero|negative|special characters|resize|mobile viewport)\b/i],
+];
+
+/**
+ * Best guess at a scenario's category, for generators that don't return one
+ */
+export const guessScenarioCategory = (text: string): ScenarioCoverageCategory =>
+  CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(text))?.[0] ?? 'happy_path';
+
+export const isScenarioCoverageCategory = (value: unknown): value is ScenarioCoverageCategory =>
+  typeof value === 'string' && (SCENARIO_COVERAGE_CATEGORIES as readonly string[]).includes(value);
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'to', 'of', 'on', 'in', 'that', 'is', 'are', 'be', 'with', 'it', 'its', 'for', 'then', 'verify', 'check']);
+
+const scenarioWords = (text: string): Set<string> =>
+  new Set(
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .split(/\s+/)
+      .filter((word) => word && !STOP_WORDS.has(word))
+  );
+
+// Share of words two scenarios have in common; 1 when they use the same words
+const similarity = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach((word) => {
+    if (b.has(word)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+};
+
+const DUPLICATE_THRESHOLD = 0.7;
+
+/**
+ * The first of `existing` that `text` says the same thing as, ignoring wording like "the" and
+ * "verify"; null when it's new
+ */
+export const findDuplicateScenario = (text: string, existing: string[]): string | null => {
+  const words = scenarioWords(text);
+  return existing.find((candidate) => similarity(words, scenarioWords(candidate)) >= DUPLICATE_THRESHOLD) ?? null;
+};
+
+/**
+ * Add a round of generated scenarios to the set. Ones that repeat a scenario already generated
+ * are dropped; ones that repeat a suite scenario are kept but flagged.
+ */
+export const mergeGeneratedScenarios = (
+  current: GeneratedScenario[],
+  texts: string[],
+  categories: unknown[] | undefined,
+  existingScenarios: string[],
+  round: number
+): GeneratedScenario[] => {
+  const merged = [...current];
+  texts.forEach((text, index) => {
+    const trimmed = text.trim();
+    if (!trimmed || findDuplicateScenario(trimmed, merged.map((scenario) => scenario.text))) return;
+    const category = categories?.[index];
+    merged.push({
+      id: `round-${round}-${index}`,
+      text: trimmed,
+      category: isScenarioCoverageCategory(category) ? category : guessScenarioCategory(trimmed),
+      round,
+      duplicate_of: findDuplicateScenario(trimmed, existingScenarios),
+      rejection_reason: null,
+    });
+  });
+  return merged;
+};
+
+/**
+ * Scenarios per category, counting only ones that weren't rejected
+ */
+export const getCoverageCounts = (scenarios: GeneratedScenario[]): Record<ScenarioCoverageCategory, number> => {
+  const counts = Object.fromEntries(SCENARIO_COVERAGE_CATEGORIES.map((category) => [category, 0])) as Record<
+    ScenarioCoverageCategory,
+    number
+  >;
+  scenarios.forEach((scenario) => {
+    if (scenario.rejection_reason === null) counts[scenario.category]++;
+  });
+  return counts;
+};
+
+/**
+ * The refinement part of a generation request: the set so far as context, rejections with
+ * their reasons, the suite's scenarios and what to change
+ */
+export const buildRefinementRequest = (
+  scenarios: GeneratedScenario[],
+  existingScenarios: string[],
+  refinement: string
+): Pick<ScenarioGenerationRequest, 'previous_scenarios' | 'rejected_scenarios' | 'existing_scenarios' | 'refinement'> => ({
+  previous_scenarios: scenarios.filter((scenario) => scenario.rejection_reason === null).map((scenario) => scenario.text),
+  rejected_scenarios: scenarios
+    .filter((scenario) => scenario.rejection_reason !== null)
+    .map((scenario) => ({ scenario: scenario.text, reason: scenario.rejection_reason ?? '' })),
+  existing_scenarios: existingScenarios,
+  refinement: refinement.trim() || undefined,
+});
@@ -0,0 +1,214 @@
+/**
+ * Scenario parameters: `{{variable}}` and `{{secrets.name}}` placeholders and per-scenario data tables
+ *
+ * A scenario with a data table runs once per row, with `{{column}}` replaced by the row's value.
+ * Variables that aren't table columns come from the run's environment. Secret placeholders are
+ * only ever resolved by the backend when the agent acts, so their values never reach the browser;
+ * everything shown in the UI keeps the placeholder. Scenarios written before placeholders existed
+ * reference secrets as `${name}`; the backend still resolves those, so they count as secrets here.
+ */
+
+export const MAX_DATA_TABLE_COLUMNS = 10;
+export const MAX_DATA_TABLE_ROWS = 50;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+const LEGACY_SECRET_PATTERN = /\$\{\s*([A-Za-z_][\w-]*)\s*\}/g;
+const ANY_PLACEHOLDER_PATTERN = new RegExp(`${PLACEHOLDER_PATTERN.source}|${LEGACY_SECRET_PATTERN.source}`, 'g');
+const SECRET_PREFIX = 'secrets.';
+const COLUMN_NAME_PATTERN = /^[A-Za-z_][\w-]*$/;
+
+export interface ScenarioDataTable {
+  columns: string[];
+  /** Values by column name, one object per iteration */
+  rows: Array<Record<string, string>>;
+}
+
+/**
+ * One row of a data-driven scenario in a run; `index` is 0-based
+ */
+export interface ScenarioIteration {
+  index: number;
+  values: Record<string, string>;
+}
+
+export interface ScenarioPlaceholders {
+  variables: string[];
+  secrets: string[];
+  /** Secrets referenced with the legacy `${name}` syntax; also listed in `secrets` */
+  legacySecrets: string[];
+}
+
+/**
+ * Every placeholder used in `texts`, deduplicated in order of first use
+ */
+export const findPlaceholders = (texts: Array<string | null | undefined>): ScenarioPlaceholders => {
+  const variables: string[] = [];
+  const secrets: string[] = [];
+  const legacySecrets: string[] = [];
+  texts.forEach((text) => {
+    for (const [, name, legacySecret] of (text ?? '').matchAll(ANY_PLACEHOLDER_PATTERN)) {
+      if (legacySecret) {
+        if (!secrets.includes(legacySecret)) secrets.push(legacySecret);
+        if (!legacySecrets.includes(legacySecret)) legacySecrets.push(legacySecret);
+      } else if (name.startsWith(SECRET_PREFIX)) {
+        const secret = name.slice(SECRET_PREFIX.length);
+        if (secret && !secrets.includes(secret)) secrets.push(secret);
+      } else if (!variables.includes(name)) {
+        variables.push(name);
+      }
+    }
+  });
+  return { variables, secrets, legacySecrets };
+};
+
+/**
+ * Replace variable placeholders with `values`. Secrets and unknown variables are left as they are.
+ */
+export const fillPlaceholders = (text: string, values: Record<string, string>): string =>
+  text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    !name.startsWith(SECRET_PREFIX) && name in values ? values[name] : placeholder
+  );
+
+/**
+ * Rewrite legacy `${name}` secret references as `{{secrets.name}}`
+ */
+export const rewriteLegacySecrets = (text: string): string =>
+  text.replace(LEGACY_SECRET_PATTERN, (_placeholder, name: string) => `{{${SECRET_PREFIX}${name}}}`);
+
+/**
+ * "sku=A-100, role=admin" for a row, in column order
+ */
+export const describeIteration = (values: Record<string, string>, columns: string[] = Object.keys(values)): string =>
+  columns.map((column) => `${column}=${values[column] ?? ''}`).join(', ');
+
+/**
+ * A data table while it is being edited: cells by position, so renaming a column keeps its values
+ */
+export interface DataTableGrid {
+  columns: string[];
+  cells: string[][];
+}
+
+export const dataTableToGrid = (table: ScenarioDataTable | null): DataTableGrid | null =>
+  table
+    ? { columns: [...table.columns], cells: table.rows.map((row) => table.columns.map((column) => row[column] ?? '')) }
+    : null;
+
+export const gridToDataTable = (grid: DataTableGrid | null): ScenarioDataTable | null =>
+  grid
+    ? {
+        columns: grid.columns,
+        rows: grid.cells.map((cells) => Object.fromEntries(grid.columns.map((column, index) => [column, cells[index] ?? '']))),
+      }
+    : null;
+
+/**
+ * Check a data table and the placeholders that use it. `secretNames` are the secrets the project
+ * can use; leave it out to skip that check.
+ */
+export const validateScenarioParameters = (
+  texts: Array<string | null | undefined>,
+  table: ScenarioDataTable | null,
+  secretNames?: string[]
+): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  const { secrets } = findPlaceholders(texts);
+
+  if (table) {
+    const columns = table.columns.map((column) => column.trim());
+    const invalidColumn = columns.find((column) => !COLUMN_NAME_PATTERN.test(column));
+    const duplicateColumn = columns.find((column, index) => columns.indexOf(column) !== index);
+    if (columns.length === 0) {
+      errors.data_table = 'Add at least one column';
+    } else if (columns.length > MAX_DATA_TABLE_COLUMNS) {
+      errors.data_table = `Use at most ${MAX_DATA_TABLE_COLUMNS} columns`;
+    } else if (invalidColumn !== undefined) {
+      errors.data_table = `"${invalidColumn}" is not a valid column name. Use letters, digits, "_" or "-"`;
+    } else if (duplicateColumn !== undefined) {
+      errors.data_table = `Column "${duplicateColumn}" is used twice`;
+    } else if (table.rows.length === 0) {
+      errors.data_table = 'Add at least one row';
+    } else if (table.rows.length > MAX_DATA_TABLE_ROWS) {
+      errors.data_table = `Use at most ${MAX_DATA_TABLE_ROWS} rows`;
+    }
+  }
+
+  const unknownSecret = secretNames ? secrets.find((name) => !secretNames.includes(name)) : undefined;
+  if (unknownSecret) {
+    errors.placeholders = `Secret "${unknownSecret}" does not exist in this workspace`;
+  }
+
+  return errors;
+};
+
+/**
+ * Trim column names and drop rows with no values; cells of removed columns are dropped
+ */
+export const normalizeDataTable = (table: ScenarioDataTable | null): ScenarioDataTable | null => {
+  if (!table) return null;
+  const columns = table.columns.map((column) => column.trim());
+  const rows = table.rows
+    .map((row) => Object.fromEntries(table.columns.map((column, index) => [columns[index], (row[column] ?? '').trim()])))
+    .filter((row) => Object.values(row).some(Boolean));
+  return { columns, rows };
+};
+
+/**
+ * The iterations a scenario runs as, one per data table row; null when it runs once without a table
+ */
+export const getScenarioIterations = (table: ScenarioDataTable | null | undefined): ScenarioIteration[] | null =>
+  table && table.rows.length > 0 ? table.rows.map((values, index) => ({ index, values })) : null;
+
+/**
+ * Read a data table from untrusted input (e.g. an imported bundle); anything malformed reads as no table
+ */
+export const parseDataTable = (value: unknown): ScenarioDataTable | null => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return null;
+  const { columns, rows } = value as Record<string, unknown>;
+  if (!Array.isArray(columns) || !columns.every((column) => typeof column === 'string') || !Array.isArray(rows)) {
+    return null;
+  }
+  return {
+    columns,
+    rows: rows
+      .filter((row): row is Record<string, unknown> => typeof row === 'object' && row !== null && !Array.isArray(row))
+      .map((row) => Object.fromEntries(columns.map((column) => [column, row[column] == null ? '' : String(row[column])]))),
+  };
+};
+
+// Worst first: one failed row fails the scenario
+const ITERATION_STATUS_ORDER = ['failed', 'running', 'pending', 'passed', 'completed'];
+
+const statusRank = (status: string | undefined): number => {
+  const index = ITERATION_STATUS_ORDER.indexOf((status ?? '').toLowerCase());
+  return index === -1 ? ITERATION_STATUS_ORDER.length : index;
+};
+
+/**
+ * Fold the per-row results of data-driven scenarios into one result per scenario, for views that
+ * list each scenario once. Steps get their row as a prefix and the worst row status wins.
+ */
+export const mergeIterationResults = <
+  T extends { id: number; status?: string; steps?: Array<{ action?: string }>; iteration_index?: number | null },
+>(
+  results: T[]
+): T[] => {
+  const merged: T[] = [];
+  results.forEach((result) => {
+    const rowSteps = (result.steps ?? []).map((step) =>
+      result.iteration_index == null ? step : { ...step, action: `Row ${result.iteration_index + 1}: ${step.action ?? ''}` }
+    );
+    const existing = merged.findIndex((item) => item.id === result.id);
+    if (existing === -1) {
+      merged.push({ ...result, steps: rowSteps });
+      return;
+    }
+    const current = merged[existing];
+    merged[existing] = {
+      ...current,
+      status: statusRank(result.status) < statusRank(current.status) ? result.status : current.status,
+      steps: [...(current.steps ?? []), ...rowSteps],
+    };
+  });
+  return merged;
+};
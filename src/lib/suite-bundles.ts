@@ -0,0 +1,686 @@
+/**
+ * Portable test suite bundles
+ *
+ * A bundle is a YAML or JSON file holding one or more suites with their settings, scenarios
+ * and (when they could be downloaded) attachments, so suites can be versioned in git or moved
+ * between projects. Bundles are validated against the schema below before anything is created.
+ */
+
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import {
+  createDeviceProfile,
+  createScenario,
+  createTestSuite,
+  getDeviceProfiles,
+  getPreconditionBlocks,
+  getScenarios,
+  getTestSuite,
+  uploadTestSuiteAttachments,
+  type DeviceProfileResponse,
+  type PreconditionBlockResponse,
+  type TestSuiteResponse,
+} from './api-client';
+import { parseSuitePreconditions, type SuitePreconditions } from './preconditions';
+import {
+  deviceProfileValue,
+  getDeviceProfileId,
+  normalizeResolution,
+  validateDeviceProfile,
+  type DeviceProfileFields,
+} from './resolutions';
+import { normalizeFolderPath, normalizeSuiteTag, validateSuiteOrganization } from './suite-organization';
+import { parseDataTable, type ScenarioDataTable } from './scenario-parameters';
+
+export const SUITE_BUNDLE_FORMAT = 'kplr.test-suite-bundle';
+export const SUITE_BUNDLE_VERSION = 1;
+
+// Larger attachments are exported as metadata only
+const MAX_EMBEDDED_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+export type SuiteBundleFileFormat = 'yaml' | 'json';
+
+export interface SuiteBundleAttachment {
+  filename: string;
+  content_type: string | null;
+  size: number;
+  /** Base64 file contents; missing when the file couldn't be downloaded at export */
+  data?: string;
+}
+
+export interface SuiteBundleScenario {
+  name: string;
+  description: string | null;
+  steps: string[];
+  assertions: string[];
+  max_steps: number | null;
+  start_url: string | null;
+  data_table: ScenarioDataTable | null;
+}
+
+export interface SuiteBundleSuite {
+  name: string;
+  description: string | null;
+  application_url: string | null;
+  ai_testing_instructions: string | null;
+  resolution: string | null;
+  /** The profile a `profile:<id>` resolution points at; ids are project-specific so it is matched by name on import */
+  device_profile: DeviceProfileFields | null;
+  creation_mode: string;
+  preconditions_enabled: boolean;
+  /** Always inline steps; blocks are project-specific so they are expanded on export */
+  preconditions: SuitePreconditions | null;
+  has_persistent_context: boolean;
+  exploration_enabled: boolean;
+  exploration_step_limit: number | null;
+  tags: string[];
+  /** Slash-separated folder path; null when the suite is not filed */
+  folder: string | null;
+  scenarios: SuiteBundleScenario[];
+  attachments: SuiteBundleAttachment[];
+}
+
+export interface SuiteBundle {
+  format: typeof SUITE_BUNDLE_FORMAT;
+  version: typeof SUITE_BUNDLE_VERSION;
+  exported_at: string;
+  suites: SuiteBundleSuite[];
+}
+
+/**
+ * A bundle that can't be imported; `problems` lists every schema violation found
+ */
+export class SuiteBundleError extends Error {
+  readonly problems: string[];
+
+  constructor(message: string, problems: string[] = []) {
+    super(message);
+    this.name = 'SuiteBundleError';
+    this.problems = problems;
+  }
+}
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+type FieldType = 'string' | 'nullable-string' | 'string-list' | 'boolean' | 'nullable-integer' | 'any';
+
+const SUITE_FIELDS: Record<Exclude<keyof SuiteBundleSuite, 'scenarios' | 'attachments'>, { type: FieldType; required: boolean }> = {
+  name: { type: 'string', required: true },
+  description: { type: 'nullable-string', required: false },
+  application_url: { type: 'nullable-string', required: false },
+  ai_testing_instructions: { type: 'nullable-string', required: false },
+  resolution: { type: 'nullable-string', required: false },
+  device_profile: { type: 'any', required: false },
+  creation_mode: { type: 'string', required: false },
+  preconditions_enabled: { type: 'boolean', required: false },
+  preconditions: { type: 'any', required: false },
+  has_persistent_context: { type: 'boolean', required: false },
+  exploration_enabled: { type: 'boolean', required: false },
+  exploration_step_limit: { type: 'nullable-integer', required: false },
+  tags: { type: 'string-list', required: false },
+  folder: { type: 'nullable-string', required: false },
+};
+
+// Optional scenario fields; `name` is checked on its own
+const SCENARIO_FIELDS: Record<Exclude<keyof SuiteBundleScenario, 'name'>, FieldType> = {
+  description: 'nullable-string',
+  steps: 'string-list',
+  assertions: 'string-list',
+  max_steps: 'nullable-integer',
+  start_url: 'nullable-string',
+  data_table: 'any',
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const checkField = (value: unknown, type: FieldType): string | null => {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string' && value.trim() ? null : 'must be a non-empty string';
+    case 'nullable-string':
+      return value === null || typeof value === 'string' ? null : 'must be a string or null';
+    case 'string-list':
+      return Array.isArray(value) && value.every((item) => typeof item === 'string') ? null : 'must be a list of strings';
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'must be true or false';
+    case 'nullable-integer':
+      return value === null || (Number.isInteger(value) && (value as number) > 0) ? null : 'must be a positive integer or null';
+    default:
+      return null;
+  }
+};
+
+// Anything that isn't a valid profile is dropped; the import then falls back to the default resolution
+const parseDeviceProfile = (value: unknown): DeviceProfileFields | null => {
+  if (!isRecord(value) || Object.keys(validateDeviceProfile(value as Partial<DeviceProfileFields>)).length > 0) {
+    return null;
+  }
+  const profile = value as unknown as DeviceProfileFields;
+  return {
+    name: profile.name.trim(),
+    width: profile.width,
+    height: profile.height,
+    device_scale_factor: profile.device_scale_factor,
+    user_agent: profile.user_agent ?? null,
+    has_touch: Boolean(profile.has_touch),
+    orientation: profile.orientation,
+  };
+};
+
+const validateSuite = (suite: unknown, path: string, problems: string[]) => {
+  if (!isRecord(suite)) {
+    problems.push(`${path}: must be an object`);
+    return;
+  }
+
+  (Object.keys(SUITE_FIELDS) as Array<keyof typeof SUITE_FIELDS>).forEach((field) => {
+    const { type, required } = SUITE_FIELDS[field];
+    if (!(field in suite)) {
+      if (required) problems.push(`${path}.${field}: is required`);
+      return;
+    }
+    const problem = checkField(suite[field], type);
+    if (problem) problems.push(`${path}.${field}: ${problem}`);
+  });
+
+  // Same rules as the suite form, checked on the values the import would save
+  const tagsValid = !('tags' in suite) || !checkField(suite.tags, 'string-list');
+  const folderValid = !('folder' in suite) || !checkField(suite.folder, 'nullable-string');
+  if (tagsValid && folderValid) {
+    const organizationErrors = validateSuiteOrganization(
+      ((suite.tags as string[] | undefined) ?? []).map(normalizeSuiteTag),
+      normalizeFolderPath(suite.folder as string | null | undefined)
+    );
+    Object.entries(organizationErrors).forEach(([field, message]) => problems.push(`${path}.${field}: ${message}`));
+  }
+
+  if (!Array.isArray(suite.scenarios)) {
+    problems.push(`${path}.scenarios: must be a list`);
+  } else {
+    suite.scenarios.forEach((scenario, index) => {
+      const scenarioPath = `${path}.scenarios[${index}]`;
+      if (!isRecord(scenario)) {
+        problems.push(`${scenarioPath}: must be an object`);
+        return;
+      }
+      const nameProblem = checkField(scenario.name, 'string');
+      if (nameProblem) problems.push(`${scenarioPath}.name: ${nameProblem}`);
+      (Object.keys(SCENARIO_FIELDS) as Array<keyof typeof SCENARIO_FIELDS>).forEach((field) => {
+        if (!(field in scenario)) return;
+        const problem = checkField(scenario[field], SCENARIO_FIELDS[field]);
+        if (problem) problems.push(`${scenarioPath}.${field}: ${problem}`);
+      });
+    });
+  }
+
+  if ('attachments' in suite && !Array.isArray(suite.attachments)) {
+    problems.push(`${path}.attachments: must be a list`);
+  } else if (Array.isArray(suite.attachments)) {
+    suite.attachments.forEach((attachment, index) => {
+      const attachmentPath = `${path}.attachments[${index}]`;
+      if (!isRecord(attachment)) {
+        problems.push(`${attachmentPath}: must be an object`);
+        return;
+      }
+      const filenameProblem = checkField(attachment.filename, 'string');
+      if (filenameProblem) problems.push(`${attachmentPath}.filename: ${filenameProblem}`);
+      if ('data' in attachment && typeof attachment.data !== 'string') {
+        problems.push(`${attachmentPath}.data: must be a base64 string`);
+      }
+    });
+  }
+};
+
+/**
+ * Check a parsed file against the bundle schema and fill in optional fields
+ */
+export const validateSuiteBundle = (value: unknown): SuiteBundle => {
+  const problems: string[] = [];
+
+  if (!isRecord(value)) {
+    throw new SuiteBundleError('The file is not a test suite bundle', ['The top level must be an object']);
+  }
+  if (value.format !== SUITE_BUNDLE_FORMAT) {
+    problems.push(`format: must be "${SUITE_BUNDLE_FORMAT}"`);
+  }
+  if (value.version !== SUITE_BUNDLE_VERSION) {
+    problems.push(`version: ${JSON.stringify(value.version)} is not supported (expected ${SUITE_BUNDLE_VERSION})`);
+  }
+  if (!Array.isArray(value.suites) || value.suites.length === 0) {
+    problems.push('suites: must be a non-empty list');
+  } else {
+    value.suites.forEach((suite, index) => validateSuite(suite, `suites[${index}]`, problems));
+  }
+
+  if (problems.length > 0) {
+    throw new SuiteBundleError('The bundle does not match the test suite bundle schema', problems);
+  }
+
+  const suites = (value.suites as Record<string, unknown>[]).map((suite): SuiteBundleSuite => ({
+    name: (suite.name as string).trim(),
+    description: (suite.description as string | null | undefined) ?? null,
+    application_url: (suite.application_url as string | null | undefined) ?? null,
+    ai_testing_instructions: (suite.ai_testing_instructions as string | null | undefined) ?? null,
+    resolution: (suite.resolution as string | null | undefined) ?? null,
+    device_profile: parseDeviceProfile(suite.device_profile),
+    creation_mode: (suite.creation_mode as string | undefined) ?? 'manual',
+    preconditions_enabled: (suite.preconditions_enabled as boolean | undefined) ?? false,
+    preconditions: parseSuitePreconditions(suite.preconditions),
+    has_persistent_context: (suite.has_persistent_context as boolean | undefined) ?? false,
+    exploration_enabled: (suite.exploration_enabled as boolean | undefined) ?? false,
+    exploration_step_limit: (suite.exploration_step_limit as number | null | undefined) ?? null,
+    tags: ((suite.tags as string[] | undefined) ?? []).map(normalizeSuiteTag),
+    folder: normalizeFolderPath(suite.folder as string | null | undefined),
+    scenarios: (suite.scenarios as Record<string, unknown>[]).map((scenario) => ({
+      name: (scenario.name as string).trim(),
+      description: (scenario.description as string | null | undefined) ?? null,
+      steps: (scenario.steps as string[] | undefined) ?? [],
+      assertions: (scenario.assertions as string[] | undefined) ?? [],
+      max_steps: (scenario.max_steps as number | null | undefined) ?? null,
+      start_url: (scenario.start_url as string | null | undefined) ?? null,
+      data_table: parseDataTable(scenario.data_table),
+    })),
+    attachments: ((suite.attachments as Record<string, unknown>[] | undefined) ?? []).map((attachment) => ({
+      filename: attachment.filename as string,
+      content_type: (attachment.content_type as string | null | undefined) ?? null,
+      size: typeof attachment.size === 'number' ? attachment.size : 0,
+      data: attachment.data as string | undefined,
+    })),
+  }));
+
+  return {
+    format: SUITE_BUNDLE_FORMAT,
+    version: SUITE_BUNDLE_VERSION,
+    exported_at: typeof value.exported_at === 'string' ? value.exported_at : '',
+    suites,
+  };
+};
+
+// ============================================================================
+// Files
+// ============================================================================
+
+/**
+ * Parse a bundle file (YAML or JSON, picked by extension) and validate it
+ */
+export const parseSuiteBundle = (text: string, fileName: string): SuiteBundle => {
+  const isJson = fileName.toLowerCase().endsWith('.json');
+  let parsed: unknown;
+  try {
+    parsed = isJson ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'unreadable';
+    throw new SuiteBundleError(`${fileName} is not valid ${isJson ? 'JSON' : 'YAML'}`, [reason]);
+  }
+  return validateSuiteBundle(parsed);
+};
+
+export const serializeSuiteBundle = (bundle: SuiteBundle, format: SuiteBundleFileFormat): string =>
+  format === 'json' ? JSON.stringify(bundle, null, 2) : stringifyYaml(bundle, { lineWidth: 0 });
+
+export const getSuiteBundleFileName = (bundle: SuiteBundle, format: SuiteBundleFileFormat): string => {
+  const base =
+    bundle.suites.length === 1
+      ? bundle.suites[0].name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'test-suite'
+      : `test-suites-${bundle.exported_at.slice(0, 10)}`;
+  return `${base}.kplr.${format === 'json' ? 'json' : 'yaml'}`;
+};
+
+// ============================================================================
+// Export
+// ============================================================================
+
+const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const downloadAttachmentData = async (url: string | null | undefined, size: number): Promise<string | undefined> => {
+  if (!url || size > MAX_EMBEDDED_ATTACHMENT_BYTES) return undefined;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return undefined;
+    return await blobToBase64(await response.blob());
+  } catch {
+    return undefined;
+  }
+};
+
+export interface SuiteBundleExport {
+  bundle: SuiteBundle;
+  /** Attachments exported without their contents, as "suite / file" */
+  attachmentsWithoutData: string[];
+}
+
+/**
+ * Build a bundle from existing suites, fetching their scenarios and attachments
+ */
+export const exportSuiteBundle = async (suiteIds: number[]): Promise<SuiteBundleExport> => {
+  const attachmentsWithoutData: string[] = [];
+  const blocksByProject = new Map<number, Promise<PreconditionBlockResponse[]>>();
+  const profilesByProject = new Map<number, Promise<DeviceProfileResponse[]>>();
+
+  // Copy a referenced block's steps into the suite so the bundle works in any project
+  const inlinePreconditions = async (suite: TestSuiteResponse): Promise<SuitePreconditions | null> => {
+    const preconditions = parseSuitePreconditions(suite.preconditions);
+    if (preconditions?.block_id == null) {
+      return preconditions;
+    }
+    if (!blocksByProject.has(suite.project_id)) {
+      blocksByProject.set(suite.project_id, getPreconditionBlocks(suite.project_id));
+    }
+    const block = (await blocksByProject.get(suite.project_id)!).find((b) => b.id === preconditions.block_id);
+    return block
+      ? { block_id: null, steps: block.steps, success_check: block.success_check }
+      : { ...preconditions, block_id: null };
+  };
+
+  // Carry the profile a suite's resolution points at, since its id means nothing in another project
+  const findDeviceProfile = async (suite: TestSuiteResponse): Promise<DeviceProfileFields | null> => {
+    const profileId = getDeviceProfileId(suite.resolution);
+    if (profileId === null) {
+      return null;
+    }
+    if (!profilesByProject.has(suite.project_id)) {
+      profilesByProject.set(suite.project_id, getDeviceProfiles(suite.project_id));
+    }
+    const profile = (await profilesByProject.get(suite.project_id)!).find((p) => p.id === profileId);
+    return profile
+      ? {
+          name: profile.name,
+          width: profile.width,
+          height: profile.height,
+          device_scale_factor: profile.device_scale_factor,
+          user_agent: profile.user_agent,
+          has_touch: profile.has_touch,
+          orientation: profile.orientation,
+        }
+      : null;
+  };
+
+  const suites = await Promise.all(
+    suiteIds.map(async (suiteId): Promise<SuiteBundleSuite> => {
+      const [suite, scenarios] = await Promise.all([getTestSuite(suiteId), getScenarios(suiteId)]);
+      const attachments = await Promise.all(
+        (suite.attachments ?? []).map(async (attachment): Promise<SuiteBundleAttachment> => {
+          const data = await downloadAttachmentData(attachment.storage_url, attachment.size);
+          if (data === undefined) {
+            attachmentsWithoutData.push(`${suite.name} / ${attachment.filename}`);
+          }
+          return {
+            filename: attachment.filename,
+            content_type: attachment.content_type ?? null,
+            size: attachment.size,
+            ...(data !== undefined ? { data } : {}),
+          };
+        })
+      );
+
+      return {
+        name: suite.name,
+        description: suite.description,
+        application_url: suite.application_url,
+        ai_testing_instructions: suite.ai_testing_instructions,
+        resolution: suite.resolution,
+        device_profile: await findDeviceProfile(suite),
+        creation_mode: suite.creation_mode,
+        preconditions_enabled: suite.preconditions_enabled,
+        preconditions: await inlinePreconditions(suite),
+        has_persistent_context: suite.has_persistent_context,
+        exploration_enabled: suite.exploration_enabled,
+        exploration_step_limit: suite.exploration_step_limit,
+        tags: suite.tags ?? [],
+        folder: suite.folder ?? null,
+        scenarios: scenarios.map((scenario) => ({
+          name: scenario.name,
+          description: scenario.description,
+          steps: scenario.steps ?? [],
+          assertions: scenario.assertions ?? [],
+          max_steps: scenario.max_steps ?? null,
+          start_url: scenario.start_url ?? null,
+          data_table: scenario.data_table ?? null,
+        })),
+        attachments,
+      };
+    })
+  );
+
+  return {
+    bundle: {
+      format: SUITE_BUNDLE_FORMAT,
+      version: SUITE_BUNDLE_VERSION,
+      exported_at: new Date().toISOString(),
+      suites,
+    },
+    attachmentsWithoutData,
+  };
+};
+
+// ============================================================================
+// Import
+// ============================================================================
+
+export type SuiteBundleConflictKind =
+  | 'name-taken'
+  | 'duplicate-suite'
+  | 'duplicate-scenario'
+  | 'unknown-resolution'
+  | 'device-profile'
+  | 'missing-attachment-data';
+
+export interface SuiteBundleConflict {
+  suiteIndex: number;
+  kind: SuiteBundleConflictKind;
+  message: string;
+}
+
+/**
+ * What importing the bundle into a project would run into; `name-taken` suites are renamed
+ * or skipped on import, the rest are imported with the noted loss
+ */
+export const findSuiteBundleConflicts = (
+  bundle: SuiteBundle,
+  existingSuites: Pick<TestSuiteResponse, 'name'>[]
+): SuiteBundleConflict[] => {
+  const conflicts: SuiteBundleConflict[] = [];
+  const existingNames = new Set(existingSuites.map((suite) => suite.name.toLowerCase()));
+  const seenNames = new Set<string>();
+
+  bundle.suites.forEach((suite, suiteIndex) => {
+    const key = suite.name.toLowerCase();
+    if (existingNames.has(key)) {
+      conflicts.push({ suiteIndex, kind: 'name-taken', message: `A suite named "${suite.name}" already exists in this project` });
+    } else if (seenNames.has(key)) {
+      conflicts.push({ suiteIndex, kind: 'duplicate-suite', message: `"${suite.name}" appears more than once in the bundle` });
+    }
+    seenNames.add(key);
+
+    const scenarioNames = suite.scenarios.map((scenario) => scenario.name.toLowerCase());
+    const duplicates = new Set(scenarioNames.filter((name, index) => scenarioNames.indexOf(name) !== index));
+    if (duplicates.size > 0) {
+      conflicts.push({
+        suiteIndex,
+        kind: 'duplicate-scenario',
+        message: `${duplicates.size} scenario name${duplicates.size === 1 ? ' is' : 's are'} repeated; all copies will be created`,
+      });
+    }
+
+    if (getDeviceProfileId(suite.resolution) !== null) {
+      conflicts.push(
+        suite.device_profile
+          ? {
+              suiteIndex,
+              kind: 'device-profile',
+              message: `Uses the device profile "${suite.device_profile.name}"; a profile with that name in this project is used, or one is created`,
+            }
+          : {
+              suiteIndex,
+              kind: 'unknown-resolution',
+              message: `Resolution "${suite.resolution}" refers to a device profile that isn't in the bundle; the default will be used`,
+            }
+      );
+    } else if (suite.resolution && !normalizeResolution(suite.resolution)) {
+      conflicts.push({
+        suiteIndex,
+        kind: 'unknown-resolution',
+        message: `Resolution "${suite.resolution}" is not supported; the default will be used`,
+      });
+    }
+
+    const missingData = suite.attachments.filter((attachment) => !attachment.data);
+    if (missingData.length > 0) {
+      conflicts.push({
+        suiteIndex,
+        kind: 'missing-attachment-data',
+        message: `${missingData.length} attachment${missingData.length === 1 ? ' has' : 's have'} no file contents and will be skipped`,
+      });
+    }
+  });
+
+  return conflicts;
+};
+
+export type SuiteNameConflictStrategy = 'rename' | 'skip';
+
+export interface SuiteBundleImportResult {
+  created: TestSuiteResponse[];
+  skipped: string[];
+  /** Suites that failed outright or were created without some scenarios/attachments/their device profile */
+  failures: { suiteName: string; message: string }[];
+}
+
+const getAvailableName = (name: string, takenNames: Set<string>): string => {
+  let candidate = `${name} (imported)`;
+  for (let attempt = 2; takenNames.has(candidate.toLowerCase()); attempt++) {
+    candidate = `${name} (imported ${attempt})`;
+  }
+  return candidate;
+};
+
+const base64ToFile = (attachment: SuiteBundleAttachment): File => {
+  const binary = atob(attachment.data ?? '');
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index++) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return new File([bytes], attachment.filename, { type: attachment.content_type ?? '' });
+};
+
+/**
+ * Recreate the bundle's suites in a project. Suites are imported one at a time so a failure
+ * is reported against the suite it belongs to and the rest still go through.
+ */
+export const importSuiteBundle = async (
+  bundle: SuiteBundle,
+  projectId: number,
+  existingSuites: Pick<TestSuiteResponse, 'name'>[],
+  onNameConflict: SuiteNameConflictStrategy
+): Promise<SuiteBundleImportResult> => {
+  const result: SuiteBundleImportResult = { created: [], skipped: [], failures: [] };
+  const takenNames = new Set(existingSuites.map((suite) => suite.name.toLowerCase()));
+  let projectProfiles: DeviceProfileResponse[] | null = null;
+
+  // Point `profile:<id>` resolutions at the target project's profile of the same name, creating
+  // it when missing; null means the default resolution is used
+  const importResolution = async (suite: SuiteBundleSuite): Promise<string | null> => {
+    if (getDeviceProfileId(suite.resolution) === null) {
+      return normalizeResolution(suite.resolution);
+    }
+    const bundled = suite.device_profile;
+    if (!bundled) {
+      return null;
+    }
+    projectProfiles ??= await getDeviceProfiles(projectId);
+    const key = bundled.name.toLowerCase();
+    let profile = projectProfiles.find((p) => p.name.toLowerCase() === key);
+    if (!profile) {
+      profile = await createDeviceProfile(projectId, bundled);
+      projectProfiles.push(profile);
+    }
+    return deviceProfileValue(profile.id);
+  };
+
+  for (const suite of bundle.suites) {
+    let name = suite.name;
+    if (takenNames.has(name.toLowerCase())) {
+      if (onNameConflict === 'skip') {
+        result.skipped.push(name);
+        continue;
+      }
+      name = getAvailableName(name, takenNames);
+    }
+    takenNames.add(name.toLowerCase());
+
+    let resolution: string | null = null;
+    let resolutionProblem: string | null = null;
+    try {
+      resolution = await importResolution(suite);
+    } catch (error) {
+      resolutionProblem = `Device profile "${suite.device_profile?.name}" could not be set up, so the default resolution is used: ${
+        error instanceof Error ? error.message : 'request failed'
+      }`;
+    }
+
+    let created: TestSuiteResponse;
+    try {
+      created = await createTestSuite({
+        name,
+        description: suite.description,
+        application_url: suite.application_url,
+        ai_testing_instructions: suite.ai_testing_instructions,
+        resolution: resolution ?? undefined,
+        creation_mode: suite.creation_mode,
+        preconditions_enabled: suite.preconditions_enabled,
+        preconditions: suite.preconditions,
+        has_persistent_context: suite.has_persistent_context,
+        exploration_enabled: suite.exploration_enabled,
+        exploration_step_limit: suite.exploration_step_limit,
+        tags: suite.tags,
+        folder: suite.folder,
+        project_id: projectId,
+      });
+    } catch (error) {
+      result.failures.push({
+        suiteName: name,
+        message: error instanceof Error ? error.message : 'Failed to create test suite',
+      });
+      continue;
+    }
+    result.created.push(created);
+    if (resolutionProblem) {
+      result.failures.push({ suiteName: name, message: resolutionProblem });
+    }
+
+    let failedScenarios = 0;
+    for (const scenario of suite.scenarios) {
+      try {
+        await createScenario({ ...scenario, test_suite_id: created.id });
+      } catch {
+        failedScenarios++;
+      }
+    }
+    if (failedScenarios > 0) {
+      result.failures.push({
+        suiteName: name,
+        message: `${failedScenarios} of ${suite.scenarios.length} scenarios could not be created`,
+      });
+    }
+
+    try {
+      const files = suite.attachments.filter((attachment) => attachment.data).map(base64ToFile);
+      await uploadTestSuiteAttachments(created.id, files);
+    } catch (error) {
+      result.failures.push({
+        suiteName: name,
+        message: `Attachments were not uploaded: ${error instanceof Error ? error.message : 'upload failed'}`,
+      });
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,101 @@
+/**
+ * Helpers for suite environments: named base URLs with their own variables and secret bindings
+ */
+
+import type { SecretBinding, SuiteEnvironmentCreate, SuiteEnvironmentResponse } from './api-client';
+
+// Variables and secret bindings are referenced by name from scenarios, so keep them identifier-like
+export const ENVIRONMENT_VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export interface EnvironmentVariableRow {
+  key: string;
+  value: string;
+}
+
+export interface SecretBindingRow {
+  name: string;
+  /** Select value; empty until a secret is picked */
+  secretId: string;
+}
+
+export interface SuiteEnvironmentDraft {
+  name: string;
+  baseUrl: string;
+  variables: EnvironmentVariableRow[];
+  secretBindings: SecretBindingRow[];
+}
+
+export const emptyEnvironmentDraft = (baseUrl = ''): SuiteEnvironmentDraft => ({
+  name: '',
+  baseUrl,
+  variables: [],
+  secretBindings: [],
+});
+
+export const environmentToDraft = (environment: SuiteEnvironmentResponse): SuiteEnvironmentDraft => ({
+  name: environment.name,
+  baseUrl: environment.base_url,
+  variables: Object.entries(environment.variables).map(([key, value]) => ({ key, value })),
+  secretBindings: environment.secret_bindings.map((binding) => ({
+    name: binding.name,
+    secretId: binding.secret_id.toString(),
+  })),
+});
+
+/**
+ * Check a draft before saving. Keys match the API's field names so backend 422s land in the same place.
+ */
+export const validateEnvironmentDraft = (draft: SuiteEnvironmentDraft): Record<string, string> => {
+  const errors: Record<string, string> = {};
+
+  if (!draft.name.trim()) {
+    errors.name = 'Name is required';
+  }
+
+  try {
+    const url = new URL(draft.baseUrl.trim());
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      errors.base_url = 'Base URL must start with http:// or https://';
+    }
+  } catch {
+    errors.base_url = 'Enter a full URL, e.g. https://staging.example.com';
+  }
+
+  const seen = new Set<string>();
+  const checkName = (name: string, field: 'variables' | 'secret_bindings') => {
+    if (errors[field]) return;
+    if (!ENVIRONMENT_VARIABLE_NAME_PATTERN.test(name)) {
+      errors[field] = `"${name}" is not a valid name; use letters, digits and underscores`;
+    } else if (seen.has(name)) {
+      errors[field] = `"${name}" is defined more than once`;
+    }
+    seen.add(name);
+  };
+
+  draft.variables.forEach((row) => checkName(row.key.trim(), 'variables'));
+  draft.secretBindings.forEach((row) => {
+    checkName(row.name.trim(), 'secret_bindings');
+    if (!row.secretId && !errors.secret_bindings) {
+      errors.secret_bindings = `Pick a secret for "${row.name.trim() || 'the new binding'}"`;
+    }
+  });
+
+  return errors;
+};
+
+export const draftToEnvironmentPayload = (draft: SuiteEnvironmentDraft): SuiteEnvironmentCreate => ({
+  name: draft.name.trim(),
+  base_url: draft.baseUrl.trim(),
+  variables: Object.fromEntries(draft.variables.map((row) => [row.key.trim(), row.value])),
+  secret_bindings: draft.secretBindings.map(
+    (row): SecretBinding => ({ name: row.name.trim(), secret_id: Number(row.secretId) })
+  ),
+});
+
+/**
+ * The environment runs and schedules target when none is picked
+ */
+export const getDefaultEnvironment = (
+  environments: SuiteEnvironmentResponse[]
+): SuiteEnvironmentResponse | undefined =>
+  environments.find((environment) => environment.is_default) ?? environments[0];
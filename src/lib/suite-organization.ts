@@ -0,0 +1,185 @@
+/**
+ * Organizing suites: tags, folders, sorting and the filters people save on the suites page
+ *
+ * Folders are slash-separated paths on the suite ("Store/Checkout"), so a folder exists as long
+ * as a suite is in it or below it. Tags are short lowercase labels that other pages use as
+ * selectors, e.g. a schedule that runs every suite tagged "smoke".
+ */
+
+import type { TestSuiteResponse } from './api-client';
+
+export const MAX_SUITE_TAGS = 10;
+export const MAX_TAG_LENGTH = 32;
+export const MAX_FOLDER_DEPTH = 5;
+
+const TAG_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+// Select values that stand for "every suite with this tag" next to plain suite ids
+const TAG_SELECTOR_PREFIX = 'tag:';
+
+export const tagSelectorValue = (tag: string): string => `${TAG_SELECTOR_PREFIX}${tag}`;
+
+/**
+ * The tag a selector value stands for, or null when it is a suite id or "all"
+ */
+export const getSelectorTag = (value: string | null | undefined): string | null =>
+  value?.startsWith(TAG_SELECTOR_PREFIX) ? value.slice(TAG_SELECTOR_PREFIX.length) : null;
+
+/**
+ * "Smoke Tests " becomes "smoke-tests"
+ */
+export const normalizeSuiteTag = (tag: string): string => tag.trim().toLowerCase().replace(/\s+/g, '-');
+
+/**
+ * Trim every segment and drop empty ones; null means the suite is not in a folder
+ */
+export const normalizeFolderPath = (path: string | null | undefined): string | null => {
+  const segments = (path ?? '')
+    .split('/')
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+  return segments.length > 0 ? segments.join('/') : null;
+};
+
+export const validateSuiteOrganization = (tags: string[], folder: string | null): Record<string, string> => {
+  const errors: Record<string, string> = {};
+
+  const invalidTag = tags.find((tag) => !TAG_PATTERN.test(tag) || tag.length > MAX_TAG_LENGTH);
+  if (tags.length > MAX_SUITE_TAGS) {
+    errors.tags = `Use at most ${MAX_SUITE_TAGS} tags`;
+  } else if (invalidTag !== undefined) {
+    errors.tags = `"${invalidTag}" is not a valid tag. Use up to ${MAX_TAG_LENGTH} letters, digits, "-" or "_"`;
+  }
+
+  if (folder && folder.split('/').length > MAX_FOLDER_DEPTH) {
+    errors.folder = `Folders can be nested at most ${MAX_FOLDER_DEPTH} levels deep`;
+  }
+
+  return errors;
+};
+
+/**
+ * Every tag used by the suites, alphabetically
+ */
+export const collectSuiteTags = (suites: TestSuiteResponse[]): string[] =>
+  Array.from(new Set(suites.flatMap((suite) => suite.tags ?? []))).sort();
+
+/**
+ * Whether a suite in `suiteFolder` is inside `folder`, counting subfolders
+ */
+export const isInFolder = (suiteFolder: string | null | undefined, folder: string): boolean =>
+  !!suiteFolder && (suiteFolder === folder || suiteFolder.startsWith(`${folder}/`));
+
+export interface SuiteFolderNode {
+  name: string;
+  path: string;
+  /** Suites in this folder and all of its subfolders */
+  suiteCount: number;
+  children: SuiteFolderNode[];
+}
+
+/**
+ * Nest the suites' folder paths into a tree, sorted by name at every level
+ */
+export const buildFolderTree = (suites: TestSuiteResponse[]): SuiteFolderNode[] => {
+  const root: SuiteFolderNode = { name: '', path: '', suiteCount: 0, children: [] };
+
+  suites.forEach((suite) => {
+    const folder = normalizeFolderPath(suite.folder);
+    if (!folder) return;
+    let node = root;
+    folder.split('/').forEach((name) => {
+      const path = node.path ? `${node.path}/${name}` : name;
+      let child = node.children.find((c) => c.name === name);
+      if (!child) {
+        child = { name, path, suiteCount: 0, children: [] };
+        node.children.push(child);
+      }
+      child.suiteCount++;
+      node = child;
+    });
+  });
+
+  const sortTree = (nodes: SuiteFolderNode[]): SuiteFolderNode[] =>
+    nodes
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((node) => ({ ...node, children: sortTree(node.children) }));
+  return sortTree(root.children);
+};
+
+export type SuiteSortKey = 'name' | 'created' | 'last_run_status' | 'last_run_at';
+
+export const SUITE_SORT_OPTIONS: Array<{ value: SuiteSortKey; label: string }> = [
+  { value: 'last_run_status', label: 'Last run status' },
+  { value: 'last_run_at', label: 'Last run time' },
+  { value: 'name', label: 'Name' },
+  { value: 'created', label: 'Newest' },
+];
+
+// Failures first so the suites that need attention are on top; never-run suites last
+const LAST_RUN_STATUS_ORDER: Record<string, number> = { failed: 0, running: 1, completed: 2 };
+
+const lastRunStatusRank = (suite: TestSuiteResponse): number =>
+  suite.last_run ? LAST_RUN_STATUS_ORDER[suite.last_run.status] ?? 2 : 3;
+
+export const sortSuites = (suites: TestSuiteResponse[], sort: SuiteSortKey): TestSuiteResponse[] => {
+  const byName = (a: TestSuiteResponse, b: TestSuiteResponse) => a.name.localeCompare(b.name);
+  const lastRunTime = (suite: TestSuiteResponse) =>
+    suite.last_run ? new Date(suite.last_run.started_at).getTime() : 0;
+
+  return [...suites].sort((a, b) => {
+    switch (sort) {
+      case 'created':
+        return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+      case 'last_run_status':
+        return lastRunStatusRank(a) - lastRunStatusRank(b) || lastRunTime(b) - lastRunTime(a) || byName(a, b);
+      case 'last_run_at':
+        return lastRunTime(b) - lastRunTime(a) || byName(a, b);
+      default:
+        return byName(a, b);
+    }
+  });
+};
+
+export interface SuiteFilter {
+  search: string;
+  /** Suites must have every one of these */
+  tags: string[];
+  folder: string | null;
+  sort: SuiteSortKey;
+}
+
+export const DEFAULT_SUITE_FILTER: SuiteFilter = { search: '', tags: [], folder: null, sort: 'last_run_status' };
+
+export interface SavedSuiteFilter {
+  id: string;
+  name: string;
+  filter: SuiteFilter;
+}
+
+const savedFiltersStorageKey = (projectId: number) => `kplr_saved_suite_filters_${projectId}`;
+
+/**
+ * Filters saved in this browser for a project
+ */
+export const loadSavedSuiteFilters = (projectId: number): SavedSuiteFilter[] => {
+  try {
+    const stored = localStorage.getItem(savedFiltersStorageKey(projectId));
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed)
+      ? parsed
+          .filter((item): item is SavedSuiteFilter => typeof item?.id === 'string' && typeof item?.name === 'string')
+          .map((item) => ({ ...item, filter: { ...DEFAULT_SUITE_FILTER, ...item.filter } }))
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const storeSavedSuiteFilters = (projectId: number, filters: SavedSuiteFilter[]) => {
+  try {
+    localStorage.setItem(savedFiltersStorageKey(projectId), JSON.stringify(filters));
+  } catch (error) {
+    console.warn('Failed to save suite filters:', error);
+  }
+};
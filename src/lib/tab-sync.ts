@@ -0,0 +1,79 @@
+/**
+ * Messages between open tabs of the app
+ *
+ * Auth tokens, the selected project and the active runtime all live in localStorage, which
+ * every tab shares, but each tab also keeps them in React state. Tabs announce changes here so
+ * the others can apply them. Uses BroadcastChannel, falling back to storage events.
+ */
+
+export interface SyncedRuntime {
+  podInstanceId: string;
+  suiteId: string;
+  suiteName?: string;
+  platform: 'web' | 'android';
+  streamUrl: string;
+  launchedAt: number;
+}
+
+export type TabSyncMessage =
+  | { type: 'login' }
+  | { type: 'logout' }
+  | { type: 'project-selected'; projectId: number | null }
+  // stoppedPodInstanceId: the pod the sender already stopped, so receivers don't stop it again
+  | { type: 'runtime-changed'; runtime: SyncedRuntime | null; stoppedPodInstanceId?: string };
+
+type TabSyncListener = (message: TabSyncMessage) => void;
+
+const CHANNEL_NAME = 'kplr_tab_sync';
+// Written (then removed) only to raise a storage event in the other tabs
+const FALLBACK_STORAGE_KEY = 'kplr_tab_sync_message';
+
+const listeners = new Set<TabSyncListener>();
+
+const channel =
+  typeof window !== 'undefined' && 'BroadcastChannel' in window ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+const dispatch = (message: TabSyncMessage) => {
+  listeners.forEach((listener) => listener(message));
+};
+
+if (channel) {
+  channel.onmessage = (event: MessageEvent<TabSyncMessage>) => dispatch(event.data);
+} else if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    if (event.key !== FALLBACK_STORAGE_KEY || !event.newValue) return;
+    try {
+      dispatch(JSON.parse(event.newValue).message as TabSyncMessage);
+    } catch {
+      // Not one of ours
+    }
+  });
+}
+
+/**
+ * Tell every other tab about a change made in this one (the sender does not receive it)
+ */
+export const broadcastTabMessage = (message: TabSyncMessage) => {
+  if (channel) {
+    channel.postMessage(message);
+    return;
+  }
+  if (typeof window === 'undefined') return;
+  try {
+    // The timestamp makes repeated identical messages still count as a change
+    localStorage.setItem(FALLBACK_STORAGE_KEY, JSON.stringify({ message, sentAt: Date.now() }));
+    localStorage.removeItem(FALLBACK_STORAGE_KEY);
+  } catch (error) {
+    console.warn('Failed to notify other tabs:', error);
+  }
+};
+
+/**
+ * Listen for changes announced by other tabs
+ */
+export const subscribeTabMessages = (listener: TabSyncListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,64 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { Loader2, MailX } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useProject } from "@/contexts/ProjectContext";
+import { acceptProjectInvitation } from "@/lib/api-client";
+import { projectPath } from "@/lib/project-routes";
+
+/**
+ * Landing page for the link in an invitation email (/invitations/:token).
+ * Joins the workspace and opens it.
+ */
+export default function AcceptInvitationPage() {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { refreshProjects, loading } = useProject();
+  const [error, setError] = useState<string | null>(null);
+  // An invitation can only be accepted once, so guard against StrictMode's second effect run
+  const hasStartedRef = useRef(false);
+
+  useEffect(() => {
+    // Wait for the initial project load, which would otherwise swallow the refresh below
+    if (!token || loading || hasStartedRef.current) return;
+    hasStartedRef.current = true;
+
+    const accept = async () => {
+      try {
+        const project = await acceptProjectInvitation(token);
+        await refreshProjects(project);
+        toast({ title: "Welcome!", description: `You joined ${project.name}` });
+        navigate(projectPath(project.id, "/dashboard"), { replace: true });
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to accept invitation");
+      }
+    };
+    accept();
+  }, [token, loading, navigate, refreshProjects, toast]);
+
+  if (!error) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-center min-h-[400px]">
+      <div className="text-center space-y-4 max-w-md">
+        <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-muted">
+          <MailX className="h-8 w-8 text-muted-foreground" />
+        </div>
+        <h1 className="text-2xl font-semibold tracking-tight">Invitation not accepted</h1>
+        <p className="text-muted-foreground">{error}</p>
+        <p className="text-sm text-muted-foreground">Ask a workspace owner to send you a new invitation.</p>
+        <Button asChild variant="outline">
+          <Link to="/dashboard">Go to dashboard</Link>
+        </Button>
+      </div>
+    </div>
+  );
+}
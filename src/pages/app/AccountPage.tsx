@@ -0,0 +1,365 @@
+import { useEffect, useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2, LogOut, Monitor, ShieldCheck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { useApiQuery } from "@/hooks/use-api-query";
+import { useFieldErrors } from "@/hooks/use-field-errors";
+import { FieldErrorMessage } from "@/components/FieldErrorMessage";
+import { cn } from "@/lib/utils";
+import { queryKeys } from "@/lib/query-cache";
+import { NotFoundError } from "@/lib/api-errors";
+import { startGoogleOAuth } from "@/lib/google-auth";
+import {
+  changePassword,
+  getAuthSessions,
+  revokeAllAuthSessions,
+  revokeAuthSession,
+  type AuthSessionResponse,
+} from "@/lib/api-client";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const describeUserAgent = (userAgent?: string | null): string => {
+  if (!userAgent) return "Unknown device";
+  const browser =
+    ["Edg", "Chrome", "Firefox", "Safari"].find((name) => userAgent.includes(`${name}/`)) ?? "Browser";
+  const os =
+    [
+      ["Windows", "Windows"],
+      ["Mac OS X", "macOS"],
+      ["Android", "Android"],
+      ["iPhone", "iOS"],
+      ["Linux", "Linux"],
+    ].find(([token]) => userAgent.includes(token))?.[1] ?? "Unknown OS";
+  return `${browser === "Edg" ? "Edge" : browser} on ${os}`;
+};
+
+export default function AccountPage() {
+  const { toast } = useToast();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { user, logout } = useAuth();
+  const { fieldErrors, applyError, clearFieldError, clearFieldErrors } = useFieldErrors();
+
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isChangingPassword, setIsChangingPassword] = useState(false);
+  const [isLinkingGoogle, setIsLinkingGoogle] = useState(false);
+  const [revokingSessionId, setRevokingSessionId] = useState<string | null>(null);
+  const [isSignOutEverywhereOpen, setIsSignOutEverywhereOpen] = useState(false);
+  const [isSigningOutEverywhere, setIsSigningOutEverywhere] = useState(false);
+
+  const {
+    data: sessions = [],
+    isLoading: isLoadingSessions,
+    error: sessionsError,
+  } = useApiQuery(queryKeys.authSessions(), () => getAuthSessions(), { enabled: !!user });
+  // Older backends have no session management; that is not an error worth showing
+  const sessionsUnavailable = sessionsError instanceof NotFoundError;
+
+  // Result of the Google linking round trip through /callback
+  useEffect(() => {
+    const state = location.state as { googleLinked?: boolean; googleLinkError?: string } | null;
+    if (!state?.googleLinked && !state?.googleLinkError) return;
+
+    if (state.googleLinked) {
+      toast({ title: "Success", description: "Your Google account is now linked" });
+    } else {
+      toast({ title: "Error", description: state.googleLinkError, variant: "destructive" });
+    }
+    navigate(location.pathname, { replace: true, state: null });
+  }, [location.state, location.pathname, navigate, toast]);
+
+  const passwordMismatch = confirmPassword.length > 0 && confirmPassword !== newPassword;
+  const passwordTooShort = newPassword.length > 0 && newPassword.length < MIN_PASSWORD_LENGTH;
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passwordMismatch || passwordTooShort) return;
+
+    setIsChangingPassword(true);
+    clearFieldErrors();
+
+    try {
+      await changePassword({ current_password: currentPassword, new_password: newPassword });
+      toast({ title: "Success", description: "Password changed successfully" });
+      setCurrentPassword("");
+      setNewPassword("");
+      setConfirmPassword("");
+    } catch (error) {
+      if (!applyError(error)) {
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to change password",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsChangingPassword(false);
+    }
+  };
+
+  const handleLinkGoogle = async () => {
+    setIsLinkingGoogle(true);
+    try {
+      await startGoogleOAuth("link", location.pathname);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start Google sign-in",
+        variant: "destructive",
+      });
+      setIsLinkingGoogle(false);
+    }
+  };
+
+  const handleRevokeSession = async (session: AuthSessionResponse) => {
+    setRevokingSessionId(session.id);
+    try {
+      await revokeAuthSession(session.id);
+      if (session.is_current) {
+        await logout();
+        return;
+      }
+      toast({ title: "Success", description: "Session signed out" });
+    } catch (error) {
+      // Already expired or signed out elsewhere
+      if (error instanceof NotFoundError) return;
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to sign out session",
+        variant: "destructive",
+      });
+    } finally {
+      setRevokingSessionId(null);
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    setIsSigningOutEverywhere(true);
+    try {
+      await revokeAllAuthSessions();
+      await logout();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to sign out everywhere",
+        variant: "destructive",
+      });
+      setIsSigningOutEverywhere(false);
+      setIsSignOutEverywhereOpen(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-3xl font-bold bg-gradient-to-r from-primary to-primary/60 bg-clip-text text-transparent">Account & Security</h2>
+        <p className="text-muted-foreground mt-1">
+          {user?.email ? `Signed in as ${user.email}` : "Manage how you sign in"}
+        </p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* Password */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Change password</CardTitle>
+            <CardDescription>Use at least {MIN_PASSWORD_LENGTH} characters.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form className="space-y-4" onSubmit={handleChangePassword}>
+              <div className="space-y-2">
+                <Label htmlFor="current-password">Current password</Label>
+                <Input
+                  id="current-password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={currentPassword}
+                  onChange={(e) => {
+                    setCurrentPassword(e.target.value);
+                    clearFieldError("current_password");
+                  }}
+                  className={cn(fieldErrors.current_password && "border-destructive")}
+                  required
+                />
+                <FieldErrorMessage message={fieldErrors.current_password} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="new-password">New password</Label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={newPassword}
+                  onChange={(e) => {
+                    setNewPassword(e.target.value);
+                    clearFieldError("new_password");
+                  }}
+                  className={cn((fieldErrors.new_password || passwordTooShort) && "border-destructive")}
+                  required
+                />
+                <FieldErrorMessage
+                  message={
+                    fieldErrors.new_password ||
+                    (passwordTooShort ? `Must be at least ${MIN_PASSWORD_LENGTH} characters` : undefined)
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirm-password">Confirm new password</Label>
+                <Input
+                  id="confirm-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className={cn(passwordMismatch && "border-destructive")}
+                  required
+                />
+                <FieldErrorMessage message={passwordMismatch ? "Passwords do not match" : undefined} />
+              </div>
+              <Button
+                type="submit"
+                disabled={isChangingPassword || passwordMismatch || passwordTooShort || !currentPassword || !newPassword}
+              >
+                {isChangingPassword && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Change password
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Google */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Google</CardTitle>
+            <CardDescription>
+              Link your Google account to sign in with Google instead of your password.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" onClick={handleLinkGoogle} disabled={isLinkingGoogle}>
+              {isLinkingGoogle ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <ShieldCheck className="h-4 w-4 mr-2" />
+              )}
+              Link Google account
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Sessions */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Active sessions</CardTitle>
+            <CardDescription>Devices that are currently signed in to your account.</CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            className="text-destructive hover:text-destructive"
+            onClick={() => setIsSignOutEverywhereOpen(true)}
+            disabled={sessions.length === 0}
+          >
+            <LogOut className="h-4 w-4 mr-2" />
+            Sign out everywhere
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoadingSessions ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : sessionsUnavailable ? (
+            <p className="text-sm text-muted-foreground">
+              Session management isn't available on this server yet.
+            </p>
+          ) : sessionsError ? (
+            <p className="text-sm text-muted-foreground">
+              {sessionsError instanceof Error ? sessionsError.message : "Failed to load sessions"}
+            </p>
+          ) : sessions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No active sessions.</p>
+          ) : (
+            <div className="divide-y">
+              {sessions.map((session) => (
+                <div key={session.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <Monitor className="h-5 w-5 text-muted-foreground flex-shrink-0" />
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium truncate">{describeUserAgent(session.user_agent)}</span>
+                        {session.is_current && <Badge variant="secondary">This device</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {session.ip_address || "Unknown location"} · Signed in{" "}
+                        {new Date(session.created_at).toLocaleString()}
+                        {session.last_active_at &&
+                          ` · Last active ${new Date(session.last_active_at).toLocaleString()}`}
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRevokeSession(session)}
+                    disabled={revokingSessionId === session.id}
+                  >
+                    {revokingSessionId === session.id && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Sign out
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={isSignOutEverywhereOpen} onOpenChange={setIsSignOutEverywhereOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Sign out everywhere</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every device signed in to your account, including this one, will be signed out.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSigningOutEverywhere}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleSignOutEverywhere();
+              }}
+              disabled={isSigningOutEverywhere}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isSigningOutEverywhere && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Sign out everywhere
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -19,6 +19,7 @@ import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
+import { useProjectPermissions } from "@/hooks/use-project-permissions";
 import { useProject } from "@/contexts/ProjectContext";
 import { cn } from "@/lib/utils";
 import {
@@ -72,6 +73,7 @@ const platformGradient = (platform?: string) =>
 
 export default function AppRegistryPage() {
   const { selectedProject } = useProject();
+  const { canEdit } = useProjectPermissions();
   const { toast } = useToast();
 
   const [apps, setApps] = useState<MobileAppResponse[]>([]);
@@ -254,20 +256,22 @@ export default function AppRegistryPage() {
               every build traceable.
             </p>
           </div>
-          <div className="flex gap-3 flex-wrap">
-            <Button variant="outline" className="border-dashed" onClick={() => setIsCreateModalOpen(true)}>
-              <Plus className="h-4 w-4 mr-2" />
-              Add App
-            </Button>
-            <Button
-              className="bg-orange-600 hover:bg-orange-500"
-              onClick={() => setIsUploadModalOpen(true)}
-              disabled={!selectedApp || !apps.length}
-            >
-              <UploadCloud className="h-4 w-4 mr-2" />
-              Upload new build
-            </Button>
-          </div>
+          {canEdit && (
+            <div className="flex gap-3 flex-wrap">
+              <Button variant="outline" className="border-dashed" onClick={() => setIsCreateModalOpen(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add App
+              </Button>
+              <Button
+                className="bg-orange-600 hover:bg-orange-500"
+                onClick={() => setIsUploadModalOpen(true)}
+                disabled={!selectedApp || !apps.length}
+              >
+                <UploadCloud className="h-4 w-4 mr-2" />
+                Upload new build
+              </Button>
+            </div>
+          )}
         </div>
 
         <div className="grid gap-4 md:grid-cols-3">
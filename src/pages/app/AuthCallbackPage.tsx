@@ -1,19 +1,66 @@
-import { useEffect } from 'react';
+import { useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
 import { checkUrlForAuth } from '../../lib/auth-storage';
 import { redirectToAuth } from '../../lib/auth-redirect';
+import { exchangeGoogleCode } from '../../lib/api-client';
+import { consumeGoogleOAuth, isGoogleOAuthStateValid, type PendingGoogleOAuth } from '../../lib/google-auth';
 
 /**
  * Callback page that handles authentication redirects from the auth service
  * Expected URL format: /callback?auth=...
  * Processes the auth token and fetches user from backend
+ *
+ * Google also redirects here with ?code=...&state=... after startGoogleOAuth; when `state` matches
+ * the flow this tab started, the code is exchanged directly with the backend to sign in or to link
+ * Google to the current account.
  */
 export const AuthCallbackPage = () => {
   const navigate = useNavigate();
-  const { login } = useAuth();
+  const { login, loginWithGoogle } = useAuth();
+  // An OAuth code can only be exchanged once, so guard against StrictMode's second effect run
+  const hasStartedRef = useRef(false);
 
   useEffect(() => {
+    if (hasStartedRef.current) return;
+    hasStartedRef.current = true;
+
+    const completeGoogleAuth = async (code: string, returnedState: string | null, pending: PendingGoogleOAuth) => {
+      const redirectPath = sessionStorage.getItem('auth_redirect_path') || '/dashboard';
+      sessionStorage.removeItem('auth_redirect_path');
+      const { intent, state } = pending;
+
+      // A code from a flow this tab didn't start must never be exchanged
+      if (!isGoogleOAuthStateValid(pending, returnedState)) {
+        const message = 'Google sign-in could not be verified. Please try again.';
+        if (intent === 'link') {
+          navigate(redirectPath, { replace: true, state: { googleLinkError: message } });
+        } else {
+          navigate('/login', { replace: true, state: { error: message } });
+        }
+        return;
+      }
+
+      if (intent === 'link') {
+        try {
+          await exchangeGoogleCode(code, { link: true, state });
+          navigate(redirectPath, { replace: true, state: { googleLinked: true } });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Failed to link Google account';
+          navigate(redirectPath, { replace: true, state: { googleLinkError: message } });
+        }
+        return;
+      }
+
+      try {
+        await loginWithGoogle(code, state);
+        navigate(redirectPath, { replace: true });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Google sign-in failed';
+        navigate('/login', { replace: true, state: { error: message } });
+      }
+    };
+
     const completeAuth = async () => {
       try {
         console.log('[AuthCallback] Processing authentication callback');
@@ -38,8 +85,15 @@ export const AuthCallbackPage = () => {
         redirectToAuth(window.location.pathname);
       }
     };
+    const params = new URLSearchParams(window.location.search);
+    const code = params.get('code');
+    const pendingGoogleAuth = consumeGoogleOAuth();
+    if (code && pendingGoogleAuth) {
+      completeGoogleAuth(code, params.get('state'), pendingGoogleAuth);
+      return;
+    }
     completeAuth();
-  }, [navigate, login]);
+  }, [navigate, login, loginWithGoogle]);
 
   return (
     <div className="min-h-screen flex items-center justify-center">
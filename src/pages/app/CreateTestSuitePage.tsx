@@ -1,39 +1,56 @@
 import { useState, useEffect } from "react";
-import { Link, useNavigate } from "react-router-dom";
+import { Link, Navigate, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
-import { ChevronLeft, Sparkles, Upload, X, FileText, Image as ImageIcon, PenTool, Loader2 } from "lucide-react";
+import { ChevronLeft, Sparkles, Upload, X, FileText, FileUp, Image as ImageIcon, PenTool, Loader2 } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
 import { useProject } from "@/contexts/ProjectContext";
 import { useToast } from "@/hooks/use-toast";
+import { useProjectPath } from "@/hooks/use-project-path";
+import { useProjectPermissions } from "@/hooks/use-project-permissions";
+import { useFieldErrors } from "@/hooks/use-field-errors";
+import { FieldErrorMessage } from "@/components/FieldErrorMessage";
+import { ResolutionSelect } from "@/components/ResolutionSelect";
+import { PreconditionsEditor } from "@/components/PreconditionsEditor";
+import { GherkinImportDialog } from "@/components/GherkinImportDialog";
+import { cn } from "@/lib/utils";
 import { 
   createTestSuite, 
   createScenario,
   uploadTestSuiteAttachments,
   generateScenarios,
+  type TestSuiteAttachmentResponse,
   type TestSuiteCreate
 } from "@/lib/api-client";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
-import { DEFAULT_RESOLUTION, RESOLUTION_OPTIONS } from "@/lib/resolutions";
+import { DEFAULT_RESOLUTION } from "@/lib/resolutions";
+import { ALLOWED_ATTACHMENT_TYPES, ATTACHMENT_ACCEPT, formatFileSize } from "@/lib/attachments";
+import {
+  emptySuitePreconditions,
+  normalizePreconditionFlow,
+  validatePreconditionFlow,
+  type SuitePreconditions,
+} from "@/lib/preconditions";
+import { createGherkinScenarios, type GherkinImportPlan } from "@/lib/gherkin";
 
 export default function CreateTestSuitePage() {
   const navigate = useNavigate();
+  const toProjectPath = useProjectPath();
   const { user } = useAuth();
   const { selectedProject } = useProject();
+  const { canEdit } = useProjectPermissions();
   const { toast } = useToast();
   const [uploadingFiles, setUploadingFiles] = useState(false);
   const [attachments, setAttachments] = useState<File[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
+  const { fieldErrors, applyError, clearFieldError } = useFieldErrors();
+  const [preconditionsError, setPreconditionsError] = useState<string | undefined>();
+  const [isGherkinImportOpen, setIsGherkinImportOpen] = useState(false);
+  // Scenarios from feature files, created once the suite exists
+  const [gherkinScenarios, setGherkinScenarios] = useState<GherkinImportPlan["scenarios"]>([]);
 
   const [formData, setFormData] = useState<TestSuiteCreate>({
     name: "",
@@ -50,6 +67,13 @@ export default function CreateTestSuitePage() {
     project_id: 0, // Will be set from selectedProject
   });
 
+  // Clear a field's backend error as soon as the user edits it
+  const updateFormData = (updates: Partial<TestSuiteCreate>) => {
+    setFormData(prev => ({ ...prev, ...updates }));
+    Object.keys(updates).forEach(clearFieldError);
+    if ("preconditions" in updates) setPreconditionsError(undefined);
+  };
+
   // Set project_id from selectedProject when available
   useEffect(() => {
     if (selectedProject && formData.project_id === 0) {
@@ -61,17 +85,8 @@ export default function CreateTestSuitePage() {
     const files = Array.from(e.target.files || []);
     
     // Validate file types
-    const allowedTypes = [
-      'image/jpeg', 'image/png', 'image/gif', 'image/webp',
-      'application/pdf', 
-      'application/msword',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      'text/plain',
-      'text/csv'
-    ];
-    
     const validFiles = files.filter(file => {
-      if (!allowedTypes.includes(file.type)) {
+      if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
         toast({
           title: "Invalid file type",
           description: `${file.name} is not a supported file type`,
@@ -94,10 +109,39 @@ export default function CreateTestSuitePage() {
     return <FileText className="h-4 w-4" />;
   };
 
-  const formatFileSize = (bytes: number) => {
-    if (bytes < 1024) return bytes + ' B';
-    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
-    return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+  // The suite is kept even if its files fail to upload; say so, since they can be re-added from the suite page
+  const uploadAttachments = async (suiteId: number): Promise<TestSuiteAttachmentResponse[]> => {
+    if (attachments.length === 0) return [];
+    try {
+      return await uploadTestSuiteAttachments(suiteId, attachments);
+    } catch (error) {
+      console.error('Error uploading attachments:', error);
+      toast({
+        title: "Attachments not uploaded",
+        description: `${error instanceof Error ? error.message : "Upload failed"}. Add them again from the suite's Attachments.`,
+        variant: "destructive"
+      });
+      return [];
+    }
+  };
+
+  // Preconditions as the API takes them; undefined when they're incomplete, after flagging the problem
+  const getPreconditionsPayload = (): SuitePreconditions | null | undefined => {
+    if (!formData.preconditions_enabled || !formData.preconditions) return null;
+    if (formData.preconditions.block_id !== null) return formData.preconditions;
+
+    const flow = normalizePreconditionFlow(formData.preconditions);
+    const problems = validatePreconditionFlow(flow);
+    if (problems.steps) {
+      setPreconditionsError(problems.steps);
+      toast({
+        title: "Missing information",
+        description: `Preconditions: ${problems.steps}`,
+        variant: "destructive"
+      });
+      return undefined;
+    }
+    return { block_id: null, ...flow };
   };
 
   const handleSaveDraft = async () => {
@@ -137,6 +181,9 @@ export default function CreateTestSuitePage() {
       return;
     }
 
+    const preconditions = getPreconditionsPayload();
+    if (preconditions === undefined) return;
+
     try {
       setUploadingFiles(true);
       
@@ -150,35 +197,29 @@ export default function CreateTestSuitePage() {
         resolution: formData.resolution || DEFAULT_RESOLUTION,
         creation_mode: formData.creation_mode || "manual",
         preconditions_enabled: formData.preconditions_enabled ?? false,
-        preconditions: formData.preconditions || null,
+        preconditions,
         has_persistent_context: formData.has_persistent_context ?? false,
         exploration_enabled: formData.exploration_enabled ?? false,
         exploration_step_limit: formData.exploration_step_limit || null,
       };
 
       const newSuite = await createTestSuite(createData);
-
-      // Upload attachments if any
-      if (attachments.length > 0 && newSuite) {
-        try {
-          await uploadTestSuiteAttachments(newSuite.id, attachments);
-        } catch (error) {
-          console.error('Error uploading attachments:', error);
-          // Don't fail the whole operation if attachments fail
-        }
-      }
+      await uploadAttachments(newSuite.id);
 
       toast({
         title: "Draft saved",
         description: "Test suite saved as draft successfully"
       });
 
-      navigate(`/suite/${newSuite.id}/runs`);
+      navigate(toProjectPath(`/suite/${newSuite.id}/runs`));
     } catch (error) {
       console.error('Save error:', error);
+      const hasFieldErrors = applyError(error);
       toast({
         title: "Error",
-        description: error instanceof Error ? error.message : "Failed to save test suite",
+        description: hasFieldErrors
+          ? "Please fix the highlighted fields"
+          : error instanceof Error ? error.message : "Failed to save test suite",
         variant: "destructive"
       });
     } finally {
@@ -223,38 +264,19 @@ export default function CreateTestSuitePage() {
       return;
     }
 
+    // Catch incomplete preconditions before waiting on generation
+    if (getPreconditionsPayload() === undefined) return;
+
     try {
       setIsGenerating(true);
-      
-      // Generate scenarios using AI
-      const response = await generateScenarios({
-        test_suite_name: formData.name.trim(),
-        application_url: formData.application_url.trim(),
-        test_description: formData.description.trim(),
-        ai_testing_instructions: formData.ai_testing_instructions?.trim() || undefined,
-      });
-
-      // Create test suite with generated scenarios
-      await handleApplyScenarios(
-        response.scenarios.map((scenario, index) => ({
-          id: `scenario-${index}`,
-          name: scenario,
-          description: scenario,
-        }))
-      );
-    } catch (error) {
-      console.error("Error generating scenarios:", error);
-      toast({
-        title: "Error",
-        description: error instanceof Error ? error.message : "Failed to generate scenarios",
-        variant: "destructive",
-      });
+      await handleCreateWithGeneratedScenarios();
     } finally {
       setIsGenerating(false);
     }
   };
 
-  const handleApplyScenarios = async (scenarios: Array<{ id: string; name: string; description: string }>) => {
+  // The suite and its files are saved before generating so generation can read the attachments
+  const handleCreateWithGeneratedScenarios = async () => {
     if (!user) return;
 
     if (!formData.project_id || formData.project_id === 0) {
@@ -266,6 +288,9 @@ export default function CreateTestSuitePage() {
       return;
     }
 
+    const preconditions = getPreconditionsPayload();
+    if (preconditions === undefined) return;
+
     try {
       setUploadingFiles(true);
       
@@ -279,51 +304,70 @@ export default function CreateTestSuitePage() {
         resolution: formData.resolution || DEFAULT_RESOLUTION,
         creation_mode: formData.creation_mode || "manual",
         preconditions_enabled: formData.preconditions_enabled ?? false,
-        preconditions: formData.preconditions || null,
+        preconditions,
         has_persistent_context: formData.has_persistent_context ?? false,
         exploration_enabled: formData.exploration_enabled ?? false,
         exploration_step_limit: formData.exploration_step_limit || null,
       };
 
       const newSuite = await createTestSuite(createData);
+      const uploaded = await uploadAttachments(newSuite.id);
 
-      // Upload attachments if any
-      if (attachments.length > 0 && newSuite) {
-        try {
-          await uploadTestSuiteAttachments(newSuite.id, attachments);
-        } catch (error) {
-          console.error('Error uploading attachments:', error);
-          // Don't fail the whole operation if attachments fail
-        }
+      // Generate scenarios using AI
+      let scenarios: string[];
+      let attachmentsUsed = 0;
+      try {
+        const response = await generateScenarios({
+          test_suite_id: newSuite.id,
+          test_suite_name: createData.name,
+          application_url: createData.application_url ?? "",
+          test_description: createData.description ?? "",
+          ai_testing_instructions: createData.ai_testing_instructions || undefined,
+          attachment_ids: uploaded.map((attachment) => attachment.id),
+        });
+        scenarios = response.scenarios;
+        attachmentsUsed = response.attachment_ids?.length ?? 0;
+      } catch (error) {
+        console.error("Error generating scenarios:", error);
+        toast({
+          title: "Scenarios not generated",
+          description: `${error instanceof Error ? error.message : "Failed to generate scenarios"}. The suite was saved without scenarios.`,
+          variant: "destructive",
+        });
+        navigate(toProjectPath(`/suite/${newSuite.id}/runs`));
+        return;
       }
 
       // Insert scenarios
-      if (scenarios.length > 0 && newSuite) {
-        for (const scenario of scenarios) {
-          try {
-            await createScenario({
-              test_suite_id: newSuite.id,
-              name: scenario.name,
-              description: scenario.description,
-            });
-          } catch (error) {
-            console.error('Error creating scenario:', error);
-            // Continue with other scenarios even if one fails
-          }
+      for (const scenario of scenarios) {
+        try {
+          await createScenario({
+            test_suite_id: newSuite.id,
+            name: scenario,
+            description: scenario,
+          });
+        } catch (error) {
+          console.error('Error creating scenario:', error);
+          // Continue with other scenarios even if one fails
         }
       }
 
       toast({
         title: "Success",
-        description: `Test suite created with ${scenarios.length} scenarios`
+        description: `Test suite created with ${scenarios.length} scenarios${
+          attachmentsUsed > 0 ? `, generated from ${attachmentsUsed} attachment${attachmentsUsed === 1 ? "" : "s"}` : ""
+        }`
       });
 
-      navigate(`/suite/${newSuite.id}/runs`);
+      navigate(toProjectPath(`/suite/${newSuite.id}/runs`));
     } catch (error) {
       console.error('Save error:', error);
+      const hasFieldErrors = applyError(error);
       toast({
         title: "Error",
-        description: error instanceof Error ? error.message : "Failed to save test suite",
+        description: hasFieldErrors
+          ? "Please fix the highlighted fields"
+          : error instanceof Error ? error.message : "Failed to save test suite",
         variant: "destructive"
       });
     } finally {
@@ -369,6 +413,9 @@ export default function CreateTestSuitePage() {
       return;
     }
 
+    const preconditions = getPreconditionsPayload();
+    if (preconditions === undefined) return;
+
     try {
       setUploadingFiles(true);
       
@@ -382,25 +429,39 @@ export default function CreateTestSuitePage() {
         resolution: formData.resolution || DEFAULT_RESOLUTION,
         creation_mode: "manual",
         preconditions_enabled: formData.preconditions_enabled ?? false,
-        preconditions: formData.preconditions || null,
+        preconditions,
         has_persistent_context: formData.has_persistent_context ?? false,
         exploration_enabled: false, // Manual mode doesn't use exploration
         exploration_step_limit: null,
       };
 
       const newSuite = await createTestSuite(createData);
+      const { created, failed } = await createGherkinScenarios(newSuite.id, gherkinScenarios);
 
-      toast({
-        title: "Success",
-        description: "Test suite created successfully"
-      });
+      if (failed > 0) {
+        toast({
+          title: "Scenarios not imported",
+          description: `${failed} of ${gherkinScenarios.length} scenarios from the feature files could not be created`,
+          variant: "destructive"
+        });
+      } else {
+        toast({
+          title: "Success",
+          description: created.length > 0
+            ? `Test suite created with ${created.length} scenarios`
+            : "Test suite created successfully"
+        });
+      }
 
-      navigate(`/suite/${newSuite.id}/runs`);
+      navigate(toProjectPath(`/suite/${newSuite.id}/runs`));
     } catch (error) {
       console.error('Save error:', error);
+      const hasFieldErrors = applyError(error);
       toast({
         title: "Error",
-        description: error instanceof Error ? error.message : "Failed to create test suite",
+        description: hasFieldErrors
+          ? "Please fix the highlighted fields"
+          : error instanceof Error ? error.message : "Failed to create test suite",
         variant: "destructive"
       });
     } finally {
@@ -408,11 +469,16 @@ export default function CreateTestSuitePage() {
     }
   };
 
+  // Viewers can't create suites; send them to the list instead
+  if (!canEdit) {
+    return <Navigate to={toProjectPath("/test-suites")} replace />;
+  }
+
   return (
     <div className="min-h-screen bg-background">
       <div className="container mx-auto px-6 py-8">
         <div className="flex items-center gap-4 mb-8">
-          <Link to="/test-suites">
+          <Link to={toProjectPath("/test-suites")}>
             <Button variant="ghost" size="sm" className="gap-2">
               <ChevronLeft className="w-4 h-4" />
               Back
@@ -431,7 +497,7 @@ export default function CreateTestSuitePage() {
             <Tabs 
               value={formData.creation_mode || "manual"} 
               onValueChange={(value) => 
-                setFormData({ ...formData, creation_mode: value as "manual" | "ai" })
+                updateFormData({ creation_mode: value as "manual" | "ai" })
               }
               className="w-full"
             >
@@ -454,11 +520,13 @@ export default function CreateTestSuitePage() {
                   </Label>
                   <Input 
                     id="suite-name" 
+                    aria-invalid={Boolean(fieldErrors.name)}
                     placeholder="e.g., User Authentication Flow"
-                    className="mt-2"
+                    className={cn("mt-2", fieldErrors.name && "border-destructive")}
                     value={formData.name}
-                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    onChange={(e) => updateFormData({ name: e.target.value })}
                   />
+                  <FieldErrorMessage message={fieldErrors.name} />
                 </div>
 
                 <div>
@@ -467,13 +535,15 @@ export default function CreateTestSuitePage() {
                   </Label>
                   <Input 
                     id="url" 
+                    aria-invalid={Boolean(fieldErrors.application_url)}
                     type="url"
                     placeholder="https://example.com"
-                    className="mt-2"
+                    className={cn("mt-2", fieldErrors.application_url && "border-destructive")}
                     value={formData.application_url || ""}
-                    onChange={(e) => setFormData({ ...formData, application_url: e.target.value || null })}
+                    onChange={(e) => updateFormData({ application_url: e.target.value || null })}
                     required
                   />
+                  <FieldErrorMessage message={fieldErrors.application_url} />
                   <p className="text-xs text-muted-foreground mt-1">
                     The URL of the application or feature you want to test
                   </p>
@@ -485,34 +555,56 @@ export default function CreateTestSuitePage() {
                   </Label>
                   <Textarea
                     id="description"
+                    aria-invalid={Boolean(fieldErrors.description)}
                     placeholder="Describe what you want to test. For example: Test the login flow including email validation, password requirements, forgot password, and session management..."
-                    className="mt-2 min-h-[150px]"
+                    className={cn("mt-2 min-h-[150px]", fieldErrors.description && "border-destructive")}
                     value={formData.description || ""}
-                    onChange={(e) => setFormData({ ...formData, description: e.target.value || null })}
+                    onChange={(e) => updateFormData({ description: e.target.value || null })}
                     required
                   />
+                  <FieldErrorMessage message={fieldErrors.description} />
+                </div>
+
+                <div>
+                  <Label>Scenarios from Feature Files (Optional)</Label>
+                  <p className="text-xs text-muted-foreground mt-1 mb-2">
+                    Import Gherkin <code>.feature</code> files; each Scenario becomes a test scenario
+                  </p>
+                  {gherkinScenarios.length > 0 ? (
+                    <div className="flex items-center justify-between p-3 bg-muted rounded-lg">
+                      <div className="flex items-center gap-2">
+                        <FileText className="h-4 w-4" />
+                        <span className="text-sm">
+                          {gherkinScenarios.length} scenario{gherkinScenarios.length === 1 ? "" : "s"} will be created
+                        </span>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setGherkinScenarios([])}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <Button variant="outline" className="gap-2" onClick={() => setIsGherkinImportOpen(true)}>
+                      <FileUp className="h-4 w-4" />
+                      Import from Gherkin
+                    </Button>
+                  )}
                 </div>
 
                 <div className="space-y-4 pt-4 border-t">
                   <div>
                     <Label htmlFor="resolution">Screen Resolution</Label>
-                    <Select
+                    <ResolutionSelect
                       value={formData.resolution || DEFAULT_RESOLUTION}
                       onValueChange={(value) => 
-                        setFormData({ ...formData, resolution: value })
+                        updateFormData({ resolution: value })
                       }
-                    >
-                      <SelectTrigger className="mt-2">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {RESOLUTION_OPTIONS.map((option) => (
-                          <SelectItem key={option.value} value={option.value}>
-                            {option.label} ({option.value})
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+                      className={cn("mt-2", fieldErrors.resolution && "border-destructive")}
+                    />
+                    <FieldErrorMessage message={fieldErrors.resolution} />
                   </div>
 
                   <div className="flex items-center space-x-2">
@@ -521,7 +613,10 @@ export default function CreateTestSuitePage() {
                       id="preconditions_enabled_manual"
                       checked={formData.preconditions_enabled || false}
                       onChange={(e) => 
-                        setFormData({ ...formData, preconditions_enabled: e.target.checked })
+                        updateFormData({
+                          preconditions_enabled: e.target.checked,
+                          preconditions: formData.preconditions ?? emptySuitePreconditions(),
+                        })
                       }
                       className="h-4 w-4 rounded border-gray-300"
                     />
@@ -530,26 +625,17 @@ export default function CreateTestSuitePage() {
                     </Label>
                   </div>
                   <p className="text-xs text-muted-foreground ml-6">
-                    Set up preconditions that must be met before test execution
+                    Steps the agent runs before every scenario, such as logging in
                   </p>
                   {formData.preconditions_enabled && (
                     <div className="space-y-2 ml-6">
-                      <Label htmlFor="preconditions_manual">Preconditions</Label>
-                      <Textarea
-                        id="preconditions_manual"
-                        placeholder="Describe the preconditions that must be met before test execution..."
-                        className="mt-2 min-h-[100px]"
-                        value={typeof formData.preconditions === 'string' ? formData.preconditions : ''}
-                        onChange={(e) => 
-                          setFormData({ 
-                            ...formData, 
-                            preconditions: e.target.value || null 
-                          })
-                        }
+                      <PreconditionsEditor
+                        projectId={formData.project_id}
+                        value={formData.preconditions ?? emptySuitePreconditions()}
+                        onChange={(preconditions) => updateFormData({ preconditions })}
+                        error={fieldErrors.preconditions ?? preconditionsError}
+                        idPrefix="preconditions-manual"
                       />
-                      <p className="text-xs text-muted-foreground">
-                        Specify any setup steps or conditions required before running tests
-                      </p>
                     </div>
                   )}
 
@@ -559,7 +645,7 @@ export default function CreateTestSuitePage() {
                       id="has_persistent_context_manual"
                       checked={formData.has_persistent_context || false}
                       onChange={(e) => 
-                        setFormData({ ...formData, has_persistent_context: e.target.checked })
+                        updateFormData({ has_persistent_context: e.target.checked })
                       }
                       className="h-4 w-4 rounded border-gray-300"
                     />
@@ -590,11 +676,13 @@ export default function CreateTestSuitePage() {
                   </Label>
                   <Input 
                     id="suite-name-ai" 
+                    aria-invalid={Boolean(fieldErrors.name)}
                     placeholder="e.g., User Authentication Flow"
-                    className="mt-2"
+                    className={cn("mt-2", fieldErrors.name && "border-destructive")}
                     value={formData.name}
-                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    onChange={(e) => updateFormData({ name: e.target.value })}
                   />
+                  <FieldErrorMessage message={fieldErrors.name} />
                 </div>
 
                 <div>
@@ -603,13 +691,15 @@ export default function CreateTestSuitePage() {
                   </Label>
                   <Input 
                     id="url-ai" 
+                    aria-invalid={Boolean(fieldErrors.application_url)}
                     type="url"
                     placeholder="https://example.com"
-                    className="mt-2"
+                    className={cn("mt-2", fieldErrors.application_url && "border-destructive")}
                     value={formData.application_url || ""}
-                    onChange={(e) => setFormData({ ...formData, application_url: e.target.value || null })}
+                    onChange={(e) => updateFormData({ application_url: e.target.value || null })}
                     required
                   />
+                  <FieldErrorMessage message={fieldErrors.application_url} />
                   <p className="text-xs text-muted-foreground mt-1">
                     The URL of the application or feature you want to test
                   </p>
@@ -621,23 +711,27 @@ export default function CreateTestSuitePage() {
                   </Label>
                   <Textarea
                     id="description-ai"
+                    aria-invalid={Boolean(fieldErrors.description)}
                     placeholder="Describe what you want to test. For example: Test the login flow including email validation, password requirements, forgot password, and session management..."
-                    className="mt-2 min-h-[150px]"
+                    className={cn("mt-2 min-h-[150px]", fieldErrors.description && "border-destructive")}
                     value={formData.description || ""}
-                    onChange={(e) => setFormData({ ...formData, description: e.target.value || null })}
+                    onChange={(e) => updateFormData({ description: e.target.value || null })}
                     required
                   />
+                  <FieldErrorMessage message={fieldErrors.description} />
                 </div>
 
                 <div>
                   <Label htmlFor="ai-instructions">AI Testing Instructions (Optional)</Label>
                   <Textarea
                     id="ai-instructions"
+                    aria-invalid={Boolean(fieldErrors.ai_testing_instructions)}
                     placeholder="Provide specific instructions for the AI tester. For example: Focus on edge cases, test with invalid inputs, verify error messages are user-friendly..."
-                    className="mt-2 min-h-[100px]"
+                    className={cn("mt-2 min-h-[100px]", fieldErrors.ai_testing_instructions && "border-destructive")}
                     value={formData.ai_testing_instructions || ""}
-                    onChange={(e) => setFormData({ ...formData, ai_testing_instructions: e.target.value || null })}
+                    onChange={(e) => updateFormData({ ai_testing_instructions: e.target.value || null })}
                   />
+                  <FieldErrorMessage message={fieldErrors.ai_testing_instructions} />
                   <p className="text-xs text-muted-foreground mt-1">
                     Additional context or specific testing requirements for the AI
                   </p>
@@ -654,7 +748,7 @@ export default function CreateTestSuitePage() {
                     id="file-upload"
                     className="hidden"
                     multiple
-                    accept="image/*,.pdf,.doc,.docx,.txt,.csv"
+                    accept={ATTACHMENT_ACCEPT}
                     onChange={handleFileSelect}
                   />
                   
@@ -703,23 +797,14 @@ export default function CreateTestSuitePage() {
                 <div className="space-y-4 pt-4 border-t">
                   <div>
                     <Label htmlFor="resolution">Screen Resolution</Label>
-                    <Select
+                    <ResolutionSelect
                       value={formData.resolution || DEFAULT_RESOLUTION}
                       onValueChange={(value) => 
-                        setFormData({ ...formData, resolution: value })
+                        updateFormData({ resolution: value })
                       }
-                    >
-                      <SelectTrigger className="mt-2">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {RESOLUTION_OPTIONS.map((option) => (
-                          <SelectItem key={option.value} value={option.value}>
-                            {option.label} ({option.value})
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+                      className={cn("mt-2", fieldErrors.resolution && "border-destructive")}
+                    />
+                    <FieldErrorMessage message={fieldErrors.resolution} />
                   </div>
 
                   <div className="flex items-center space-x-2">
@@ -728,7 +813,10 @@ export default function CreateTestSuitePage() {
                       id="preconditions_enabled"
                       checked={formData.preconditions_enabled || false}
                       onChange={(e) => 
-                        setFormData({ ...formData, preconditions_enabled: e.target.checked })
+                        updateFormData({
+                          preconditions_enabled: e.target.checked,
+                          preconditions: formData.preconditions ?? emptySuitePreconditions(),
+                        })
                       }
                       className="h-4 w-4 rounded border-gray-300"
                     />
@@ -737,26 +825,17 @@ export default function CreateTestSuitePage() {
                     </Label>
                   </div>
                   <p className="text-xs text-muted-foreground ml-6">
-                    Set up preconditions that must be met before test execution
+                    Steps the agent runs before every scenario, such as logging in
                   </p>
                   {formData.preconditions_enabled && (
                     <div className="space-y-2 ml-6">
-                      <Label htmlFor="preconditions">Preconditions</Label>
-                      <Textarea
-                        id="preconditions"
-                        placeholder="Describe the preconditions that must be met before test execution..."
-                        className="mt-2 min-h-[100px]"
-                        value={typeof formData.preconditions === 'string' ? formData.preconditions : ''}
-                        onChange={(e) => 
-                          setFormData({ 
-                            ...formData, 
-                            preconditions: e.target.value || null 
-                          })
-                        }
+                      <PreconditionsEditor
+                        projectId={formData.project_id}
+                        value={formData.preconditions ?? emptySuitePreconditions()}
+                        onChange={(preconditions) => updateFormData({ preconditions })}
+                        error={fieldErrors.preconditions ?? preconditionsError}
+                        idPrefix="preconditions"
                       />
-                      <p className="text-xs text-muted-foreground">
-                        Specify any setup steps or conditions required before running tests
-                      </p>
                     </div>
                   )}
 
@@ -766,7 +845,7 @@ export default function CreateTestSuitePage() {
                       id="has_persistent_context"
                       checked={formData.has_persistent_context || false}
                       onChange={(e) => 
-                        setFormData({ ...formData, has_persistent_context: e.target.checked })
+                        updateFormData({ has_persistent_context: e.target.checked })
                       }
                       className="h-4 w-4 rounded border-gray-300"
                     />
@@ -784,7 +863,7 @@ export default function CreateTestSuitePage() {
                       id="exploration_enabled"
                       checked={formData.exploration_enabled || false}
                       onChange={(e) => 
-                        setFormData({ ...formData, exploration_enabled: e.target.checked })
+                        updateFormData({ exploration_enabled: e.target.checked })
                       }
                       className="h-4 w-4 rounded border-gray-300"
                     />
@@ -801,18 +880,17 @@ export default function CreateTestSuitePage() {
                       <Label htmlFor="exploration_step_limit">Exploration Step Limit</Label>
                       <Input
                         id="exploration_step_limit"
+                        aria-invalid={Boolean(fieldErrors.exploration_step_limit)}
                         type="number"
                         min="1"
                         value={formData.exploration_step_limit || ""}
                         onChange={(e) => 
-                          setFormData({ 
-                            ...formData, 
-                            exploration_step_limit: e.target.value ? parseInt(e.target.value, 10) : null 
-                          })
+                          updateFormData({ exploration_step_limit: e.target.value ? parseInt(e.target.value, 10) : null })
                         }
                         placeholder="Maximum exploration steps"
-                        className="mt-2"
+                        className={cn("mt-2", fieldErrors.exploration_step_limit && "border-destructive")}
                       />
+                      <FieldErrorMessage message={fieldErrors.exploration_step_limit} />
                       <p className="text-xs text-muted-foreground">
                         Maximum number of steps the AI can take during exploration
                       </p>
@@ -851,6 +929,23 @@ export default function CreateTestSuitePage() {
           </div>
         </Card>
 
+        <GherkinImportDialog
+          open={isGherkinImportOpen}
+          onOpenChange={setIsGherkinImportOpen}
+          hasPreconditions={Boolean(formData.preconditions_enabled)}
+          confirmLabel="Add"
+          onConfirm={(plan) => {
+            setGherkinScenarios(plan.scenarios);
+            // Shown in the form's preconditions so it can be reviewed before the suite is created
+            if (plan.preconditions) {
+              updateFormData({
+                preconditions_enabled: true,
+                preconditions: { block_id: null, ...plan.preconditions },
+              });
+            }
+          }}
+        />
+
       </div>
     </div>
   );
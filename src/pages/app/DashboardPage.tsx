@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useMemo, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "../../components/ui/card";
 import { Button } from "../../components/ui/button";
@@ -25,6 +25,10 @@ import {
 import { useAuth } from "../../contexts/AuthContext";
 import { useProject } from "../../contexts/ProjectContext";
 import { useToast } from "../../hooks/use-toast";
+import { useProjectPath } from "../../hooks/use-project-path";
+import { useProjectPermissions } from "../../hooks/use-project-permissions";
+import { useApiQuery } from "../../hooks/use-api-query";
+import { queryKeys } from "../../lib/query-cache";
 
 interface DashboardStats {
   totalRuns: number;
@@ -60,113 +64,107 @@ interface TrendData {
   total: number;
 }
 
+const EMPTY_RECENT_RUNS: ApiRecentRun[] = [];
+const EMPTY_TEST_SUITES: TestSuiteResponse[] = [];
+
+const buildTrendData = (runs: ApiRecentRun[]): TrendData[] => {
+  // Group runs by date
+  const runsByDate = new Map<string, { passed: number; failed: number }>();
+
+  runs.forEach(run => {
+    const date = new Date(run.started_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    const existing = runsByDate.get(date) || { passed: 0, failed: 0 };
+    existing.passed += run.passed_scenarios;
+    existing.failed += run.failed_scenarios;
+    runsByDate.set(date, existing);
+  });
+
+  return Array.from(runsByDate.entries())
+    .map(([date, data]) => ({
+      date,
+      passed: data.passed,
+      failed: data.failed,
+      total: data.passed + data.failed,
+    }))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .slice(-7); // Last 7 days
+};
+
 export const DashboardPage: React.FC = () => {
   const navigate = useNavigate();
+  const toProjectPath = useProjectPath();
   const { user } = useAuth();
   const { selectedProject } = useProject();
+  const { canEdit } = useProjectPermissions();
   const { toast } = useToast();
-  const [stats, setStats] = useState<DashboardStats>({
-    totalRuns: 0,
-    passedScenarios: 0,
-    failedScenarios: 0,
-    successRate: "0%",
-    totalScenarios: 0,
-  });
-  const [recentRuns, setRecentRuns] = useState<RecentRun[]>([]);
-  const [upcomingSchedules, setUpcomingSchedules] = useState<UpcomingSchedule[]>([]);
-  const [testSuites, setTestSuites] = useState<TestSuiteResponse[]>([]);
   const [selectedSuite, setSelectedSuite] = useState<string>("");
   const [dateRange] = useState({ from: "Oct 16, 2025", to: "Nov 15, 2025" });
-  const [isLoading, setIsLoading] = useState(true);
-  const [trendData, setTrendData] = useState<TrendData[]>([]);
 
-  useEffect(() => {
-    if (user && selectedProject) {
-      loadDashboardData();
-    } else if (user && !selectedProject) {
-      // User is authenticated but no project selected yet
-      setIsLoading(false);
-    } else {
-      // If no user, stop loading
-      setIsLoading(false);
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [user, selectedProject]);
+  const projectId = selectedProject?.id;
+  const enabled = Boolean(user && selectedProject);
 
-  const loadDashboardData = async () => {
-    if (!selectedProject) {
-      setIsLoading(false);
-      return;
-    }
+  const toastLoadError = (fallbackMessage: string) => (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallbackMessage,
+      variant: "destructive",
+    });
+  };
 
-    try {
-      setIsLoading(true);
-      
-      const projectId = selectedProject.id;
-      
-      // Load all data in parallel with project_id
-      const [statsData, recentRunsData, schedulesData, suitesData] = await Promise.all([
-        getDashboardStatistics({ project_id: projectId }).catch(err => {
-          console.error("Error fetching dashboard statistics:", err);
-          toast({
-            title: "Error",
-            description: err instanceof Error ? err.message : "Failed to load dashboard statistics",
-            variant: "destructive",
-          });
-          return {
-            total_test_runs: 0,
-            passed_scenarios: 0,
-            failed_scenarios: 0,
-            success_rate: 0,
-          };
-        }),
-        getRecentTestRuns({ project_id: projectId, limit: 5 }).catch(err => {
-          console.error("Error fetching recent test runs:", err);
-          toast({
-            title: "Error",
-            description: err instanceof Error ? err.message : "Failed to load recent test runs",
-            variant: "destructive",
-          });
-          return [];
-        }),
-        getSchedules({ project_id: projectId, is_active: true }).catch(err => {
-          console.error("Error fetching schedules:", err);
-          toast({
-            title: "Error",
-            description: err instanceof Error ? err.message : "Failed to load schedules",
-            variant: "destructive",
-          });
-          return [];
-        }),
-        getTestSuites(projectId).catch(err => {
-          console.error("Error fetching test suites:", err);
-          toast({
-            title: "Error",
-            description: err instanceof Error ? err.message : "Failed to load test suites",
-            variant: "destructive",
-          });
-          return [];
-        }),
-      ]);
+  // Each section reads from the shared cache so returning to the dashboard renders immediately
+  const statsQuery = useApiQuery(
+    queryKeys.dashboardStatistics(projectId),
+    () => getDashboardStatistics({ project_id: projectId }),
+    { enabled, onError: toastLoadError("Failed to load dashboard statistics") }
+  );
+  const recentRunsQuery = useApiQuery(
+    queryKeys.recentTestRuns(projectId, 5),
+    () => getRecentTestRuns({ project_id: projectId, limit: 5 }),
+    { enabled, onError: toastLoadError("Failed to load recent test runs") }
+  );
+  const schedulesQuery = useApiQuery(
+    queryKeys.schedules({ project_id: projectId, is_active: true }),
+    () => getSchedules({ project_id: projectId, is_active: true }),
+    { enabled, onError: toastLoadError("Failed to load schedules") }
+  );
+  const suitesQuery = useApiQuery<TestSuiteResponse[]>(
+    queryKeys.testSuites(projectId),
+    () => getTestSuites(projectId),
+    { enabled, onError: toastLoadError("Failed to load test suites") }
+  );
+
+  const isLoading =
+    statsQuery.isLoading || recentRunsQuery.isLoading || schedulesQuery.isLoading || suitesQuery.isLoading;
+  const recentRunsData = recentRunsQuery.data ?? EMPTY_RECENT_RUNS;
+  const testSuites = suitesQuery.data ?? EMPTY_TEST_SUITES;
 
-      // Transform stats
-      const totalScenarios = statsData.passed_scenarios + statsData.failed_scenarios;
-      const successRate = totalScenarios > 0 
-        ? `${((statsData.passed_scenarios / totalScenarios) * 100).toFixed(1)}%`
-        : "0%";
-      
-      setStats({
-        totalRuns: statsData.total_test_runs,
-        passedScenarios: statsData.passed_scenarios,
-        failedScenarios: statsData.failed_scenarios,
-        successRate,
-        totalScenarios,
-      });
+  const stats = useMemo<DashboardStats>(() => {
+    const statsData = statsQuery.data ?? {
+      total_test_runs: 0,
+      passed_scenarios: 0,
+      failed_scenarios: 0,
+      success_rate: 0,
+    };
+    const totalScenarios = statsData.passed_scenarios + statsData.failed_scenarios;
+    const successRate = totalScenarios > 0
+      ? `${((statsData.passed_scenarios / totalScenarios) * 100).toFixed(1)}%`
+      : "0%";
 
-      // Transform recent runs - need to get suite names
-      const runsWithSuiteNames: RecentRun[] = recentRunsData.map((run) => {
+    return {
+      totalRuns: statsData.total_test_runs,
+      passedScenarios: statsData.passed_scenarios,
+      failedScenarios: statsData.failed_scenarios,
+      successRate,
+      totalScenarios,
+    };
+  }, [statsQuery.data]);
+
+  // Transform recent runs - need to get suite names
+  const recentRuns = useMemo<RecentRun[]>(
+    () =>
+      recentRunsData.map((run) => {
         // Find suite name from test suites data
-        const suite = suitesData.find(s => s.id === run.test_suite_id);
+        const suite = testSuites.find(s => s.id === run.test_suite_id);
         return {
           id: run.id.toString(),
           suite_name: suite?.name || `Suite ${run.test_suite_id}`,
@@ -177,17 +175,21 @@ export const DashboardPage: React.FC = () => {
           suite_id: run.test_suite_id.toString(),
           status: run.status,
         };
-      });
-      setRecentRuns(runsWithSuiteNames);
+      }),
+    [recentRunsData, testSuites]
+  );
 
-      // Transform schedules
-      const transformedSchedules: UpcomingSchedule[] = schedulesData
+  const upcomingSchedules = useMemo<UpcomingSchedule[]>(
+    () =>
+      (schedulesQuery.data ?? [])
         .filter(s => s.next_run_at)
         .map(schedule => ({
           id: schedule.id.toString(),
           name: schedule.name,
-          suite_name: schedule.test_suite?.name || `Suite ${schedule.test_suite_id}`,
-          next_run_at: schedule.next_run_at 
+          suite_name:
+            schedule.test_suite?.name ||
+            (schedule.tag ? `Suites tagged "${schedule.tag}"` : `Suite ${schedule.test_suite_id}`),
+          next_run_at: schedule.next_run_at
             ? new Date(schedule.next_run_at).toLocaleString()
             : "",
           schedule_type: schedule.frequency.charAt(0).toUpperCase() + schedule.frequency.slice(1),
@@ -196,56 +198,19 @@ export const DashboardPage: React.FC = () => {
           if (!a.next_run_at) return 1;
           if (!b.next_run_at) return -1;
           return new Date(a.next_run_at).getTime() - new Date(b.next_run_at).getTime();
-        });
-      setUpcomingSchedules(transformedSchedules);
-
-      setTestSuites(suitesData);
-
-      // Generate trend data from recent runs (last 7 days)
-      generateTrendData(recentRunsData);
-    } catch (error) {
-      console.error("Error loading dashboard data:", error);
-      toast({
-        title: "Error",
-        description: error instanceof Error ? error.message : "Failed to load dashboard data",
-        variant: "destructive",
-      });
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  const generateTrendData = (runs: ApiRecentRun[]) => {
-    // Group runs by date
-    const runsByDate = new Map<string, { passed: number; failed: number }>();
-    
-    runs.forEach(run => {
-      const date = new Date(run.started_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-      const existing = runsByDate.get(date) || { passed: 0, failed: 0 };
-      existing.passed += run.passed_scenarios;
-      existing.failed += run.failed_scenarios;
-      runsByDate.set(date, existing);
-    });
-
-    const trend: TrendData[] = Array.from(runsByDate.entries())
-      .map(([date, data]) => ({
-        date,
-        passed: data.passed,
-        failed: data.failed,
-        total: data.passed + data.failed,
-      }))
-      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
-      .slice(-7); // Last 7 days
+        }),
+    [schedulesQuery.data]
+  );
 
-    setTrendData(trend);
-  };
+  // Generate trend data from recent runs (last 7 days)
+  const trendData = useMemo(() => buildTrendData(recentRunsData), [recentRunsData]);
 
   const handleQuickRun = () => {
     if (!selectedSuite) {
       // toast.error("Please select a test suite to run");
       return;
     }
-    navigate(`/suite/${selectedSuite}/runs`);
+    navigate(toProjectPath(`/suite/${selectedSuite}/runs`));
   };
 
   const pieChartData = [
@@ -315,10 +280,12 @@ export const DashboardPage: React.FC = () => {
             <CalendarIcon className="mr-2 h-4 w-4" />
             {dateRange.from} - {dateRange.to}
           </Button>
-          <Button onClick={() => navigate("/create-suite")} className="bg-orange-500 hover:bg-orange-600 text-white">
-            <Plus className="h-4 w-4 mr-2" />
-            Create Test Suite
-          </Button>
+          {canEdit && (
+            <Button onClick={() => navigate(toProjectPath("/create-suite"))} className="bg-orange-500 hover:bg-orange-600 text-white">
+              <Plus className="h-4 w-4 mr-2" />
+              Create Test Suite
+            </Button>
+          )}
         </div>
       </div>
 
@@ -491,7 +458,7 @@ export const DashboardPage: React.FC = () => {
                   ))}
                 </SelectContent>
               </Select>
-              <Button onClick={handleQuickRun} className="w-full bg-orange-500 hover:bg-orange-600 text-white" disabled={!selectedSuite}>
+              <Button onClick={handleQuickRun} className="w-full bg-orange-500 hover:bg-orange-600 text-white" disabled={!selectedSuite || !canEdit}>
                 <PlayCircle className="h-4 w-4 mr-2" />
                 Run Test Suite
               </Button>
@@ -534,7 +501,7 @@ export const DashboardPage: React.FC = () => {
         <Card>
           <CardHeader className="flex flex-row items-center justify-between">
             <CardTitle>Recent Testing Activity</CardTitle>
-            <Button variant="ghost" size="sm" onClick={() => navigate("/test-runs")}>
+            <Button variant="ghost" size="sm" onClick={() => navigate(toProjectPath("/test-runs"))}>
               View All
             </Button>
           </CardHeader>
@@ -542,10 +509,12 @@ export const DashboardPage: React.FC = () => {
             {recentRuns.length === 0 ? (
               <div className="text-center py-12">
                 <p className="text-sm text-muted-foreground mb-4">No test runs yet</p>
-                <Button onClick={() => navigate("/create-suite")}>
-                  <Plus className="h-4 w-4 mr-2" />
-                  Create Your First Test Suite
-                </Button>
+                {canEdit && (
+                  <Button onClick={() => navigate(toProjectPath("/create-suite"))}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Create Your First Test Suite
+                  </Button>
+                )}
               </div>
             ) : (
               <div className="overflow-x-auto">
@@ -563,7 +532,7 @@ export const DashboardPage: React.FC = () => {
                       <tr 
                         key={run.id}
                         className="border-b last:border-0 hover:bg-accent/50 cursor-pointer transition-colors"
-                        onClick={() => navigate(`/test-runs/${run.id}`)}
+                        onClick={() => navigate(toProjectPath(`/test-runs/${run.id}`))}
                       >
                         <td className="py-4 px-2">
                           <div className="font-medium">{run.suite_name}</div>
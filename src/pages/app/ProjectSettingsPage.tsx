@@ -0,0 +1,450 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, LogOut, Mail, Trash2, UserPlus, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { useProject } from "@/contexts/ProjectContext";
+import { useApiQuery } from "@/hooks/use-api-query";
+import { useFieldErrors } from "@/hooks/use-field-errors";
+import { useProjectPermissions } from "@/hooks/use-project-permissions";
+import { FieldErrorMessage } from "@/components/FieldErrorMessage";
+import { DeleteProjectDialog } from "@/components/app/DeleteProjectDialog";
+import { DeviceProfilesCard } from "@/components/app/DeviceProfilesCard";
+import { cn } from "@/lib/utils";
+import { queryKeys } from "@/lib/query-cache";
+import { PROJECT_ROLES, getProjectRoleLabel } from "@/lib/project-roles";
+import {
+  createProjectInvitation,
+  getProjectInvitations,
+  getProjectMembers,
+  removeProjectMember,
+  revokeProjectInvitation,
+  updateProject,
+  updateProjectMember,
+  type ProjectMemberResponse,
+  type ProjectRole,
+} from "@/lib/api-client";
+
+export default function ProjectSettingsPage() {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { selectedProject, refreshProjects } = useProject();
+  const { role, canEdit, canManage } = useProjectPermissions();
+  const { fieldErrors, applyError, clearFieldError, clearFieldErrors } = useFieldErrors();
+  const projectId = selectedProject?.id ?? 0;
+
+  const [name, setName] = useState(selectedProject?.name ?? "");
+  const [description, setDescription] = useState(selectedProject?.description ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<ProjectRole>("editor");
+  const [isInviting, setIsInviting] = useState(false);
+  const [updatingMemberId, setUpdatingMemberId] = useState<number | null>(null);
+  const [revokingInvitationId, setRevokingInvitationId] = useState<number | null>(null);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+
+  const {
+    data: members = [],
+    isLoading: isLoadingMembers,
+    error: membersError,
+  } = useApiQuery(queryKeys.projectMembers(projectId), () => getProjectMembers(projectId), {
+    enabled: !!selectedProject,
+  });
+
+  const { data: invitations = [] } = useApiQuery(
+    queryKeys.projectInvitations(projectId),
+    () => getProjectInvitations(projectId),
+    { enabled: !!selectedProject && canManage }
+  );
+
+  // Follow the project when it changes (switching workspace, rename in another tab)
+  useEffect(() => {
+    setName(selectedProject?.name ?? "");
+    setDescription(selectedProject?.description ?? "");
+  }, [selectedProject?.id, selectedProject?.name, selectedProject?.description]);
+
+  const currentUserId = user?.id != null ? Number(user.id) : null;
+  const ownerCount = members.filter((m) => m.role === "owner").length;
+  const isDirty = name.trim() !== selectedProject?.name || (description.trim() || null) !== selectedProject?.description;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedProject || !name.trim()) return;
+
+    setIsSaving(true);
+    clearFieldErrors();
+    try {
+      const updated = await updateProject(selectedProject.id, {
+        name: name.trim(),
+        description: description.trim() || null,
+      });
+      await refreshProjects(updated);
+      toast({ title: "Success", description: "Workspace updated successfully" });
+    } catch (error) {
+      if (!applyError(error)) {
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to update workspace",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteEmail.trim()) return;
+
+    setIsInviting(true);
+    clearFieldErrors();
+    try {
+      const invitation = await createProjectInvitation(projectId, { email: inviteEmail.trim(), role: inviteRole });
+      toast({ title: "Invitation sent", description: `${invitation.email} was invited as ${getProjectRoleLabel(invitation.role).toLowerCase()}` });
+      setInviteEmail("");
+    } catch (error) {
+      if (!applyError(error)) {
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to send invitation",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (member: ProjectMemberResponse, newRole: ProjectRole) => {
+    setUpdatingMemberId(member.id);
+    try {
+      await updateProjectMember(projectId, member.id, { role: newRole });
+      // Changing your own role changes what this UI lets you do
+      if (member.user_id === currentUserId) {
+        await refreshProjects(selectedProject);
+      }
+      toast({ title: "Success", description: `${member.email} is now ${getProjectRoleLabel(newRole).toLowerCase()}` });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to change role",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingMemberId(null);
+    }
+  };
+
+  const handleRemoveMember = async (member: ProjectMemberResponse) => {
+    const isSelf = member.user_id === currentUserId;
+    setUpdatingMemberId(member.id);
+    try {
+      await removeProjectMember(projectId, member.id);
+      if (isSelf) {
+        toast({ title: "Success", description: `You left ${selectedProject?.name}` });
+        await refreshProjects();
+        navigate("/dashboard");
+        return;
+      }
+      toast({ title: "Success", description: `${member.email} was removed from the workspace` });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : isSelf ? "Failed to leave workspace" : "Failed to remove member",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingMemberId(null);
+    }
+  };
+
+  const handleRevokeInvitation = async (invitationId: number) => {
+    setRevokingInvitationId(invitationId);
+    try {
+      await revokeProjectInvitation(projectId, invitationId);
+      toast({ title: "Success", description: "Invitation revoked" });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revoke invitation",
+        variant: "destructive",
+      });
+    } finally {
+      setRevokingInvitationId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-3xl font-bold bg-gradient-to-r from-primary to-primary/60 bg-clip-text text-transparent">Workspace Settings</h2>
+        <p className="text-muted-foreground mt-1">
+          Your role: {getProjectRoleLabel(role)}
+        </p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* General */}
+        <Card>
+          <CardHeader>
+            <CardTitle>General</CardTitle>
+            <CardDescription>
+              {canManage ? "Rename the workspace or describe what it's for." : "Only owners can change these."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form className="space-y-4" onSubmit={handleSave}>
+              <div className="space-y-2">
+                <Label htmlFor="workspace-name">Name</Label>
+                <Input
+                  id="workspace-name"
+                  value={name}
+                  onChange={(e) => {
+                    setName(e.target.value);
+                    clearFieldError("name");
+                  }}
+                  className={cn(fieldErrors.name && "border-destructive")}
+                  disabled={!canManage}
+                  required
+                />
+                <FieldErrorMessage message={fieldErrors.name} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="workspace-description">Description</Label>
+                <Textarea
+                  id="workspace-description"
+                  value={description}
+                  onChange={(e) => {
+                    setDescription(e.target.value);
+                    clearFieldError("description");
+                  }}
+                  className={cn(fieldErrors.description && "border-destructive")}
+                  disabled={!canManage}
+                  rows={3}
+                />
+                <FieldErrorMessage message={fieldErrors.description} />
+              </div>
+              {canManage && (
+                <Button type="submit" disabled={isSaving || !isDirty || !name.trim()}>
+                  {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Save changes
+                </Button>
+              )}
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Invite */}
+        {canManage && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Invite people</CardTitle>
+              <CardDescription>They get an email with a link to join this workspace.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <form className="space-y-4" onSubmit={handleInvite}>
+                <div className="space-y-2">
+                  <Label htmlFor="invite-email">Email</Label>
+                  <Input
+                    id="invite-email"
+                    type="email"
+                    placeholder="teammate@company.com"
+                    value={inviteEmail}
+                    onChange={(e) => {
+                      setInviteEmail(e.target.value);
+                      clearFieldError("email");
+                    }}
+                    className={cn(fieldErrors.email && "border-destructive")}
+                    required
+                  />
+                  <FieldErrorMessage message={fieldErrors.email} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Role</Label>
+                  <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as ProjectRole)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PROJECT_ROLES.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label} — {option.description}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button type="submit" disabled={isInviting || !inviteEmail.trim()}>
+                  {isInviting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <UserPlus className="h-4 w-4 mr-2" />}
+                  Send invitation
+                </Button>
+              </form>
+
+              {invitations.length > 0 && (
+                <div className="space-y-2 pt-2 border-t">
+                  <p className="text-sm font-medium pt-2">Pending invitations</p>
+                  {invitations.map((invitation) => (
+                    <div key={invitation.id} className="flex items-center justify-between gap-3 text-sm">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <Mail className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                        <span className="truncate">{invitation.email}</span>
+                        <Badge variant="outline">{getProjectRoleLabel(invitation.role)}</Badge>
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <span className="text-xs text-muted-foreground">
+                          Expires {new Date(invitation.expires_at).toLocaleDateString()}
+                        </span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0"
+                          onClick={() => handleRevokeInvitation(invitation.id)}
+                          disabled={revokingInvitationId === invitation.id}
+                          title="Revoke invitation"
+                        >
+                          {revokingInvitationId === invitation.id ? (
+                            <Loader2 className="h-3 w-3 animate-spin" />
+                          ) : (
+                            <X className="h-3 w-3" />
+                          )}
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {/* Members */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Members</CardTitle>
+          <CardDescription>
+            Owners manage the workspace, editors create and run tests, viewers can only look.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoadingMembers ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : membersError ? (
+            <p className="text-sm text-destructive">
+              {membersError instanceof Error ? membersError.message : "Failed to load members"}
+            </p>
+          ) : (
+            <div className="divide-y">
+              {members.map((member) => {
+                const isSelf = member.user_id === currentUserId;
+                const isLastOwner = member.role === "owner" && ownerCount <= 1;
+                const isUpdating = updatingMemberId === member.id;
+
+                return (
+                  <div key={member.id} className="flex items-center justify-between gap-4 py-3">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">
+                        {member.full_name || member.email}
+                        {isSelf && <span className="text-muted-foreground font-normal"> (you)</span>}
+                      </p>
+                      {member.full_name && (
+                        <p className="text-sm text-muted-foreground truncate">{member.email}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      {canManage && !isLastOwner ? (
+                        <Select
+                          value={member.role}
+                          onValueChange={(value) => handleRoleChange(member, value as ProjectRole)}
+                          disabled={isUpdating}
+                        >
+                          <SelectTrigger className="w-[120px] h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {PROJECT_ROLES.map((option) => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Badge variant={member.role === "owner" ? "default" : "secondary"}>
+                          {getProjectRoleLabel(member.role)}
+                        </Badge>
+                      )}
+                      {isSelf && !isLastOwner ? (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRemoveMember(member)}
+                          disabled={isUpdating}
+                        >
+                          {isUpdating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <LogOut className="h-4 w-4 mr-2" />}
+                          Leave
+                        </Button>
+                      ) : (
+                        canManage && !isSelf && !isLastOwner && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                            onClick={() => handleRemoveMember(member)}
+                            disabled={isUpdating}
+                            title="Remove member"
+                          >
+                            {isUpdating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                          </Button>
+                        )
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Device profiles */}
+      <DeviceProfilesCard projectId={projectId} canEdit={canEdit} />
+
+      {/* Danger zone */}
+      {canManage && (
+        <Card className="border-destructive/50">
+          <CardHeader>
+            <CardTitle className="text-destructive">Delete workspace</CardTitle>
+            <CardDescription>
+              Deletes the workspace with all of its test suites, runs, schedules, secrets and apps.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="destructive" onClick={() => setIsDeleteOpen(true)}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete workspace
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <DeleteProjectDialog
+        project={isDeleteOpen ? selectedProject : null}
+        onOpenChange={setIsDeleteOpen}
+        onDeleted={() => navigate("/dashboard")}
+      />
+    </div>
+  );
+}
@@ -1,11 +1,13 @@
-import { useState, useEffect, useRef } from "react";
-import { Plus, Calendar, Clock, Play, Pause, Trash2, Loader2 } from "lucide-react";
+import { useMemo, useState } from "react";
+import { Plus, Calendar, Clock, Play, Pause, Trash2, Loader2, RotateCcw } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useAuth } from "@/contexts/AuthContext";
 import { useProject } from "@/contexts/ProjectContext";
 import { useToast } from "@/hooks/use-toast";
+import { useApiQuery } from "@/hooks/use-api-query";
+import { useProjectPermissions } from "@/hooks/use-project-permissions";
 import { CreateScheduleDialog } from "@/components/CreateScheduleDialog";
 import { WeeklyCalendarView } from "@/components/WeeklyCalendarView";
 import {
@@ -24,62 +26,42 @@ import {
   deleteSchedule,
   ScheduleResponse 
 } from "@/lib/api-client";
+import { queryKeys } from "@/lib/query-cache";
 
 export default function SchedulerPage() {
   const { user } = useAuth();
   const { selectedProject } = useProject();
+  const { canEdit } = useProjectPermissions();
   const { toast } = useToast();
-  const [schedules, setSchedules] = useState<ScheduleResponse[]>([]);
-  const [loading, setLoading] = useState(true);
   const [showCreateDialog, setShowCreateDialog] = useState(false);
   const [deleteId, setDeleteId] = useState<number | null>(null);
-  const isFetchingSchedulesRef = useRef(false);
-  const lastProjectIdRef = useRef<number | null>(null);
 
-  useEffect(() => {
-    if (user && selectedProject) {
-      // Prevent duplicate calls - only fetch if project changed or not currently fetching
-      const projectChanged = lastProjectIdRef.current !== selectedProject.id;
-      if (projectChanged && !isFetchingSchedulesRef.current) {
-        isFetchingSchedulesRef.current = true;
-        lastProjectIdRef.current = selectedProject.id;
-        fetchSchedules().finally(() => {
-          isFetchingSchedulesRef.current = false;
+  const { data, isLoading: loading, refetch: refetchSchedules } = useApiQuery<ScheduleResponse[]>(
+    queryKeys.schedules({ project_id: selectedProject?.id }),
+    () => getSchedules({ project_id: selectedProject?.id }),
+    {
+      enabled: Boolean(user && selectedProject),
+      onError: (error) => {
+        console.error('Error fetching schedules:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load schedules",
+          variant: "destructive"
         });
-      }
-    } else if (user && !selectedProject) {
-      setLoading(false);
-      lastProjectIdRef.current = null;
-    }
-  }, [user, selectedProject]);
-
-  const fetchSchedules = async () => {
-    if (!selectedProject) {
-      setLoading(false);
-      return;
+      },
     }
+  );
 
-    try {
-      setLoading(true);
-      const data = await getSchedules({ project_id: selectedProject.id });
-      // Sort by created_at descending
-      const sorted = data.sort((a, b) => {
+  // Sort by created_at descending
+  const schedules = useMemo(
+    () =>
+      [...(data ?? [])].sort((a, b) => {
         const aDate = a.created_at ? new Date(a.created_at).getTime() : 0;
         const bDate = b.created_at ? new Date(b.created_at).getTime() : 0;
         return bDate - aDate;
-      });
-      setSchedules(sorted);
-    } catch (error) {
-      console.error('Error fetching schedules:', error);
-      toast({
-        title: "Error",
-        description: "Failed to load schedules",
-        variant: "destructive"
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
+      }),
+    [data]
+  );
 
   const toggleScheduleStatus = async (id: number, currentStatus: boolean) => {
     try {
@@ -89,8 +71,6 @@ export default function SchedulerPage() {
         title: "Success",
         description: `Schedule ${!currentStatus ? 'activated' : 'paused'}`
       });
-
-      fetchSchedules();
     } catch (error) {
       console.error('Error updating schedule:', error);
       toast({
@@ -109,8 +89,6 @@ export default function SchedulerPage() {
         title: "Success",
         description: "Schedule deleted successfully"
       });
-
-      fetchSchedules();
     } catch (error) {
       console.error('Error deleting schedule:', error);
       toast({
@@ -151,10 +129,12 @@ export default function SchedulerPage() {
             Automate your test suite executions with scheduled runs
           </p>
         </div>
-        <Button onClick={() => setShowCreateDialog(true)}>
-          <Plus className="mr-2 h-4 w-4" />
-          Create Schedule
-        </Button>
+        {canEdit && (
+          <Button onClick={() => setShowCreateDialog(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Create Schedule
+          </Button>
+        )}
       </div>
 
       {loading ? (
@@ -167,10 +147,12 @@ export default function SchedulerPage() {
             <div className="text-center py-12">
               <Calendar className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
               <p className="text-muted-foreground mb-4">No schedules yet</p>
-              <Button onClick={() => setShowCreateDialog(true)}>
-                <Plus className="mr-2 h-4 w-4" />
-                Create Your First Schedule
-              </Button>
+              {canEdit && (
+                <Button onClick={() => setShowCreateDialog(true)}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Create Your First Schedule
+                </Button>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -187,7 +169,7 @@ export default function SchedulerPage() {
                       <div className="flex-1">
                         <CardTitle className="text-lg">{schedule.name}</CardTitle>
                         <p className="text-sm text-muted-foreground mt-1">
-                          {schedule.test_suite?.name}
+                          {schedule.test_suite?.name ?? (schedule.tag ? `Suites tagged "${schedule.tag}"` : null)}
                         </p>
                       </div>
                       <Badge variant={schedule.is_active ? "default" : "secondary"}>
@@ -209,6 +191,13 @@ export default function SchedulerPage() {
                         </div>
                       )}
 
+                      {schedule.reset_context_before_run && (
+                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                          <RotateCcw className="h-4 w-4" />
+                          <span>Resets saved browser context before each run</span>
+                        </div>
+                      )}
+
                       {schedule.next_run_at && schedule.is_active && (
                         <div className="text-sm text-muted-foreground">
                           Next run: {new Date(schedule.next_run_at).toLocaleString()}
@@ -221,27 +210,29 @@ export default function SchedulerPage() {
                         </div>
                       )}
 
-                      <div className="flex gap-2 pt-2">
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => toggleScheduleStatus(schedule.id, schedule.is_active)}
-                          className="flex-1"
-                        >
-                          {schedule.is_active ? (
-                            <><Pause className="h-4 w-4 mr-1" /> Pause</>
-                          ) : (
-                            <><Play className="h-4 w-4 mr-1" /> Activate</>
-                          )}
-                        </Button>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => setDeleteId(schedule.id)}
-                        >
-                          <Trash2 className="h-4 w-4 text-destructive" />
-                        </Button>
-                      </div>
+                      {canEdit && (
+                        <div className="flex gap-2 pt-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => toggleScheduleStatus(schedule.id, schedule.is_active)}
+                            className="flex-1"
+                          >
+                            {schedule.is_active ? (
+                              <><Pause className="h-4 w-4 mr-1" /> Pause</>
+                            ) : (
+                              <><Play className="h-4 w-4 mr-1" /> Activate</>
+                            )}
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setDeleteId(schedule.id)}
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      )}
                     </div>
                   </CardContent>
                 </Card>
@@ -257,7 +248,7 @@ export default function SchedulerPage() {
       <CreateScheduleDialog
         open={showCreateDialog}
         onOpenChange={setShowCreateDialog}
-        onSuccess={fetchSchedules}
+        onSuccess={() => void refetchSchedules()}
       />
 
       <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
@@ -8,6 +8,9 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Plus, Trash2, Eye, EyeOff, Copy, Check, Loader2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/contexts/AuthContext";
+import { useFieldErrors } from "@/hooks/use-field-errors";
+import { FieldErrorMessage } from "@/components/FieldErrorMessage";
+import { cn } from "@/lib/utils";
 import { 
   getSecrets, 
   createSecret, 
@@ -30,6 +33,7 @@ export default function SecretsPage() {
   const [isSaving, setIsSaving] = useState(false);
   const [loadingReveal, setLoadingReveal] = useState<Set<number>>(new Set());
   const isFetchingSecretsRef = useRef(false);
+  const { fieldErrors, applyError, clearFieldError, clearFieldErrors } = useFieldErrors();
 
   useEffect(() => {
     if (user) {
@@ -90,15 +94,19 @@ export default function SecretsPage() {
       setNewSecretName("");
       setNewSecretValue("");
       setIsAddDialogOpen(false);
+      clearFieldErrors();
 
       toast({
         title: "Secret added",
-        description: `Use \${${newSecretName.trim()}} in your test scenarios to reference this secret.`,
+        description: `Use {{secrets.${newSecretName.trim()}}} in your test scenarios to reference this secret.`,
       });
     } catch (error: any) {
+      const hasFieldErrors = applyError(error);
       toast({
         title: "Error adding secret",
-        description: error.message || "Failed to add secret",
+        description: hasFieldErrors
+          ? "Please fix the highlighted fields"
+          : error.message || "Failed to add secret",
         variant: "destructive",
       });
     } finally {
@@ -169,12 +177,12 @@ export default function SecretsPage() {
   };
 
   const copySecretSyntax = (name: string, id: number) => {
-    navigator.clipboard.writeText(`\${${name}}`);
+    navigator.clipboard.writeText(`{{secrets.${name}}}`);
     setCopiedSecret(id);
     setTimeout(() => setCopiedSecret(null), 2000);
     toast({
       title: "Copied!",
-      description: `\${${name}} copied to clipboard.`,
+      description: `{{secrets.${name}}} copied to clipboard.`,
     });
   };
 
@@ -216,10 +224,16 @@ export default function SecretsPage() {
         </CardHeader>
         <CardContent className="space-y-2">
           <p className="text-sm text-muted-foreground">
-            Reference secrets in your test scenarios using the syntax: <code className="bg-muted px-2 py-0.5 rounded text-primary font-mono">${`{secret_name}`}</code>
+            Reference secrets in your test scenarios using the syntax: <code className="bg-muted px-2 py-0.5 rounded text-primary font-mono">{"{{secrets.secret_name}}"}</code>
           </p>
           <p className="text-sm text-muted-foreground">
-            Example: "Login with username <code className="bg-muted px-2 py-0.5 rounded text-primary font-mono">${`{username}`}</code> and password <code className="bg-muted px-2 py-0.5 rounded text-primary font-mono">${`{password}`}</code>"
+            Example: "Login with username <code className="bg-muted px-2 py-0.5 rounded text-primary font-mono">{"{{secrets.username}}"}</code> and password <code className="bg-muted px-2 py-0.5 rounded text-primary font-mono">{"{{secrets.password}}"}</code>"
+          </p>
+          <p className="text-sm text-muted-foreground">
+            Scenarios that still use the old <code className="bg-muted px-2 py-0.5 rounded text-primary font-mono">{"${secret_name}"}</code> syntax keep working; the scenario editor offers to rewrite them.
+          </p>
+          <p className="text-sm text-muted-foreground">
+            Values are filled in by the server when a run needs them, so they never appear in scenarios, run steps or results.
           </p>
         </CardContent>
       </Card>
@@ -287,7 +301,7 @@ export default function SecretsPage() {
                       <td className="py-4 px-2">
                         <div className="flex items-center gap-2">
                           <Badge variant="outline" className="font-mono">
-                            ${`{${secret.name}}`}
+                            {`{{secrets.${secret.name}}}`}
                           </Badge>
                           <Button
                             variant="ghost"
@@ -341,9 +355,14 @@ export default function SecretsPage() {
                 id="secret-name"
                 placeholder="e.g., username, api_key, password"
                 value={newSecretName}
-                onChange={(e) => setNewSecretName(e.target.value)}
-                className="font-mono"
+                onChange={(e) => {
+                  setNewSecretName(e.target.value);
+                  clearFieldError("name");
+                }}
+                aria-invalid={Boolean(fieldErrors.name)}
+                className={cn("font-mono", fieldErrors.name && "border-destructive")}
               />
+              <FieldErrorMessage message={fieldErrors.name} />
               <p className="text-xs text-muted-foreground">
                 Use lowercase letters, numbers, and underscores only
               </p>
@@ -355,8 +374,14 @@ export default function SecretsPage() {
                 type="password"
                 placeholder="Enter the secret value"
                 value={newSecretValue}
-                onChange={(e) => setNewSecretValue(e.target.value)}
+                onChange={(e) => {
+                  setNewSecretValue(e.target.value);
+                  clearFieldError("value");
+                }}
+                aria-invalid={Boolean(fieldErrors.value)}
+                className={cn(fieldErrors.value && "border-destructive")}
               />
+              <FieldErrorMessage message={fieldErrors.value} />
             </div>
             {newSecretName && (
               <div className="rounded-lg bg-muted p-3">
@@ -364,7 +389,7 @@ export default function SecretsPage() {
                   Usage in test scenarios:
                 </p>
                 <code className="text-sm font-mono text-primary">
-                  ${`{${newSecretName}}`}
+                  {`{{secrets.${newSecretName}}}`}
                 </code>
               </div>
             )}
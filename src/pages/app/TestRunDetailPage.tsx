@@ -17,19 +17,34 @@ import {
   ChevronRight,
   Globe,
   Smartphone,
+  LayoutGrid,
+  KeyRound,
+  ListChecks,
+  Table2,
+  FileCode2,
 } from "lucide-react";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "../../components/ui/dialog";
 import { Input } from "../../components/ui/input";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "../../components/ui/tooltip";
+import { PlaywrightExportDialog } from "../../components/PlaywrightExportDialog";
 import { useAuth } from "../../contexts/AuthContext";
+import { useProject } from "../../contexts/ProjectContext";
 import { cn } from "../../lib/utils";
 import {
   getTestRun,
   getTestSuite,
   getScenarios,
+  getMatrixTestRuns,
+  getDeviceProfiles,
   TestRunWithSessionsResponse
 } from "../../lib/api-client";
+import { isAbortError } from "../../lib/api-errors";
 import { useToast } from "../../hooks/use-toast";
+import { useProjectPath } from "../../hooks/use-project-path";
+import { useApiQuery } from "../../hooks/use-api-query";
+import { queryKeys } from "../../lib/query-cache";
+import { RESOLUTION_OPTIONS, resolveViewport } from "../../lib/resolutions";
+import { describeIteration, type ScenarioDataTable, type ScenarioIteration } from "../../lib/scenario-parameters";
 
 interface Scenario {
   id: string;
@@ -37,6 +52,10 @@ interface Scenario {
   status: "pending" | "running" | "passed" | "failed";
   hasRun: boolean;
   steps: Step[];
+  /** Set when this result is one data table row of the scenario */
+  iteration?: ScenarioIteration | null;
+  /** The scenario's data table columns, in order */
+  dataColumns?: string[];
 }
 
 interface Step {
@@ -52,14 +71,42 @@ interface Step {
   networkLogs?: string[];
 }
 
+// One viewport of a matrix run
+interface MatrixResult {
+  run: TestRunWithSessionsResponse;
+  scenarios: Scenario[];
+}
+
+// Presets in their usual order, custom device profiles after them
+const resolutionOrder = (resolution?: string | null) => {
+  const index = RESOLUTION_OPTIONS.findIndex((option) => option.value === resolution);
+  return index === -1 ? RESOLUTION_OPTIONS.length : index;
+};
+
+// Data table rows of one scenario share its id, so each row gets a key of its own
+const getScenarioResultKey = (scenarioId: number, iterationIndex?: number | null) =>
+  iterationIndex == null ? scenarioId.toString() : `${scenarioId}-row-${iterationIndex + 1}`;
+
+const getScenarioBaseKey = (scenario: Scenario) => scenario.id.split("-row-")[0];
+
+const getScenarioLabel = (scenario: Scenario) =>
+  scenario.iteration ? `${scenario.name} · Row ${scenario.iteration.index + 1}` : scenario.name;
+
+// The last step with a screenshot, i.e. where the scenario ended up
+const getFinalStep = (scenario: Scenario): Step | undefined =>
+  [...scenario.steps].reverse().find((step) => step.afterScreenshot || step.screenshot || step.beforeScreenshot);
+
 export const TestRunDetailPage: React.FC = () => {
   const { runId } = useParams<{ runId: string }>();
   const navigate = useNavigate();
+  const toProjectPath = useProjectPath();
   const { user } = useAuth();
+  const { selectedProject } = useProject();
   const { toast } = useToast();
   const [selectedScenario, setSelectedScenario] = useState<string | null>(null);
   const [selectedStepIndex, setSelectedStepIndex] = useState(0);
   const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
+  const [isPlaywrightExportOpen, setIsPlaywrightExportOpen] = useState(false);
   const [copied, setCopied] = useState(false);
   const [expandedScenarioId, setExpandedScenarioId] = useState<string | undefined>("");
   const [showAllLogs, setShowAllLogs] = useState(false);
@@ -68,17 +115,31 @@ export const TestRunDetailPage: React.FC = () => {
   const [expandedImageError, setExpandedImageError] = useState(false);
   const [imageErrors, setImageErrors] = useState<Record<string, boolean>>({});
 
-  const [suiteInfo, setSuiteInfo] = useState<{ name: string; description?: string } | null>(null);
+  const [suiteInfo, setSuiteInfo] = useState<{ name: string; description?: string; application_url?: string | null } | null>(null);
   const [scenarios, setScenarios] = useState<Scenario[]>([]);
   const [isLoadingData, setIsLoadingData] = useState(true);
   const [testRun, setTestRun] = useState<TestRunWithSessionsResponse | null>(null);
+  const [matrixResults, setMatrixResults] = useState<MatrixResult[]>([]);
+  const { data: deviceProfiles = [] } = useApiQuery(
+    queryKeys.deviceProfiles(selectedProject?.id ?? 0),
+    () => getDeviceProfiles(selectedProject!.id),
+    { enabled: !!selectedProject }
+  );
+  // Runs on a device profile store "profile:N"; show its size and name instead
+  const getViewport = (resolution?: string | null) => {
+    const viewport = resolveViewport(resolution, deviceProfiles);
+    return {
+      size: viewport ? `${viewport.width}x${viewport.height}` : resolution ?? "",
+      label: viewport?.label,
+    };
+  };
 
   // Helper function to construct full image URL from filename or path
   const getImageUrl = (imagePath: string | undefined | null): string | undefined => {
     if (!imagePath) return undefined;
 
-    // If it's already a full URL, return it as-is
-    if (imagePath.startsWith('http://') || imagePath.startsWith('https://')) {
+    // If it's already a full URL (or an inline image from the mock backend), return it as-is
+    if (imagePath.startsWith('http://') || imagePath.startsWith('https://') || imagePath.startsWith('data:')) {
       return imagePath;
     }
 
@@ -121,16 +182,22 @@ export const TestRunDetailPage: React.FC = () => {
   );
 
   useEffect(() => {
-    if (runId && user) {
-      loadTestRunData();
-    }
+    if (!runId || !user) return;
+
+    // Cancel the previous run's requests so they can't overwrite this run's state
+    const controller = new AbortController();
+    loadTestRunData(controller.signal);
+
+    return () => {
+      controller.abort();
+    };
   }, [runId, user]);
 
   useEffect(() => {
     setExpandedImageError(false);
   }, [expandedImage]);
 
-  const loadTestRunData = async () => {
+  const loadTestRunData = async (signal?: AbortSignal) => {
     try {
       setIsLoadingData(true);
 
@@ -148,20 +215,30 @@ export const TestRunDetailPage: React.FC = () => {
       }
 
       // Load test run first
-      const testRunData = await getTestRun(runIdNum);
+      const testRunData = await getTestRun(runIdNum, { signal });
       
-      // Then load suite and scenarios using the test run's suite ID
-      const [suiteData, scenariosData] = await Promise.all([
-        getTestSuite(testRunData.test_suite_id).catch(() => null),
-        getScenarios(testRunData.test_suite_id).catch(() => []),
+      // Then load suite and scenarios using the test run's suite ID, and the other viewports of a matrix run
+      const [suiteData, scenariosData, matrixRunsData] = await Promise.all([
+        getTestSuite(testRunData.test_suite_id, { signal }).catch(() => null),
+        getScenarios(testRunData.test_suite_id, { signal }).catch(() => []),
+        testRunData.matrix_id
+          ? getMatrixTestRuns(testRunData.matrix_id, { signal }).catch(() => [])
+          : Promise.resolve([]),
       ]);
+      if (signal?.aborted) return;
 
       setTestRun(testRunData);
+      setMatrixResults(
+        [...matrixRunsData]
+          .sort((a, b) => resolutionOrder(a.resolution) - resolutionOrder(b.resolution))
+          .map((run) => ({ run, scenarios: mapTestRunToScenarios(run, false, scenariosData) }))
+      );
 
       if (suiteData) {
         setSuiteInfo({
           name: suiteData.name,
           description: suiteData.description || undefined,
+          application_url: suiteData.application_url,
         });
       } else {
         // Fallback to test run ID if suite not found
@@ -174,14 +251,9 @@ export const TestRunDetailPage: React.FC = () => {
       const mappedScenarios = mapTestRunToScenarios(testRunData, false, scenariosData);
       console.log("Mapped scenarios:", mappedScenarios);
       console.log("Test run data:", testRunData);
-      setScenarios(mappedScenarios);
-
-      // Auto-select first scenario if available
-      if (mappedScenarios.length > 0) {
-        setSelectedScenario(mappedScenarios[0].id);
-        setExpandedScenarioId(`scenario-${mappedScenarios[0].id}`);
-      }
+      showScenarios(mappedScenarios);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error("Error loading test run data:", error);
       toast({
         title: "Error",
@@ -189,12 +261,32 @@ export const TestRunDetailPage: React.FC = () => {
         variant: "destructive",
       });
     } finally {
-      setIsLoadingData(false);
+      if (!signal?.aborted) {
+        setIsLoadingData(false);
+      }
     }
   };
 
+  const showScenarios = (mappedScenarios: Scenario[], scenarioId?: string) => {
+    setScenarios(mappedScenarios);
+    setCurrentScreenshotIndex(0);
+    setSelectedStepIndex(0);
+
+    // Keep the scenario that was open when switching viewports, else auto-select the first one
+    const selected = mappedScenarios.find((scenario) => scenario.id === scenarioId) ?? mappedScenarios[0];
+    if (selected) {
+      setSelectedScenario(selected.id);
+      setExpandedScenarioId(`scenario-${selected.id}`);
+    }
+  };
+
+  const showMatrixResult = (result: MatrixResult, scenarioId: string | null = selectedScenario) => {
+    setTestRun(result.run);
+    showScenarios(result.scenarios, scenarioId ?? undefined);
+  };
+
   // Map API response to UI state (similar to TestSuiteRunsPage)
-  const mapTestRunToScenarios = (testRun: TestRunWithSessionsResponse, isTestRunActive: boolean = false, backendScenarios?: Array<{ id: number; name: string }>): Scenario[] => {
+  const mapTestRunToScenarios = (testRun: TestRunWithSessionsResponse, isTestRunActive: boolean = false, backendScenarios?: Array<{ id: number; name: string; data_table?: ScenarioDataTable | null }>): Scenario[] => {
     const mappedScenarios: Scenario[] = [];
     const isTestRunComplete = testRun.status === "completed" || testRun.status === "failed";
 
@@ -312,12 +404,17 @@ export const TestRunDetailPage: React.FC = () => {
         const backendScenario = backendScenarios?.find(s => s.id === apiScenario.id);
         const scenarioName = backendScenario?.name || apiScenario.name;
 
+        const iterationValues = apiScenario.iteration_values ?? {};
         mappedScenarios.push({
-          id: apiScenario.id.toString(),
+          id: getScenarioResultKey(apiScenario.id, apiScenario.iteration_index),
           name: scenarioName,
           status: scenarioStatus,
           hasRun: true,
           steps,
+          iteration: apiScenario.iteration_index == null
+            ? null
+            : { index: apiScenario.iteration_index, values: iterationValues },
+          dataColumns: backendScenario?.data_table?.columns ?? Object.keys(iterationValues),
         });
       });
     } else if (testRun.sessions && testRun.sessions.length > 0) {
@@ -475,7 +572,7 @@ export const TestRunDetailPage: React.FC = () => {
       {/* Top Bar with Test Title */}
       <div className="bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
         <div className="flex items-center gap-3">
-          <Button variant="ghost" size="sm" onClick={() => navigate("/test-runs")}>
+          <Button variant="ghost" size="sm" onClick={() => navigate(toProjectPath("/test-runs"))}>
             <ArrowLeft className="h-4 w-4 mr-2" />
             Back
           </Button>
@@ -484,6 +581,12 @@ export const TestRunDetailPage: React.FC = () => {
           )}
         </div>
         <div className="flex gap-3">
+          {testRun && (
+            <Button variant="outline" size="sm" onClick={() => setIsPlaywrightExportOpen(true)}>
+              <FileCode2 className="h-4 w-4 mr-2" />
+              Export to Playwright
+            </Button>
+          )}
           <TooltipProvider>
             <Tooltip>
               <TooltipTrigger asChild>
@@ -511,7 +614,7 @@ export const TestRunDetailPage: React.FC = () => {
         ) : !suiteInfo ? (
           <div className="text-center py-12">
             <p className="text-muted-foreground mb-4">Test run not found</p>
-            <Button onClick={() => navigate("/test-runs")} variant="outline">
+            <Button onClick={() => navigate(toProjectPath("/test-runs"))} variant="outline">
               Back to Test Runs
             </Button>
           </div>
@@ -546,11 +649,155 @@ export const TestRunDetailPage: React.FC = () => {
                         {testRun.passed_scenarios} passed, {testRun.failed_scenarios} failed out of {testRun.total_scenarios}
                       </p>
                     </div>
+                    {testRun.resolution && (
+                      <div>
+                        <span className="text-muted-foreground">Viewport:</span>
+                        <p className="font-medium">
+                          {getViewport(testRun.resolution).size}
+                          {getViewport(testRun.resolution).label && (
+                            <span className="text-muted-foreground font-normal"> · {getViewport(testRun.resolution).label}</span>
+                          )}
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Matrix run: one result per viewport */}
+            {matrixResults.length > 1 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base flex items-center gap-2">
+                    <LayoutGrid className="h-4 w-4 text-primary" />
+                    Viewports
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-3">
+                    {matrixResults.map((result) => {
+                      const viewport = getViewport(result.run.resolution);
+                      const isActive = result.run.id === testRun?.id;
+                      return (
+                        <button
+                          key={result.run.id}
+                          type="button"
+                          onClick={() => showMatrixResult(result)}
+                          className={cn(
+                            "rounded-lg border p-3 text-left transition-colors hover:bg-muted/50",
+                            isActive && "border-primary bg-primary/5"
+                          )}
+                        >
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="font-mono text-sm font-medium">{viewport.size}</span>
+                            {getStatusIcon(
+                              result.run.status === "running"
+                                ? "running"
+                                : result.run.failed_scenarios > 0 || result.run.status === "failed" ? "failed" : "passed"
+                            )}
+                          </div>
+                          {viewport.label && <p className="text-xs text-muted-foreground truncate">{viewport.label}</p>}
+                          <p className="text-xs mt-1">
+                            <span className="text-green-600">{result.run.passed_scenarios} passed</span>
+                            {" · "}
+                            <span className={cn(result.run.failed_scenarios > 0 ? "text-red-600" : "text-muted-foreground")}>
+                              {result.run.failed_scenarios} failed
+                            </span>
+                          </p>
+                        </button>
+                      );
+                    })}
                   </div>
                 </CardContent>
               </Card>
             )}
 
+            {/* Failures side by side: how each scenario that failed somewhere ended in every viewport */}
+            {matrixResults.length > 1 && (() => {
+              const failedScenarioIds = Array.from(new Set(
+                matrixResults.flatMap((result) =>
+                  result.scenarios.filter((scenario) => scenario.status === "failed").map((scenario) => scenario.id)
+                )
+              ));
+              if (failedScenarioIds.length === 0) return null;
+
+              return (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base">Failures Across Viewports</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-6 overflow-x-auto">
+                    {failedScenarioIds.map((scenarioId) => {
+                      const scenarioName = matrixResults
+                        .map((result) => {
+                          const scenario = result.scenarios.find((s) => s.id === scenarioId);
+                          return scenario && getScenarioLabel(scenario);
+                        })
+                        .find(Boolean);
+                      return (
+                        <div key={scenarioId} className="space-y-2">
+                          <p className="text-sm font-medium">{scenarioName}</p>
+                          <div
+                            className="grid gap-3"
+                            style={{ gridTemplateColumns: `repeat(${matrixResults.length}, minmax(180px, 1fr))` }}
+                          >
+                            {matrixResults.map((result) => {
+                              const scenario = result.scenarios.find((s) => s.id === scenarioId);
+                              const finalStep = scenario ? getFinalStep(scenario) : undefined;
+                              const image = finalStep?.afterScreenshot || finalStep?.screenshot || finalStep?.beforeScreenshot;
+                              return (
+                                <div
+                                  key={result.run.id}
+                                  className={cn(
+                                    "rounded-lg border p-2 space-y-2 cursor-pointer hover:bg-muted/30",
+                                    scenario?.status === "failed" && "border-red-200"
+                                  )}
+                                  onClick={() => showMatrixResult(result, scenarioId)}
+                                >
+                                  <div className="flex items-center justify-between gap-2">
+                                    <span className="font-mono text-xs" title={getViewport(result.run.resolution).label}>
+                                      {getViewport(result.run.resolution).size}
+                                    </span>
+                                    {getStatusIcon(scenario?.status ?? "pending")}
+                                  </div>
+                                  {image && !imageErrors[image] ? (
+                                    <img
+                                      src={image}
+                                      alt={`${getViewport(result.run.resolution).size} final screenshot`}
+                                      className="w-full h-28 object-contain bg-white border rounded"
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        setExpandedImage(image);
+                                      }}
+                                      onError={() => recordImageError(image, {
+                                        location: "matrix",
+                                        testRunId: result.run.id,
+                                        scenarioId,
+                                      })}
+                                    />
+                                  ) : (
+                                    <div className="h-28 flex items-center justify-center text-xs text-muted-foreground bg-muted/30 rounded">
+                                      No screenshot
+                                    </div>
+                                  )}
+                                  {scenario?.status === "failed" && finalStep && (
+                                    <p className="text-xs text-muted-foreground line-clamp-3">
+                                      {finalStep.reasoning || finalStep.action}
+                                    </p>
+                                  )}
+                                </div>
+                              );
+                            })}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </CardContent>
+                </Card>
+              );
+            })()}
+
             {/* Platform Badge */}
             {testRun?.platform && (
               <Card className="bg-white rounded-lg">
@@ -567,6 +814,157 @@ export const TestRunDetailPage: React.FC = () => {
               </Card>
             )}
 
+            {/* Preconditions: the setup that ran before any scenario */}
+            {testRun?.preconditions && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base flex items-center gap-2">
+                    <ListChecks className="h-4 w-4 text-primary" />
+                    Preconditions
+                    {testRun.preconditions.block_name && (
+                      <span className="text-sm font-normal text-muted-foreground">· {testRun.preconditions.block_name}</span>
+                    )}
+                    <span className="ml-auto">{getStatusIcon(testRun.preconditions.status)}</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <ol className="space-y-2">
+                    {testRun.preconditions.steps.map((step) => {
+                      const screenshot = getImageUrl(step.screenshot_url);
+                      return (
+                        <li
+                          key={step.step_number}
+                          className={cn("flex items-start gap-3 text-sm", step.status === "skipped" && "opacity-50")}
+                        >
+                          <span className="mt-0.5">{getStatusIcon(step.status)}</span>
+                          <div className="flex-1 min-w-0">
+                            <p className="font-medium">
+                              {step.step_number}. {step.instruction}
+                              {step.secret_name && (
+                                <span className="ml-2 inline-flex items-center gap-1 text-xs font-normal text-muted-foreground">
+                                  <KeyRound className="h-3 w-3" />
+                                  {step.secret_name}
+                                </span>
+                              )}
+                            </p>
+                            {step.status === "skipped" ? (
+                              <p className="text-xs text-muted-foreground">Skipped after an earlier step failed</p>
+                            ) : (
+                              step.reasoning && <p className="text-xs text-muted-foreground">{step.reasoning}</p>
+                            )}
+                          </div>
+                          {screenshot && !imageErrors[screenshot] && (
+                            <img
+                              src={screenshot}
+                              alt={`Precondition step ${step.step_number}`}
+                              className="h-12 w-20 object-cover rounded border cursor-pointer flex-shrink-0"
+                              onClick={() => setExpandedImage(screenshot)}
+                              onError={() => recordImageError(screenshot, { preconditionStep: step.step_number })}
+                            />
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ol>
+                  {testRun.preconditions.success_check && (
+                    <div className="flex items-center gap-3 border-t pt-3 text-sm">
+                      {getStatusIcon(
+                        testRun.preconditions.success_check_passed === null
+                          ? "pending"
+                          : testRun.preconditions.success_check_passed ? "passed" : "failed"
+                      )}
+                      <span>
+                        <span className="text-muted-foreground">Success check:</span> {testRun.preconditions.success_check}
+                      </span>
+                    </div>
+                  )}
+                  {testRun.preconditions.status === "failed" && (
+                    <p className="text-sm text-red-600">Setup failed, so no scenarios were run.</p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Data-driven scenarios: how each row of their data table did */}
+            {(() => {
+              const dataDriven = new Map<string, Scenario[]>();
+              scenarios
+                .filter((scenario) => scenario.iteration)
+                .forEach((scenario) => {
+                  const key = getScenarioBaseKey(scenario);
+                  dataDriven.set(key, [...(dataDriven.get(key) ?? []), scenario]);
+                });
+              if (dataDriven.size === 0) return null;
+
+              return (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base flex items-center gap-2">
+                      <Table2 className="h-4 w-4" />
+                      Results per Data Row
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-6 overflow-x-auto">
+                    {Array.from(dataDriven.entries()).map(([key, rows]) => {
+                      const columns = rows[0].dataColumns ?? [];
+                      const passedCount = rows.filter((row) => row.status === "passed").length;
+                      return (
+                        <div key={key} className="space-y-2">
+                          <div className="flex items-center justify-between gap-2">
+                            <p className="text-sm font-medium">{rows[0].name}</p>
+                            <span className="text-xs text-muted-foreground">
+                              {passedCount} of {rows.length} rows passed
+                            </span>
+                          </div>
+                          <table className="w-full text-sm">
+                            <thead>
+                              <tr className="border-b text-left text-xs text-muted-foreground">
+                                <th className="py-1.5 pr-3 font-medium">Row</th>
+                                {columns.map((column) => (
+                                  <th key={column} className="py-1.5 pr-3 font-medium font-mono">{column}</th>
+                                ))}
+                                <th className="py-1.5 font-medium">Result</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {rows.map((row) => (
+                                <tr
+                                  key={row.id}
+                                  className={cn(
+                                    "border-b last:border-0 cursor-pointer hover:bg-muted/30",
+                                    selectedScenario === row.id && "bg-muted/50"
+                                  )}
+                                  onClick={() => {
+                                    setSelectedScenario(row.id);
+                                    setExpandedScenarioId(`scenario-${row.id}`);
+                                    setCurrentScreenshotIndex(0);
+                                    setSelectedStepIndex(0);
+                                  }}
+                                >
+                                  <td className="py-1.5 pr-3 text-muted-foreground">{(row.iteration?.index ?? 0) + 1}</td>
+                                  {columns.map((column) => (
+                                    <td key={column} className="py-1.5 pr-3 font-mono text-xs">
+                                      {row.iteration?.values[column] ?? ""}
+                                    </td>
+                                  ))}
+                                  <td className="py-1.5">
+                                    <span className="flex items-center gap-1.5 capitalize">
+                                      {getStatusIcon(row.status)}
+                                      {row.status}
+                                    </span>
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      );
+                    })}
+                  </CardContent>
+                </Card>
+              );
+            })()}
+
             {/* Scenarios Section */}
             <div className="space-y-6">
               <div>
@@ -610,6 +1008,11 @@ export const TestRunDetailPage: React.FC = () => {
                               </div>
                               <div className="flex-1 min-w-0">
                                 <span className="text-sm font-medium break-words block">{scenario.name}</span>
+                                {scenario.iteration && (
+                                  <span className="text-xs text-muted-foreground font-normal break-words block">
+                                    Row {scenario.iteration.index + 1}: {describeIteration(scenario.iteration.values, scenario.dataColumns)}
+                                  </span>
+                                )}
                               </div>
                             </div>
                           </AccordionTrigger>
@@ -1045,6 +1448,17 @@ export const TestRunDetailPage: React.FC = () => {
                 )}
               </DialogContent>
             </Dialog>
+
+            {testRun && (
+              <PlaywrightExportDialog
+                open={isPlaywrightExportOpen}
+                onOpenChange={setIsPlaywrightExportOpen}
+                testRun={testRun}
+                suiteName={suiteInfo?.name ?? `Test Run #${testRun.id}`}
+                applicationUrl={suiteInfo?.application_url ?? null}
+                viewport={resolveViewport(testRun.resolution, deviceProfiles)}
+              />
+            )}
           </>
         )}
       </div>
@@ -7,10 +7,14 @@ import { useAuth } from "../../contexts/AuthContext";
 import { useProject } from "../../contexts/ProjectContext";
 import { useNavigate } from "react-router-dom";
 import { useToast } from "../../hooks/use-toast";
+import { useProjectPath } from "../../hooks/use-project-path";
+import { useApiQuery } from "../../hooks/use-api-query";
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
   SelectTrigger,
   SelectValue,
 } from "../../components/ui/select";
@@ -20,9 +24,13 @@ import { cn } from "../../lib/utils";
 import { 
   getTestSuites, 
   getTestRunsForSuite,
+  getDeviceProfiles,
   TestSuiteResponse,
   TestRunResponse
 } from "../../lib/api-client";
+import { fetchQuery, queryKeys } from "../../lib/query-cache";
+import { resolveViewport } from "../../lib/resolutions";
+import { collectSuiteTags, getSelectorTag, tagSelectorValue } from "../../lib/suite-organization";
 
 interface TestRun {
   id: string;
@@ -34,6 +42,8 @@ interface TestRun {
   started_at: string;
   completed_at: string | null;
   platform?: string;
+  /** Set on runs started as part of a viewport matrix */
+  resolution?: string | null;
   test_suites: {
     id: string;
     name: string;
@@ -44,11 +54,10 @@ export const TestRunsPage: React.FC = () => {
   const { user } = useAuth();
   const { selectedProject } = useProject();
   const navigate = useNavigate();
+  const toProjectPath = useProjectPath();
   const { toast } = useToast();
   const [testRuns, setTestRuns] = useState<TestRun[]>([]);
-  const [suites, setSuites] = useState<TestSuiteResponse[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [suitesLoaded, setSuitesLoaded] = useState(false);
   const [selectedSuite, setSelectedSuite] = useState<string>("all");
   const [selectedStatus, setSelectedStatus] = useState<string>("all");
   const [startDate, setStartDate] = useState<string>("");
@@ -57,12 +66,33 @@ export const TestRunsPage: React.FC = () => {
   const [totalCount, setTotalCount] = useState(0);
   const runsPerPage = 20;
 
+  const suitesQuery = useApiQuery<TestSuiteResponse[]>(
+    queryKeys.testSuites(selectedProject?.id),
+    () => getTestSuites(selectedProject?.id),
+    {
+      enabled: Boolean(user && selectedProject),
+      onError: (error) => {
+        console.error("Error fetching suites:", error);
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to load test suites",
+          variant: "destructive",
+        });
+      },
+    }
+  );
+  const suites = suitesQuery.data ?? [];
+  const suiteTags = collectSuiteTags(suites);
+  // A failed suites request still lets the page settle into its empty state
+  const suitesLoaded = suitesQuery.data !== undefined || Boolean(suitesQuery.error);
+  const { data: deviceProfiles = [] } = useApiQuery(
+    queryKeys.deviceProfiles(selectedProject?.id ?? 0),
+    () => getDeviceProfiles(selectedProject!.id),
+    { enabled: Boolean(user && selectedProject) }
+  );
+
   useEffect(() => {
-    if (user && selectedProject) {
-      fetchSuites();
-    } else if (user && !selectedProject) {
-      setIsLoading(false);
-    } else {
+    if (!user || !selectedProject) {
       setIsLoading(false);
     }
   }, [user, selectedProject]);
@@ -101,35 +131,17 @@ export const TestRunsPage: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [user, selectedProject, suitesLoaded, selectedSuite, selectedStatus, startDate, endDate, currentPage]);
 
-  const fetchSuites = async () => {
-    if (!selectedProject) {
-      setIsLoading(false);
-      return;
-    }
-
-    try {
-      const suitesData = await getTestSuites(selectedProject.id);
-      setSuites(suitesData);
-      setSuitesLoaded(true);
-      // If no suites, stop loading
-      if (suitesData.length === 0) {
-        setIsLoading(false);
-      }
-    } catch (error) {
-      console.error("Error fetching suites:", error);
-      toast({
-        title: "Error",
-        description: error instanceof Error ? error.message : "Failed to load test suites",
-        variant: "destructive",
-      });
-      setSuitesLoaded(true);
-      setIsLoading(false);
-    }
-  };
+  const fetchTestRunsForSuite = (suiteId: number, limit: number, offset: number) =>
+    fetchQuery(queryKeys.testRunsForSuite(suiteId, limit, offset), () =>
+      getTestRunsForSuite(suiteId, limit, offset)
+    );
 
   const fetchTestRuns = async () => {
     try {
-      setIsLoading(true);
+      // Keep the current runs on screen while the next page or filter loads
+      if (testRuns.length === 0) {
+        setIsLoading(true);
+      }
       
       // Calculate offset for pagination
       const offset = (currentPage - 1) * runsPerPage;
@@ -138,7 +150,10 @@ export const TestRunsPage: React.FC = () => {
       // Otherwise, get runs for all suites (with limit per suite, then paginate client-side)
       let allRuns: TestRunResponse[] = [];
       
-      if (selectedSuite !== "all") {
+      // A tag selects every suite carrying it, fetched the same way as "all suites"
+      const selectedTag = getSelectorTag(selectedSuite);
+
+      if (selectedSuite !== "all" && !selectedTag) {
         const suiteId = parseInt(selectedSuite, 10);
         if (isNaN(suiteId)) {
           setTestRuns([]);
@@ -151,7 +166,7 @@ export const TestRunsPage: React.FC = () => {
         const hasFilters = selectedStatus !== "all" || startDate || endDate;
         if (hasFilters) {
           // Fetch a larger batch when filters are active, then filter and paginate client-side
-          const runs = await getTestRunsForSuite(suiteId, 500, 0).catch(err => {
+          const runs = await fetchTestRunsForSuite(suiteId, 500, 0).catch(err => {
             console.error("Error fetching test runs for suite:", err);
             toast({
               title: "Error",
@@ -163,7 +178,7 @@ export const TestRunsPage: React.FC = () => {
           allRuns = runs;
         } else {
           // No filters: use server-side pagination with limit=20 and offset
-          const runs = await getTestRunsForSuite(suiteId, runsPerPage, offset).catch(err => {
+          const runs = await fetchTestRunsForSuite(suiteId, runsPerPage, offset).catch(err => {
             console.error("Error fetching test runs for suite:", err);
             toast({
               title: "Error",
@@ -175,16 +190,17 @@ export const TestRunsPage: React.FC = () => {
           allRuns = runs;
         }
       } else {
-        // Get runs for all suites with limit per suite
-        if (suites.length === 0) {
+        // Get runs for all suites (or all tagged suites) with limit per suite
+        const scopedSuites = selectedTag ? suites.filter(suite => suite.tags?.includes(selectedTag)) : suites;
+        if (scopedSuites.length === 0) {
           setTestRuns([]);
           setTotalCount(0);
           setIsLoading(false);
           return;
         }
         // Fetch runsPerPage runs from each suite to get a good sample
-        const runsPromises = suites.map(suite => 
-          getTestRunsForSuite(suite.id, runsPerPage, 0).catch(err => {
+        const runsPromises = scopedSuites.map(suite => 
+          fetchTestRunsForSuite(suite.id, runsPerPage, 0).catch(err => {
             console.error(`Error fetching test runs for suite ${suite.id}:`, err);
             // Don't show toast for each individual error, just log it
             return [];
@@ -207,6 +223,7 @@ export const TestRunsPage: React.FC = () => {
           started_at: run.started_at,
           completed_at: run.completed_at,
           platform: run.platform,
+          resolution: run.matrix_id ? run.resolution : null,
           test_suites: suite ? {
             id: suite.id.toString(),
             name: suite.name,
@@ -246,7 +263,7 @@ export const TestRunsPage: React.FC = () => {
       // Apply client-side pagination only if filters are active or "all suites" is selected
       // Otherwise, server-side pagination is already applied
       const hasFilters = selectedStatus !== "all" || startDate || endDate;
-      const needsClientPagination = selectedSuite === "all" || hasFilters;
+      const needsClientPagination = selectedSuite === "all" || Boolean(selectedTag) || hasFilters;
       const paginatedRuns = needsClientPagination 
         ? filteredRuns.slice(offset, offset + runsPerPage)
         : filteredRuns;
@@ -373,11 +390,32 @@ export const TestRunsPage: React.FC = () => {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All Suites</SelectItem>
-                    {suites.map((suite) => (
-                      <SelectItem key={suite.id} value={suite.id.toString()}>
-                        {suite.name}
-                      </SelectItem>
-                    ))}
+                    {suiteTags.length > 0 ? (
+                      <>
+                        <SelectGroup>
+                          <SelectLabel>Suites</SelectLabel>
+                          {suites.map((suite) => (
+                            <SelectItem key={suite.id} value={suite.id.toString()}>
+                              {suite.name}
+                            </SelectItem>
+                          ))}
+                        </SelectGroup>
+                        <SelectGroup>
+                          <SelectLabel>Tags</SelectLabel>
+                          {suiteTags.map((tag) => (
+                            <SelectItem key={tag} value={tagSelectorValue(tag)}>
+                              Tagged "{tag}"
+                            </SelectItem>
+                          ))}
+                        </SelectGroup>
+                      </>
+                    ) : (
+                      suites.map((suite) => (
+                        <SelectItem key={suite.id} value={suite.id.toString()}>
+                          {suite.name}
+                        </SelectItem>
+                      ))
+                    )}
                   </SelectContent>
                 </Select>
               </div>
@@ -445,7 +483,7 @@ export const TestRunsPage: React.FC = () => {
                         "border border-border rounded-lg p-4 hover:bg-accent/50 cursor-pointer transition-colors",
                         run.status === "running" && "bg-orange-50 border-orange-200"
                       )}
-                      onClick={() => navigate(`/test-runs/${run.id}`)}
+                      onClick={() => navigate(toProjectPath(`/test-runs/${run.id}`))}
                     >
                       <div className="flex items-start justify-between gap-4">
                         <div className="flex-1 space-y-2">
@@ -455,6 +493,11 @@ export const TestRunsPage: React.FC = () => {
                             </h3>
                             {getStatusBadge(run.status)}
                             {getPlatformBadge(run.platform)}
+                            {run.resolution && (
+                              <Badge variant="outline" className="font-mono" title="Part of a matrix run">
+                                {resolveViewport(run.resolution, deviceProfiles)?.deviceProfile?.name ?? run.resolution}
+                              </Badge>
+                            )}
                           </div>
                           
                           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
@@ -29,11 +29,24 @@ import {
   Monitor,
   Lock,
   Unlock,
+  Layers,
+  LayoutGrid,
+  Paperclip,
+  GripVertical,
+  FileUp,
+  Sparkles,
 } from "lucide-react";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "../../components/ui/dialog";
-import { Textarea } from "../../components/ui/textarea";
 import { Input } from "../../components/ui/input";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "../../components/ui/tooltip";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../components/ui/select";
+import { SuiteEnvironmentsDialog } from "../../components/SuiteEnvironmentsDialog";
+import { MatrixRunDialog } from "../../components/MatrixRunDialog";
+import { PersistentContextStatus } from "../../components/PersistentContextStatus";
+import { SuiteAttachmentsDialog } from "../../components/SuiteAttachmentsDialog";
+import { ScenarioEditorDialog } from "../../components/ScenarioEditorDialog";
+import { GherkinImportDialog } from "../../components/GherkinImportDialog";
+import { GenerateScenariosDialog } from "../../components/GenerateScenariosDialog";
 import { useAuth } from "../../contexts/AuthContext";
 import { useProject } from "../../contexts/ProjectContext";
 import { useRuntime } from "../../contexts/RuntimeContext";
@@ -41,22 +54,38 @@ import { cn } from "../../lib/utils";
 import {
   getTestSuite,
   getScenarios,
+  getScenario,
   stopLiveSession,
   getTestRun,
   getLatestTestRun,
-  createScenario,
   deleteScenario,
+  reorderScenarios,
   getWebrtcIceServers,
   launchRuntime,
   startAgentInSession,
   stopAgentInSession,
   resetBrowserInSession,
   createTestRun,
+  getSuiteEnvironments,
+  getDeviceProfiles,
+  updateTestSuite,
+  createScenario,
+  ScenarioResponse,
+  SuiteEnvironmentResponse,
   TestRunWithSessionsResponse,
   WebrtcIceServer
 } from "../../lib/api-client";
+import { isAbortError } from "../../lib/api-errors";
 import { useToast } from "../../hooks/use-toast";
-import { normalizeResolution } from "../../lib/resolutions";
+import { useProjectPath } from "../../hooks/use-project-path";
+import { useProjectPermissions } from "../../hooks/use-project-permissions";
+import { useApiQuery } from "../../hooks/use-api-query";
+import { invalidateQueries, queryKeys } from "../../lib/query-cache";
+import { resolveViewport } from "../../lib/resolutions";
+import { getDefaultEnvironment } from "../../lib/suite-environments";
+import { DEFAULT_AGENT_STEPS, moveItem, scenarioToAgentDefinition } from "../../lib/scenario-definition";
+import { mergeIterationResults } from "../../lib/scenario-parameters";
+import { createGherkinScenarios, type GherkinImportPlan } from "../../lib/gherkin";
 
 interface Scenario {
   id: string;
@@ -83,19 +112,29 @@ interface Step {
 export const TestSuiteRunsPage: React.FC = () => {
   const { suiteId } = useParams<{ suiteId: string }>();
   const navigate = useNavigate();
+  const toProjectPath = useProjectPath();
   const { user } = useAuth();
   const { selectedProject } = useProject();
-  const { activeRuntime, setActiveRuntime, clearRuntime, hasRuntimeForOtherSuite } = useRuntime();
+  const { canEdit } = useProjectPermissions();
+  const { activeRuntime, setActiveRuntime, clearRuntime, hasRuntimeForOtherSuite, isRuntimeStopped } = useRuntime();
   const { toast } = useToast();
   const [selectedScenario, setSelectedScenario] = useState<string | null>(null);
   const [selectedStepIndex, setSelectedStepIndex] = useState(0);
-  const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
-  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [isScenarioEditorOpen, setIsScenarioEditorOpen] = useState(false);
+  const [isGherkinImportOpen, setIsGherkinImportOpen] = useState(false);
+  const [isGenerateScenariosOpen, setIsGenerateScenariosOpen] = useState(false);
+  // The scenario open in the editor; null while adding a new one
+  const [editingScenario, setEditingScenario] = useState<ScenarioResponse | null>(null);
   const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
+  const [isEnvironmentsDialogOpen, setIsEnvironmentsDialogOpen] = useState(false);
+  const [isAttachmentsDialogOpen, setIsAttachmentsDialogOpen] = useState(false);
+  const [isMatrixDialogOpen, setIsMatrixDialogOpen] = useState(false);
+  // Empty until picked; runs then target the suite's default environment
+  const [selectedEnvironmentId, setSelectedEnvironmentId] = useState("");
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [deletingScenario, setDeletingScenario] = useState<{ id: string; name: string } | null>(null);
-  const [newScenario, setNewScenario] = useState("");
-  const [editingScenario, setEditingScenario] = useState<{ id: string; name: string } | null>(null);
+  const [draggingScenarioId, setDraggingScenarioId] = useState<string | null>(null);
+  const [dropTargetScenarioId, setDropTargetScenarioId] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
   const [expandedScenarioId, setExpandedScenarioId] = useState<string | undefined>("");
   const [showAllLogs, setShowAllLogs] = useState(false);
@@ -107,10 +146,32 @@ export const TestSuiteRunsPage: React.FC = () => {
     description?: string;
     application_url?: string | null;
     resolution?: string | null;
+    ai_testing_instructions?: string | null;
+    has_preconditions?: boolean;
   } | null>(null);
   const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  // Saved scenario definitions (steps, assertions, ...) by id, for the editor and the list summaries
+  const [scenarioDefinitions, setScenarioDefinitions] = useState<Record<string, ScenarioResponse>>({});
+  const numericSuiteId = suiteId ? parseInt(suiteId, 10) : NaN;
+  const { data: environments = [] } = useApiQuery<SuiteEnvironmentResponse[]>(
+    queryKeys.suiteEnvironments(numericSuiteId),
+    () => getSuiteEnvironments(numericSuiteId),
+    { enabled: !isNaN(numericSuiteId) }
+  );
+  const selectedEnvironment =
+    environments.find((environment) => environment.id.toString() === selectedEnvironmentId) ??
+    getDefaultEnvironment(environments);
+  const { data: deviceProfiles = [] } = useApiQuery(
+    queryKeys.deviceProfiles(selectedProject?.id ?? 0),
+    () => getDeviceProfiles(selectedProject!.id),
+    { enabled: !!selectedProject }
+  );
+  // Where runs start: the picked environment, else the suite's own URL
+  const targetBaseUrl = selectedEnvironment?.base_url || suiteInfo?.application_url || "";
   const [isLoadingData, setIsLoadingData] = useState(true);
   const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Aborted when the route's suite changes so responses for the previous suite are dropped
+  const suiteRequestsRef = useRef<AbortController | null>(null);
   const [currentScreenshotIndex, setCurrentScreenshotIndex] = useState(0);
   const [expandedImage, setExpandedImage] = useState<string | null>(null);
   const [expandedImageError, setExpandedImageError] = useState(false);
@@ -135,6 +196,8 @@ export const TestSuiteRunsPage: React.FC = () => {
   const [agentStatus, setAgentStatus] = useState<"idle" | "running" | "stopped">("idle");
   const [isRuntimeConflictDialogOpen, setIsRuntimeConflictDialogOpen] = useState(false);
   const [isInteractionEnabled, setIsInteractionEnabled] = useState(false);
+  // The agent works through scenarios in list order, so the order is fixed while it runs
+  const canReorderScenarios = canEdit && agentStatus !== "running" && scenarios.length > 1;
 
   const streamVideoRef = useRef<HTMLVideoElement | null>(null);
   const streamPcRef = useRef<RTCPeerConnection | null>(null);
@@ -151,8 +214,8 @@ export const TestSuiteRunsPage: React.FC = () => {
   const getImageUrl = (imagePath: string | undefined | null): string | undefined => {
     if (!imagePath) return undefined;
 
-    // If it's already a full URL, return it as-is
-    if (imagePath.startsWith('http://') || imagePath.startsWith('https://')) {
+    // If it's already a full URL (or an inline image from the mock backend), return it as-is
+    if (imagePath.startsWith('http://') || imagePath.startsWith('https://') || imagePath.startsWith('data:')) {
       return imagePath;
     }
 
@@ -195,9 +258,15 @@ export const TestSuiteRunsPage: React.FC = () => {
   );
 
   useEffect(() => {
-    if (suiteId && user) {
-      loadSuiteData();
-    }
+    if (!suiteId || !user) return;
+
+    const controller = new AbortController();
+    suiteRequestsRef.current = controller;
+    loadSuiteData(controller.signal);
+
+    return () => {
+      controller.abort();
+    };
   }, [suiteId, user]);
 
   useEffect(() => {
@@ -233,6 +302,11 @@ export const TestSuiteRunsPage: React.FC = () => {
     }
   }, [suiteId]);
 
+  // A picked environment belongs to the previous suite
+  useEffect(() => {
+    setSelectedEnvironmentId("");
+  }, [suiteId]);
+
   // Restore runtime state if user navigates back to a suite with an active runtime
   useEffect(() => {
     if (activeRuntime && suiteId && activeRuntime.suiteId === suiteId) {
@@ -255,6 +329,15 @@ export const TestSuiteRunsPage: React.FC = () => {
     }
   }, [activeRuntime, suiteId]);
 
+  // Drop the stream when the runtime shown here is stopped or replaced, e.g. from another tab
+  useEffect(() => {
+    if (!isRuntimeOnly || !currentPodInstanceId) return;
+    if (activeRuntime?.podInstanceId === currentPodInstanceId) return;
+    setWebStreamUrl(null);
+    setAndroidStreamUrl(null);
+    setStreamState("idle");
+  }, [activeRuntime, currentPodInstanceId, isRuntimeOnly]);
+
   useEffect(() => {
     streamRetryRef.current = 0;
     streamIceServersRef.current = null;
@@ -663,7 +746,7 @@ export const TestSuiteRunsPage: React.FC = () => {
   }, [androidStreamUrl, selectedPlatform]);
 
 
-  const loadSuiteData = async () => {
+  const loadSuiteData = async (signal?: AbortSignal) => {
     try {
       setIsLoadingData(true);
 
@@ -677,22 +760,28 @@ export const TestSuiteRunsPage: React.FC = () => {
 
       // Load suite, scenarios, and latest test run in parallel
       const [suiteData, scenariosData, latestTestRunResponse] = await Promise.all([
-        getTestSuite(suiteIdNum),
-        getScenarios(suiteIdNum),
-        getLatestTestRun(suiteIdNum).catch(() => null), // Don't fail if no test run exists
+        getTestSuite(suiteIdNum, { signal }),
+        getScenarios(suiteIdNum, { signal }),
+        getLatestTestRun(suiteIdNum, { signal }).catch(() => null), // Don't fail if no test run exists
       ]);
+      // Not every data source honours the signal, so check before touching state
+      if (signal?.aborted) return;
 
+      setScenarioDefinitions(Object.fromEntries(scenariosData.map(scenario => [scenario.id.toString(), scenario])));
       setSuiteInfo({
         name: suiteData.name,
         description: suiteData.description || undefined,
         application_url: suiteData.application_url || undefined,
         resolution: suiteData.resolution || undefined,
+        ai_testing_instructions: suiteData.ai_testing_instructions,
+        has_preconditions: suiteData.preconditions_enabled && !!suiteData.preconditions,
       });
 
       // If there's a latest test run, load its full details and map to scenarios
       if (latestTestRunResponse) {
         try {
-          const fullTestRun = await getTestRun(latestTestRunResponse.id);
+          const fullTestRun = await getTestRun(latestTestRunResponse.id, { signal });
+          if (signal?.aborted) return;
 
           // Set platform if available in test run
           if (fullTestRun.platform) {
@@ -725,7 +814,12 @@ export const TestSuiteRunsPage: React.FC = () => {
               steps: [],
             }));
 
-          setScenarios([...mergedScenarios, ...scenariosWithoutRun]);
+          // Keep the suite's scenario order, not the order of the last run
+          const suiteOrder = scenariosData.map(s => s.id.toString());
+          const orderIndex = (id: string) => (suiteOrder.includes(id) ? suiteOrder.indexOf(id) : suiteOrder.length);
+          setScenarios(
+            [...mergedScenarios, ...scenariosWithoutRun].sort((a, b) => orderIndex(a.id) - orderIndex(b.id))
+          );
 
           // Auto-select first scenario if available
           if (mergedScenarios.length > 0) {
@@ -735,6 +829,7 @@ export const TestSuiteRunsPage: React.FC = () => {
             setSelectedStepIndex(0);
           }
         } catch (error) {
+          if (isAbortError(error) || signal?.aborted) return;
           console.error("Error loading latest test run details:", error);
           // Fall back to showing scenarios without test run data
           const transformedScenarios: Scenario[] = scenariosData.map(scenario => ({
@@ -758,6 +853,8 @@ export const TestSuiteRunsPage: React.FC = () => {
         setScenarios(transformedScenarios);
       }
     } catch (error) {
+      // The suite changed while loading; the new suite's loader owns the state now
+      if (isAbortError(error) || signal?.aborted) return;
       console.error("Error loading suite data:", error);
       toast({
         title: "Error",
@@ -765,83 +862,168 @@ export const TestSuiteRunsPage: React.FC = () => {
         variant: "destructive",
       });
     } finally {
-      setIsLoadingData(false);
+      if (!signal?.aborted) {
+        setIsLoadingData(false);
+      }
     }
   };
 
 
-  const handleAddScenario = async () => {
-    if (!newScenario.trim() || !suiteId) return;
-
-    const suiteIdNum = parseInt(suiteId, 10);
-    if (isNaN(suiteIdNum)) {
-      toast({
-        title: "Error",
-        description: "Invalid test suite ID",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    try {
-      if (!selectedProject) {
+  const openScenarioEditor = async (scenarioId: string | null) => {
+    if (scenarioId && !scenarioDefinitions[scenarioId]) {
+      try {
+        const scenario = await getScenario(parseInt(scenarioId, 10));
+        setScenarioDefinitions(prev => ({ ...prev, [scenarioId]: scenario }));
+        setEditingScenario(scenario);
+      } catch (error) {
+        console.error("Error loading scenario:", error);
         toast({
           title: "Error",
-          description: "Project is missing",
+          description: error instanceof Error ? error.message : "Failed to load scenario",
           variant: "destructive",
         });
         return;
       }
+    } else {
+      setEditingScenario(scenarioId ? scenarioDefinitions[scenarioId] : null);
+    }
+    setIsScenarioEditorOpen(true);
+  };
 
-      const createdScenario = await createScenario({
-        test_suite_id: suiteIdNum,
-        name: newScenario.trim(),
-        description: null,
+  const handleScenarioSaved = (saved: ScenarioResponse) => {
+    const id = saved.id.toString();
+    setScenarioDefinitions(prev => ({ ...prev, [id]: saved }));
+
+    // A changed scenario needs a new run before its old result means anything
+    if (scenarios.some(s => s.id === id)) {
+      setScenarios(scenarios.map(s =>
+        s.id === id
+          ? { ...s, name: saved.name, status: "pending", hasRun: false, steps: [] }
+          : s
+      ));
+      return;
+    }
+
+    setScenarios([...scenarios, { id, name: saved.name, status: "pending", hasRun: false, steps: [] }]);
+    setSelectedScenario(id);
+    setExpandedScenarioId(`scenario-${id}`);
+    setSelectedStepIndex(0);
+    setCurrentScreenshotIndex(0);
+  };
+
+  // A Background saved as preconditions goes first so a failure there leaves the suite untouched
+  const handleGherkinImport = async (plan: GherkinImportPlan) => {
+    if (isNaN(numericSuiteId)) return;
+
+    if (plan.preconditions) {
+      await updateTestSuite(numericSuiteId, {
+        preconditions_enabled: true,
+        preconditions: { block_id: null, ...plan.preconditions },
       });
+      setSuiteInfo(prev => prev && { ...prev, has_preconditions: true });
+    }
 
-      const scenariosData = await getScenarios(suiteIdNum);
-      const transformedScenarios: Scenario[] = scenariosData.map(scenario => ({
+    const { created, failed } = await createGherkinScenarios(numericSuiteId, plan.scenarios);
+    if (created.length === 0) {
+      throw new Error("None of the scenarios could be created");
+    }
+    setScenarioDefinitions(prev => ({
+      ...prev,
+      ...Object.fromEntries(created.map(scenario => [scenario.id.toString(), scenario])),
+    }));
+    setScenarios(prev => [
+      ...prev,
+      ...created.map((scenario): Scenario => ({
         id: scenario.id.toString(),
         name: scenario.name,
-        status: "pending" as const,
+        status: "pending",
         hasRun: false,
         steps: [],
-      }));
+      })),
+    ]);
+
+    toast(
+      failed > 0
+        ? {
+            title: "Imported with problems",
+            description: `${failed} of ${plan.scenarios.length} scenarios could not be created`,
+            variant: "destructive",
+          }
+        : {
+            title: "Success",
+            description: `Imported ${created.length} scenario${created.length === 1 ? "" : "s"}${
+              plan.preconditions ? " and the suite's preconditions" : ""
+            }`,
+          }
+    );
+  };
 
-      setScenarios(transformedScenarios);
-      setNewScenario("");
-      setIsAddDialogOpen(false);
-      setSelectedScenario(createdScenario.id.toString());
-      setExpandedScenarioId(`scenario-${createdScenario.id}`);
-      setSelectedStepIndex(0);
-      setCurrentScreenshotIndex(0);
+  const handleGeneratedScenarios = async (generated: Array<{ name: string; description: string }>) => {
+    if (isNaN(numericSuiteId)) return;
+
+    const results = await Promise.allSettled(
+      generated.map(scenario =>
+        createScenario({ name: scenario.name, description: scenario.description, test_suite_id: numericSuiteId })
+      )
+    );
+    const created = results.flatMap(result => (result.status === "fulfilled" ? [result.value] : []));
+    const failed = results.length - created.length;
+
+    setScenarioDefinitions(prev => ({
+      ...prev,
+      ...Object.fromEntries(created.map(scenario => [scenario.id.toString(), scenario])),
+    }));
+    setScenarios(prev => [
+      ...prev,
+      ...created.map((scenario): Scenario => ({
+        id: scenario.id.toString(),
+        name: scenario.name,
+        status: "pending",
+        hasRun: false,
+        steps: [],
+      })),
+    ]);
+
+    toast(
+      failed > 0
+        ? {
+            title: created.length > 0 ? "Added with problems" : "Error",
+            description: `${failed} of ${generated.length} scenarios could not be created`,
+            variant: "destructive",
+          }
+        : {
+            title: "Success",
+            description: `Added ${created.length} scenario${created.length === 1 ? "" : "s"}`,
+          }
+    );
+  };
 
-      toast({
-        title: "Scenario saved",
-        description: "Scenario has been added to the test suite.",
-      });
+  const handleDropScenario = async (targetId: string) => {
+    const sourceId = draggingScenarioId;
+    setDraggingScenarioId(null);
+    setDropTargetScenarioId(null);
+    if (!sourceId || sourceId === targetId || isNaN(numericSuiteId)) return;
+
+    const previous = scenarios;
+    const reordered = moveItem(
+      scenarios,
+      scenarios.findIndex(s => s.id === sourceId),
+      scenarios.findIndex(s => s.id === targetId)
+    );
+    setScenarios(reordered);
+    try {
+      await reorderScenarios(numericSuiteId, reordered.map(s => Number(s.id)));
     } catch (error) {
-      console.error("Error adding scenario:", error);
+      console.error("Error reordering scenarios:", error);
+      setScenarios(previous);
       toast({
         title: "Error",
-        description: error instanceof Error ? error.message : "Failed to save scenario",
+        description: error instanceof Error ? error.message : "Failed to reorder scenarios",
         variant: "destructive",
       });
     }
   };
 
-
-  const handleEditScenario = () => {
-    if (!editingScenario || !editingScenario.name.trim()) return;
-    setScenarios(scenarios.map(s =>
-      s.id === editingScenario.id
-        ? { ...s, name: editingScenario.name, status: "pending", hasRun: false }
-        : s
-    ));
-    setIsEditDialogOpen(false);
-    setEditingScenario(null);
-  };
-
   const handleDeleteScenario = async () => {
     if (!deletingScenario || !suiteId) return;
 
@@ -901,7 +1083,8 @@ export const TestSuiteRunsPage: React.FC = () => {
 
     // If scenarios are directly in the response
     if (testRun.scenarios && testRun.scenarios.length > 0) {
-      testRun.scenarios.forEach((apiScenario) => {
+      // Data-driven scenarios come back once per row; this view lists each scenario once
+      mergeIterationResults(testRun.scenarios).forEach((apiScenario) => {
         const allSteps = apiScenario.steps || [];
         const steps: Step[] = allSteps.map((apiStep, stepIndex) => {
           // Determine step status - map API status values to UI statuses
@@ -1311,8 +1494,9 @@ export const TestSuiteRunsPage: React.FC = () => {
 
   // Poll test run status
   const pollTestRun = async (testRunId: number) => {
+    const signal = suiteRequestsRef.current?.signal;
     try {
-      const testRun = await getTestRun(testRunId);
+      const testRun = await getTestRun(testRunId, { signal });
       const isTestRunActive = testRun.status !== "completed" && testRun.status !== "failed";
       const mappedScenarios = mapTestRunToScenarios(testRun, isTestRunActive);
 
@@ -1374,7 +1558,7 @@ export const TestSuiteRunsPage: React.FC = () => {
         // Do one final poll after a short delay to ensure all data is available
         setTimeout(async () => {
           try {
-            const finalTestRun = await getTestRun(testRunId);
+            const finalTestRun = await getTestRun(testRunId, { signal });
             const finalMappedScenarios = mapTestRunToScenarios(finalTestRun, false);
 
             // Update with final complete data
@@ -1393,6 +1577,7 @@ export const TestSuiteRunsPage: React.FC = () => {
               return [...finalScenarios, ...additional];
             });
           } catch (error) {
+            if (isAbortError(error)) return;
             console.error("Error fetching final test run data:", error);
             // Fall back to current data if final poll fails
           }
@@ -1404,6 +1589,8 @@ export const TestSuiteRunsPage: React.FC = () => {
 
         setLastRunStats({ passed: passedCount, failed: failedCount, total: totalCount });
         setShowCompletionBanner(true);
+        // The finished run may have saved a new browser context
+        invalidateQueries(queryKeys.testSuite(numericSuiteId));
 
         // Immediate update with current data
         setScenarios(prevScenarios => {
@@ -1422,6 +1609,7 @@ export const TestSuiteRunsPage: React.FC = () => {
         });
       }
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error("Error polling test run:", error);
 
       // If we get a 404 or the test run doesn't exist, stop polling
@@ -1454,7 +1642,10 @@ export const TestSuiteRunsPage: React.FC = () => {
 
     setIsStoppingSession(true);
     try {
-      await stopLiveSession(currentPodInstanceId, currentTestRunId ?? undefined);
+      // A runtime replaced since it was shown here is already stopped
+      if (!isRuntimeStopped(currentPodInstanceId)) {
+        await stopLiveSession(currentPodInstanceId, currentTestRunId ?? undefined);
+      }
 
       // Clear streams
       setWebStreamUrl(null);
@@ -1539,11 +1730,12 @@ export const TestSuiteRunsPage: React.FC = () => {
     setShowCompletionBanner(false);
 
     try {
-      const suiteResolution = normalizeResolution(suiteInfo?.resolution);
+      const viewport = resolveViewport(suiteInfo?.resolution, deviceProfiles);
       const response = await launchRuntime({
         platform: selectedPlatform === "android" ? "android" : "web",
         ttl_seconds: 600, // 10 minute TTL for manual sessions
-        resolution: suiteResolution || undefined,
+        resolution: viewport ? `${viewport.width}x${viewport.height}` : undefined,
+        device_profile_id: viewport?.deviceProfile?.id,
         client_interaction: "enabled", // Enable interaction for manual testing
       });
 
@@ -1640,23 +1832,30 @@ export const TestSuiteRunsPage: React.FC = () => {
         test_suite_id: suiteIdNum,
         run_type: "batch",
         total_scenarios: scenarios.length,
+        environment_id: selectedEnvironment?.id ?? null,
       });
 
       setCurrentTestRunId(testRun.id);
 
-      // Build run request with all scenarios
+      // Build run request with all scenarios and their structured definitions
       const scenarioNames = scenarios.map(s => s.name);
       const scenarioIds = scenarios.map(s => Number(s.id));
-      const baseUrl = suiteInfo?.application_url || "";
-
+      const scenarioDefinitionList = scenarios.map(s =>
+        scenarioDefinitions[s.id]
+          ? scenarioToAgentDefinition(scenarioDefinitions[s.id])
+          : { id: Number(s.id), name: s.name, description: null, steps: [], assertions: [], start_url: null, max_steps: null, data_table: null }
+      );
+      const needsDefaultBudget = scenarioDefinitionList.some(definition => definition.max_steps === null);
       const runRequest = {
         environment: selectedPlatform === "android" ? "android" : "web",
         inputs: {
           scenarios: scenarioNames,
           scenario_ids: scenarioIds,
+          scenario_definitions: scenarioDefinitionList,
           test_run_id: testRun.id,
-          base_url: baseUrl,
-          max_steps: 8,
+          base_url: targetBaseUrl,
+          environment_id: selectedEnvironment?.id,
+          ...(needsDefaultBudget ? { max_steps: DEFAULT_AGENT_STEPS } : {}),
         },
       };
 
@@ -1687,7 +1886,9 @@ export const TestSuiteRunsPage: React.FC = () => {
 
       toast({
         title: "Agent started",
-        description: "Executing test scenarios...",
+        description: selectedEnvironment
+          ? `Executing test scenarios against ${selectedEnvironment.name}...`
+          : "Executing test scenarios...",
       });
     } catch (error) {
       console.error("[TestSuiteRunsPage] Error starting agent:", error);
@@ -1767,7 +1968,7 @@ export const TestSuiteRunsPage: React.FC = () => {
     setIsResettingBrowser(true);
 
     try {
-      const baseUrl = suiteInfo?.application_url || undefined;
+      const baseUrl = targetBaseUrl || undefined;
       await resetBrowserInSession(currentPodInstanceId, { url: baseUrl }, selectedPlatform);
 
       // Reset scenarios to pending state for fresh run
@@ -1816,7 +2017,10 @@ export const TestSuiteRunsPage: React.FC = () => {
 
     setIsStoppingSession(true);
     try {
-      await stopLiveSession(currentPodInstanceId, currentTestRunId ?? undefined);
+      // A runtime replaced since it was shown here is already stopped
+      if (!isRuntimeStopped(currentPodInstanceId)) {
+        await stopLiveSession(currentPodInstanceId, currentTestRunId ?? undefined);
+      }
 
       // Clear all state
       setWebStreamUrl(null);
@@ -1892,7 +2096,7 @@ export const TestSuiteRunsPage: React.FC = () => {
       ) : !suiteInfo ? (
         <div className="text-center py-12">
           <p className="text-muted-foreground mb-4">Test suite not found</p>
-          <Button onClick={() => navigate("/test-suites")} variant="outline">
+          <Button onClick={() => navigate(toProjectPath("/test-suites"))} variant="outline">
             Back to Test Suites
           </Button>
         </div>
@@ -1901,32 +2105,87 @@ export const TestSuiteRunsPage: React.FC = () => {
           {/* Header */}
           <div className="flex items-center justify-between mt-4">
             <div className="flex items-center gap-3">
-              <Button variant="ghost" size="sm" onClick={() => navigate("/test-suites")} className="text-muted-foreground hover:text-foreground">
+              <Button variant="ghost" size="sm" onClick={() => navigate(toProjectPath("/test-suites"))} className="text-muted-foreground hover:text-foreground">
                 <ArrowLeft className="h-4 w-4 mr-2" />
                 Back
               </Button>
               <div className="flex flex-col">
                 <h2 className="text-2xl font-bold">{suiteInfo.name}</h2>
-                {suiteInfo.application_url && (
+                {targetBaseUrl && (
                   <a
-                    href={suiteInfo.application_url}
+                    href={targetBaseUrl}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="text-sm text-muted-foreground hover:text-foreground mt-1 flex items-center gap-1"
                   >
                     <ExternalLink className="h-3 w-3" />
-                    {suiteInfo.application_url}
+                    {targetBaseUrl}
                   </a>
                 )}
+                <PersistentContextStatus testSuiteId={numericSuiteId} canEdit={canEdit} />
               </div>
             </div>
             <div className="flex gap-3">
+              {environments.length > 0 && (
+                <Select
+                  value={selectedEnvironment?.id.toString() ?? ""}
+                  onValueChange={setSelectedEnvironmentId}
+                  disabled={agentStatus === "running"}
+                >
+                  <SelectTrigger className="h-9 w-[180px] rounded-lg" title="Environment to run against">
+                    <SelectValue placeholder="Environment" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {environments.map((environment) => (
+                      <SelectItem key={environment.id} value={environment.id.toString()}>
+                        {environment.name}
+                        {environment.is_default && " (default)"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {canEdit && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsEnvironmentsDialogOpen(true)}
+                  className="rounded-lg"
+                  title="Manage environments"
+                >
+                  <Layers className="h-4 w-4 mr-2" />
+                  Environments
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsAttachmentsDialogOpen(true)}
+                className="rounded-lg"
+                title="Files that give scenario generation context"
+              >
+                <Paperclip className="h-4 w-4 mr-2" />
+                Attachments
+              </Button>
+              {canEdit && selectedPlatform === "web" && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsMatrixDialogOpen(true)}
+                  disabled={scenarios.length === 0}
+                  className="rounded-lg"
+                  title="Run the suite at several viewports"
+                >
+                  <LayoutGrid className="h-4 w-4 mr-2" />
+                  Matrix Run
+                </Button>
+              )}
               <Button variant="outline" size="sm" onClick={() => setIsShareDialogOpen(true)} className="rounded-lg">
                 <Share2 className="h-4 w-4 mr-2" />
                 Share
               </Button>
-              {/* Runtime/Agent Controls */}
-              {!currentPodInstanceId ? (
+              {/* Runtime/Agent Controls (not for viewers) */}
+              {!canEdit ? null : !currentPodInstanceId ? (
                 <Button
                   size="sm"
                   onClick={() => handleLaunchRuntime()}
@@ -2052,7 +2311,7 @@ export const TestSuiteRunsPage: React.FC = () => {
                   <Button
                     variant="default"
                     size="sm"
-                    onClick={() => navigate('/test-runs')}
+                    onClick={() => navigate(toProjectPath('/test-runs'))}
                   >
                     View Test Runs
                     <ExternalLink className="h-4 w-4 ml-2" />
@@ -2074,13 +2333,45 @@ export const TestSuiteRunsPage: React.FC = () => {
                 onValueChange={setExpandedScenarioId}
               >
                 {scenarios.map((scenario) => {
+                  const definition = scenarioDefinitions[scenario.id];
+                  const stepCount = definition?.steps?.length ?? 0;
+                  const assertionCount = definition?.assertions?.length ?? 0;
+                  const rowCount = definition?.data_table?.rows.length ?? 0;
                   return (
                     <AccordionItem
                       key={scenario.id}
                       value={`scenario-${scenario.id}`}
-                      className="!border rounded-lg overflow-hidden"
+                      className={cn(
+                        "!border rounded-lg overflow-hidden",
+                        draggingScenarioId === scenario.id && "opacity-50",
+                        dropTargetScenarioId === scenario.id && draggingScenarioId !== scenario.id && "!border-primary"
+                      )}
+                      draggable={canReorderScenarios}
+                      onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = "move";
+                        setDraggingScenarioId(scenario.id);
+                      }}
+                      onDragOver={(e) => {
+                        if (!draggingScenarioId) return;
+                        e.preventDefault();
+                        setDropTargetScenarioId(scenario.id);
+                      }}
+                      onDrop={(e) => {
+                        e.preventDefault();
+                        handleDropScenario(scenario.id);
+                      }}
+                      onDragEnd={() => {
+                        setDraggingScenarioId(null);
+                        setDropTargetScenarioId(null);
+                      }}
                     >
                       <div className="flex items-center gap-2">
+                        {canReorderScenarios && (
+                          <GripVertical
+                            className="ml-2 -mr-2 h-4 w-4 flex-shrink-0 cursor-grab text-muted-foreground"
+                            aria-label="Drag to reorder"
+                          />
+                        )}
                         <AccordionTrigger
                           className="px-4 hover:no-underline flex-1"
                           onClick={() => {
@@ -2096,51 +2387,61 @@ export const TestSuiteRunsPage: React.FC = () => {
                             </div>
                             <div className="flex-1 min-w-0">
                               <span className="text-sm font-medium break-words block">{scenario.name}</span>
+                              {(stepCount > 0 || assertionCount > 0 || rowCount > 0) && (
+                                <span className="text-xs text-muted-foreground font-normal">
+                                  {stepCount} step{stepCount === 1 ? "" : "s"} · {assertionCount} assertion{assertionCount === 1 ? "" : "s"}
+                                  {definition?.max_steps ? ` · max ${definition.max_steps} agent steps` : ""}
+                                  {rowCount > 0 ? ` · runs once per row (${rowCount})` : ""}
+                                </span>
+                              )}
                             </div>
                           </div>
                         </AccordionTrigger>
                         <div className="flex items-center gap-2 pr-4">
-                          <TooltipProvider>
-                            <Tooltip>
-                              <TooltipTrigger asChild>
-                                <Button
-                                  size="sm"
-                                  variant="ghost"
-                                  className="h-7 w-7 p-0"
-                                  onClick={() => {
-                                    setEditingScenario({ id: scenario.id, name: scenario.name });
-                                    setIsEditDialogOpen(true);
-                                  }}
-                                >
-                                  <Pencil className="h-3 w-3" />
-                                </Button>
-                              </TooltipTrigger>
-                              <TooltipContent>
-                                <p>Edit Scenario</p>
-                              </TooltipContent>
-                            </Tooltip>
-                          </TooltipProvider>
-
-                          <TooltipProvider>
-                            <Tooltip>
-                              <TooltipTrigger asChild>
-                                <Button
-                                  size="sm"
-                                  variant="ghost"
-                                  className="h-7 w-7 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
-                                  onClick={() => {
-                                    setDeletingScenario({ id: scenario.id, name: scenario.name });
-                                    setIsDeleteDialogOpen(true);
-                                  }}
-                                >
-                                  <Trash2 className="h-3 w-3" />
-                                </Button>
-                              </TooltipTrigger>
-                              <TooltipContent>
-                                <p>Delete Scenario</p>
-                              </TooltipContent>
-                            </Tooltip>
-                          </TooltipProvider>
+                          {canEdit && (
+                            <TooltipProvider>
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    className="h-7 w-7 p-0"
+                                    onClick={() => {
+                                      openScenarioEditor(scenario.id);
+                                    }}
+                                  >
+                                    <Pencil className="h-3 w-3" />
+                                  </Button>
+                                </TooltipTrigger>
+                                <TooltipContent>
+                                  <p>Edit Scenario</p>
+                                </TooltipContent>
+                              </Tooltip>
+                            </TooltipProvider>
+                          )}
+
+                          {canEdit && (
+                            <TooltipProvider>
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    className="h-7 w-7 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                                    onClick={() => {
+                                      setDeletingScenario({ id: scenario.id, name: scenario.name });
+                                      setIsDeleteDialogOpen(true);
+                                    }}
+                                  >
+                                    <Trash2 className="h-3 w-3" />
+                                  </Button>
+                                </TooltipTrigger>
+                                <TooltipContent>
+                                  <p>Delete Scenario</p>
+                                </TooltipContent>
+                              </Tooltip>
+                            </TooltipProvider>
+                          )}
 
                           {scenario.status === 'failed' && (
                             <TooltipProvider>
@@ -2216,13 +2517,37 @@ export const TestSuiteRunsPage: React.FC = () => {
                 })}
               </Accordion>
 
-              <Button
-                variant="outline"
-                className="w-full"
-                onClick={() => setIsAddDialogOpen(true)}
-              >
-                Add Test Scenarios
-              </Button>
+              {canEdit && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => openScenarioEditor(null)}
+                >
+                  Add Test Scenarios
+                </Button>
+              )}
+              {canEdit && (
+                <Button
+                  variant="ghost"
+                  className="w-full text-muted-foreground"
+                  onClick={() => setIsGherkinImportOpen(true)}
+                  disabled={agentStatus === "running"}
+                >
+                  <FileUp className="h-4 w-4 mr-2" />
+                  Import from Gherkin
+                </Button>
+              )}
+              {canEdit && (
+                <Button
+                  variant="ghost"
+                  className="w-full text-muted-foreground"
+                  onClick={() => setIsGenerateScenariosOpen(true)}
+                  disabled={agentStatus === "running"}
+                >
+                  <Sparkles className="h-4 w-4 mr-2" />
+                  Generate with AI
+                </Button>
+              )}
             </div>
 
             {/* Right Column - Details */}
@@ -2269,7 +2594,7 @@ export const TestSuiteRunsPage: React.FC = () => {
                 </CardHeader>
 
                 {/* Runtime Controls - Show when runtime is active */}
-                {currentPodInstanceId && isRuntimeOnly && (
+                {canEdit && currentPodInstanceId && isRuntimeOnly && (
                   <div className="px-6 pb-3">
                     <div className="flex flex-wrap items-center gap-2">
                       {/* Start/Stop Agent Button */}
@@ -2341,7 +2666,7 @@ export const TestSuiteRunsPage: React.FC = () => {
                 )}
 
                 {/* Legacy Stop Button - Show for non-decoupled mode */}
-                {currentPodInstanceId && !isRuntimeOnly && (
+                {canEdit && currentPodInstanceId && !isRuntimeOnly && (
                   <div className="px-6 pb-3">
                     <Button
                       size="sm"
@@ -2468,24 +2793,26 @@ export const TestSuiteRunsPage: React.FC = () => {
                   ) : (
                     <div className="h-[220px] flex flex-col items-center justify-center text-muted-foreground gap-4">
                       <p>No active runtime session.</p>
-                      <div className="flex items-center gap-2">
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          onClick={() => handleLaunchRuntime()}
-                          disabled={isLaunchingRuntime || selectedPlatform === "ios"}
-                          className="h-8"
-                        >
-                          {isLaunchingRuntime ? (
-                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                          ) : (
-                            <Monitor className="h-4 w-4 mr-2" />
-                          )}
-                          Start Runtime Only
-                        </Button>
-                        <span className="text-xs text-muted-foreground">or</span>
-                        <span className="text-xs">Run a scenario above</span>
-                      </div>
+                      {canEdit && (
+                        <div className="flex items-center gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleLaunchRuntime()}
+                            disabled={isLaunchingRuntime || selectedPlatform === "ios"}
+                            className="h-8"
+                          >
+                            {isLaunchingRuntime ? (
+                              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            ) : (
+                              <Monitor className="h-4 w-4 mr-2" />
+                            )}
+                            Start Runtime Only
+                          </Button>
+                          <span className="text-xs text-muted-foreground">or</span>
+                          <span className="text-xs">Run a scenario above</span>
+                        </div>
+                      )}
                     </div>
                   )}
                 </CardContent>
@@ -2883,69 +3210,38 @@ export const TestSuiteRunsPage: React.FC = () => {
             </div>
           </div>
 
-          {/* Add Scenario Dialog */}
-          <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Add New Test Scenario</DialogTitle>
-                <DialogDescription>
-                  Describe the test scenario. We'll save it and start a live run so you can watch it execute.
-                </DialogDescription>
-              </DialogHeader>
-              <Textarea
-                placeholder="e.g., Navigate to checkout page, fill in shipping details, and complete purchase"
-                value={newScenario}
-                onChange={(e) => setNewScenario(e.target.value)}
-                className="min-h-[100px]"
-              />
-              <DialogFooter>
-                <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>
-                  Cancel
-                </Button>
-                <Button
-                  onClick={handleAddScenario}
-                  disabled={!newScenario.trim()}
-                >
-                  Save Scenario
-                </Button>
-              </DialogFooter>
-            </DialogContent>
-          </Dialog>
+          {!isNaN(numericSuiteId) && (
+            <ScenarioEditorDialog
+              open={isScenarioEditorOpen}
+              onOpenChange={setIsScenarioEditorOpen}
+              testSuiteId={numericSuiteId}
+              projectId={selectedProject?.id}
+              scenario={editingScenario}
+              applicationUrl={suiteInfo?.application_url}
+              onSaved={handleScenarioSaved}
+            />
+          )}
 
-          {/* Edit Scenario Dialog */}
-          <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Edit Test Scenario</DialogTitle>
-                <DialogDescription>
-                  Update the scenario description.
-                </DialogDescription>
-              </DialogHeader>
-              <Textarea
-                placeholder="Scenario description..."
-                value={editingScenario?.name || ""}
-                onChange={(e) => setEditingScenario(editingScenario ? { ...editingScenario, name: e.target.value } : null)}
-                className="min-h-[100px]"
-              />
-              <DialogFooter>
-                <Button
-                  variant="outline"
-                  onClick={() => {
-                    setIsEditDialogOpen(false);
-                    setEditingScenario(null);
-                  }}
-                >
-                  Cancel
-                </Button>
-                <Button
-                  onClick={handleEditScenario}
-                  disabled={!editingScenario?.name.trim()}
-                >
-                  Save Scenario
-                </Button>
-              </DialogFooter>
-            </DialogContent>
-          </Dialog>
+          <GherkinImportDialog
+            open={isGherkinImportOpen}
+            onOpenChange={setIsGherkinImportOpen}
+            hasPreconditions={suiteInfo?.has_preconditions}
+            onConfirm={handleGherkinImport}
+          />
+
+          {suiteInfo && (
+            <GenerateScenariosDialog
+              open={isGenerateScenariosOpen}
+              onOpenChange={setIsGenerateScenariosOpen}
+              onApply={handleGeneratedScenarios}
+              suiteName={suiteInfo.name}
+              description={suiteInfo.description ?? ""}
+              url={suiteInfo.application_url}
+              aiInstructions={suiteInfo.ai_testing_instructions}
+              testSuiteId={isNaN(numericSuiteId) ? undefined : numericSuiteId}
+              existingScenarios={scenarios.map(scenario => scenario.name)}
+            />
+          )}
 
           {/* Runtime Conflict Dialog */}
           <Dialog open={isRuntimeConflictDialogOpen} onOpenChange={setIsRuntimeConflictDialogOpen}>
@@ -3006,6 +3302,37 @@ export const TestSuiteRunsPage: React.FC = () => {
             </DialogContent>
           </Dialog>
 
+          {!isNaN(numericSuiteId) && (
+            <SuiteAttachmentsDialog
+              open={isAttachmentsDialogOpen}
+              onOpenChange={setIsAttachmentsDialogOpen}
+              testSuiteId={numericSuiteId}
+              canEdit={canEdit}
+            />
+          )}
+
+          {selectedProject && !isNaN(numericSuiteId) && (
+            <SuiteEnvironmentsDialog
+              open={isEnvironmentsDialogOpen}
+              onOpenChange={setIsEnvironmentsDialogOpen}
+              testSuiteId={numericSuiteId}
+              projectId={selectedProject.id}
+              applicationUrl={suiteInfo.application_url}
+            />
+          )}
+
+          {selectedProject && !isNaN(numericSuiteId) && (
+            <MatrixRunDialog
+              open={isMatrixDialogOpen}
+              onOpenChange={setIsMatrixDialogOpen}
+              projectId={selectedProject.id}
+              testSuiteId={numericSuiteId}
+              suiteResolution={suiteInfo.resolution}
+              environment={selectedEnvironment}
+              onStarted={(matrix) => navigate(toProjectPath(`/test-runs/${matrix.runs[0].test_run_id}`))}
+            />
+          )}
+
           {/* Share Dialog */}
           <Dialog open={isShareDialogOpen} onOpenChange={setIsShareDialogOpen}>
             <DialogContent className="sm:max-w-md">
@@ -1,60 +1,180 @@
-import React, { useEffect, useState, useRef } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "../../components/ui/card";
 import { Button } from "../../components/ui/button";
-import { Plus, Loader2, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import {
+  Plus,
+  Loader2,
+  Trash2,
+  Download,
+  Upload,
+  Copy,
+  Search,
+  Tag,
+  Folder,
+  FolderInput,
+  Bookmark,
+  X,
+  CheckCircle2,
+  XCircle,
+} from "lucide-react";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "../../components/ui/dialog";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "../../components/ui/tooltip";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "../../components/ui/dropdown-menu";
+import { Badge } from "../../components/ui/badge";
+import { Input } from "../../components/ui/input";
+import { Label } from "../../components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../components/ui/select";
+import { ImportSuitesDialog } from "../../components/ImportSuitesDialog";
+import { CloneSuiteDialog } from "../../components/CloneSuiteDialog";
+import { SuiteOrganizeDialog } from "../../components/SuiteOrganizeDialog";
+import { SuiteFolderTree } from "../../components/SuiteFolderTree";
 import { useAuth } from "../../contexts/AuthContext";
 import { useProject } from "../../contexts/ProjectContext";
-import { getTestSuites, deleteTestSuite, TestSuiteResponse } from "../../lib/api-client";
+import { getTestSuites, deleteTestSuite, searchTestSuites, TestSuiteResponse } from "../../lib/api-client";
 import { useToast } from "../../hooks/use-toast";
+import { useProjectPath } from "../../hooks/use-project-path";
+import { projectPath } from "../../lib/project-routes";
+import { useProjectPermissions } from "../../hooks/use-project-permissions";
+import { useApiQuery } from "../../hooks/use-api-query";
+import { useDebouncedValue } from "../../hooks/use-debounced-value";
+import { queryKeys, setQueryData } from "../../lib/query-cache";
+import { triggerDownload } from "../../lib/download";
+import {
+  exportSuiteBundle,
+  getSuiteBundleFileName,
+  serializeSuiteBundle,
+  type SuiteBundleFileFormat,
+} from "../../lib/suite-bundles";
+import {
+  DEFAULT_SUITE_FILTER,
+  SUITE_SORT_OPTIONS,
+  buildFolderTree,
+  collectSuiteTags,
+  isInFolder,
+  loadSavedSuiteFilters,
+  sortSuites,
+  storeSavedSuiteFilters,
+  type SavedSuiteFilter,
+  type SuiteFilter,
+  type SuiteSortKey,
+} from "../../lib/suite-organization";
 
 export const TestSuitesPage: React.FC = () => {
   const navigate = useNavigate();
+  const toProjectPath = useProjectPath();
   const { user } = useAuth();
   const { selectedProject } = useProject();
+  const { canEdit } = useProjectPermissions();
   const { toast } = useToast();
-  const [testSuites, setTestSuites] = useState<TestSuiteResponse[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [deletingSuite, setDeletingSuite] = useState<TestSuiteResponse | null>(null);
-  const isLoadingRef = useRef(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [cloningSuite, setCloningSuite] = useState<TestSuiteResponse | null>(null);
+  // "all" while exporting every suite, otherwise the suite being exported
+  const [exportingKey, setExportingKey] = useState<number | "all" | null>(null);
+  const [organizingSuite, setOrganizingSuite] = useState<TestSuiteResponse | null>(null);
+  const [filter, setFilter] = useState<SuiteFilter>(DEFAULT_SUITE_FILTER);
+  const [savedFilters, setSavedFilters] = useState<SavedSuiteFilter[]>([]);
+  const [isSaveFilterOpen, setIsSaveFilterOpen] = useState(false);
+  const [savedFilterName, setSavedFilterName] = useState("");
+  const projectId = selectedProject?.id;
 
+  // Filters belong to the workspace they were made in
   useEffect(() => {
-    if (user && selectedProject) {
-      // Prevent duplicate calls
-      if (!isLoadingRef.current) {
-        isLoadingRef.current = true;
-        loadTestSuites().finally(() => {
-          isLoadingRef.current = false;
+    setFilter(DEFAULT_SUITE_FILTER);
+    setSavedFilters(projectId !== undefined ? loadSavedSuiteFilters(projectId) : []);
+  }, [projectId]);
+
+  const updateFilter = (updates: Partial<SuiteFilter>) => setFilter((prev) => ({ ...prev, ...updates }));
+
+  const { data: testSuites = [], isLoading } = useApiQuery<TestSuiteResponse[]>(
+    queryKeys.testSuites(selectedProject?.id),
+    () => getTestSuites(selectedProject?.id),
+    {
+      enabled: Boolean(user && selectedProject),
+      onError: (error) => {
+        console.error("Error loading test suites:", error);
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to load test suites",
+          variant: "destructive",
         });
-      }
-    } else if (user && !selectedProject) {
-      setIsLoading(false);
+      },
     }
-  }, [user, selectedProject]);
+  );
 
-  const loadTestSuites = async () => {
-    if (!selectedProject) {
-      setIsLoading(false);
-      return;
-    }
+  // Search runs on the server so it can look inside scenarios; the other filters apply to the loaded list
+  const searchTerm = useDebouncedValue(filter.search.trim());
+  const searchQuery = useApiQuery(
+    queryKeys.testSuiteSearch(projectId ?? 0, searchTerm),
+    () => searchTestSuites(projectId!, searchTerm),
+    { enabled: Boolean(user && projectId !== undefined && searchTerm) }
+  );
+  const isSearching = filter.search.trim() !== searchTerm || (Boolean(searchTerm) && searchQuery.isLoading);
 
-    try {
-      setIsLoading(true);
-      const suites = await getTestSuites(selectedProject.id);
-      setTestSuites(suites);
-    } catch (error) {
-      console.error("Error loading test suites:", error);
-      toast({
-        title: "Error",
-        description: error instanceof Error ? error.message : "Failed to load test suites",
-        variant: "destructive",
+  const allTags = useMemo(() => collectSuiteTags(testSuites), [testSuites]);
+  const folderTree = useMemo(() => buildFolderTree(testSuites), [testSuites]);
+  const folderPaths = useMemo(() => {
+    const paths: string[] = [];
+    const walk = (nodes: typeof folderTree) =>
+      nodes.forEach((node) => {
+        paths.push(node.path);
+        walk(node.children);
       });
-    } finally {
-      setIsLoading(false);
-    }
+    walk(folderTree);
+    return paths;
+  }, [folderTree]);
+
+  const visibleSuites = useMemo(() => {
+    const matchingIds = searchTerm && searchQuery.data ? new Set(searchQuery.data.map((suite) => suite.id)) : null;
+    return sortSuites(
+      testSuites.filter(
+        (suite) =>
+          (!filter.folder || isInFolder(suite.folder, filter.folder)) &&
+          filter.tags.every((tag) => suite.tags?.includes(tag)) &&
+          (!matchingIds || matchingIds.has(suite.id))
+      ),
+      filter.sort
+    );
+  }, [testSuites, filter.folder, filter.tags, filter.sort, searchTerm, searchQuery.data]);
+
+  const hasActiveFilter = Boolean(filter.search.trim() || filter.tags.length > 0 || filter.folder);
+
+  const toggleTagFilter = (tag: string) =>
+    updateFilter({ tags: filter.tags.includes(tag) ? filter.tags.filter((t) => t !== tag) : [...filter.tags, tag] });
+
+  const handleSaveFilter = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (projectId === undefined || !savedFilterName.trim()) return;
+    const next = [
+      ...savedFilters.filter((saved) => saved.name !== savedFilterName.trim()),
+      { id: `${Date.now()}`, name: savedFilterName.trim(), filter },
+    ];
+    setSavedFilters(next);
+    storeSavedSuiteFilters(projectId, next);
+    setIsSaveFilterOpen(false);
+    setSavedFilterName("");
+    toast({
+      title: "Success",
+      description: `Saved filter "${savedFilterName.trim()}"`,
+    });
+  };
+
+  const handleDeleteSavedFilter = (id: string) => {
+    if (projectId === undefined) return;
+    const next = savedFilters.filter((saved) => saved.id !== id);
+    setSavedFilters(next);
+    storeSavedSuiteFilters(projectId, next);
   };
 
   const handleDeleteSuite = async () => {
@@ -62,10 +182,12 @@ export const TestSuitesPage: React.FC = () => {
 
     try {
       await deleteTestSuite(deletingSuite.id);
-      
-      // Reload test suites after deletion
-      await loadTestSuites();
-      
+
+      // Drop the suite right away; the invalidated list refetches in the background
+      setQueryData<TestSuiteResponse[]>(queryKeys.testSuites(selectedProject?.id), (suites = []) =>
+        suites.filter((suite) => suite.id !== deletingSuite.id)
+      );
+
       setIsDeleteDialogOpen(false);
       setDeletingSuite(null);
 
@@ -83,6 +205,40 @@ export const TestSuitesPage: React.FC = () => {
     }
   };
 
+  const handleExport = async (suiteIds: number[], format: SuiteBundleFileFormat, key: number | "all") => {
+    setExportingKey(key);
+    try {
+      const { bundle, attachmentsWithoutData } = await exportSuiteBundle(suiteIds);
+      const mimeType = format === "json" ? "application/json" : "application/yaml";
+      const url = URL.createObjectURL(new Blob([serializeSuiteBundle(bundle, format)], { type: mimeType }));
+      triggerDownload(url, getSuiteBundleFileName(bundle, format));
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+
+      if (attachmentsWithoutData.length > 0) {
+        toast({
+          title: "Exported without some attachments",
+          description: `These files couldn't be downloaded and were exported as names only: ${attachmentsWithoutData.join(", ")}`,
+        });
+      }
+    } catch (error) {
+      console.error("Error exporting test suites:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to export test suites",
+        variant: "destructive",
+      });
+    } finally {
+      setExportingKey(null);
+    }
+  };
+
+  const renderExportItems = (suiteIds: number[], key: number | "all") => (
+    <>
+      <DropdownMenuItem onClick={() => handleExport(suiteIds, "yaml", key)}>Export as YAML</DropdownMenuItem>
+      <DropdownMenuItem onClick={() => handleExport(suiteIds, "json", key)}>Export as JSON</DropdownMenuItem>
+    </>
+  );
+
   if (isLoading) {
     return (
       <div className="space-y-6">
@@ -104,10 +260,37 @@ export const TestSuitesPage: React.FC = () => {
           <h2 className="text-3xl font-bold bg-gradient-to-r from-primary to-primary/60 bg-clip-text text-transparent">Test Suites</h2>
           <p className="text-muted-foreground mt-1">Manage and organize your test scenarios</p>
         </div>
-        <Button onClick={() => navigate("/create-suite")} className="bg-orange-500 hover:bg-orange-600 text-white">
-          <Plus className="h-4 w-4 mr-2" />
-          Create Test Suite
-        </Button>
+        <div className="flex items-center gap-2">
+          {testSuites.length > 0 && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" disabled={exportingKey === "all"}>
+                  {exportingKey === "all" ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Download className="h-4 w-4 mr-2" />
+                  )}
+                  Export All
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {renderExportItems(testSuites.map((suite) => suite.id), "all")}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+          {canEdit && (
+            <Button variant="outline" onClick={() => setIsImportDialogOpen(true)}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+          )}
+          {canEdit && (
+            <Button onClick={() => navigate(toProjectPath("/create-suite"))} className="bg-orange-500 hover:bg-orange-600 text-white">
+              <Plus className="h-4 w-4 mr-2" />
+              Create Test Suite
+            </Button>
+          )}
+        </div>
       </div>
 
       {testSuites.length === 0 ? (
@@ -115,67 +298,355 @@ export const TestSuitesPage: React.FC = () => {
           <CardContent className="pt-6">
             <div className="text-center py-12">
               <p className="text-muted-foreground mb-4">No test suites yet</p>
-              <Button onClick={() => navigate("/create-suite")} className="bg-orange-500 hover:bg-orange-600 text-white">
-                <Plus className="h-4 w-4 mr-2" />
-                Create Your First Test Suite
-              </Button>
+              {canEdit && (
+                <Button onClick={() => navigate(toProjectPath("/create-suite"))} className="bg-orange-500 hover:bg-orange-600 text-white">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Create Your First Test Suite
+                </Button>
+              )}
             </div>
           </CardContent>
         </Card>
       ) : (
-        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-          {testSuites.map((suite) => (
-            <Card 
-              key={suite.id} 
-              className="cursor-pointer hover:shadow-lg transition-shadow relative"
-              onClick={() => navigate(`/suite/${suite.id}/runs`)}
-            >
-              <CardHeader className="pb-3">
-                <div className="flex items-start justify-between">
-                  <div className="flex-1 min-w-0">
-                    <CardTitle className="pr-2">{suite.name}</CardTitle>
-                    {suite.description && (
-                      <p className="text-sm text-muted-foreground mt-1">{suite.description}</p>
-                    )}
-                  </div>
-                  <TooltipProvider>
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <Button
-                          size="sm"
-                          variant="ghost"
-                          className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10 flex-shrink-0"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            setDeletingSuite(suite);
-                            setIsDeleteDialogOpen(true);
-                          }}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </TooltipTrigger>
-                      <TooltipContent>
-                        <p>Delete Test Suite</p>
-                      </TooltipContent>
-                    </Tooltip>
-                  </TooltipProvider>
-                </div>
-              </CardHeader>
-              <CardContent>
-                {suite.application_url && (
-                  <p className="text-xs text-muted-foreground truncate">
-                    {suite.application_url}
-                  </p>
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="relative flex-1 min-w-[220px]">
+              {isSearching ? (
+                <Loader2 className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 animate-spin text-muted-foreground" />
+              ) : (
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              )}
+              <Input
+                placeholder="Search names, descriptions and scenarios"
+                value={filter.search}
+                onChange={(e) => updateFilter({ search: e.target.value })}
+                className="pl-9"
+              />
+            </div>
+            {allTags.length > 0 && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline">
+                    <Tag className="h-4 w-4 mr-2" />
+                    Tags{filter.tags.length > 0 && ` (${filter.tags.length})`}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel>Suites with every checked tag</DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  {allTags.map((tag) => (
+                    <DropdownMenuCheckboxItem
+                      key={tag}
+                      checked={filter.tags.includes(tag)}
+                      onCheckedChange={() => toggleTagFilter(tag)}
+                      onSelect={(e) => e.preventDefault()}
+                    >
+                      {tag}
+                    </DropdownMenuCheckboxItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            <Select value={filter.sort} onValueChange={(value) => updateFilter({ sort: value as SuiteSortKey })}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUITE_SORT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    Sort: {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline">
+                  <Bookmark className="h-4 w-4 mr-2" />
+                  Saved Filters
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-56">
+                {savedFilters.length === 0 ? (
+                  <DropdownMenuLabel className="font-normal text-muted-foreground">No saved filters yet</DropdownMenuLabel>
+                ) : (
+                  savedFilters.map((saved) => (
+                    <DropdownMenuItem key={saved.id} onClick={() => setFilter(saved.filter)} className="justify-between">
+                      <span className="truncate">{saved.name}</span>
+                      <button
+                        type="button"
+                        className="rounded-sm p-0.5 text-muted-foreground hover:text-destructive"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDeleteSavedFilter(saved.id);
+                        }}
+                        aria-label={`Delete saved filter ${saved.name}`}
+                      >
+                        <X className="h-3.5 w-3.5" />
+                      </button>
+                    </DropdownMenuItem>
+                  ))
                 )}
-                <p className="text-xs text-muted-foreground mt-2">
-                  Created {new Date(suite.created_at).toLocaleDateString()}
-                </p>
-              </CardContent>
-            </Card>
-          ))}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={() => setIsSaveFilterOpen(true)}>Save current filter…</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            {hasActiveFilter && (
+              <Button variant="ghost" onClick={() => setFilter({ ...DEFAULT_SUITE_FILTER, sort: filter.sort })}>
+                <X className="h-4 w-4 mr-2" />
+                Clear
+              </Button>
+            )}
+          </div>
+
+          <div className="flex gap-6">
+            {folderTree.length > 0 && (
+              <aside className="hidden w-56 flex-shrink-0 md:block">
+                <SuiteFolderTree
+                  folders={folderTree}
+                  selected={filter.folder}
+                  onSelect={(folder) => updateFilter({ folder })}
+                  totalCount={testSuites.length}
+                />
+              </aside>
+            )}
+            <div className="flex-1 min-w-0">
+              {visibleSuites.length === 0 ? (
+                <Card>
+                  <CardContent className="pt-6">
+                    <div className="text-center py-12">
+                      <p className="text-muted-foreground mb-4">
+                        {isSearching ? "Searching…" : "No test suites match these filters"}
+                      </p>
+                      <Button variant="outline" onClick={() => setFilter({ ...DEFAULT_SUITE_FILTER, sort: filter.sort })}>
+                        Clear Filters
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ) : (
+                <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+                  {visibleSuites.map((suite) => (
+                    <Card 
+                      key={suite.id} 
+                      className="cursor-pointer hover:shadow-lg transition-shadow relative"
+                      onClick={() => navigate(toProjectPath(`/suite/${suite.id}/runs`))}
+                    >
+                      <CardHeader className="pb-3">
+                        <div className="flex items-start justify-between">
+                          <div className="flex-1 min-w-0">
+                            <CardTitle className="pr-2">{suite.name}</CardTitle>
+                            {suite.description && (
+                              <p className="text-sm text-muted-foreground mt-1">{suite.description}</p>
+                            )}
+                          </div>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="h-8 w-8 p-0 flex-shrink-0"
+                                onClick={(e) => e.stopPropagation()}
+                                disabled={exportingKey === suite.id}
+                                title="Export Test Suite"
+                              >
+                                {exportingKey === suite.id ? (
+                                  <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                  <Download className="h-4 w-4" />
+                                )}
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                              {renderExportItems([suite.id], suite.id)}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                          {canEdit && (
+                            <TooltipProvider>
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    className="h-8 w-8 p-0 flex-shrink-0"
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      setOrganizingSuite(suite);
+                                    }}
+                                  >
+                                    <FolderInput className="h-4 w-4" />
+                                  </Button>
+                                </TooltipTrigger>
+                                <TooltipContent>
+                                  <p>Folder &amp; Tags</p>
+                                </TooltipContent>
+                              </Tooltip>
+                            </TooltipProvider>
+                          )}
+                          {canEdit && (
+                            <TooltipProvider>
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    className="h-8 w-8 p-0 flex-shrink-0"
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      setCloningSuite(suite);
+                                    }}
+                                  >
+                                    <Copy className="h-4 w-4" />
+                                  </Button>
+                                </TooltipTrigger>
+                                <TooltipContent>
+                                  <p>Clone Test Suite</p>
+                                </TooltipContent>
+                              </Tooltip>
+                            </TooltipProvider>
+                          )}
+                          {canEdit && (
+                            <TooltipProvider>
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10 flex-shrink-0"
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      setDeletingSuite(suite);
+                                      setIsDeleteDialogOpen(true);
+                                    }}
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </TooltipTrigger>
+                                <TooltipContent>
+                                  <p>Delete Test Suite</p>
+                                </TooltipContent>
+                              </Tooltip>
+                            </TooltipProvider>
+                          )}
+                        </div>
+                      </CardHeader>
+                      <CardContent>
+                        {suite.application_url && (
+                          <p className="text-xs text-muted-foreground truncate">
+                            {suite.application_url}
+                          </p>
+                        )}
+                        {suite.folder && (
+                          <p className="flex items-center gap-1 text-xs text-muted-foreground mt-2">
+                            <Folder className="h-3 w-3" />
+                            {suite.folder}
+                          </p>
+                        )}
+                        {suite.tags && suite.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {suite.tags.map((tag) => (
+                              <Badge
+                                key={tag}
+                                variant={filter.tags.includes(tag) ? "default" : "secondary"}
+                                className="cursor-pointer text-xs"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  toggleTagFilter(tag);
+                                }}
+                              >
+                                {tag}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                        <div className="flex items-center justify-between gap-2 mt-2 text-xs text-muted-foreground">
+                          <span>Created {new Date(suite.created_at).toLocaleDateString()}</span>
+                          {suite.last_run ? (
+                            <span className="flex items-center gap-1" title={`Last run ${new Date(suite.last_run.started_at).toLocaleString()}`}>
+                              {suite.last_run.status === "failed" ? (
+                                <XCircle className="h-3 w-3 text-destructive" />
+                              ) : suite.last_run.status === "running" ? (
+                                <Loader2 className="h-3 w-3 animate-spin text-primary" />
+                              ) : (
+                                <CheckCircle2 className="h-3 w-3 text-green-600" />
+                              )}
+                              {formatDistanceToNow(new Date(suite.last_run.started_at), { addSuffix: true })}
+                            </span>
+                          ) : (
+                            <span>Never run</span>
+                          )}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
         </div>
       )}
 
+      <ImportSuitesDialog
+        open={isImportDialogOpen}
+        onOpenChange={setIsImportDialogOpen}
+        existingSuites={testSuites}
+        onImported={(suites) => {
+          if (suites.length === 1) {
+            navigate(toProjectPath(`/suite/${suites[0].id}/runs`));
+          }
+        }}
+      />
+
+      <CloneSuiteDialog
+        suite={cloningSuite}
+        onOpenChange={(open) => !open && setCloningSuite(null)}
+        onCloned={(clone) => navigate(projectPath(clone.project_id, `/suite/${clone.id}/runs`))}
+      />
+
+      <SuiteOrganizeDialog
+        suite={organizingSuite}
+        onOpenChange={(open) => !open && setOrganizingSuite(null)}
+        existingTags={allTags}
+        existingFolders={folderPaths}
+      />
+
+      <Dialog
+        open={isSaveFilterOpen}
+        onOpenChange={(open) => {
+          setIsSaveFilterOpen(open);
+          if (!open) setSavedFilterName("");
+        }}
+      >
+        <DialogContent>
+          <form onSubmit={handleSaveFilter} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Save Filter</DialogTitle>
+              <DialogDescription>
+                Keep the current search, tags, folder and sort order to reapply later. A filter with the same name is replaced.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="saved-filter-name">Name</Label>
+              <Input
+                id="saved-filter-name"
+                placeholder="Failing checkout suites"
+                value={savedFilterName}
+                onChange={(e) => setSavedFilterName(e.target.value)}
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsSaveFilterOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!savedFilterName.trim()}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <DialogContent>
@@ -1,15 +1,17 @@
 import { useEffect, useMemo, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useLocation, useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { startGoogleOAuth } from "@/lib/google-auth";
 
 type AuthMode = "login" | "register";
 
 export default function AuthPage() {
   const navigate = useNavigate();
+  const location = useLocation();
   const { loginWithPassword, registerWithPassword, isAuthenticated } = useAuth();
   const [mode, setMode] = useState<AuthMode>("login");
   const [email, setEmail] = useState("");
@@ -17,7 +19,11 @@ export default function AuthPage() {
   const [fullName, setFullName] = useState("");
   const [password, setPassword] = useState("");
   const [submitting, setSubmitting] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [isRedirectingToGoogle, setIsRedirectingToGoogle] = useState(false);
+  // A failed Google sign-in comes back here with the reason
+  const [error, setError] = useState<string | null>(
+    (location.state as { error?: string } | null)?.error ?? null
+  );
 
   const title = useMemo(() => (mode === "login" ? "Sign in" : "Create account"), [mode]);
 
@@ -52,6 +58,19 @@ export default function AuthPage() {
     }
   };
 
+  const handleGoogleSignIn = async () => {
+    setIsRedirectingToGoogle(true);
+    setError(null);
+
+    try {
+      const from = (location.state as { from?: string } | null)?.from;
+      await startGoogleOAuth("sign-in", from || "/dashboard");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Google sign-in failed.");
+      setIsRedirectingToGoogle(false);
+    }
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background px-6">
       <Card className="w-full max-w-md">
@@ -122,6 +141,28 @@ export default function AuthPage() {
             </Button>
           </form>
 
+          <div className="my-6 flex items-center gap-3 text-xs uppercase text-muted-foreground">
+            <div className="h-px flex-1 bg-border" />
+            or
+            <div className="h-px flex-1 bg-border" />
+          </div>
+
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full"
+            onClick={handleGoogleSignIn}
+            disabled={submitting || isRedirectingToGoogle}
+          >
+            <svg className="mr-2 h-4 w-4" viewBox="0 0 24 24" aria-hidden="true">
+              <path fill="#4285F4" d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92a5.06 5.06 0 0 1-2.2 3.32v2.76h3.57c2.08-1.92 3.27-4.74 3.27-8.09z" />
+              <path fill="#34A853" d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.76c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84A11 11 0 0 0 12 23z" />
+              <path fill="#FBBC05" d="M5.84 14.11A6.6 6.6 0 0 1 5.5 12c0-.73.13-1.44.34-2.11V7.05H2.18A11 11 0 0 0 1 12c0 1.78.43 3.46 1.18 4.95l3.66-2.84z" />
+              <path fill="#EA4335" d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1A11 11 0 0 0 2.18 7.05l3.66 2.84C6.71 7.31 9.14 5.38 12 5.38z" />
+            </svg>
+            {isRedirectingToGoogle ? "Redirecting..." : "Continue with Google"}
+          </Button>
+
           <div className="mt-6 text-center text-sm text-muted-foreground">
             {mode === "login" ? (
               <button